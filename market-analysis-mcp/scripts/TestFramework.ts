@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as winston from 'winston';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { AppConfig } from '../src/types/appConfig';
 import { CacheManager } from '../src/utils/cache';
 import { RateLimiter } from '../src/utils/rateLimiter';
 import { RelevanceScorer } from '../src/services/relevanceScorer';
@@ -45,21 +47,16 @@ export interface TestSuite {
 }
 
 export class TestFramework {
-  private static config: any;
+  private static config: AppConfig;
   private static logger: winston.Logger;
 
   /**
-   * Load configuration from sources.json
+   * Load the merged server configuration
    */
-  static loadConfig(): any {
+  static loadConfig(): AppConfig {
     if (this.config) return this.config;
-    
-    const configPath = path.join(process.cwd(), 'config/sources.json');
-    if (!fs.existsSync(configPath)) {
-      throw new Error('Configuration file not found: config/sources.json');
-    }
 
-    this.config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    this.config = ConfigManager.load({ argv: [] }).getConfig();
     return this.config;
   }
 
@@ -93,7 +90,8 @@ export class TestFramework {
   static async initializeServices(testName: string = 'TestFramework'): Promise<TestServices> {
     console.log(`🔧 Initializing services for ${testName}...`);
     
-    const config = this.loadConfig();
+    const settings = this.loadConfig();
+    const config = settings.sources;
     const logger = this.createLogger(testName);
     
     // Initialize core utilities
@@ -111,12 +109,13 @@ export class TestFramework {
       { sources: config.news.sources },
       cache,
       rateLimiter,
-      logger
+      logger,
+      settings.newsApiKeys
     );
     console.log('✅ News service initialized');
 
     const podcastService = new PodcastService(
-      { sources: config.podcasts },
+      config.podcasts,
       cache,
       rateLimiter,
       logger
@@ -126,7 +125,7 @@ export class TestFramework {
     let gmailService: GmailService | undefined;
     try {
       if (config.gmail && config.gmail.enabled) {
-        gmailService = new GmailService(config.gmail, cache, rateLimiter, logger);
+        gmailService = new GmailService(config.gmail, cache, rateLimiter, logger, settings.gmail);
         console.log('✅ Gmail service initialized');
       }
     } catch (error) {
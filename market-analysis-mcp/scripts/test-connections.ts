@@ -4,11 +4,10 @@ import dotenv from 'dotenv';
 import { NewsService } from '../src/services/newsService';
 import { PodcastService } from '../src/services/podcastService';
 import { GmailService } from '../src/services/gmailService';
+import { ConfigManager } from '../src/config/ConfigManager';
 import { CacheManager } from '../src/utils/cache';
 import { RateLimiter } from '../src/utils/rateLimiter';
 import winston from 'winston';
-import fs from 'fs/promises';
-import path from 'path';
 
 // Load environment variables
 dotenv.config();
@@ -20,10 +19,8 @@ const logger = winston.createLogger({
   transports: [new winston.transports.Console()]
 });
 
-async function loadConfig() {
-  const configPath = path.join(process.cwd(), 'config', 'sources.json');
-  const configData = await fs.readFile(configPath, 'utf8');
-  return JSON.parse(configData);
+function loadConfig() {
+  return ConfigManager.load({ argv: [] }).getConfig();
 }
 
 async function testNewsConnections(newsService: NewsService, config: any) {
@@ -202,16 +199,17 @@ async function main() {
     }
 
     // Load configuration
-    const config = await loadConfig();
+    const settings = loadConfig();
+    const config = settings.sources;
     console.log('\n✅ Configuration loaded successfully');
 
     // Initialize services
-    const cache = new CacheManager(process.env.DATABASE_PATH);
+    const cache = new CacheManager(settings.database.path);
     const rateLimiter = new RateLimiter();
 
-    const newsService = new NewsService(config.news, cache, rateLimiter, logger);
+    const newsService = new NewsService(config.news, cache, rateLimiter, logger, settings.newsApiKeys);
     const podcastService = new PodcastService(config.podcasts, cache, rateLimiter, logger);
-    const gmailService = new GmailService(config.gmail, cache, rateLimiter, logger);
+    const gmailService = new GmailService(config.gmail, cache, rateLimiter, logger, settings.gmail);
 
     // Test cache
     const cacheResults = await testCache(cache);
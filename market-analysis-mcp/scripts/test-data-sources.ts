@@ -2,6 +2,8 @@ import { NewsService } from '../src/services/newsService';
 import { PodcastService } from '../src/services/podcastService';
 import { GmailService } from '../src/services/gmailService';
 import { RelevanceScorer } from '../src/services/relevanceScorer';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { AppConfig } from '../src/types/appConfig';
 import { CacheManager } from '../src/utils/cache';
 import { RateLimiter } from '../src/utils/rateLimiter';
 import { createLogger } from 'winston';
@@ -21,6 +23,7 @@ class ComprehensiveDataSourceTester {
   private cache: CacheManager;
   private rateLimiter: RateLimiter;
   private relevanceScorer: RelevanceScorer;
+  private settings: AppConfig;
   private config: any;
   private results: TestResult[] = [];
 
@@ -35,7 +38,8 @@ class ComprehensiveDataSourceTester {
     this.rateLimiter = new RateLimiter();
     
     // Load configuration
-    this.config = JSON.parse(fs.readFileSync('./config/sources.json', 'utf-8'));
+    this.settings = ConfigManager.load({ argv: [] }).getConfig();
+    this.config = this.settings.sources;
     this.relevanceScorer = new RelevanceScorer(this.config.relevanceScoring);
   }
 
@@ -66,7 +70,8 @@ class ComprehensiveDataSourceTester {
       { sources: this.config.news.sources },
       this.cache,
       this.rateLimiter,
-      this.logger
+      this.logger,
+      this.settings.newsApiKeys
     );
 
     // Test individual news sources
@@ -257,7 +262,8 @@ class ComprehensiveDataSourceTester {
       this.config.gmail,
       this.cache,  
       this.rateLimiter,
-      this.logger
+      this.logger,
+      this.settings.gmail
     );
 
     console.log(`\n🔍 Testing Gmail with ${this.config.gmail.targetSenders.length} target senders...`);
@@ -7,11 +7,10 @@ import { RelevanceScorer } from '../src/services/relevanceScorer';
 import { NewsTools } from '../src/tools/news';
 import { PodcastTools } from '../src/tools/podcasts';
 import { UnifiedTools } from '../src/tools/unified';
+import { ConfigManager } from '../src/config/ConfigManager';
 import { CacheManager } from '../src/utils/cache';
 import { RateLimiter } from '../src/utils/rateLimiter';
 import winston from 'winston';
-import fs from 'fs/promises';
-import path from 'path';
 
 // Load environment variables
 dotenv.config();
@@ -22,10 +21,8 @@ const logger = winston.createLogger({
   transports: [new winston.transports.Console()]
 });
 
-async function loadConfig() {
-  const configPath = path.join(process.cwd(), 'config', 'sources.json');
-  const configData = await fs.readFile(configPath, 'utf8');
-  return JSON.parse(configData);
+function loadConfig() {
+  return ConfigManager.load({ argv: [] }).getConfig();
 }
 
 async function testMCPTools() {
@@ -34,7 +31,8 @@ async function testMCPTools() {
     console.log('=' .repeat(50));
 
     // Load configuration
-    const config = await loadConfig();
+    const settings = loadConfig();
+    const config = settings.sources;
     console.log('✅ Configuration loaded');
 
     // Initialize services
@@ -45,7 +43,7 @@ async function testMCPTools() {
     console.log('✅ Cache initialized');
 
     const relevanceScorer = new RelevanceScorer(config.relevanceScoring);
-    const newsService = new NewsService(config.news, cache, rateLimiter, logger);
+    const newsService = new NewsService(config.news, cache, rateLimiter, logger, settings.newsApiKeys);
     const podcastService = new PodcastService(config.podcasts, cache, rateLimiter, logger);
 
     // Initialize tools
@@ -4,6 +4,7 @@ import { GmailService } from '../src/services/gmailService';
 import { RelevanceScorer } from '../src/services/relevanceScorer';
 import { UnifiedTools } from '../src/tools/unified';
 import { SearchTools } from '../src/tools/search';
+import { ConfigManager } from '../src/config/ConfigManager';
 import { CacheManager } from '../src/utils/cache';
 import { RateLimiter } from '../src/utils/rateLimiter';
 import { createLogger } from 'winston';
@@ -25,7 +26,8 @@ class MorningWorkflowTester {
     const rateLimiter = new RateLimiter();
     
     // Load configuration
-    const config = JSON.parse(fs.readFileSync('./config/sources.json', 'utf-8'));
+    const settings = ConfigManager.load({ argv: [] }).getConfig();
+    const config = settings.sources;
     const relevanceScorer = new RelevanceScorer(config.relevanceScoring);
 
     // Initialize services
@@ -33,7 +35,8 @@ class MorningWorkflowTester {
       { sources: config.news.sources },
       cache,
       rateLimiter,
-      this.logger
+      this.logger,
+      settings.newsApiKeys
     );
 
     const podcastService = new PodcastService(
@@ -47,7 +50,8 @@ class MorningWorkflowTester {
       config.gmail,
       cache,
       rateLimiter,
-      this.logger
+      this.logger,
+      settings.gmail
     );
 
     this.unifiedTools = new UnifiedTools(
@@ -5,13 +5,12 @@ import { NewsService } from '../src/services/newsService';
 import { PodcastService } from '../src/services/podcastService';
 import { GmailService } from '../src/services/gmailService';
 import { RelevanceScorer } from '../src/services/relevanceScorer';
+import { ConfigManager } from '../src/config/ConfigManager';
 import { CacheManager } from '../src/utils/cache';
 import { RateLimiter } from '../src/utils/rateLimiter';
 import { SourcesConfig } from '../src/types/marketData';
 import { writeFileSync } from 'fs';
 import winston from 'winston';
-import fs from 'fs/promises';
-import path from 'path';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -50,20 +49,19 @@ async function testMCPWith24HTimeframe() {
         });
 
         // Load configuration
-        const configPath = path.join(process.cwd(), 'config', 'sources.json');
-        const configData = await fs.readFile(configPath, 'utf8');
-        const config: SourcesConfig = JSON.parse(configData);
+        const settings = ConfigManager.load({ argv: [] }).getConfig();
+        const config: SourcesConfig = settings.sources;
 
         // Initialize cache and rate limiter
-        const cache = new CacheManager(process.env.DATABASE_PATH);
+        const cache = new CacheManager(settings.database.path);
         await cache.initializeDatabase();
         const rateLimiter = new RateLimiter();
 
         // Initialize services
         const relevanceScorer = new RelevanceScorer(config.relevanceScoring);
-        const newsService = new NewsService(config.news, cache, rateLimiter, logger);
+        const newsService = new NewsService(config.news, cache, rateLimiter, logger, settings.newsApiKeys);
         const podcastService = new PodcastService(config.podcasts, cache, rateLimiter, logger);
-        const gmailService = new GmailService(config.gmail, cache, rateLimiter, logger);
+        const gmailService = new GmailService(config.gmail, cache, rateLimiter, logger, settings.gmail);
 
         // Initialize unified tools
         const unifiedTools = new UnifiedTools(
@@ -3,16 +3,18 @@ import { PodcastService } from '../src/services/podcastService';
 import { GmailService } from '../src/services/gmailService';
 import { RelevanceScorer } from '../src/services/relevanceScorer';
 import { UnifiedTools } from '../src/tools/unified';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { AppConfig } from '../src/types/appConfig';
 import { CacheManager } from '../src/utils/cache';
 import { RateLimiter } from '../src/utils/rateLimiter';
 import { createLogger } from 'winston';
-import * as fs from 'fs';
 
 class UnifiedSnapshotTester {
   private logger: any;
   private cache: CacheManager;
   private rateLimiter: RateLimiter;
   private relevanceScorer: RelevanceScorer;
+  private settings: AppConfig;
   private config: any;
   private unifiedTools: UnifiedTools;
 
@@ -27,7 +29,8 @@ class UnifiedSnapshotTester {
     this.rateLimiter = new RateLimiter();
     
     // Load configuration
-    this.config = JSON.parse(fs.readFileSync('./config/sources.json', 'utf-8'));
+    this.settings = ConfigManager.load({ argv: [] }).getConfig();
+    this.config = this.settings.sources;
     this.relevanceScorer = new RelevanceScorer(this.config.relevanceScoring);
 
     // Initialize services
@@ -35,7 +38,8 @@ class UnifiedSnapshotTester {
       { sources: this.config.news.sources },
       this.cache,
       this.rateLimiter,
-      this.logger
+      this.logger,
+      this.settings.newsApiKeys
     );
 
     const podcastService = new PodcastService(
@@ -49,7 +53,8 @@ class UnifiedSnapshotTester {
       this.config.gmail,
       this.cache,
       this.rateLimiter,
-      this.logger
+      this.logger,
+      this.settings.gmail
     );
 
     this.unifiedTools = new UnifiedTools(
@@ -1,103 +1,245 @@
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
-
-export interface AppConfig {
-  environment: 'development' | 'production' | 'test';
-  port: number;
-  database: {
-    path: string;
-    options: any;
-  };
-  apis: {
-    newsApi?: {
-      key: string;
-      baseUrl: string;
-      rateLimit: number;
-    };
-    gmail?: {
-      clientId: string;
-      clientSecret: string;
-      redirectUri: string;
-    };
-    podcast?: {
-      baseUrl: string;
-      rateLimit: number;
-    };
-  };
-  cache: {
-    ttl: number;
-    maxSize: number;
-  };
-  logging: {
-    level: string;
-    filePath: string;
-  };
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { SchemaValidator } from '../utils/SchemaValidator';
+import { JsonSchema } from '../types/toolDefinition';
+import { SourcesConfig } from '../types/marketData';
+import { AppConfig, ConfigLayer, ConfigSetting, Environment } from '../types/appConfig';
+import { SourcesConfigLoader } from './sourcesConfig';
+import { NewsApiAdapter } from '../services/newsAdapters/newsApiAdapter';
+
+export interface ConfigLoadOptions {
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+  configDir?: string; // Holds {environment}.json and sources.json
 }
 
+// How an environment variable or command line flag maps onto a setting
+interface Binding {
+  path: string;
+  parse?: (raw: string) => unknown;
+}
+
+interface Origin {
+  layer: ConfigLayer;
+  origin: string;
+}
+
+type Settings = Omit<AppConfig, 'environment' | 'sources'>;
+
+const ENVIRONMENTS: Environment[] = ['development', 'production', 'test'];
+const LOG_LEVELS = ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'];
+
+const lowercase = (raw: string): string => raw.toLowerCase();
+// Unparseable values are passed through so validation can name them
+const toNumber = (raw: string): unknown => (/^-?\d+(\.\d+)?$/.test(raw.trim()) ? Number(raw) : raw);
+const toBoolean = (raw: string): unknown => {
+  const value = raw.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(value)) return true;
+  if (['false', '0', 'no'].includes(value)) return false;
+  return raw;
+};
+
+const DEFAULTS: Settings = {
+  server: { transport: 'stdio', port: 3001, host: '127.0.0.1' },
+  database: { path: './data/market_data.db' },
+  logging: { level: 'info', filePath: './logs/market-mcp.log' },
+  ingestion: { enabled: false },
+  fetching: { concurrency: 4, sourceTimeoutMs: 20000 },
+  sentiment: { providerScores: true },
+  alerts: { logPath: './data/alerts.jsonl' },
+  newsApiKeys: {},
+  gmail: { redirectUri: 'http://localhost:3002/oauth/callback' },
+  transcription: { whisperModel: 'whisper-1' }
+};
+
+const ENV_BINDINGS: Record<string, Binding> = {
+  MCP_TRANSPORT: { path: 'server.transport', parse: lowercase },
+  MCP_SERVER_PORT: { path: 'server.port', parse: toNumber },
+  MCP_HTTP_HOST: { path: 'server.host' },
+  MCP_AUTH_TOKENS: { path: 'server.authTokens' },
+  MCP_ADMIN_CLIENTS: { path: 'server.adminClients' },
+  DATABASE_PATH: { path: 'database.path' },
+  LOG_LEVEL: { path: 'logging.level', parse: lowercase },
+  INGESTION_ENABLED: { path: 'ingestion.enabled', parse: toBoolean },
+  FETCH_CONCURRENCY: { path: 'fetching.concurrency', parse: toNumber },
+  SOURCE_TIMEOUT_MS: { path: 'fetching.sourceTimeoutMs', parse: toNumber },
+  SENTIMENT_PROVIDER_SCORES: { path: 'sentiment.providerScores', parse: toBoolean },
+  ALERT_WEBHOOK_URL: { path: 'alerts.webhookUrl' },
+  ALERT_LOG_PATH: { path: 'alerts.logPath' },
+  NEWSAPI_ORG_API_KEY: { path: 'newsApiKeys.newsApiOrg' },
+  ALPHA_VANTAGE_API_KEY: { path: 'newsApiKeys.alphaVantage' },
+  FINANCIAL_MODELING_PREP_API_KEY: { path: 'newsApiKeys.financialModelingPrep' },
+  FINNHUB_API_KEY: { path: 'newsApiKeys.finnhub' },
+  POLYGON_API_KEY: { path: 'newsApiKeys.polygon' },
+  MARKETAUX_API_KEY: { path: 'newsApiKeys.marketaux' },
+  BENZINGA_API_KEY: { path: 'newsApiKeys.benzinga' },
+  GOOGLE_CLIENT_ID: { path: 'gmail.clientId' },
+  GOOGLE_CLIENT_SECRET: { path: 'gmail.clientSecret' },
+  GOOGLE_REFRESH_TOKEN: { path: 'gmail.refreshToken' },
+  OPENAI_API_KEY: { path: 'transcription.openaiApiKey' },
+  OPENAI_WHISPER_MODEL: { path: 'transcription.whisperModel' },
+  ASSEMBLYAI_API_KEY: { path: 'transcription.assemblyAiApiKey' },
+  LOCAL_WHISPER_COMMAND: { path: 'transcription.localWhisperCommand' }
+};
+
+const CLI_BINDINGS: Record<string, Binding> = {
+  transport: { path: 'server.transport', parse: lowercase },
+  port: { path: 'server.port', parse: toNumber },
+  host: { path: 'server.host' },
+  database: { path: 'database.path' },
+  'log-level': { path: 'logging.level', parse: lowercase }
+};
+
+const SECRET_PATHS = new Set([
+  'server.authTokens',
+  'gmail.clientSecret',
+  'gmail.refreshToken',
+  'transcription.openaiApiKey',
+  'transcription.assemblyAiApiKey'
+]);
+
+const TEXT: JsonSchema = { type: 'string', minLength: 1 };
+const SECTION = (properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema => ({
+  type: 'object',
+  additionalProperties: false,
+  required,
+  properties
+});
+
+// Environment files may only set known settings, so a misspelt key fails loudly
+const SETTINGS_SCHEMA: JsonSchema = SECTION({
+  server: SECTION({
+    transport: { type: 'string', enum: ['stdio', 'http'] },
+    port: { type: 'integer', minimum: 0, maximum: 65535 },
+    host: TEXT,
+    authTokens: TEXT,
+    adminClients: TEXT
+  }, ['transport', 'port', 'host']),
+  database: SECTION({ path: TEXT }, ['path']),
+  logging: SECTION({ level: { type: 'string', enum: LOG_LEVELS }, filePath: TEXT }, ['level', 'filePath']),
+  ingestion: SECTION({ enabled: { type: 'boolean' } }, ['enabled']),
+  fetching: SECTION({
+    concurrency: { type: 'integer', minimum: 1, maximum: 32 },
+    sourceTimeoutMs: { type: 'integer', minimum: 1000 }
+  }, ['concurrency', 'sourceTimeoutMs']),
+  sentiment: SECTION({ providerScores: { type: 'boolean' } }, ['providerScores']),
+  alerts: SECTION({ webhookUrl: { type: 'string', pattern: '^https?://\\S+$' }, logPath: TEXT }, ['logPath']),
+  newsApiKeys: SECTION({
+    newsApiOrg: TEXT,
+    alphaVantage: TEXT,
+    financialModelingPrep: TEXT,
+    finnhub: TEXT,
+    polygon: TEXT,
+    marketaux: TEXT,
+    benzinga: TEXT,
+    bearer: { type: 'object' }
+  }),
+  gmail: SECTION({ clientId: TEXT, clientSecret: TEXT, refreshToken: TEXT, redirectUri: TEXT }, ['redirectUri']),
+  transcription: SECTION({
+    openaiApiKey: TEXT,
+    whisperModel: TEXT,
+    assemblyAiApiKey: TEXT,
+    localWhisperCommand: TEXT
+  }, ['whisperModel'])
+});
+
+/**
+ * The server's single source of configuration. Settings are merged from, in
+ * increasing precedence: built-in defaults, config/{environment}.json,
+ * config/sources.json, environment variables and command line flags. The
+ * layer that set each value is kept so operators can see why a setting has
+ * the value it has.
+ */
 export class ConfigManager {
-  private static instance: ConfigManager;
-  private config: AppConfig;
+  static readonly DEFAULT_DIR = path.join(process.cwd(), 'config');
+
+  readonly sourcesPath: string;
 
-  private constructor() {
-    this.config = this.loadConfig();
+  private constructor(
+    private config: AppConfig,
+    private origins: Map<string, Origin>,
+    configDir: string
+  ) {
+    this.sourcesPath = path.join(configDir, 'sources.json');
   }
 
-  static getInstance(): ConfigManager {
-    if (!ConfigManager.instance) {
-      ConfigManager.instance = new ConfigManager();
+  static load(options: ConfigLoadOptions = {}): ConfigManager {
+    const argv = options.argv ?? process.argv.slice(2);
+    const env = options.env ?? process.env;
+    const configDir = options.configDir ?? ConfigManager.DEFAULT_DIR;
+
+    const environment = (env.NODE_ENV || 'development') as Environment;
+    if (!ENVIRONMENTS.includes(environment)) {
+      throw new Error(`NODE_ENV must be one of ${ENVIRONMENTS.join(', ')} (got "${env.NODE_ENV}")`);
     }
-    return ConfigManager.instance;
-  }
-
-  private loadConfig(): AppConfig {
-    const environment = process.env.NODE_ENV || 'development';
-    const configPath = join(process.cwd(), 'config', `${environment}.json`);
-    
-    // Default configuration
-    const defaultConfig: AppConfig = {
-      environment: environment as 'development' | 'production' | 'test',
-      port: parseInt(process.env.PORT || '3000'),
-      database: {
-        path: './data/market_data.db',
-        options: {}
-      },
-      apis: {
-        newsApi: {
-          key: process.env.NEWS_API_KEY || '',
-          baseUrl: 'https://newsapi.org/v2',
-          rateLimit: 100
-        },
-        gmail: {
-          clientId: process.env.GMAIL_CLIENT_ID || '',
-          clientSecret: process.env.GMAIL_CLIENT_SECRET || '',
-          redirectUri: process.env.GMAIL_REDIRECT_URI || 'http://localhost:3000/auth/callback'
-        },
-        podcast: {
-          baseUrl: 'https://api.podcastindex.org',
-          rateLimit: 50
-        }
-      },
-      cache: {
-        ttl: 300000, // 5 minutes
-        maxSize: 1000
-      },
-      logging: {
-        level: process.env.LOG_LEVEL || 'info',
-        filePath: './logs/market-mcp.log'
-      }
+
+    // Sections without defaults (API keys) still need to exist for the schema
+    const settings: Record<string, unknown> = JSON.parse(JSON.stringify(DEFAULTS));
+    const origins = new Map<string, Origin>([
+      ['environment', env.NODE_ENV ? { layer: 'env', origin: 'NODE_ENV' } : { layer: 'default', origin: 'built-in default' }]
+    ]);
+    const set = (settingPath: string, value: unknown, origin: Origin): void => {
+      ConfigManager.assign(settings, settingPath, value);
+      origins.set(settingPath, origin);
     };
 
-    // Try to load environment-specific config
-    if (existsSync(configPath)) {
-      try {
-        const fileConfig = JSON.parse(readFileSync(configPath, 'utf8'));
-        return { ...defaultConfig, ...fileConfig };
-      } catch (error) {
-        console.warn(`Failed to load config from ${configPath}, using defaults:`, error);
-      }
+    ConfigManager.leaves(DEFAULTS).forEach(([settingPath, value]) => {
+      set(settingPath, value, { layer: 'default', origin: 'built-in default' });
+    });
+
+    const environmentFile = `${environment}.json`;
+    const environmentPath = path.join(configDir, environmentFile);
+    if (existsSync(environmentPath)) {
+      ConfigManager.leaves(ConfigManager.readJson(environmentPath, environmentFile)).forEach(([settingPath, value]) => {
+        set(settingPath, value, { layer: 'environment-file', origin: `config/${environmentFile}` });
+      });
+    }
+
+    for (const [name, binding] of Object.entries(ENV_BINDINGS)) {
+      const raw = env[name];
+      // An empty variable, as left by copying .env.example, means "not set"
+      if (raw === undefined || raw.trim() === '') continue;
+      set(binding.path, binding.parse ? binding.parse(raw) : raw, { layer: 'env', origin: name });
+    }
+
+    // Sources with auth "bearer" read {SOURCE_NAME}_API_KEY, so collect every other API key
+    for (const [name, raw] of Object.entries(env)) {
+      if (!name.endsWith('_API_KEY') || ENV_BINDINGS[name] || !raw || raw.trim() === '') continue;
+      set(`newsApiKeys.bearer.${name}`, raw, { layer: 'env', origin: name });
+    }
+
+    for (const [flag, binding] of Object.entries(CLI_BINDINGS)) {
+      const raw = ConfigManager.readFlag(argv, flag);
+      if (raw === undefined) continue;
+      set(binding.path, binding.parse ? binding.parse(raw) : raw, { layer: 'cli', origin: `--${flag}` });
+    }
+
+    const errors = SchemaValidator.validate(SETTINGS_SCHEMA, settings, '', 'setting').map(error => {
+      const origin = ConfigManager.findOrigin(origins, error.replace(/^(missing required|unknown) setting /, '').split(' ')[0]);
+      return origin ? `${error} [${origin.origin}]` : error;
+    });
+    if (errors.length > 0) {
+      throw new Error(`Configuration is invalid:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    }
+
+    const sourcesPath = path.join(configDir, 'sources.json');
+    const sources = SourcesConfigLoader.parse(ConfigManager.readText(sourcesPath), 'sources.json');
+    origins.set('sources', { layer: 'sources-file', origin: 'config/sources.json' });
+
+    const config = { ...(settings as unknown as Settings), environment, sources };
+
+    // An API source without its key fails every poll, so refuse to start with one enabled
+    const missingKeys = sources.news.sources
+      .filter(source => source.enabled && source.type === 'api')
+      .flatMap(source => {
+        const keyEnv = NewsApiAdapter.forSource(source).missingKey(config.newsApiKeys);
+        return keyEnv ? [`news source "${source.name}" is enabled but ${keyEnv} is not set; set it or disable the source`] : [];
+      });
+    if (missingKeys.length > 0) {
+      throw new Error(`Configuration is invalid:\n${missingKeys.map(error => `- ${error}`).join('\n')}`);
     }
 
-    return defaultConfig;
+    return new ConfigManager(config, origins, configDir);
   }
 
   getConfig(): AppConfig {
@@ -108,6 +250,45 @@ export class ConfigManager {
     return this.config[key];
   }
 
+  /**
+   * Swap in a reloaded sources.json; services are reconfigured by the caller
+   */
+  updateSources(sources: SourcesConfig): void {
+    this.config.sources = sources;
+  }
+
+  /**
+   * Every setting with its value and the layer that set it. Secrets are redacted
+   * and sources.json is summarised as one entry.
+   */
+  describe(): ConfigSetting[] {
+    const settings: ConfigSetting[] = [];
+
+    for (const [settingPath, origin] of [...this.origins.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      const value = settingPath === 'sources'
+        ? `${this.config.sources.news.sources.length} news, ${this.config.sources.podcasts.length} podcast sources`
+        : ConfigManager.lookup(this.config, settingPath);
+      settings.push({
+        path: settingPath,
+        value: ConfigManager.isSecret(settingPath) ? '********' : value,
+        ...origin
+      });
+    }
+
+    return settings;
+  }
+
+  /**
+   * describe() as aligned text, one setting per line
+   */
+  format(): string {
+    const settings = this.describe();
+    const width = Math.max(...settings.map(setting => setting.path.length));
+    return settings
+      .map(setting => `${setting.path.padEnd(width)}  ${JSON.stringify(setting.value)}  (${setting.layer}: ${setting.origin})`)
+      .join('\n');
+  }
+
   isProduction(): boolean {
     return this.config.environment === 'production';
   }
@@ -119,4 +300,91 @@ export class ConfigManager {
   isTest(): boolean {
     return this.config.environment === 'test';
   }
-}
\ No newline at end of file
+
+  /**
+   * Value of --name value or --name=value; the last occurrence wins
+   */
+  private static readFlag(argv: string[], name: string): string | undefined {
+    let value: string | undefined;
+    argv.forEach((arg, index) => {
+      if (arg === `--${name}`) {
+        const next = argv[index + 1];
+        if (next === undefined || next.startsWith('--')) {
+          throw new Error(`--${name} needs a value`);
+        }
+        value = next;
+      } else if (arg.startsWith(`--${name}=`)) {
+        value = arg.slice(name.length + 3);
+      }
+    });
+    return value;
+  }
+
+  /**
+   * Origin of a setting, or of the first value set beneath it (an unknown section)
+   */
+  private static findOrigin(origins: Map<string, Origin>, settingPath: string): Origin | undefined {
+    const exact = origins.get(settingPath);
+    if (exact) return exact;
+    const nested = [...origins.keys()].find(key => key.startsWith(`${settingPath}.`));
+    return nested ? origins.get(nested) : undefined;
+  }
+
+  private static isSecret(settingPath: string): boolean {
+    return SECRET_PATHS.has(settingPath) || settingPath.startsWith('newsApiKeys.');
+  }
+
+  private static readText(filePath: string): string {
+    try {
+      return readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new Error(`Cannot read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private static readJson(filePath: string, fileName: string): Record<string, unknown> {
+    let value: unknown;
+    try {
+      value = JSON.parse(ConfigManager.readText(filePath));
+    } catch (error) {
+      throw new Error(`${fileName} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!ConfigManager.isPlainObject(value)) {
+      throw new Error(`${fileName} must contain a JSON object`);
+    }
+    return value;
+  }
+
+  /**
+   * Flatten an object into [dotted path, value] pairs; arrays are single values
+   */
+  private static leaves(value: object, prefix: string = ''): Array<[string, unknown]> {
+    return Object.entries(value).flatMap(([key, child]): Array<[string, unknown]> => {
+      const childPath = `${prefix}${key}`;
+      return ConfigManager.isPlainObject(child)
+        ? ConfigManager.leaves(child, `${childPath}.`)
+        : [[childPath, child]];
+    });
+  }
+
+  private static assign(target: Record<string, unknown>, settingPath: string, value: unknown): void {
+    const keys = settingPath.split('.');
+    let node = target;
+    for (const key of keys.slice(0, -1)) {
+      if (!ConfigManager.isPlainObject(node[key])) node[key] = {};
+      node = node[key] as Record<string, unknown>;
+    }
+    node[keys[keys.length - 1]] = value;
+  }
+
+  private static lookup(source: object, settingPath: string): unknown {
+    return settingPath.split('.').reduce<unknown>(
+      (node, key) => (ConfigManager.isPlainObject(node) ? node[key] : undefined),
+      source
+    );
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
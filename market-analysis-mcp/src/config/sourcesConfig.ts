@@ -0,0 +1,410 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from 'winston';
+import { SchemaValidator } from '../utils/SchemaValidator';
+import { JsonSchema } from '../types/toolDefinition';
+import { NewsSource, SentimentLabel, SourcesConfig } from '../types/marketData';
+import { NEWS_ADAPTER_PRESETS } from '../services/newsAdapters/adapterPresets';
+
+const RATE_LIMIT_PATTERN = '^[1-9][0-9]*/(second|minute|hour|day)$';
+const URL_PATTERN = '^https?://\\S+$';
+
+const NAME: JsonSchema = { type: 'string', minLength: 1, maxLength: 100 };
+const STRING_LIST: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+const KEYWORDS: JsonSchema = { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } };
+const WEIGHT: JsonSchema = { type: 'number', minimum: 0, maximum: 100 };
+const SENTIMENT_LABELS: SentimentLabel[] = ['positive', 'negative', 'neutral'];
+const PATH: JsonSchema = { type: 'string', minLength: 1 };
+
+const NEWS_ADAPTER: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    preset: { type: 'string', enum: Object.keys(NEWS_ADAPTER_PRESETS) },
+    apiKeyEnv: { type: 'string', pattern: '^[A-Z][A-Z0-9_]*$' },
+    keyHosts: { type: 'array', items: { type: 'string', minLength: 1 } },
+    params: { type: 'object' },
+    headers: { type: 'object' },
+    symbolQuery: {
+      type: 'object',
+      required: ['param'],
+      additionalProperties: false,
+      properties: {
+        param: PATH,
+        separator: { type: 'string' },
+        endpoint: { type: 'string', pattern: URL_PATTERN },
+        params: { type: 'object' }
+      }
+    },
+    pagination: {
+      type: 'object',
+      required: ['type'],
+      additionalProperties: false,
+      properties: {
+        type: { type: 'string', enum: ['page', 'cursor', 'next-url'] },
+        param: PATH,
+        start: { type: 'integer', minimum: 0 },
+        next: PATH,
+        maxPages: { type: 'integer', minimum: 1, maximum: 50 }
+      }
+    },
+    response: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        items: PATH,
+        id: PATH,
+        idPrefix: PATH,
+        title: PATH,
+        url: PATH,
+        timestamp: PATH,
+        author: PATH,
+        content: PATH,
+        symbols: PATH,
+        sentiment: {
+          type: 'object',
+          required: ['provider'],
+          additionalProperties: false,
+          properties: {
+            provider: PATH,
+            label: PATH,
+            labels: { type: 'object' },
+            score: PATH,
+            symbols: {
+              type: 'object',
+              required: ['path', 'symbol'],
+              additionalProperties: false,
+              properties: { path: PATH, symbol: PATH, score: PATH, label: PATH, relevance: PATH }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+// Sources may carry extra documentation fields (description), so objects stay open
+export const SOURCES_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['news', 'podcasts', 'gmail', 'relevanceScoring'],
+  properties: {
+    news: {
+      type: 'object',
+      required: ['sources'],
+      properties: {
+        sources: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'type', 'endpoint', 'rateLimit', 'enabled'],
+            properties: {
+              name: NAME,
+              type: { type: 'string', enum: ['api', 'rss'] },
+              endpoint: { type: 'string', pattern: URL_PATTERN },
+              auth: { type: 'string', enum: ['bearer', 'api_key', 'none'] },
+              rateLimit: { type: 'string', pattern: RATE_LIMIT_PATTERN },
+              enabled: { type: 'boolean' },
+              adapter: NEWS_ADAPTER,
+              queryParams: { type: 'object' },
+              fullText: {
+                type: 'object',
+                required: ['enabled'],
+                additionalProperties: false,
+                properties: {
+                  enabled: { type: 'boolean' },
+                  maxArticles: { type: 'integer', minimum: 1, maximum: 50 },
+                  minWords: { type: 'integer', minimum: 1 }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    podcasts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'rssUrl', 'transcriptionService', 'enabled'],
+        properties: {
+          name: NAME,
+          rssUrl: { type: 'string', pattern: URL_PATTERN },
+          transcriptionService: { type: 'string', enum: ['openai-whisper', 'assembly-ai', 'local-whisper'] },
+          enabled: { type: 'boolean' }
+        }
+      }
+    },
+    gmail: {
+      type: 'object',
+      required: ['targetSenders', 'enabled'],
+      properties: {
+        targetSenders: STRING_LIST,
+        labels: STRING_LIST,
+        excludePatterns: STRING_LIST,
+        enabled: { type: 'boolean' }
+      }
+    },
+    relevanceScoring: {
+      type: 'object',
+      required: ['marketKeywords', 'weights'],
+      properties: {
+        marketKeywords: {
+          type: 'object',
+          required: ['high', 'medium', 'low'],
+          properties: { high: KEYWORDS, medium: KEYWORDS, low: KEYWORDS }
+        },
+        weights: {
+          type: 'object',
+          required: ['marketKeywords', 'stockSymbols', 'sourceAuthority', 'recency'],
+          additionalProperties: false,
+          properties: {
+            marketKeywords: WEIGHT,
+            stockSymbols: WEIGHT,
+            sourceAuthority: WEIGHT,
+            recency: WEIGHT
+          }
+        }
+      }
+    }
+  }
+};
+
+export type SourcesConfigListener = (config: SourcesConfig) => void | Promise<void>;
+
+export interface SourcesConfigWatcherOptions {
+  debounceMs: number; // Editors write a file in several steps; reload once they settle
+}
+
+const DEFAULT_WATCHER_OPTIONS: SourcesConfigWatcherOptions = {
+  debounceMs: 500
+};
+
+export class SourcesConfigLoader {
+  static readonly DEFAULT_PATH = path.join(process.cwd(), 'config', 'sources.json');
+
+  static async load(configPath: string = SourcesConfigLoader.DEFAULT_PATH): Promise<SourcesConfig> {
+    const text = await fs.promises.readFile(configPath, 'utf8');
+    return SourcesConfigLoader.parse(text, path.basename(configPath));
+  }
+
+  static parse(text: string, fileName: string = 'sources.json'): SourcesConfig {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`${fileName} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const errors = SourcesConfigLoader.validate(value);
+    if (errors.length > 0) {
+      throw new Error(`${fileName} is invalid:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    }
+    return value as SourcesConfig;
+  }
+
+  /**
+   * Validate and write a config. The file is replaced by a rename, so readers
+   * (and the watcher) never see a half-written file.
+   */
+  static async save(configPath: string, config: SourcesConfig): Promise<void> {
+    const errors = SourcesConfigLoader.validate(config);
+    if (errors.length > 0) {
+      throw new Error(`${path.basename(configPath)} would be invalid:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    }
+
+    const tempPath = `${configPath}.${process.pid}.tmp`;
+    try {
+      await fs.promises.writeFile(tempPath, `${JSON.stringify(config, null, 2)}\n`, 'utf8');
+      await fs.promises.rename(tempPath, configPath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Every problem in a parsed sources config, or an empty array when it is valid
+   */
+  static validate(value: unknown): string[] {
+    const errors = SchemaValidator.validate(SOURCES_CONFIG_SCHEMA, value, '', 'field');
+    if (errors.length > 0) return errors;
+
+    // Source names key the rate limiter, the item store and ingestion state
+    const config = value as SourcesConfig;
+    return [
+      ...SourcesConfigLoader.findDuplicates(config.news.sources.map(source => source.name), 'news.sources'),
+      ...SourcesConfigLoader.findDuplicates(config.podcasts.map(source => source.name), 'podcasts'),
+      ...config.news.sources.flatMap((source, index) => SourcesConfigLoader.checkAdapter(source, `news.sources[${index}]`)),
+      ...config.news.sources.flatMap((source, index) =>
+        source.fullText && source.type !== 'rss' ? [`news.sources[${index}].fullText applies to rss sources only`] : [])
+    ];
+  }
+
+  /**
+   * Value checks the schema subset cannot express: query parameters are
+   * scalars, pagination has what its type needs and sentiment labels map to ours
+   */
+  private static checkAdapter(source: NewsSource, label: string): string[] {
+    const errors: string[] = [];
+    const scalars: Array<[string, Record<string, unknown> | undefined, boolean]> = [
+      [`${label}.queryParams`, source.queryParams, false],
+      [`${label}.adapter.params`, source.adapter?.params, false],
+      [`${label}.adapter.symbolQuery.params`, source.adapter?.symbolQuery?.params, false],
+      [`${label}.adapter.headers`, source.adapter?.headers, true]
+    ];
+
+    for (const [path, values, stringsOnly] of scalars) {
+      for (const [key, value] of Object.entries(values || {})) {
+        const allowed = stringsOnly ? typeof value === 'string' : ['string', 'number', 'boolean'].includes(typeof value);
+        if (!allowed) {
+          errors.push(`${path}.${key} must be ${stringsOnly ? 'a string' : 'a string, number or boolean'} (got ${JSON.stringify(value)})`);
+        }
+      }
+    }
+
+    const pagination = source.adapter?.pagination;
+    if (pagination && pagination.type !== 'next-url' && !pagination.param) {
+      errors.push(`${label}.adapter.pagination.param is required for ${pagination.type} pagination`);
+    }
+    if (pagination && pagination.type !== 'page' && !pagination.next) {
+      errors.push(`${label}.adapter.pagination.next is required for ${pagination.type} pagination`);
+    }
+
+    for (const [key, value] of Object.entries(source.adapter?.response?.sentiment?.labels || {})) {
+      if (!SENTIMENT_LABELS.includes(value)) {
+        errors.push(`${label}.adapter.response.sentiment.labels.${key} must be one of ${SENTIMENT_LABELS.join(', ')} (got ${JSON.stringify(value)})`);
+      }
+    }
+    return errors;
+  }
+
+  private static findDuplicates(names: string[], label: string): string[] {
+    const seen = new Set<string>();
+    const errors: string[] = [];
+    for (const name of names) {
+      if (seen.has(name)) {
+        errors.push(`${label} names "${name}" more than once`);
+      }
+      seen.add(name);
+    }
+    return errors;
+  }
+}
+
+/**
+ * Watches sources.json and hands every valid new version to the listener.
+ * An edit that fails to parse or validate is logged and the last good
+ * config stays in use.
+ */
+export class SourcesConfigWatcher {
+  private watcher: fs.FSWatcher | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private pending: Promise<unknown> = Promise.resolve();
+  private options: SourcesConfigWatcherOptions;
+  private lastText: string;
+
+  constructor(
+    private configPath: string,
+    private config: SourcesConfig,
+    private listener: SourcesConfigListener,
+    private logger: Logger,
+    options: Partial<SourcesConfigWatcherOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_WATCHER_OPTIONS, ...options };
+    this.lastText = JSON.stringify(config);
+  }
+
+  get current(): SourcesConfig {
+    return this.config;
+  }
+
+  start(): void {
+    if (this.watcher) return;
+
+    // Watch the directory: editors that save by renaming replace the file's inode
+    const fileName = path.basename(this.configPath);
+    this.watcher = fs.watch(path.dirname(this.configPath), (_event, changed) => {
+      if (changed && changed.toString() !== fileName) return;
+      this.scheduleReload();
+    });
+    this.watcher.on('error', error => this.logger.error(`Stopped watching ${this.configPath}:`, error));
+    this.watcher.unref();
+
+    this.logger.info(`Watching ${this.configPath} for changes`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Read and apply the file now. Resolves true when a new config was applied.
+   */
+  async reload(): Promise<boolean> {
+    // Reloads run one at a time; a change landing mid-reload is picked up by the next one
+    const run = this.pending.then(() => this.applyFile());
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Edit the config, write it back to the file and apply it. The edit starts
+   * from the file rather than the running config, so hand edits that have not
+   * been reloaded yet are kept. Nothing is written when the edit throws or
+   * leaves the config invalid.
+   */
+  async update(edit: (config: SourcesConfig) => SourcesConfig): Promise<SourcesConfig> {
+    const run = this.pending.then(async () => {
+      const config = edit(await SourcesConfigLoader.load(this.configPath));
+      await SourcesConfigLoader.save(this.configPath, config);
+      await this.listener(config);
+
+      this.config = config;
+      this.lastText = JSON.stringify(config);
+      this.logger.info(`Updated ${this.configPath}`);
+      return config;
+    });
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private scheduleReload(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.reload();
+    }, this.options.debounceMs);
+    this.timer.unref();
+  }
+
+  private async applyFile(): Promise<boolean> {
+    let config: SourcesConfig;
+    try {
+      config = await SourcesConfigLoader.load(this.configPath);
+    } catch (error) {
+      this.logger.error(`Keeping the last good sources config: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
+    // Saves that do not change the content are not worth rebuilding services for
+    const text = JSON.stringify(config);
+    if (text === this.lastText) return false;
+
+    try {
+      await this.listener(config);
+    } catch (error) {
+      this.logger.error('Failed to apply the reloaded sources config:', error);
+      return false;
+    }
+
+    this.config = config;
+    this.lastText = text;
+    this.logger.info(`Reloaded ${this.configPath}`);
+    return true;
+  }
+}
@@ -2,9 +2,20 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
 import winston from 'winston';
@@ -16,47 +27,92 @@ import { NewsService } from './services/newsService.js';
 import { PodcastService } from './services/podcastService.js';
 import { GmailService } from './services/gmailService.js';
 import { RelevanceScorer } from './services/relevanceScorer.js';
+import { SymbolResolver } from './services/symbolResolver.js';
+import { SentimentEngine } from './services/sentiment/sentimentEngine.js';
+import { TranscriptionPipeline } from './services/transcription/transcriptionPipeline.js';
+import { IngestionScheduler } from './services/ingestionScheduler.js';
+import { WatchlistService } from './services/watchlistService.js';
+import { StoryClusterer } from './services/storyClusterer.js';
+import { MarketResourceService } from './services/marketResourceService.js';
+import { SourceHealthService } from './services/sourceHealthService.js';
+import { SourceAdminService } from './services/sourceAdminService.js';
+import { SourcesConfigWatcher } from './config/sourcesConfig.js';
+import { ConfigManager } from './config/ConfigManager.js';
+import { PromptLibrary } from './services/promptLibrary.js';
+import { AlertEngine } from './services/alerts/alertEngine.js';
 import { NewsTools } from './tools/news.js';
 import { PodcastTools } from './tools/podcasts.js';
 import { GmailTools } from './tools/gmail.js';
 import { UnifiedTools } from './tools/unified.js';
 import { SearchTools } from './tools/search.js';
-import { SourcesConfig } from './types/marketData.js';
-import fs from 'fs/promises';
+import { IngestionTools } from './tools/ingestion.js';
+import { WatchlistTools } from './tools/watchlists.js';
+import { AlertTools } from './tools/alerts.js';
+import { HealthTools } from './tools/health.js';
+import { SourceTools } from './tools/sources.js';
+import { ToolRegistry } from './tools/toolRegistry.js';
+import { Alert, SourcesConfig } from './types/marketData.js';
+import { ToolContext } from './types/toolContext.js';
+import { HttpTransportServer } from './transport/httpTransport.js';
+import { TokenAuthenticator } from './transport/tokenAuth.js';
+import { OUTPUT_SCHEMA_NAMES, SCHEMA_URI_PREFIX, getOutputSchema } from './types/outputSchemas.js';
 import fsSync from 'fs';
 import path from 'path';
 
 // Load environment variables
 dotenv.config();
 
+// Defaults, config/{NODE_ENV}.json, sources.json, env vars and flags, merged into one typed object
+let configManager: ConfigManager;
+try {
+  configManager = ConfigManager.load();
+} catch (error) {
+  // There is no logger yet, and stdout belongs to the MCP protocol
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+}
+
+if (process.argv.includes('--print-config')) {
+  process.stdout.write(`${configManager.format()}\n`);
+  process.exit(0);
+}
+
+const appConfig = configManager.getConfig();
+
 // Setup logging
 // Ensure logs directory exists
-const logsDir = path.join(process.cwd(), 'logs');
+const logsDir = path.dirname(path.resolve(appConfig.logging.filePath));
 if (!fsSync.existsSync(logsDir)) {
   fsSync.mkdirSync(logsDir, { recursive: true });
 }
 
 const logger = winston.createLogger({
-  level: process.env.LOG_LEVEL || 'info',
+  level: appConfig.logging.level,
   format: winston.format.combine(
     winston.format.timestamp(),
     winston.format.json()
   ),
   transports: [
     // Only log to file for MCP, not console (to avoid JSON parsing issues)
-    new winston.transports.File({ filename: 'logs/market-mcp.log' })
+    new winston.transports.File({ filename: appConfig.logging.filePath })
   ],
 });
 
 class MarketAnalysisMCPServer {
-  private server: Server;
+  private server: Server | null = null; // stdio mode only; HTTP sessions each get their own
+  private httpTransport: HttpTransportServer | null = null;
   private cache: CacheManager;
   private rateLimiter: RateLimiter;
   private newsService!: NewsService;
   private podcastService!: PodcastService;
   private gmailService!: GmailService;
   private relevanceScorer!: RelevanceScorer;
-  private config!: SourcesConfig;
+  private ingestionScheduler!: IngestionScheduler;
+  private watchlistService!: WatchlistService;
+  private alertEngine!: AlertEngine;
+  private marketResources!: MarketResourceService;
+  private promptLibrary!: PromptLibrary;
+  private configWatcher: SourcesConfigWatcher | null = null;
 
   // Tool instances
   private newsTools!: NewsTools;
@@ -64,25 +120,17 @@ class MarketAnalysisMCPServer {
   private gmailTools!: GmailTools;
   private unifiedTools!: UnifiedTools;
   private searchTools!: SearchTools;
+  private ingestionTools!: IngestionTools;
+  private watchlistTools!: WatchlistTools;
+  private alertTools!: AlertTools;
+  private healthTools!: HealthTools;
+  private sourceTools!: SourceTools;
+  private toolRegistry!: ToolRegistry;
 
-  constructor() {
-    this.server = new Server(
-      {
-        name: 'market-analysis-mcp',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    this.cache = new CacheManager(process.env.DATABASE_PATH);
+  constructor(private configManager: ConfigManager) {
+    this.cache = new CacheManager(configManager.get('database').path);
     this.rateLimiter = new RateLimiter();
     
-    this.setupHandlers();
-    
     // Setup periodic cleanup of expired rate limit entries
     setInterval(() => {
       SecurityValidator.cleanupExpiredEntries();
@@ -100,28 +148,56 @@ class MarketAnalysisMCPServer {
         }
       }
 
-      // Load configuration
-      await this.loadConfig();
-      
+      const config = this.configManager.getConfig();
+      logger.info('Configuration loaded', { settings: this.configManager.describe() });
+
       // Initialize cache
       await this.cache.initializeDatabase();
       
       // Initialize services
-      this.relevanceScorer = new RelevanceScorer(this.config.relevanceScoring);
-      this.newsService = new NewsService(this.config.news, this.cache, this.rateLimiter, logger);
-      this.podcastService = new PodcastService(this.config.podcasts, this.cache, this.rateLimiter, logger);
-      this.gmailService = new GmailService(this.config.gmail, this.cache, this.rateLimiter, logger);
+      const symbolResolver = await SymbolResolver.load(path.join(process.cwd(), 'config', 'symbols.json'));
+      logger.info(`Loaded ${symbolResolver.size} symbols from the reference dictionary`);
+      this.promptLibrary = await PromptLibrary.load(path.join(process.cwd(), 'config', 'prompts.json'));
+      const sentimentEngine = SentimentEngine.create(symbolResolver, {
+        useProviderSentiment: config.sentiment.providerScores
+      });
+      this.relevanceScorer = new RelevanceScorer(config.sources.relevanceScoring, symbolResolver, sentimentEngine);
+      this.newsService = new NewsService(config.sources.news, this.cache, this.rateLimiter, logger, config.newsApiKeys);
+      const transcriptionPipeline = new TranscriptionPipeline(
+        TranscriptionPipeline.createProviders(config.transcription),
+        this.cache,
+        logger
+      );
+      this.podcastService = new PodcastService(
+        config.sources.podcasts,
+        this.cache,
+        this.rateLimiter,
+        logger,
+        transcriptionPipeline
+      );
+      this.gmailService = new GmailService(
+        config.sources.gmail,
+        this.cache,
+        this.rateLimiter,
+        logger,
+        config.gmail
+      );
+      [this.newsService, this.podcastService, this.gmailService]
+        .forEach(service => service.configureFetching(config.fetching));
+      this.watchlistService = new WatchlistService(this.cache, logger);
       
       // Initialize tools
-      this.newsTools = new NewsTools(this.newsService, this.relevanceScorer);
+      this.newsTools = new NewsTools(this.newsService, this.relevanceScorer, this.watchlistService);
       this.podcastTools = new PodcastTools(this.podcastService, this.relevanceScorer);
       this.gmailTools = new GmailTools(this.gmailService, this.relevanceScorer);
       this.unifiedTools = new UnifiedTools(
         this.newsService,
         this.podcastService,
         this.gmailService,
-        this.relevanceScorer
+        this.relevanceScorer,
+        this.watchlistService
       );
+      this.watchlistTools = new WatchlistTools(this.watchlistService);
       this.searchTools = new SearchTools(
         this.newsService,
         this.podcastService,
@@ -130,6 +206,81 @@ class MarketAnalysisMCPServer {
         this.cache
       );
 
+      // Background ingestion keeps the item store warm so tools do not fetch on request
+      this.ingestionScheduler = new IngestionScheduler(
+        this.newsService,
+        this.podcastService,
+        this.gmailService,
+        this.relevanceScorer,
+        this.cache,
+        this.rateLimiter,
+        logger
+      );
+      this.ingestionTools = new IngestionTools(this.ingestionScheduler, this.cache);
+
+      // Alert rules are checked against every ingestion cycle
+      this.alertEngine = new AlertEngine(
+        AlertEngine.createSinks(alert => this.notifyAlert(alert), config.alerts),
+        this.cache,
+        new StoryClusterer(),
+        logger
+      );
+      this.alertEngine.attach(this.ingestionScheduler);
+      this.alertTools = new AlertTools(this.alertEngine);
+
+      // market:// resources read from the item store; subscribers hear about each cycle
+      this.marketResources = new MarketResourceService(
+        this.cache,
+        this.watchlistService,
+        items => this.unifiedTools.createMarketSnapshot(items),
+        logger
+      );
+      this.marketResources.attach(this.ingestionScheduler);
+
+      // Edits to sources.json apply without a restart; invalid edits keep the running config
+      this.configWatcher = new SourcesConfigWatcher(
+        this.configManager.sourcesPath,
+        config.sources,
+        config => this.applySourcesConfig(config),
+        logger
+      );
+      // Over stdio the only client is the operator; shared servers name their admins
+      const serverSettings = this.configManager.get('server');
+      const adminClients = (serverSettings.adminClients ?? '').split(',').map(id => id.trim()).filter(Boolean);
+      this.sourceTools = new SourceTools(
+        new SourceAdminService(this.configWatcher, this.newsService, this.podcastService, logger),
+        clientId => serverSettings.transport === 'stdio' || adminClients.includes(clientId)
+      );
+
+      this.healthTools = new HealthTools(new SourceHealthService(
+        this.newsService,
+        this.podcastService,
+        this.gmailService,
+        this.rateLimiter,
+        this.cache,
+        logger
+      ));
+
+      // Each tool class declares its tools' schemas and handlers
+      this.toolRegistry = new ToolRegistry([
+        ...this.newsTools.definitions,
+        ...this.podcastTools.definitions,
+        ...this.gmailTools.definitions,
+        ...this.unifiedTools.definitions,
+        ...this.searchTools.definitions,
+        ...this.watchlistTools.definitions,
+        ...this.alertTools.definitions,
+        ...this.ingestionTools.definitions,
+        ...this.healthTools.definitions,
+        ...this.sourceTools.definitions
+      ]);
+
+      if (config.ingestion.enabled) {
+        this.ingestionScheduler.start();
+      }
+
+      this.configWatcher.start();
+
       logger.info('Market Analysis MCP Server initialized successfully');
     } catch (error) {
       logger.error('Failed to initialize server:', error);
@@ -137,155 +288,60 @@ class MarketAnalysisMCPServer {
     }
   }
 
-  private async loadConfig(): Promise<void> {
-    try {
-      const configPath = path.join(process.cwd(), 'config', 'sources.json');
-      const configData = await fs.readFile(configPath, 'utf8');
-      this.config = JSON.parse(configData);
-      logger.info('Configuration loaded successfully');
-    } catch (error) {
-      logger.error('Failed to load configuration:', error);
-      throw error;
-    }
+  /**
+   * Reconfigure the source services in place, so tools, the scheduler and open
+   * sessions keep their references
+   */
+  private applySourcesConfig(config: SourcesConfig): void {
+    this.configManager.updateSources(config);
+    this.relevanceScorer.reconfigure(config.relevanceScoring);
+    this.newsService.reconfigure(config.news);
+    this.podcastService.reconfigure(config.podcasts);
+    this.gmailService.reconfigure(config.gmail);
+    this.ingestionScheduler.reschedule();
+
+    logger.info('Applied sources config', {
+      news: config.news.sources.filter(source => source.enabled).length,
+      podcasts: config.podcasts.filter(source => source.enabled).length,
+      gmail: config.gmail.enabled
+    });
+  }
+
+  private createServer(): Server {
+    const server = new Server(
+      {
+        name: 'market-analysis-mcp',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: { subscribe: true },
+          prompts: {},
+          logging: {},
+        },
+      }
+    );
+
+    this.setupHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+    server.onclose = () => this.marketResources.forget(server);
+    return server;
   }
 
-  private setupHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupHandlers(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: 'get_market_news',
-            description: 'Retrieve latest financial news articles',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                timeframe: {
-                  type: 'string',
-                  enum: ['1h', '6h', '24h', '7d'],
-                  description: 'Time range for news articles',
-                  default: '24h'
-                },
-                symbols: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Filter by stock symbols (optional)'
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of articles to return',
-                  default: 20,
-                  minimum: 1,
-                  maximum: 100
-                }
-              }
-            }
-          },
-          {
-            name: 'get_podcast_summaries',
-            description: 'Get summaries from configured market podcasts',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                timeframe: {
-                  type: 'string',
-                  enum: ['24h', '7d', '30d'],
-                  description: 'Time range for podcast episodes',
-                  default: '7d'
-                },
-                include_transcripts: {
-                  type: 'boolean',
-                  description: 'Include full transcripts in response',
-                  default: false
-                }
-              }
-            }
-          },
-          {
-            name: 'get_relevant_emails',
-            description: 'Extract market-relevant emails from Gmail',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                timeframe: {
-                  type: 'string',
-                  enum: ['24h', '7d', '30d'],
-                  description: 'Time range for emails',
-                  default: '7d'
-                },
-                senders: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Filter by specific sender emails (optional)'
-                },
-                keywords: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Search for specific market terms (optional)'
-                }
-              }
-            }
-          },
-          {
-            name: 'get_market_snapshot',
-            description: 'Unified view across all sources with key highlights',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                timeframe: {
-                  type: 'string',
-                  enum: ['1h', '6h', '24h'],
-                  description: 'Time range for snapshot',
-                  default: '6h'
-                },
-                priority_symbols: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Prioritize specific symbols (optional)'
-                }
-              }
-            }
-          },
-          {
-            name: 'search_market_data',
-            description: 'Search across all historical collected data',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search terms'
-                },
-                sources: {
-                  type: 'array',
-                  items: { type: 'string', enum: ['news', 'podcast', 'email'] },
-                  description: 'Limit to specific sources (optional)'
-                },
-                timeframe: {
-                  type: 'string',
-                  enum: ['1h', '6h', '24h', '7d', '30d'],
-                  description: 'Time range to search (optional)',
-                  default: '7d'
-                },
-                min_relevance: {
-                  type: 'number',
-                  description: 'Minimum relevance score (0-100)',
-                  default: 50,
-                  minimum: 0,
-                  maximum: 100
-                }
-              },
-              required: ['query']
-            }
-          }
-        ]
+        tools: this.toolRegistry.list()
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
       
-      // Generate client ID for rate limiting (based on request metadata or use default)
-      const clientId = this.getClientId(request);
+      // Client identity for rate limiting, watchlists and alert rules
+      const clientId = this.getClientId(extra);
       
       try {
         // Security validations
@@ -324,35 +380,36 @@ class MarketAnalysisMCPServer {
           };
         }
 
-        // Sanitize input arguments
-        const sanitizedArgs = SecurityValidator.sanitizeInput(args);
-
-        switch (name) {
-          case 'get_market_news':
-            return await this.newsTools.getMarketNews(sanitizedArgs);
-
-          case 'get_podcast_summaries':
-            return await this.podcastTools.getPodcastSummaries(sanitizedArgs);
+        // Unknown tools and arguments that do not match the schema are protocol errors, not tool failures
+        const validArgs = this.toolRegistry.validate(name, args);
 
-          case 'get_relevant_emails':
-            return await this.gmailTools.getRelevantEmails(sanitizedArgs);
-
-          case 'get_market_snapshot':
-            return await this.unifiedTools.getMarketSnapshot(sanitizedArgs);
-
-          case 'search_market_data':
-            return await this.searchTools.searchMarketData(sanitizedArgs);
+        // Each field is cleaned according to its schema; anything altered is logged for review
+        const { args: sanitizedArgs, changes } = this.toolRegistry.sanitize(name, validArgs);
+        if (changes.length > 0) {
+          logger.warn('Sanitized tool arguments', { tool: name, clientId, changes });
+        }
+        const context: ToolContext = {
+          clientId,
+          signal: extra.signal,
+          reportProgress: this.createProgressReporter(request.params._meta?.progressToken, extra)
+        };
 
-          default:
-            const error = ErrorHandler.createStructuredError(
-              'UNKNOWN_TOOL',
-              `Unknown tool requested: ${name}`,
-              { tool: name }
-            );
-            logger.error('Unknown tool requested', error);
-            throw new Error(`Unknown tool: ${name}`);
+        const result = await this.toolRegistry.call(name, sanitizedArgs, context);
+        if (extra.signal.aborted) {
+          logger.info(`Call to ${name} cancelled by the client`, { clientId });
         }
+        return result;
       } catch (error) {
+        if (extra.signal.aborted) {
+          // The SDK discards the response of a cancelled request
+          logger.info(`Call to ${name} cancelled by the client`, { clientId });
+          throw error;
+        }
+        if (error instanceof McpError) {
+          logger.warn(`Rejected call to ${name}: ${error.message}`, { clientId });
+          throw error;
+        }
+
         const structuredError = ErrorHandler.createStructuredError(
           'TOOL_EXECUTION_ERROR',
           `Tool execution error for ${name}`,
@@ -377,23 +434,155 @@ class MarketAnalysisMCPServer {
     });
   }
 
-  private getClientId(request: any): string {
-    // In a real implementation, you might extract client ID from request headers,
-    // authentication tokens, or other metadata. For now, use a default.
-    // This could be enhanced to use actual client identification.
-    return request.id || request.clientId || 'default-client';
+  private setupResourceHandlers(server: Server): void {
+    // Output schemas for json/both output_format payloads, then market:// data resources
+    server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+      const schemas = OUTPUT_SCHEMA_NAMES.map(name => ({
+        uri: `${SCHEMA_URI_PREFIX}${name}`,
+        name: `${name} output schema`,
+        description: `JSON Schema for tool output with $schema ${SCHEMA_URI_PREFIX}${name}`,
+        mimeType: 'application/schema+json'
+      }));
+
+      return {
+        resources: [...schemas, ...await this.marketResources.list(this.getClientId(extra))]
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.marketResources.templates() };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      const name = OUTPUT_SCHEMA_NAMES.find(candidate => `${SCHEMA_URI_PREFIX}${candidate}` === uri);
+
+      if (!name) {
+        return { contents: [await this.marketResources.read(uri, this.getClientId(extra))] };
+      }
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/schema+json',
+            text: JSON.stringify(getOutputSchema(name), null, 2)
+          }
+        ]
+      };
+    });
+
+    // Schemas never change, so only market:// resources can be subscribed to
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      this.marketResources.subscribe(server, this.getClientId(extra), request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.marketResources.unsubscribe(server, request.params.uri);
+      return {};
+    });
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    // Prompt arguments are plain strings, so allowed values and defaults are spelled out in the description
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.promptLibrary.list().map(prompt => ({
+          name: prompt.name,
+          title: prompt.title,
+          description: prompt.description,
+          arguments: prompt.arguments.map(argument => ({
+            name: argument.name,
+            description: [
+              argument.description,
+              argument.enum ? `one of ${argument.enum.join(', ')}` : undefined,
+              argument.default ? `default ${argument.default}` : undefined
+            ].filter(Boolean).join('; '),
+            required: argument.required ?? false
+          }))
+        }))
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { description, messages } = this.promptLibrary.render(request.params.name, request.params.arguments);
+      return { description, messages };
+    });
+  }
+
+  private async notifyAlert(alert: Alert): Promise<void> {
+    // Over HTTP, only the sessions of the rule's owner are notified
+    const servers = this.httpTransport
+      ? this.httpTransport.getServers(alert.clientId)
+      : this.server ? [this.server] : [];
+
+    if (servers.length === 0) {
+      throw new Error(`No connected MCP session for client ${alert.clientId}`);
+    }
+
+    await Promise.all(servers.map(server => server.sendLoggingMessage({
+      level: 'warning',
+      logger: 'market-alerts',
+      data: alert
+    })));
+  }
+
+  private getClientId(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): string {
+    // HTTP sessions carry the identity of their bearer token; stdio has a single local client
+    return extra.authInfo?.clientId || 'default-client';
+  }
+
+  /**
+   * Sends notifications/progress for a call, when the client passed a progress token
+   */
+  private createProgressReporter(
+    progressToken: string | number | undefined,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): ToolContext['reportProgress'] {
+    if (progressToken === undefined) {
+      return undefined;
+    }
+
+    return (progress, total, message) => {
+      extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message }
+      }).catch(error => {
+        logger.debug('Failed to send progress notification', { error: error instanceof Error ? error.message : error });
+      });
+    };
   }
 
   async start(): Promise<void> {
+    // Fail on a bad transport setup before opening the database or starting ingestion
+    const serverSettings = this.configManager.get('server');
+    const authenticator = serverSettings.transport === 'http'
+      ? TokenAuthenticator.fromEnv(serverSettings.authTokens)
+      : null;
+
     await this.initialize();
     
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    if (authenticator) {
+      this.httpTransport = new HttpTransportServer(
+        () => this.createServer(),
+        authenticator,
+        logger,
+        { port: serverSettings.port, host: serverSettings.host }
+      );
+      await this.httpTransport.start();
+    } else {
+      this.server = this.createServer();
+      await this.server.connect(new StdioServerTransport());
+    }
     
-    logger.info('Market Analysis MCP Server started');
+    logger.info(`Market Analysis MCP Server started (${serverSettings.transport})`);
   }
 
   async stop(): Promise<void> {
+    await this.httpTransport?.stop();
+    this.configWatcher?.stop();
+    this.ingestionScheduler?.stop();
     await this.cache.close();
     logger.info('Market Analysis MCP Server stopped');
   }
@@ -411,7 +600,7 @@ process.on('SIGTERM', async () => {
 });
 
 // Start the server
-const server = new MarketAnalysisMCPServer();
+const server = new MarketAnalysisMCPServer(configManager);
 server.start().catch((error) => {
   logger.error('Failed to start server:', error);
   process.exit(1);
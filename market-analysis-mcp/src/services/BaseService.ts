@@ -1,12 +1,66 @@
-import { CacheManager } from '../utils/cache';
+import axios from 'axios';
+import RSSParser from 'rss-parser';
+import { CacheManager, ItemQueryOptions } from '../utils/cache';
 import { RateLimiter } from '../utils/rateLimiter';
 import * as winston from 'winston';
 import { ErrorHandler, StructuredError } from '../utils/ErrorHandler';
+import { Cancellation } from '../utils/Cancellation';
+import { HttpValidators, IncrementalFetch } from '../utils/IncrementalFetch';
+import {
+  FetchOptions,
+  MarketDataItem,
+  SourceFetchRecord,
+  SourceFetchState,
+  SourceOutcome,
+  SourceOutcomeStatus,
+  SourcesFetch
+} from '../types/marketData';
+import { FetchSettings } from '../types/appConfig';
+import { NetworkGuard } from '../utils/NetworkGuard';
+
+/**
+ * Items read for one source, and whether they came from the item store
+ */
+export interface SourceRead {
+  items: MarketDataItem[];
+  stored: boolean;
+  known?: MarketDataItem[]; // Stored items a live poll skipped because it had seen them before
+  fetchState?: SourceFetchState; // Saved by fetchSources once the items are stored
+}
+
+/**
+ * Items a poll found new, and the poll state that marks them as seen. The
+ * caller saves the state only after storing the items, so a poll that dies
+ * in between asks for the same entries again.
+ */
+export interface SourcePoll {
+  items: MarketDataItem[];
+  fetchState?: SourceFetchState;
+}
+
+export interface FeedDownload {
+  feed: RSSParser.Output<any>;
+  validators: HttpValidators;
+}
+
+/**
+ * Thrown when not one of the sources a call read could be fetched
+ */
+export class AllSourcesFailedError extends Error {
+  constructor(public readonly outcomes: SourceOutcome[]) {
+    super(`All ${outcomes.length} sources failed: ${outcomes.map(outcome => `${outcome.source} (${outcome.status})`).join(', ')}`);
+    this.name = 'AllSourcesFailedError';
+  }
+}
 
 export abstract class BaseService {
+  static readonly DEFAULT_FETCH_SETTINGS: FetchSettings = { concurrency: 4, sourceTimeoutMs: 20000 };
+
   protected cache: CacheManager;
   protected rateLimiter: RateLimiter;
   protected logger: winston.Logger;
+  protected fetchSettings: FetchSettings = BaseService.DEFAULT_FETCH_SETTINGS;
+  private fetchRecords = new Map<string, SourceFetchRecord>();
 
   constructor(cache: CacheManager, rateLimiter: RateLimiter, logger: winston.Logger) {
     this.cache = cache;
@@ -15,17 +69,36 @@ export abstract class BaseService {
   }
 
   /**
-   * Execute an operation with rate limiting and retry logic
+   * Execute an operation with rate limiting and retry logic. When the signal
+   * aborts, retries stop and the cancellation is passed on without being
+   * recorded as a source failure.
    */
   protected async executeWithRateLimit<T>(
     operation: () => Promise<T>, 
     key: string,
     rateLimit: string = '60/hour',
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    signal?: AbortSignal
   ): Promise<T> {
+    const attemptedAt = new Date().toISOString();
+    let latencyMs = 0;
+    const timedOperation = async (): Promise<T> => {
+      const started = Date.now();
+      try {
+        return await operation();
+      } finally {
+        latencyMs = Date.now() - started;
+      }
+    };
+
     try {
-      return await this.rateLimiter.withRetry(key, rateLimit, operation, maxRetries);
+      const result = await this.rateLimiter.withRetry(key, rateLimit, timedOperation, maxRetries, undefined, signal);
+      this.recordFetch(key, attemptedAt, latencyMs, { result });
+      return result;
     } catch (error) {
+      if (Cancellation.isCancelled(error, signal)) throw error;
+      this.recordFetch(key, attemptedAt, latencyMs, { error: error as Error });
+
       const structuredError = ErrorHandler.createStructuredError(
         'RATE_LIMIT_EXCEEDED',
         `Operation failed after ${maxRetries} attempts`,
@@ -37,6 +110,242 @@ export abstract class BaseService {
     }
   }
 
+  /**
+   * Set how many sources a call fetches at once and how long each may take
+   */
+  configureFetching(settings: FetchSettings): void {
+    this.fetchSettings = settings;
+  }
+
+  /**
+   * Read several sources, at most fetchSettings.concurrency at a time and each
+   * under its own deadline. A failed or slow source is recorded in the outcomes
+   * rather than failing the call, unless every source failed. Live items are
+   * saved to the item store as soon as their source finishes, then its poll state.
+   */
+  protected async fetchSources<S extends { name: string }>(
+    sources: S[],
+    sourceType: MarketDataItem['source'],
+    getSourceKey: (source: S) => string,
+    readSource: (source: S, signal: AbortSignal) => Promise<SourceRead>,
+    options: FetchOptions = {},
+    sourceTimeoutMs: number = this.fetchSettings.sourceTimeoutMs
+  ): Promise<SourcesFetch> {
+    const reads: Array<SourceRead | undefined> = new Array(sources.length);
+    const outcomes: SourceOutcome[] = new Array(sources.length);
+    const { concurrency } = this.fetchSettings;
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < sources.length) {
+        Cancellation.throwIfCancelled(options.signal);
+        const index = next++;
+        const source = sources[index];
+        const started = Date.now();
+
+        try {
+          const read = await Cancellation.withTimeout(
+            sourceTimeoutMs,
+            signal => readSource(source, signal),
+            options.signal
+          );
+          reads[index] = read;
+          outcomes[index] = this.createOutcome(source.name, sourceType, started, { read });
+          if (!read.stored) await this.persistItems(read.items);
+          if (read.fetchState) await this.saveFetchState(read.fetchState);
+        } catch (error) {
+          if (Cancellation.isCancelled(error, options.signal)) throw error;
+          this.handleError(error as Error, `fetchFromSource:${source.name}`);
+          if ((error as Error).name === 'TimeoutError') {
+            this.recordFetch(getSourceKey(source), new Date(started).toISOString(), Date.now() - started, { error: error as Error });
+          }
+          outcomes[index] = this.createOutcome(source.name, sourceType, started, { error: error as Error });
+        }
+        options.onSourceDone?.(source.name);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, sources.length) }, worker));
+
+    if (outcomes.length > 0 && outcomes.every(outcome => !BaseService.isAnswered(outcome))) {
+      throw new AllSourcesFailedError(outcomes);
+    }
+
+    return { items: reads.flatMap(read => (read ? [...read.items, ...(read.known ?? [])] : [])), outcomes };
+  }
+
+  /**
+   * Outcome record for a source read that returned items or failed
+   */
+  protected createOutcome(
+    source: string,
+    sourceType: MarketDataItem['source'],
+    started: number,
+    result: { read?: SourceRead; error?: Error }
+  ): SourceOutcome {
+    const outcome: SourceOutcome = {
+      source,
+      sourceType,
+      status: result.error ? BaseService.getOutcomeStatus(result.error) : result.read?.stored ? 'stored' : 'ok',
+      itemCount: (result.read?.items.length ?? 0) + (result.read?.known?.length ?? 0),
+      latencyMs: Date.now() - started
+    };
+    if (result.error) outcome.error = result.error.message;
+    return outcome;
+  }
+
+  static isAnswered(outcome: SourceOutcome): boolean {
+    return outcome.status === 'ok' || outcome.status === 'stored';
+  }
+
+  /**
+   * Classify a source failure for the outcome records
+   */
+  static getOutcomeStatus(error: Error): SourceOutcomeStatus {
+    if (/api key|credentials|oauth|invalid_grant/i.test(error.message)) return 'auth-error';
+
+    switch (BaseService.getErrorCode(error)) {
+      case 'REQUEST_TIMEOUT': return 'timeout';
+      case 'RATE_LIMITED': return 'rate-limited';
+      case 'UNAUTHORIZED':
+      case 'FORBIDDEN': return 'auth-error';
+      default: return 'error';
+    }
+  }
+
+  /**
+   * Download and parse an RSS feed. Fetching with axios rather than
+   * RSSParser.parseURL lets a cancelled request abort the download. With a
+   * saved fetch state the request is conditional, and null means the feed
+   * answered 304 Not Modified.
+   */
+  protected async fetchFeed(
+    parser: RSSParser,
+    url: string,
+    signal?: AbortSignal,
+    state?: SourceFetchState
+  ): Promise<FeedDownload | null> {
+    const response = await axios.get<string>(url, {
+      headers: { 'User-Agent': 'Market-Analysis-MCP/1.0', ...IncrementalFetch.conditionalHeaders(state) },
+      responseType: 'text',
+      timeout: 10000,
+      signal,
+      validateStatus: status => (status >= 200 && status < 300) || status === 304,
+      ...NetworkGuard.requestOptions()
+    });
+    if (response.status === 304) return null;
+
+    return {
+      feed: await parser.parseString(response.data),
+      validators: { etag: response.headers.etag, lastModified: response.headers['last-modified'] }
+    };
+  }
+
+  /**
+   * Poll a feed and convert only the entries published since the last poll.
+   * The returned state is for the caller to save once the items are stored.
+   */
+  protected async fetchNewFeedItems(
+    parser: RSSParser,
+    url: string,
+    sourceKey: string,
+    convert: (entry: any) => Promise<MarketDataItem | null>,
+    signal?: AbortSignal
+  ): Promise<SourcePoll> {
+    const state = await this.getFetchState(sourceKey, url);
+    const download = await this.fetchFeed(parser, url, signal, state);
+    if (!download) {
+      this.logger.debug(`${sourceKey} not modified since ${state?.updatedAt}`);
+      return { items: [] };
+    }
+
+    const newEntries = download.feed.items
+      .map(entry => ({ entry, seen: { guid: entry.guid || entry.link, publishedAt: entry.pubDate } }))
+      .filter(({ seen }) => IncrementalFetch.isNew(seen, state));
+
+    const items: MarketDataItem[] = [];
+    for (const { entry } of newEntries) {
+      Cancellation.throwIfCancelled(signal);
+      const item = await convert(entry);
+      if (item) items.push(item);
+    }
+
+    return {
+      items,
+      fetchState: IncrementalFetch.advance(state, sourceKey, url, newEntries.map(({ seen }) => seen), download.validators)
+    };
+  }
+
+  /**
+   * Saved poll state for a source, unless it was recorded for another endpoint
+   */
+  protected async getFetchState(sourceKey: string, url: string): Promise<SourceFetchState | undefined> {
+    try {
+      const state = await this.cache.getFetchState(sourceKey);
+      return state?.url === url ? state : undefined;
+    } catch (error) {
+      this.handleError(error as Error, `getFetchState:${sourceKey}`);
+      return undefined;
+    }
+  }
+
+  protected async saveFetchState(state: SourceFetchState): Promise<void> {
+    try {
+      await this.cache.saveFetchState(state);
+    } catch (error) {
+      this.handleError(error as Error, `saveFetchState:${state.sourceKey}`);
+    }
+  }
+
+  /**
+   * Stored items of a source in the window that a live poll did not return again
+   */
+  protected async readKnownItems(sourceName: string, since: Date, polled: MarketDataItem[]): Promise<MarketDataItem[]> {
+    try {
+      const polledIds = new Set(polled.map(item => item.id));
+      const stored = await this.cache.getItems({ sourceName, since });
+      return stored.filter(item => !polledIds.has(item.id));
+    } catch (error) {
+      this.handleError(error as Error, `readKnownItems:${sourceName}`);
+      return [];
+    }
+  }
+
+  /**
+   * Outcome of the live fetches made for a source key since startup
+   */
+  getFetchRecord(sourceKey: string): SourceFetchRecord | undefined {
+    return this.fetchRecords.get(sourceKey);
+  }
+
+  private recordFetch(
+    sourceKey: string,
+    attemptedAt: string,
+    latencyMs: number,
+    outcome: { result?: unknown; error?: Error }
+  ): void {
+    const previous = this.fetchRecords.get(sourceKey);
+    const record: SourceFetchRecord = {
+      ...previous,
+      sourceKey,
+      lastAttemptAt: attemptedAt,
+      itemCount: previous?.itemCount ?? 0,
+      latencyMs
+    };
+
+    if (outcome.error) {
+      record.lastErrorAt = attemptedAt;
+      record.lastErrorCode = BaseService.getErrorCode(outcome.error);
+      record.lastError = outcome.error.message;
+    } else {
+      record.lastSuccessAt = new Date().toISOString();
+      const result = outcome.result as MarketDataItem[] | SourcePoll | undefined;
+      record.itemCount = Array.isArray(result) ? result.length : result?.items?.length ?? 0;
+    }
+
+    this.fetchRecords.set(sourceKey, record);
+  }
+
   /**
    * Execute operation with caching
    */
@@ -45,13 +354,24 @@ export abstract class BaseService {
     operation: () => Promise<T>, 
     ttl: number = 3600
   ): Promise<T> {
+    return (await this.cachedResult(key, operation, ttl)).data;
+  }
+
+  /**
+   * Execute operation with caching, reporting whether the result came from the cache
+   */
+  protected async cachedResult<T>(
+    key: string,
+    operation: () => Promise<T>,
+    ttl: number = 3600
+  ): Promise<{ data: T; cached: boolean }> {
     try {
       // Try to get from cache first
       const cached = await this.cache.get(key);
       if (cached) {
         this.logger.debug(`Cache hit for key: ${key}`);
         try {
-          return JSON.parse(cached);
+          return { data: JSON.parse(cached), cached: true };
         } catch (parseError) {
           this.logger.warn(`Cache corruption detected for key: ${key}, clearing and regenerating`);
           await this.cache.delete(key);
@@ -66,19 +386,69 @@ export abstract class BaseService {
       // Store in cache
       await this.cache.set(key, JSON.stringify(result), ttl);
       
-      return result;
+      return { data: result, cached: false };
     } catch (error) {
       this.handleError(error as Error, `cacheOperation:${key}`);
       throw error;
     }
   }
 
+  /**
+   * Save freshly collected items to the historical item store.
+   * Failures are logged rather than thrown so a store problem never blocks a live fetch.
+   */
+  protected async persistItems(items: MarketDataItem[]): Promise<void> {
+    try {
+      await this.cache.storeItems(items);
+    } catch (error) {
+      this.handleError(error as Error, 'persistItems');
+    }
+  }
+
+  /**
+   * True when the background scheduler has ingested every given source recently
+   * enough that tools can read from the item store instead of fetching live.
+   */
+  protected async isWarm(sourceKeys: string[]): Promise<boolean> {
+    if (sourceKeys.length === 0) return false;
+
+    try {
+      const now = Date.now();
+      for (const sourceKey of sourceKeys) {
+        const state = await this.cache.getIngestionState(sourceKey);
+        if (!state?.freshUntil || new Date(state.freshUntil).getTime() <= now) {
+          return false;
+        }
+      }
+      return true;
+    } catch (error) {
+      this.handleError(error as Error, 'isWarm');
+      return false;
+    }
+  }
+
+  /**
+   * Stored items for a warm source, or null when the source must be fetched live
+   */
+  protected async readWarmItems(sourceKey: string, query: ItemQueryOptions): Promise<MarketDataItem[] | null> {
+    if (!(await this.isWarm([sourceKey]))) return null;
+
+    try {
+      const items = await this.cache.getItems(query);
+      this.logger.debug(`Read ${items.length} items for ${sourceKey} from the item store`);
+      return items;
+    } catch (error) {
+      this.handleError(error as Error, `readWarmItems:${sourceKey}`);
+      return null;
+    }
+  }
+
   /**
    * Standardized error handling
    */
   protected handleError(error: Error, context: string): void {
     const structuredError = ErrorHandler.createStructuredError(
-      this.getErrorCode(error),
+      BaseService.getErrorCode(error),
       error.message,
       { context, stack: error.stack }
     );
@@ -89,7 +459,8 @@ export abstract class BaseService {
   /**
    * Get appropriate error code based on error type
    */
-  private getErrorCode(error: Error): string {
+  static getErrorCode(error: Error): string {
+    if (error.message.includes('Rate limit exceeded')) return 'RATE_LIMITED';
     if (error.message.includes('ECONNREFUSED')) return 'CONNECTION_REFUSED';
     if (error.message.includes('ENOTFOUND')) return 'DNS_RESOLUTION_FAILED';
     if (error.message.includes('timeout')) return 'REQUEST_TIMEOUT';
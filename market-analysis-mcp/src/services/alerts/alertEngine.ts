@@ -0,0 +1,320 @@
+import { randomUUID } from 'crypto';
+import { Logger } from 'winston';
+import { CacheManager } from '../../utils/cache';
+import { NetworkGuard } from '../../utils/NetworkGuard';
+import { AlertSettings } from '../../types/appConfig';
+import {
+  Alert,
+  AlertConditions,
+  AlertDelivery,
+  AlertRule,
+  AlertSinkType,
+  MarketDataItem,
+  MarketStory
+} from '../../types/marketData';
+import { StoryClusterer } from '../storyClusterer';
+import { IngestionScheduler } from '../ingestionScheduler';
+import { AlertSink } from './alertSink';
+import { WebhookSink } from './webhookSink';
+import { FileSink } from './fileSink';
+import { McpNotificationSink } from './mcpNotificationSink';
+
+export interface AlertRuleInput {
+  name: string;
+  conditions: AlertConditions;
+  sinks?: AlertSinkType[];
+  webhookUrl?: string;
+  enabled?: boolean;
+}
+
+export interface AlertEngineOptions {
+  // A story that fired within this window never fires again for the same rule
+  dedupeWindowHours: number;
+  // StoryClusterer similarity at which a new item counts as an already alerted story
+  similarityThreshold: number;
+  // Items published this long before a rule was created still trigger it
+  ruleLookbackMinutes: number;
+  maxRulesPerClient: number;
+}
+
+const DEFAULT_OPTIONS: AlertEngineOptions = {
+  dedupeWindowHours: 48,
+  similarityThreshold: 0.5,
+  ruleLookbackMinutes: 60,
+  maxRulesPerClient: 50
+};
+
+export const ALERT_SINK_TYPES: AlertSinkType[] = ['webhook', 'file', 'mcp'];
+const SENTIMENTS = ['positive', 'negative', 'neutral'];
+
+/**
+ * Checks user-defined alert rules against every ingestion cycle and pushes
+ * matching stories to the rule's sinks, at most once per story.
+ */
+export class AlertEngine {
+  private sinks = new Map<AlertSinkType, AlertSink>();
+  private options: AlertEngineOptions;
+
+  constructor(
+    sinks: AlertSink[],
+    private cache: CacheManager,
+    private storyClusterer: StoryClusterer,
+    private logger: Logger,
+    options: Partial<AlertEngineOptions> = {}
+  ) {
+    sinks.forEach(sink => this.sinks.set(sink.type, sink));
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Build the configured sinks. The MCP sink delivers through the supplied
+   * function, normally a notification to the connected client.
+   */
+  static createSinks(notify: (alert: Alert) => Promise<void>, settings: AlertSettings): AlertSink[] {
+    return [
+      new WebhookSink(settings.webhookUrl),
+      new FileSink(settings.logPath),
+      new McpNotificationSink(notify)
+    ];
+  }
+
+  /**
+   * Evaluate rules against the items of every ingestion cycle
+   */
+  attach(scheduler: IngestionScheduler): void {
+    scheduler.onCycle(async cycle => {
+      if (cycle.items.length > 0) {
+        await this.evaluate(cycle.items);
+      }
+    });
+  }
+
+  async createRule(clientId: string, input: AlertRuleInput): Promise<AlertRule> {
+    const existing = await this.cache.listAlertRules(clientId);
+    if (existing.length >= this.options.maxRulesPerClient) {
+      throw new Error(`Alert rules are limited to ${this.options.maxRulesPerClient} per client`);
+    }
+
+    const now = new Date().toISOString();
+    const rule: AlertRule = {
+      id: `rule-${randomUUID()}`,
+      clientId,
+      name: this.validateName(input.name),
+      conditions: this.normalizeConditions(input.conditions),
+      sinks: this.validateSinks(input.sinks ?? ['mcp']),
+      webhookUrl: input.webhookUrl ? this.validateWebhookUrl(input.webhookUrl) : undefined,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.cache.saveAlertRule(rule);
+    this.logger.info(`Created alert rule ${rule.name}`, { clientId, ruleId: rule.id });
+    return rule;
+  }
+
+  async listRules(clientId: string): Promise<AlertRule[]> {
+    return this.cache.listAlertRules(clientId);
+  }
+
+  async deleteRule(clientId: string, ruleId: string): Promise<AlertRule> {
+    const rule = (await this.cache.listAlertRules(clientId)).find(candidate => candidate.id === ruleId);
+    if (!rule) {
+      throw new Error(`Alert rule "${ruleId}" not found. Use list_alert_rules to see your rules.`);
+    }
+
+    await this.cache.deleteAlertRule(clientId, ruleId);
+    this.logger.info(`Deleted alert rule ${rule.name}`, { clientId, ruleId });
+    return rule;
+  }
+
+  async getHistory(clientId: string, ruleId?: string, limit: number = 20): Promise<Alert[]> {
+    return this.cache.getAlertHistory({ clientId, ruleId, limit });
+  }
+
+  /**
+   * Fire every enabled rule whose conditions match a story in the given items.
+   * Returns the alerts that fired.
+   */
+  async evaluate(items: MarketDataItem[], now: Date = new Date()): Promise<Alert[]> {
+    const rules = (await this.cache.listAlertRules()).filter(rule => rule.enabled);
+    const fired: Alert[] = [];
+
+    for (const rule of rules) {
+      const notBefore = new Date(rule.createdAt).getTime() - this.options.ruleLookbackMinutes * 60 * 1000;
+      const matching = items.filter(item =>
+        new Date(item.timestamp).getTime() >= notBefore && AlertEngine.matches(rule.conditions, item)
+      );
+      if (matching.length === 0) continue;
+
+      const history = await this.cache.getAlertHistory({
+        ruleId: rule.id,
+        since: new Date(now.getTime() - this.options.dedupeWindowHours * 60 * 60 * 1000),
+        limit: 500
+      });
+
+      for (const story of this.storyClusterer.cluster(matching)) {
+        if (this.isDuplicate(story, history)) continue;
+
+        const alert = await this.fire(rule, story, now);
+        history.push(alert);
+        fired.push(alert);
+      }
+    }
+
+    return fired;
+  }
+
+  static matches(conditions: AlertConditions, item: MarketDataItem): boolean {
+    if (conditions.minRelevance !== undefined && item.relevanceScore < conditions.minRelevance) {
+      return false;
+    }
+
+    if (conditions.symbols?.length && !conditions.symbols.some(symbol => item.symbols?.includes(symbol))) {
+      return false;
+    }
+
+    if (conditions.marketTags?.length) {
+      const tags = item.marketTags.map(tag => tag.toLowerCase());
+      if (!conditions.marketTags.some(tag => tags.includes(tag))) return false;
+    }
+
+    if (conditions.sentiment?.length && (!item.sentiment || !conditions.sentiment.includes(item.sentiment))) {
+      return false;
+    }
+
+    if (conditions.sources?.length) {
+      const sourceName = item.sourceDetails.name.toLowerCase();
+      if (!conditions.sources.some(source => source === item.source || source === sourceName)) return false;
+    }
+
+    return true;
+  }
+
+  private isDuplicate(story: MarketStory, history: Alert[]): boolean {
+    const storyIds = new Set(story.items.map(item => item.id));
+
+    return history.some(alert =>
+      alert.relatedItemIds.some(id => storyIds.has(id)) ||
+      this.storyClusterer.similarity(story.leadItem, alert.item) >= this.options.similarityThreshold
+    );
+  }
+
+  private async fire(rule: AlertRule, story: MarketStory, now: Date): Promise<Alert> {
+    const alert: Alert = {
+      id: `alert-${randomUUID()}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      clientId: rule.clientId,
+      firedAt: now.toISOString(),
+      item: story.leadItem,
+      relatedItemIds: story.items.map(item => item.id),
+      deliveries: []
+    };
+
+    alert.deliveries = await this.deliver(alert, rule);
+
+    try {
+      await this.cache.saveAlert(alert);
+    } catch (error) {
+      this.logger.error(`Failed to record alert for rule ${rule.id}:`, error);
+    }
+
+    this.logger.info(`Alert rule ${rule.name} fired`, {
+      ruleId: rule.id,
+      itemId: story.leadItem.id,
+      delivered: alert.deliveries.filter(delivery => delivery.delivered).map(delivery => delivery.sink)
+    });
+    return alert;
+  }
+
+  private async deliver(alert: Alert, rule: AlertRule): Promise<AlertDelivery[]> {
+    const deliveries: AlertDelivery[] = [];
+
+    for (const type of rule.sinks) {
+      const sink = this.sinks.get(type);
+      if (!sink) {
+        deliveries.push({ sink: type, delivered: false, error: 'Sink not configured' });
+        continue;
+      }
+
+      try {
+        await sink.deliver(alert, rule);
+        deliveries.push({ sink: type, delivered: true });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn(`Alert delivery via ${type} failed for rule ${rule.id}: ${message}`);
+        deliveries.push({ sink: type, delivered: false, error: message });
+      }
+    }
+
+    return deliveries;
+  }
+
+  private validateName(name: string): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > 80) {
+      throw new Error('Alert rule names must be 1-80 characters');
+    }
+    return trimmed;
+  }
+
+  private normalizeConditions(conditions: AlertConditions = {}): AlertConditions {
+    const normalized: AlertConditions = {};
+
+    if (conditions.symbols?.length) {
+      normalized.symbols = [...new Set(conditions.symbols.map(symbol => String(symbol).trim().replace(/^\$/, '').toUpperCase()))];
+    }
+
+    if (conditions.marketTags?.length) {
+      normalized.marketTags = [...new Set(conditions.marketTags.map(tag => String(tag).trim().toLowerCase()))];
+    }
+
+    if (conditions.sentiment?.length) {
+      const invalid = conditions.sentiment.find(sentiment => !SENTIMENTS.includes(sentiment));
+      if (invalid) {
+        throw new Error(`Invalid sentiment "${invalid}": use ${SENTIMENTS.join(', ')}`);
+      }
+      normalized.sentiment = [...new Set(conditions.sentiment)];
+    }
+
+    if (conditions.minRelevance !== undefined) {
+      const minRelevance = Number(conditions.minRelevance);
+      if (isNaN(minRelevance) || minRelevance < 0 || minRelevance > 100) {
+        throw new Error('min_relevance must be between 0 and 100');
+      }
+      normalized.minRelevance = minRelevance;
+    }
+
+    if (conditions.sources?.length) {
+      normalized.sources = [...new Set(conditions.sources.map(source => String(source).trim().toLowerCase()))];
+    }
+
+    if (Object.keys(normalized).length === 0) {
+      throw new Error('Alert rules need at least one condition: symbols, market_tags, sentiment, min_relevance or sources');
+    }
+
+    return normalized;
+  }
+
+  private validateSinks(sinks: AlertSinkType[]): AlertSinkType[] {
+    if (!Array.isArray(sinks) || sinks.length === 0) {
+      throw new Error(`Alert rules need at least one sink: ${ALERT_SINK_TYPES.join(', ')}`);
+    }
+
+    const invalid = sinks.find(sink => !ALERT_SINK_TYPES.includes(sink));
+    if (invalid) {
+      throw new Error(`Unknown alert sink "${invalid}": use ${ALERT_SINK_TYPES.join(', ')}`);
+    }
+
+    return [...new Set(sinks)];
+  }
+
+  /**
+   * Rule webhooks come from clients, so they may only point at public hosts.
+   * ALERT_WEBHOOK_URL is the operator's and may be internal.
+   */
+  private validateWebhookUrl(url: string): string {
+    return NetworkGuard.checkUrl(url, 'webhook URL').toString();
+  }
+}
@@ -0,0 +1,10 @@
+import { Alert, AlertRule, AlertSinkType } from '../../types/marketData';
+
+/**
+ * A delivery channel for fired alerts. Sinks only deliver; the engine takes care
+ * of matching, deduplication and recording each delivery outcome.
+ */
+export interface AlertSink {
+  readonly type: AlertSinkType;
+  deliver(alert: Alert, rule: AlertRule): Promise<void>;
+}
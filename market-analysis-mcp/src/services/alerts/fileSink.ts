@@ -0,0 +1,18 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Alert } from '../../types/marketData';
+import { AlertSink } from './alertSink';
+
+/**
+ * Appends each alert as one JSON line, so the log can be tailed or replayed
+ */
+export class FileSink implements AlertSink {
+  readonly type = 'file' as const;
+
+  constructor(private filePath: string) {}
+
+  async deliver(alert: Alert): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(alert)}\n`, 'utf8');
+  }
+}
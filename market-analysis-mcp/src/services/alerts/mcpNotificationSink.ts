@@ -0,0 +1,16 @@
+import { Alert } from '../../types/marketData';
+import { AlertSink } from './alertSink';
+
+/**
+ * Pushes alerts to the connected MCP client. The server supplies the send
+ * function so this sink stays independent of the transport.
+ */
+export class McpNotificationSink implements AlertSink {
+  readonly type = 'mcp' as const;
+
+  constructor(private send: (alert: Alert) => Promise<void>) {}
+
+  async deliver(alert: Alert): Promise<void> {
+    await this.send(alert);
+  }
+}
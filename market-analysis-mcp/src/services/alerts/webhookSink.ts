@@ -0,0 +1,31 @@
+import axios from 'axios';
+import { Alert, AlertRule } from '../../types/marketData';
+import { AlertSink } from './alertSink';
+import { NetworkGuard } from '../../utils/NetworkGuard';
+
+export class WebhookSink implements AlertSink {
+  readonly type = 'webhook' as const;
+
+  constructor(
+    private defaultUrl?: string,
+    private timeoutMs: number = 10000
+  ) {}
+
+  async deliver(alert: Alert, rule: AlertRule): Promise<void> {
+    const url = rule.webhookUrl || this.defaultUrl;
+    if (!url) {
+      throw new Error('No webhook URL: set webhook_url on the rule or ALERT_WEBHOOK_URL');
+    }
+
+    // A rule's own URL must reach a public address, checked again when the request connects
+    if (rule.webhookUrl) {
+      NetworkGuard.checkUrl(rule.webhookUrl, 'webhook URL');
+    }
+
+    await axios.post(url, { event: 'market_alert', alert }, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: this.timeoutMs,
+      ...(rule.webhookUrl ? NetworkGuard.requestOptions() : {})
+    });
+  }
+}
@@ -0,0 +1,223 @@
+import { ArticleExtractionMethod } from '../types/marketData';
+
+export interface ExtractedArticle {
+  text: string; // Paragraphs separated by blank lines
+  wordCount: number;
+  method: ArticleExtractionMethod;
+  paywalled: boolean;
+}
+
+interface StructuredArticle {
+  body?: string;
+  accessibleForFree?: boolean;
+}
+
+// Elements that never hold the story itself
+const BOILERPLATE_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'figure'
+];
+
+// Tags that end an open paragraph, as HTML5 parsers close <p> when </p> is left out
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'article', 'section', 'main', 'header', 'footer', 'nav', 'aside', 'form', 'figure', 'blockquote', 'pre',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'tr', 'td', 'th', 'hr', 'body'
+]);
+
+const TAG = /<(\/?)([a-z][a-z0-9]*)\b([^>]*)>/gi;
+
+const MIN_PARAGRAPH_CHARS = 30;
+const MAX_LINK_DENSITY = 0.5; // Share of a paragraph's text inside links, above which it is navigation
+const MIN_STRUCTURED_WORDS = 50; // Shorter articleBody values are teasers, not the story
+const MIN_ARTICLE_WORDS = 50; // An <article> with less text is a teaser card, not the story
+
+const BOILERPLATE_ATTRIBUTES = /\b(?:class|id)\s*=\s*["'][^"']*\b(?:share|social|promo|newsletter|related|caption|byline|disclaimer|advert|ad-)/i;
+const BOILERPLATE_TEXT = /^(?:advertisement|sign up|subscribe|follow us|share this|read more|related:|copyright|©|all rights reserved|we use cookies)/i;
+const PAYWALL_ATTRIBUTES = /\b(?:class|id)\s*=\s*["'][^"']*\b(?:paywall|regwall|subscriber-only|subscription-required|premium-content|piano-offer)/i;
+const PAYWALL_TEXT = /subscribe (?:now )?to (?:continue|keep) reading|(?:article|story|content) is (?:only )?(?:available )?(?:to|for) subscribers|already a subscriber\?|subscribe to (?:read|unlock)|unlock this article|to read the full (?:article|story)/i;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', hellip: '…', copy: '©',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', mdash: '—', ndash: '–'
+};
+
+/**
+ * Readability-style extraction of the story text from a news article page,
+ * without a DOM: structured data first, then the <article> element, then
+ * every paragraph on the page that is long enough and not mostly links.
+ * Elements are found in one pass over the tags, so pages that leave out
+ * closing tags take linear time.
+ */
+export class ArticleExtractor {
+  extract(html: string): ExtractedArticle {
+    const structured = this.readStructuredData(html);
+    const page = this.stripBoilerplate(html);
+    const { text, method } = this.selectText(structured, page);
+
+    return {
+      text,
+      wordCount: ArticleExtractor.countWords(text),
+      method,
+      paywalled: this.isPaywalled(structured, html)
+    };
+  }
+
+  static countWords(value: string): number {
+    const text = toText(value);
+    return text ? text.split(' ').length : 0;
+  }
+
+  private selectText(structured: StructuredArticle, page: string): { text: string; method: ArticleExtractionMethod } {
+    if (structured.body && ArticleExtractor.countWords(structured.body) >= MIN_STRUCTURED_WORDS) {
+      const paragraphs = structured.body.split(/\n\s*\n|\r?\n/).map(toText).filter(Boolean);
+      return { text: paragraphs.join('\n\n'), method: 'json-ld' };
+    }
+
+    // Listing widgets use <article> for teaser cards, so take the one holding the most text
+    const articles = readElements(page, 'article')
+      .map(inner => this.readParagraphs(inner).join('\n\n'))
+      .sort((a, b) => b.length - a.length);
+    if (articles.length > 0 && ArticleExtractor.countWords(articles[0]) >= MIN_ARTICLE_WORDS) {
+      return { text: articles[0], method: 'article' };
+    }
+
+    const [main] = readElements(page, 'main');
+    return { text: this.readParagraphs(main ?? page).join('\n\n'), method: 'paragraphs' };
+  }
+
+  /**
+   * Paragraphs run from <p> to the next block-level tag, so a missing </p>
+   * ends the paragraph where a browser would
+   */
+  private readParagraphs(html: string): string[] {
+    const paragraphs: string[] = [];
+    let open: { attributes: string; start: number } | undefined;
+
+    const close = (end: number): void => {
+      if (open) {
+        const text = this.readParagraph(open.attributes, html.slice(open.start, end));
+        if (text) paragraphs.push(text);
+        open = undefined;
+      }
+    };
+
+    for (const match of html.matchAll(TAG)) {
+      const [tag, slash, name, attributes] = match;
+      if (!BLOCK_ELEMENTS.has(name.toLowerCase())) continue;
+
+      close(match.index!);
+      if (!slash && name.toLowerCase() === 'p') {
+        open = { attributes, start: match.index! + tag.length };
+      }
+    }
+    close(html.length);
+    return paragraphs;
+  }
+
+  private readParagraph(attributes: string, inner: string): string | undefined {
+    if (BOILERPLATE_ATTRIBUTES.test(attributes)) return undefined;
+
+    const text = toText(inner);
+    if (text.length < MIN_PARAGRAPH_CHARS || BOILERPLATE_TEXT.test(text) || PAYWALL_TEXT.test(text)) return undefined;
+
+    const linkText = [...inner.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)].map(link => toText(link[1])).join('');
+    if (linkText.length / text.length > MAX_LINK_DENSITY) return undefined;
+
+    return text;
+  }
+
+  /**
+   * The schema.org isAccessibleForFree flag decides when the page has one;
+   * otherwise paywall containers and subscribe prompts give it away
+   */
+  private isPaywalled(structured: StructuredArticle, html: string): boolean {
+    if (structured.accessibleForFree !== undefined) {
+      return !structured.accessibleForFree;
+    }
+    // Subscribe prompts often sit in forms and asides, so only scripts are left out
+    const visible = html.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ');
+    return PAYWALL_ATTRIBUTES.test(visible) || PAYWALL_TEXT.test(toText(visible));
+  }
+
+  private readStructuredData(html: string): StructuredArticle {
+    for (const [, json] of html.matchAll(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+      let data: unknown;
+      try {
+        data = JSON.parse(json.trim());
+      } catch {
+        continue; // Malformed blocks are common; the page text is still there
+      }
+
+      const article = this.flattenGraph(data).find(node => [node['@type']].flat().some(type => /Article$/.test(String(type))));
+      if (article) {
+        const free = article.isAccessibleForFree;
+        return {
+          body: typeof article.articleBody === 'string' ? article.articleBody : undefined,
+          accessibleForFree: free === undefined ? undefined : free === true || String(free).toLowerCase() === 'true'
+        };
+      }
+    }
+    return {};
+  }
+
+  private flattenGraph(data: unknown): Array<Record<string, any>> {
+    if (Array.isArray(data)) return data.flatMap(node => this.flattenGraph(node));
+    if (!data || typeof data !== 'object') return [];
+    const node = data as Record<string, any>;
+    return [node, ...this.flattenGraph(node['@graph'])];
+  }
+
+  private stripBoilerplate(html: string): string {
+    let page = html.replace(/<!--[\s\S]*?-->/g, '');
+
+    // Innermost elements first, so nested navigation is removed whole
+    for (const tag of BOILERPLATE_ELEMENTS) {
+      const element = new RegExp(`<${tag}\\b[^>]*>(?:(?!<${tag}\\b)[\\s\\S])*?<\\/${tag}>`, 'gi');
+      let previous: string;
+      do {
+        previous = page;
+        page = page.replace(element, ' ');
+      } while (page !== previous);
+      page = page.replace(new RegExp(`<${tag}\\b[^>]*\\/>`, 'gi'), ' ');
+    }
+    return page;
+  }
+}
+
+/**
+ * Contents of the outermost elements with the given tag name. An element
+ * left open runs to the end of the page.
+ */
+function readElements(html: string, tagName: string): string[] {
+  const elements: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (const match of html.matchAll(TAG)) {
+    const [tag, slash, name] = match;
+    if (name.toLowerCase() !== tagName) continue;
+
+    if (!slash) {
+      if (depth++ === 0) start = match.index! + tag.length;
+    } else if (depth > 0 && --depth === 0) {
+      elements.push(html.slice(start, match.index!));
+    }
+  }
+  if (depth > 0) elements.push(html.slice(start));
+  return elements;
+}
+
+function toText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
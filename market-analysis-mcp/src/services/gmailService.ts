@@ -3,10 +3,16 @@ import { Logger } from 'winston';
 import { CacheManager } from '../utils/cache';
 import { RateLimiter } from '../utils/rateLimiter';
 import { TimeUtils } from '../utils/timeUtils';
-import { MarketDataItem, GmailConfig, ProcessingResult, EmailData } from '../types/marketData';
+import { Cancellation } from '../utils/Cancellation';
+import { MarketDataItem, GmailConfig, ProcessingResult, EmailData, FetchOptions } from '../types/marketData';
+import { GmailCredentials } from '../types/appConfig';
 import { BaseService } from './BaseService';
 
 export class GmailService extends BaseService {
+  static readonly SOURCE_KEY = 'gmail-api';
+  static readonly RATE_LIMIT = '250/second'; // Gmail API quota
+  static readonly SOURCE_NAME = 'Gmail';
+
   private gmail: any;
   private auth: any;
 
@@ -14,25 +20,40 @@ export class GmailService extends BaseService {
     private config: GmailConfig,
     cache: CacheManager,
     rateLimiter: RateLimiter,
-    logger: Logger
+    logger: Logger,
+    private credentials: GmailCredentials
   ) {
     super(cache, rateLimiter, logger);
     this.initializeAuth();
   }
 
+  /**
+   * Swap in a reloaded sources config, reconnecting if Gmail was switched on or off
+   */
+  reconfigure(config: GmailConfig): void {
+    const toggled = config.enabled !== this.config.enabled;
+    this.config = config;
+
+    if (toggled) {
+      this.gmail = undefined;
+      this.auth = undefined;
+      this.initializeAuth();
+    }
+  }
+
   private initializeAuth(): void {
     if (!this.config.enabled) {
       this.logger.info('Gmail service disabled in config');
       return;
     }
 
-    // Validate required environment variables
-    if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET) {
+    // Validate required credentials
+    if (!this.credentials.clientId || !this.credentials.clientSecret) {
       this.logger.error('Missing required Google OAuth credentials. Please set GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET in .env file');
       return;
     }
 
-    if (!process.env.GOOGLE_REFRESH_TOKEN) {
+    if (!this.credentials.refreshToken) {
       this.logger.error('Missing GOOGLE_REFRESH_TOKEN. Run: npm run setup:gmail-oauth');
       return;
     }
@@ -40,13 +61,13 @@ export class GmailService extends BaseService {
     try {
       // Use proper redirect URI for web applications  
       this.auth = new google.auth.OAuth2(
-        process.env.GOOGLE_CLIENT_ID,
-        process.env.GOOGLE_CLIENT_SECRET,
-        'http://localhost:3002/oauth/callback'
+        this.credentials.clientId,
+        this.credentials.clientSecret,
+        this.credentials.redirectUri
       );
 
       this.auth.setCredentials({
-        refresh_token: process.env.GOOGLE_REFRESH_TOKEN
+        refresh_token: this.credentials.refreshToken
       });
 
       // Set up auto-refresh for access tokens
@@ -67,7 +88,43 @@ export class GmailService extends BaseService {
   async getRelevantEmails(
     timeframe: string = '7d',
     senders?: string[],
-    keywords?: string[]
+    keywords?: string[],
+    options: FetchOptions = {}
+  ): Promise<ProcessingResult> {
+    const started = Date.now();
+    try {
+      const result = await Cancellation.withTimeout(
+        this.fetchSettings.sourceTimeoutMs,
+        signal => this.readRelevantEmails(timeframe, senders, keywords, signal),
+        options.signal
+      );
+      // A disabled Gmail was never read, so it has no outcome
+      if (!this.config.enabled) return result;
+
+      const outcome = result.success
+        ? this.createOutcome(GmailService.SOURCE_NAME, 'email', started, {
+          read: { items: result.data || [], stored: false }
+        })
+        : this.createOutcome(GmailService.SOURCE_NAME, 'email', started, { error: new Error(result.error) });
+      return { ...result, sourceOutcomes: [outcome] };
+    } catch (error) {
+      if (Cancellation.isCancelled(error, options.signal)) throw error;
+      this.handleError(error as Error, 'getRelevantEmails');
+      return {
+        success: false,
+        error: (error as Error).message,
+        sourceOutcomes: [this.createOutcome(GmailService.SOURCE_NAME, 'email', started, { error: error as Error })]
+      };
+    } finally {
+      options.onSourceDone?.(GmailService.SOURCE_NAME);
+    }
+  }
+
+  private async readRelevantEmails(
+    timeframe: string,
+    senders: string[] | undefined,
+    keywords: string[] | undefined,
+    signal: AbortSignal | undefined
   ): Promise<ProcessingResult> {
     if (!this.config.enabled) {
       return { 
@@ -85,13 +142,17 @@ export class GmailService extends BaseService {
 
     try {
       const cacheKey = this.generateCacheKey('emails', { timeframe, senders, keywords });
-      
-      const data = await this.cacheOperation(cacheKey, async () => {
-        return await this.fetchEmailData(timeframe, senders, keywords);
-      }, TimeUtils.getOptimalCacheTTL('email'));
+      const usesDefaultFilters = !senders?.length && !keywords?.length;
+
+      // The scheduler ingests with the configured filters only, so custom filters always go live
+      const { data, cached } = usesDefaultFilters && await this.isWarm([GmailService.SOURCE_KEY])
+        ? { data: await this.readStoredEmails(timeframe), cached: true }
+        : await this.cachedResult(cacheKey, async () => {
+          return await this.fetchEmailData(timeframe, senders, keywords, signal);
+        }, TimeUtils.getOptimalCacheTTL('email'));
 
       this.logger.info(`Fetched ${data.length} relevant emails`);
-      return { success: true, data };
+      return { success: true, data, cached };
     } catch (error) {
       this.handleError(error as Error, 'getRelevantEmails');
       return { 
@@ -104,10 +165,12 @@ export class GmailService extends BaseService {
   private async fetchEmailData(
     timeframe: string,
     senders?: string[],
-    keywords?: string[]
+    keywords?: string[],
+    signal?: AbortSignal
   ): Promise<MarketDataItem[]> {
-    const emails = await this.fetchEmails(timeframe, senders, keywords);
+    const emails = await this.fetchEmails(timeframe, senders, keywords, signal);
     const marketDataItems = emails.map(email => this.convertEmailToMarketData(email));
+    await this.persistItems(marketDataItems);
 
     const filteredEmails = marketDataItems.filter(item => 
       TimeUtils.isWithinTimeframe(item.timestamp, timeframe)
@@ -120,10 +183,38 @@ export class GmailService extends BaseService {
     return filteredEmails;
   }
 
+  private async readStoredEmails(timeframe: string): Promise<MarketDataItem[]> {
+    const stored = await this.readWarmItems(GmailService.SOURCE_KEY, {
+      source: 'email',
+      since: TimeUtils.getTimeframeStart(timeframe)
+    });
+    if (stored) return stored;
+
+    return this.fetchEmailData(timeframe);
+  }
+
+  isAvailable(): boolean {
+    return this.config.enabled && !!this.gmail;
+  }
+
+  /**
+   * Fetch newsletters matching the configured filters without touching the response
+   * cache or the item store. Used by the ingestion scheduler, which scores and stores them.
+   */
+  async collectEmails(timeframe: string = '24h'): Promise<MarketDataItem[]> {
+    if (!this.isAvailable()) {
+      throw new Error('Gmail service not initialized. Run: npm run setup:gmail-oauth');
+    }
+
+    const emails = await this.fetchEmails(timeframe);
+    return emails.map(email => this.convertEmailToMarketData(email));
+  }
+
   private async fetchEmails(
     timeframe: string,
     senders?: string[],
-    keywords?: string[]
+    keywords?: string[],
+    signal?: AbortSignal
   ): Promise<EmailData[]> {
     return this.executeWithRateLimit(async () => {
         const query = this.buildSearchQuery(timeframe, senders, keywords);
@@ -132,32 +223,34 @@ export class GmailService extends BaseService {
           userId: 'me',
           q: query,
           maxResults: 100
-        });
+        }, { signal });
 
         const messages = response.data.messages || [];
         const emailDetails: EmailData[] = [];
 
         // Fetch details for each message
         for (const message of messages.slice(0, 50)) { // Limit to avoid quota issues
+          Cancellation.throwIfCancelled(signal);
           try {
             const details = await this.gmail.users.messages.get({
               userId: 'me',
               id: message.id,
               format: 'metadata',
               metadataHeaders: ['From', 'Subject', 'Date']
-            });
+            }, { signal });
 
             const email = this.parseEmailDetails(details.data);
             if (email && this.isRelevantEmail(email)) {
               emailDetails.push(email);
             }
           } catch (error) {
+            if (Cancellation.isCancelled(error, signal)) throw error;
             this.logger.warn(`Failed to fetch email ${message.id}:`, error);
           }
         }
 
         return emailDetails;
-      }, 'gmail-api', '250/second'); // Gmail API quota
+      }, GmailService.SOURCE_KEY, GmailService.RATE_LIMIT, undefined, signal);
   }
 
   private buildSearchQuery(
@@ -242,7 +335,7 @@ export class GmailService extends BaseService {
       id: email.id,
       source: 'email',
       sourceDetails: {
-        name: 'Gmail',
+        name: GmailService.SOURCE_NAME,
         author: this.extractSenderName(email.sender)
       },
       timestamp: email.timestamp,
@@ -0,0 +1,301 @@
+import { Logger } from 'winston';
+import { CacheManager } from '../utils/cache';
+import { RateLimiter } from '../utils/rateLimiter';
+import { TimeUtils } from '../utils/timeUtils';
+import { IngestionState, MarketDataItem } from '../types/marketData';
+import { NewsService } from './newsService';
+import { PodcastService } from './podcastService';
+import { GmailService } from './gmailService';
+import { RelevanceScorer } from './relevanceScorer';
+import { BaseService, SourcePoll } from './BaseService';
+
+export interface IngestionJob {
+  sourceKey: string;
+  sourceType: IngestionState['sourceType'];
+  sourceName: string;
+  rateLimit: string;
+  collect: () => Promise<SourcePoll>;
+}
+
+export interface IngestionCycle {
+  job: IngestionJob;
+  items: MarketDataItem[]; // Scored items collected in this run
+  state: IngestionState;
+}
+
+export type IngestionListener = (cycle: IngestionCycle) => void | Promise<void>;
+
+export interface IngestionSchedulerOptions {
+  // Never poll a source more often than this share of its rate limit allows
+  rateLimitShare: number;
+  // A source stays warm for this many polling intervals after a successful run
+  freshnessIntervals: number;
+  // Delay between the first runs of consecutive jobs so startup does not burst
+  startupStaggerMs: number;
+}
+
+const DEFAULT_OPTIONS: IngestionSchedulerOptions = {
+  rateLimitShare: 0.5,
+  freshnessIntervals: 2,
+  startupStaggerMs: 5000
+};
+
+// Timeframe windows passed to TimeUtils.getUpdateFrequency, per source type
+const CADENCE_WINDOWS: Record<IngestionState['sourceType'], { marketHours: string; offHours: string }> = {
+  news: { marketHours: '1h', offHours: '24h' },
+  email: { marketHours: '6h', offHours: '24h' },
+  podcast: { marketHours: '7d', offHours: '30d' }
+};
+
+// How far back each run looks; overlapping runs are deduplicated by the item store
+const COLLECTION_TIMEFRAMES: Record<IngestionState['sourceType'], string> = {
+  news: '24h',
+  email: '24h',
+  podcast: '7d'
+};
+
+/**
+ * Polls every enabled source on its own cadence and writes scored items to the
+ * item store, so tools can answer from a warm store instead of fetching on request.
+ */
+export class IngestionScheduler {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private running = new Map<string, Promise<void>>();
+  private nextRuns = new Map<string, Date>();
+  private listeners: IngestionListener[] = [];
+  private options: IngestionSchedulerOptions;
+  private started = false;
+  private generation = 0; // Bumped by every start and stop, so timers of an earlier run re-arm nothing
+
+  constructor(
+    private newsService: NewsService,
+    private podcastService: PodcastService,
+    private gmailService: GmailService,
+    private relevanceScorer: RelevanceScorer,
+    private cache: CacheManager,
+    private rateLimiter: RateLimiter,
+    private logger: Logger,
+    options: Partial<IngestionSchedulerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.generation++;
+
+    const jobs = this.getJobs();
+    jobs.forEach((job, index) => {
+      this.schedule(job, index * this.options.startupStaggerMs);
+    });
+
+    this.logger.info(`Ingestion scheduler started for ${jobs.length} sources`);
+  }
+
+  stop(): void {
+    this.started = false;
+    this.generation++;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.nextRuns.clear();
+    this.logger.info('Ingestion scheduler stopped');
+  }
+
+  /**
+   * Rebuild the job list after the sources config changed
+   */
+  reschedule(): void {
+    if (!this.started) return;
+    this.stop();
+    this.start();
+  }
+
+  isRunning(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Register a callback for every completed ingestion run, successful or not
+   */
+  onCycle(listener: IngestionListener): void {
+    this.listeners.push(listener);
+  }
+
+  getJobs(): IngestionJob[] {
+    const jobs: IngestionJob[] = [];
+
+    for (const source of this.newsService.getEnabledSources()) {
+      jobs.push({
+        sourceKey: this.newsService.getSourceKey(source),
+        sourceType: 'news',
+        sourceName: source.name,
+        rateLimit: source.rateLimit,
+        collect: () => this.newsService.collectFromSource(source.name, COLLECTION_TIMEFRAMES.news)
+      });
+    }
+
+    for (const source of this.podcastService.getEnabledSources()) {
+      jobs.push({
+        sourceKey: this.podcastService.getSourceKey(source),
+        sourceType: 'podcast',
+        sourceName: source.name,
+        rateLimit: PodcastService.RATE_LIMIT,
+        collect: () => this.podcastService.collectFromSource(source.name, COLLECTION_TIMEFRAMES.podcast)
+      });
+    }
+
+    if (this.gmailService.isAvailable()) {
+      jobs.push({
+        sourceKey: GmailService.SOURCE_KEY,
+        sourceType: 'email',
+        sourceName: 'Gmail',
+        rateLimit: GmailService.RATE_LIMIT,
+        collect: async () => ({ items: await this.gmailService.collectEmails(COLLECTION_TIMEFRAMES.email) })
+      });
+    }
+
+    return jobs;
+  }
+
+  getNextRun(sourceKey: string): Date | undefined {
+    return this.nextRuns.get(sourceKey);
+  }
+
+  /**
+   * Polling interval for a job: faster during market hours, but never more often
+   * than the configured share of the source's rate limit.
+   */
+  getIntervalMinutes(job: IngestionJob, now: Date = new Date()): number {
+    const windows = CADENCE_WINDOWS[job.sourceType];
+    const cadence = TimeUtils.getUpdateFrequency(
+      TimeUtils.isMarketHours(now) ? windows.marketHours : windows.offHours
+    );
+
+    const { requests, windowMs } = this.rateLimiter.parseRateLimit(job.rateLimit);
+    const budgetFloor = requests > 0
+      ? windowMs / (requests * this.options.rateLimitShare) / 60000
+      : cadence;
+
+    return Math.max(cadence, budgetFloor);
+  }
+
+  /**
+   * Run one job immediately. Concurrent calls for the same source share one run.
+   */
+  async runJob(job: IngestionJob): Promise<void> {
+    const pending = this.running.get(job.sourceKey);
+    if (pending) return pending;
+
+    const run = this.ingest(job).finally(() => {
+      this.running.delete(job.sourceKey);
+    });
+    this.running.set(job.sourceKey, run);
+    return run;
+  }
+
+  private schedule(job: IngestionJob, delayMs: number): void {
+    if (!this.started) return;
+
+    this.nextRuns.set(job.sourceKey, new Date(Date.now() + delayMs));
+
+    // A run that outlives a reschedule must not re-arm its job with the old config
+    const generation = this.generation;
+    const timer = setTimeout(async () => {
+      await this.runJob(job);
+      if (generation !== this.generation) return;
+      this.schedule(job, this.getIntervalMinutes(job) * 60000);
+    }, delayMs);
+
+    // The scheduler must never keep the process alive on its own
+    timer.unref();
+    this.timers.set(job.sourceKey, timer);
+  }
+
+  private async ingest(job: IngestionJob): Promise<void> {
+    const startedAt = new Date();
+    const previous = await this.cache.getIngestionState(job.sourceKey).catch(() => undefined);
+    let items: MarketDataItem[] = [];
+    let state: IngestionState;
+
+    try {
+      const poll = await job.collect();
+      items = poll.items.map(item => this.scoreItem(item));
+      await this.cache.storeItems(items);
+      if (poll.fetchState) await this.cache.saveFetchState(poll.fetchState);
+
+      const freshForMs = this.getIntervalMinutes(job, startedAt) * this.options.freshnessIntervals * 60000;
+      state = {
+        sourceKey: job.sourceKey,
+        sourceType: job.sourceType,
+        sourceName: job.sourceName,
+        lastAttemptAt: startedAt.toISOString(),
+        lastSuccessAt: new Date().toISOString(),
+        freshUntil: new Date(Date.now() + freshForMs).toISOString(),
+        status: 'ok',
+        itemCount: items.length,
+        durationMs: Date.now() - startedAt.getTime()
+      };
+
+      this.logger.info(`Ingested ${items.length} items from ${job.sourceName}`, {
+        sourceKey: job.sourceKey,
+        durationMs: state.durationMs
+      });
+    } catch (error) {
+      // Keep the previous success window so tools fall back to live fetching only once it lapses
+      state = {
+        sourceKey: job.sourceKey,
+        sourceType: job.sourceType,
+        sourceName: job.sourceName,
+        lastAttemptAt: startedAt.toISOString(),
+        lastSuccessAt: previous?.lastSuccessAt,
+        freshUntil: previous?.freshUntil,
+        status: 'error',
+        itemCount: previous?.itemCount ?? 0,
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: BaseService.getErrorCode(error instanceof Error ? error : new Error(String(error))),
+        durationMs: Date.now() - startedAt.getTime()
+      };
+
+      this.logger.warn(`Ingestion failed for ${job.sourceName}`, {
+        sourceKey: job.sourceKey,
+        error: state.error
+      });
+    }
+
+    try {
+      await this.cache.saveIngestionState(state);
+    } catch (error) {
+      this.logger.error(`Failed to record ingestion state for ${job.sourceKey}:`, error);
+    }
+
+    await this.notify({ job, items, state });
+  }
+
+  private async notify(cycle: IngestionCycle): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(cycle);
+      } catch (error) {
+        this.logger.error(`Ingestion listener failed for ${cycle.job.sourceKey}:`, error);
+      }
+    }
+  }
+
+  private scoreItem(item: MarketDataItem): MarketDataItem {
+    const scoring = this.relevanceScorer.scoreContent(
+      item.title,
+      item.content,
+      item.sourceDetails.name,
+      item.timestamp
+    );
+
+    return {
+      ...item,
+      relevanceScore: scoring.score,
+      marketTags: scoring.marketTags,
+      symbols: scoring.symbols,
+      ...this.relevanceScorer.getSentimentFields(item)
+    };
+  }
+}
@@ -0,0 +1,345 @@
+import { Logger } from 'winston';
+import { CacheManager } from '../utils/cache';
+import { MarketDataItem, MarketSnapshot } from '../types/marketData';
+import { IngestionScheduler } from './ingestionScheduler';
+import { WatchlistService } from './watchlistService';
+
+export const MARKET_RESOURCE_PREFIX = 'market://';
+
+export type MarketResourceUri =
+  | { kind: 'item'; id: string }
+  | { kind: 'snapshot' }
+  | { kind: 'high-relevance' }
+  | { kind: 'watchlist'; name: string }
+  | { kind: 'source'; name: string };
+
+export interface MarketResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface MarketResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface MarketResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+// Anything that can deliver notifications/resources/updated, normally an MCP Server
+export interface ResourceSubscriber {
+  sendResourceUpdated(params: { uri: string }): Promise<void>;
+}
+
+export interface MarketResourceOptions {
+  snapshotWindowHours: number; // Items the latest snapshot is built from
+  highRelevanceThreshold: number; // Same bar as snapshot alert items
+  itemLimit: number; // Items returned by list resources
+}
+
+const DEFAULT_OPTIONS: MarketResourceOptions = {
+  snapshotWindowHours: 6,
+  highRelevanceThreshold: 80,
+  itemLimit: 20
+};
+
+const SNAPSHOT_CACHE_KEY = 'resource:snapshot:latest';
+const SNAPSHOT_CACHE_TTL_SECONDS = 60 * 60;
+const MIME_TYPE = 'application/json';
+
+interface StoredSnapshot {
+  generatedAt: string;
+  windowStart: string;
+  itemCount: number;
+  snapshot: MarketSnapshot;
+}
+
+/**
+ * Collected items, the latest snapshot, watchlists and per-source feeds as
+ * market:// resources read from the item store. Subscribers are told when an
+ * ingestion cycle changes a resource they subscribed to.
+ */
+export class MarketResourceService {
+  private subscriptions = new Map<ResourceSubscriber, { clientId: string; uris: Set<string> }>();
+  private options: MarketResourceOptions;
+
+  constructor(
+    private cache: CacheManager,
+    private watchlistService: WatchlistService,
+    private buildSnapshot: (items: MarketDataItem[]) => MarketSnapshot,
+    private logger: Logger,
+    options: Partial<MarketResourceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  static itemUri(id: string): string {
+    return `${MARKET_RESOURCE_PREFIX}item/${encodeURIComponent(id)}`;
+  }
+
+  static watchlistUri(name: string): string {
+    return `${MARKET_RESOURCE_PREFIX}watchlist/${encodeURIComponent(name)}`;
+  }
+
+  static sourceUri(name: string): string {
+    return `${MARKET_RESOURCE_PREFIX}source/${encodeURIComponent(name)}/latest`;
+  }
+
+  static parseUri(uri: string): MarketResourceUri | null {
+    if (!uri.startsWith(MARKET_RESOURCE_PREFIX)) return null;
+
+    const path = uri.slice(MARKET_RESOURCE_PREFIX.length);
+    if (path === 'snapshot/latest') return { kind: 'snapshot' };
+    if (path === 'items/high-relevance') return { kind: 'high-relevance' };
+
+    const match = path.match(/^(item|watchlist)\/([^/]+)$/) || path.match(/^(source)\/([^/]+)\/latest$/);
+    if (!match) return null;
+
+    let value: string;
+    try {
+      value = decodeURIComponent(match[2]);
+    } catch {
+      return null;
+    }
+
+    switch (match[1]) {
+      case 'item':
+        return { kind: 'item', id: value };
+      case 'watchlist':
+        return { kind: 'watchlist', name: value };
+      default:
+        return { kind: 'source', name: value };
+    }
+  }
+
+  /**
+   * Concrete resources: the snapshot, high-relevance items, the client's
+   * watchlists and every source the store has seen.
+   */
+  async list(clientId: string): Promise<MarketResource[]> {
+    const [watchlists, states] = await Promise.all([
+      this.watchlistService.list(clientId),
+      this.cache.getIngestionStates()
+    ]);
+
+    return [
+      {
+        uri: `${MARKET_RESOURCE_PREFIX}snapshot/latest`,
+        name: 'Latest market snapshot',
+        description: `Stories from the last ${this.options.snapshotWindowHours}h of collected items`,
+        mimeType: MIME_TYPE
+      },
+      {
+        uri: `${MARKET_RESOURCE_PREFIX}items/high-relevance`,
+        name: 'High-relevance items',
+        description: `Latest items scoring ${this.options.highRelevanceThreshold}+`,
+        mimeType: MIME_TYPE
+      },
+      ...watchlists.map(watchlist => ({
+        uri: MarketResourceService.watchlistUri(watchlist.name),
+        name: `Watchlist ${watchlist.name}`,
+        description: `Latest items mentioning ${watchlist.symbols.join(', ')}`,
+        mimeType: MIME_TYPE
+      })),
+      ...states.map(state => ({
+        uri: MarketResourceService.sourceUri(state.sourceName),
+        name: `${state.sourceName} latest`,
+        description: `Latest ${state.sourceType} items from ${state.sourceName}`,
+        mimeType: MIME_TYPE
+      }))
+    ];
+  }
+
+  templates(): MarketResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${MARKET_RESOURCE_PREFIX}item/{id}`,
+        name: 'Collected item',
+        description: 'One stored news article, podcast episode or email by id',
+        mimeType: MIME_TYPE
+      },
+      {
+        uriTemplate: `${MARKET_RESOURCE_PREFIX}watchlist/{name}`,
+        name: 'Watchlist',
+        description: 'A watchlist and the latest items mentioning its symbols',
+        mimeType: MIME_TYPE
+      },
+      {
+        uriTemplate: `${MARKET_RESOURCE_PREFIX}source/{name}/latest`,
+        name: 'Source feed',
+        description: 'Ingestion status and latest items of one source',
+        mimeType: MIME_TYPE
+      }
+    ];
+  }
+
+  async read(uri: string, clientId: string): Promise<MarketResourceContents> {
+    const parsed = MarketResourceService.parseUri(uri);
+    if (!parsed) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    return { uri, mimeType: MIME_TYPE, text: JSON.stringify(await this.readData(parsed, clientId), null, 2) };
+  }
+
+  subscribe(subscriber: ResourceSubscriber, clientId: string, uri: string): void {
+    if (!MarketResourceService.parseUri(uri)) {
+      throw new Error(`Cannot subscribe to unknown resource: ${uri}`);
+    }
+
+    const subscription = this.subscriptions.get(subscriber) || { clientId, uris: new Set<string>() };
+    subscription.uris.add(uri);
+    this.subscriptions.set(subscriber, subscription);
+  }
+
+  unsubscribe(subscriber: ResourceSubscriber, uri: string): void {
+    const subscription = this.subscriptions.get(subscriber);
+    if (!subscription) return;
+
+    subscription.uris.delete(uri);
+    if (subscription.uris.size === 0) {
+      this.subscriptions.delete(subscriber);
+    }
+  }
+
+  /**
+   * Drop every subscription of a closed session
+   */
+  forget(subscriber: ResourceSubscriber): void {
+    this.subscriptions.delete(subscriber);
+  }
+
+  attach(scheduler: IngestionScheduler): void {
+    scheduler.onCycle(async cycle => {
+      await this.publish(cycle.items, cycle.job.sourceName);
+    });
+  }
+
+  /**
+   * Refresh the latest snapshot after new items land and notify the
+   * subscribers of every resource they changed.
+   */
+  async publish(items: MarketDataItem[], sourceName: string): Promise<void> {
+    if (items.length === 0) return;
+
+    const updated = new Set<string>([MarketResourceService.sourceUri(sourceName)]);
+    items.forEach(item => updated.add(MarketResourceService.itemUri(item.id)));
+    if (items.some(item => item.relevanceScore >= this.options.highRelevanceThreshold)) {
+      updated.add(`${MARKET_RESOURCE_PREFIX}items/high-relevance`);
+    }
+
+    // Rebuild eagerly only when someone is waiting for it; otherwise the next read rebuilds
+    const snapshotUri = `${MARKET_RESOURCE_PREFIX}snapshot/latest`;
+    if (this.isSubscribed(snapshotUri)) {
+      await this.refreshSnapshot();
+    } else {
+      await this.cache.delete(SNAPSHOT_CACHE_KEY);
+    }
+    updated.add(snapshotUri);
+
+    const mentioned = new Set(items.flatMap(item => item.symbols || []));
+
+    for (const [subscriber, subscription] of this.subscriptions) {
+      for (const uri of subscription.uris) {
+        const changed = updated.has(uri) || await this.watchlistChanged(subscription.clientId, uri, mentioned);
+        if (!changed) continue;
+
+        try {
+          await subscriber.sendResourceUpdated({ uri });
+        } catch (error) {
+          this.logger.warn(`Failed to send resource update for ${uri}:`, error);
+        }
+      }
+    }
+  }
+
+  private async readData(parsed: MarketResourceUri, clientId: string): Promise<unknown> {
+    switch (parsed.kind) {
+      case 'item': {
+        const item = await this.cache.getItem(parsed.id);
+        if (!item) {
+          throw new Error(`Item "${parsed.id}" is not in the item store`);
+        }
+        return item;
+      }
+
+      case 'snapshot':
+        return (await this.cache.get(SNAPSHOT_CACHE_KEY) as StoredSnapshot | null) || this.refreshSnapshot();
+
+      case 'high-relevance': {
+        const items = await this.cache.getItems({ since: this.hoursAgo(24) });
+        return {
+          threshold: this.options.highRelevanceThreshold,
+          items: items
+            .filter(item => item.relevanceScore >= this.options.highRelevanceThreshold)
+            .slice(0, this.options.itemLimit)
+        };
+      }
+
+      case 'watchlist': {
+        const watchlist = await this.watchlistService.get(clientId, parsed.name);
+        const watched = new Set(watchlist.symbols);
+        const items = await this.cache.getItems({ since: this.hoursAgo(24) });
+        return {
+          watchlist,
+          items: items
+            .filter(item => item.symbols?.some(symbol => watched.has(symbol)))
+            .slice(0, this.options.itemLimit)
+        };
+      }
+
+      case 'source': {
+        const state = (await this.cache.getIngestionStates()).find(candidate => candidate.sourceName === parsed.name);
+        const items = await this.cache.getItems({ sourceName: parsed.name, limit: this.options.itemLimit });
+        if (!state && items.length === 0) {
+          throw new Error(`Source "${parsed.name}" has no collected items`);
+        }
+        return { source: parsed.name, ingestion: state ?? null, items };
+      }
+    }
+  }
+
+  private async refreshSnapshot(): Promise<StoredSnapshot> {
+    const windowStart = this.hoursAgo(this.options.snapshotWindowHours);
+    const items = await this.cache.getItems({ since: windowStart });
+    items.sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+    const stored: StoredSnapshot = {
+      generatedAt: new Date().toISOString(),
+      windowStart: windowStart.toISOString(),
+      itemCount: items.length,
+      snapshot: this.buildSnapshot(items)
+    };
+
+    await this.cache.set(SNAPSHOT_CACHE_KEY, stored, SNAPSHOT_CACHE_TTL_SECONDS);
+    return stored;
+  }
+
+  private async watchlistChanged(clientId: string, uri: string, mentioned: Set<string>): Promise<boolean> {
+    const parsed = MarketResourceService.parseUri(uri);
+    if (parsed?.kind !== 'watchlist' || mentioned.size === 0) return false;
+
+    try {
+      const watchlist = await this.watchlistService.get(clientId, parsed.name);
+      return watchlist.symbols.some(symbol => mentioned.has(symbol));
+    } catch {
+      // Deleted since the client subscribed
+      return false;
+    }
+  }
+
+  private isSubscribed(uri: string): boolean {
+    return [...this.subscriptions.values()].some(subscription => subscription.uris.has(uri));
+  }
+
+  private hoursAgo(hours: number): Date {
+    return new Date(Date.now() - hours * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,217 @@
+import { MarketDataItem, MarketStory, MorningBrief, SentimentLabel, TimeSensitiveCategory } from '../types/marketData';
+import { ToolFormatter } from '../utils/ToolFormatter';
+import { StoryClusterer } from './storyClusterer';
+
+export interface MorningBriefWindow {
+  start: Date; // Previous market close
+  end: Date; // When the brief is generated
+  nextMarketOpen: Date;
+}
+
+const ALERT_THRESHOLD = 80;
+const KEY_EVENT_THRESHOLD = 70;
+const MAX_ALERTS = 5;
+const MAX_KEY_EVENTS = 10;
+const MAX_TIME_SENSITIVE = 10;
+
+// Checked in order; a story is filed under the first category it matches
+const TIME_SENSITIVE_PATTERNS: Array<{ category: TimeSensitiveCategory; pattern: RegExp }> = [
+  { category: 'fed', pattern: /\b(fed|fomc|federal reserve|powell|rate decision|fed speakers?)\b/i },
+  { category: 'earnings', pattern: /\b(earnings|earnings call|quarterly results|guidance|reports? (before|after) the (bell|open|close))\b/i },
+  { category: 'economic-data', pattern: /\b(cpi|ppi|pce|gdp|jobs report|nonfarm payrolls?|payrolls|jobless claims|retail sales|ism|inflation data|data release)\b/i },
+  { category: 'after-hours', pattern: /\b(after[- ]hours|pre[- ]market|premarket|extended trading|futures (rise|fall|jump|slide|slip|climb))\b/i }
+];
+
+const CATEGORY_LABELS: Record<TimeSensitiveCategory, string> = {
+  'fed': '🏦 Fed',
+  'earnings': '💼 Earnings',
+  'economic-data': '📅 Economic Data',
+  'after-hours': '🌙 After-Hours'
+};
+
+/**
+ * Builds the pre-market brief from already-scored items. The builder never reads
+ * the clock or any service, so the same items and window always give the same brief.
+ */
+export class MorningBriefBuilder {
+  constructor(private storyClusterer: StoryClusterer = new StoryClusterer()) {}
+
+  build(items: MarketDataItem[], window: MorningBriefWindow, prioritySymbols: string[] = []): MorningBrief {
+    const overnight = items.filter(item => {
+      const time = new Date(item.timestamp).getTime();
+      return time >= window.start.getTime() && time <= window.end.getTime();
+    });
+
+    const stories = this.storyClusterer
+      .cluster(overnight)
+      .sort((a, b) => b.relevanceScore - a.relevanceScore || a.id.localeCompare(b.id));
+
+    const alerts = stories.filter(story => story.relevanceScore >= ALERT_THRESHOLD).slice(0, MAX_ALERTS);
+    const alertIds = new Set(alerts.map(story => story.id));
+    const keyEvents = stories
+      .filter(story => story.relevanceScore >= KEY_EVENT_THRESHOLD && !alertIds.has(story.id))
+      .slice(0, MAX_KEY_EVENTS);
+
+    const sentiment = { positive: 0, negative: 0, neutral: 0 };
+    overnight.forEach(item => {
+      sentiment[item.sentiment || 'neutral']++;
+    });
+
+    const brief: MorningBrief = {
+      windowStart: window.start.toISOString(),
+      windowEnd: window.end.toISOString(),
+      nextMarketOpen: window.nextMarketOpen.toISOString(),
+      itemCount: overnight.length,
+      storyCount: stories.length,
+      executiveSummary: '',
+      alerts,
+      sentiment,
+      keyEvents,
+      prioritySymbols: prioritySymbols.map(symbol => this.summarizeSymbol(symbol, stories)),
+      timeSensitive: this.findTimeSensitive(stories)
+    };
+
+    brief.executiveSummary = this.generateExecutiveSummary(brief, stories);
+    return brief;
+  }
+
+  format(brief: MorningBrief): string {
+    const lines: string[] = [];
+
+    lines.push('# 🌅 Morning Market Brief');
+    lines.push('');
+    lines.push(`**Window**: ${brief.windowStart} → ${brief.windowEnd} (since the previous close)`);
+    lines.push(`**Next Market Open**: ${brief.nextMarketOpen}`);
+    lines.push(`**Coverage**: ${this.plural(brief.itemCount, 'item')} in ${this.plural(brief.storyCount, 'story', 'stories')}`);
+    lines.push('');
+
+    lines.push(ToolFormatter.createSectionHeader('Executive Summary', '📝'));
+    lines.push(brief.executiveSummary);
+    lines.push('');
+
+    lines.push(ToolFormatter.createSectionHeader(`Top ${MAX_ALERTS} Alerts (${ALERT_THRESHOLD}+ relevance)`, '🚨'));
+    lines.push(brief.alerts.length > 0
+      ? brief.alerts.map((story, index) => this.formatStoryLine(story, `${index + 1}.`)).join('\n')
+      : '- No critical alerts overnight.');
+    lines.push('');
+
+    lines.push(ToolFormatter.createSectionHeader('Market Sentiment', '💭'));
+    const total = brief.itemCount;
+    (['positive', 'negative', 'neutral'] as const).forEach(label => {
+      const count = brief.sentiment[label];
+      lines.push(`- **${label}**: ${count} (${total > 0 ? Math.round((count / total) * 100) : 0}%)`);
+    });
+    lines.push('');
+
+    lines.push(ToolFormatter.createSectionHeader(`Key Events (${KEY_EVENT_THRESHOLD}+ relevance)`, '📈'));
+    lines.push(brief.keyEvents.length > 0
+      ? brief.keyEvents.map(story => this.formatStoryLine(story, '-')).join('\n')
+      : '- No other high-relevance events.');
+    lines.push('');
+
+    lines.push(ToolFormatter.createSectionHeader('Priority Symbols Activity', '📍'));
+    if (brief.prioritySymbols.length === 0) {
+      lines.push('- No priority symbols requested.');
+    } else {
+      brief.prioritySymbols.forEach(activity => {
+        if (activity.storyCount === 0) {
+          lines.push(`- **${activity.symbol}**: no coverage overnight`);
+          return;
+        }
+        lines.push(
+          `- **${activity.symbol}**: ${this.plural(activity.storyCount, 'story', 'stories')}, ` +
+          `${this.plural(activity.itemCount, 'item')}, mostly ${activity.sentiment} — ` +
+          `top: ${activity.topStory!.headline}`
+        );
+      });
+    }
+    lines.push('');
+
+    lines.push(ToolFormatter.createSectionHeader('Time-Sensitive Items', '⏰'));
+    lines.push(brief.timeSensitive.length > 0
+      ? brief.timeSensitive
+        .map(entry => this.formatStoryLine(entry.story, `- ${CATEGORY_LABELS[entry.category]}:`))
+        .join('\n')
+      : '- Nothing scheduled or moving before the open.');
+
+    return lines.join('\n');
+  }
+
+  private summarizeSymbol(symbol: string, stories: MarketStory[]): MorningBrief['prioritySymbols'][number] {
+    const upper = symbol.toUpperCase();
+    const matching = stories.filter(story => story.symbols.includes(upper));
+    if (matching.length === 0) {
+      return { symbol: upper, storyCount: 0, itemCount: 0 };
+    }
+
+    const items = matching.flatMap(story => story.items);
+    const counts = { positive: 0, negative: 0, neutral: 0 };
+    items.forEach(item => {
+      // Sentiment towards this symbol beats the item's overall tone
+      const symbolSentiment = item.symbolSentiment?.find(entry => entry.symbol === upper);
+      counts[symbolSentiment?.label || item.sentiment || 'neutral']++;
+    });
+
+    // Ties resolve in a fixed order so the label never flips between runs
+    const sentiment = (['negative', 'positive', 'neutral'] as const)
+      .reduce((best, label) => counts[label] > counts[best] ? label : best, 'neutral' as SentimentLabel);
+
+    return {
+      symbol: upper,
+      storyCount: matching.length,
+      itemCount: items.length,
+      sentiment,
+      topStory: matching[0]
+    };
+  }
+
+  private findTimeSensitive(stories: MarketStory[]): MorningBrief['timeSensitive'] {
+    const entries: MorningBrief['timeSensitive'] = [];
+
+    for (const story of stories) {
+      const text = story.items.map(item => `${item.title} ${item.content}`).join(' ');
+      const match = TIME_SENSITIVE_PATTERNS.find(({ pattern }) => pattern.test(text));
+      if (match) {
+        entries.push({ category: match.category, story });
+      }
+    }
+
+    return entries.slice(0, MAX_TIME_SENSITIVE);
+  }
+
+  private generateExecutiveSummary(brief: MorningBrief, stories: MarketStory[]): string {
+    if (stories.length === 0) {
+      return 'No market-moving coverage since the previous close.';
+    }
+
+    const sentences: string[] = [];
+    const lead = stories[0];
+
+    sentences.push(
+      `${this.plural(brief.storyCount, 'story', 'stories')} from ${this.plural(brief.itemCount, 'item')} since the previous close, ` +
+      `${brief.alerts.length} of them critical.`
+    );
+    sentences.push(`Top story: ${lead.headline} (${lead.sources.join(', ')}).`);
+
+    const { positive, negative } = brief.sentiment;
+    if (positive > negative) {
+      sentences.push(`Overnight sentiment leans positive (${positive} positive vs ${negative} negative).`);
+    } else if (negative > positive) {
+      sentences.push(`Overnight sentiment leans negative (${negative} negative vs ${positive} positive).`);
+    } else {
+      sentences.push('Overnight sentiment is mixed.');
+    }
+
+    return sentences.join(' ');
+  }
+
+  private formatStoryLine(story: MarketStory, bullet: string): string {
+    const symbols = story.symbols.length > 0 ? ` [${ToolFormatter.formatSymbols(story.symbols)}]` : '';
+    const coverage = story.sources.length > 1 ? ` — ${story.sources.join(', ')}` : ` — ${story.sources[0]}`;
+    return `${bullet} **${story.headline}**${symbols} ${ToolFormatter.formatRelevanceScore(story.relevanceScore)}${coverage} (${story.leadItem.timestamp})`;
+  }
+
+  private plural(count: number, singular: string, pluralForm: string = `${singular}s`): string {
+    return `${count} ${count === 1 ? singular : pluralForm}`;
+  }
+}
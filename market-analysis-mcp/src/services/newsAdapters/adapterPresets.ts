@@ -0,0 +1,219 @@
+import { NewsApiAdapterConfig } from '../../types/marketData';
+
+/**
+ * Built-in adapters for the news APIs the server ships with. A source picks
+ * one with adapter.preset and may override any part of it in sources.json.
+ * Presets with a key send it only to the provider's own hosts.
+ */
+export const NEWS_ADAPTER_PRESETS: Record<string, NewsApiAdapterConfig> = {
+  // Any JSON API returning an array of articles, or { articles } / { data }
+  generic: {
+    params: { limit: '{limit}', timeframe: '{timeframe}' },
+    response: {
+      items: 'articles|data',
+      id: 'id|uuid',
+      title: 'title|headline',
+      url: 'url|link',
+      timestamp: 'publishedAt|date|timestamp',
+      author: 'author|byline',
+      content: 'content|body|description'
+    }
+  },
+
+  newsapi: {
+    apiKeyEnv: 'NEWSAPI_ORG_API_KEY',
+    keyHosts: ['newsapi.org'],
+    params: {
+      apiKey: '{apiKey}',
+      q: 'stock market OR economy OR earnings OR fed OR trading OR nasdaq OR s&p OR dow OR stocks',
+      domains: 'bloomberg.com,reuters.com,marketwatch.com,cnbc.com,wsj.com',
+      sortBy: 'publishedAt',
+      language: 'en',
+      pageSize: '{limit}',
+      from: '{fromDate}'
+    },
+    response: {
+      items: 'articles',
+      id: 'url',
+      idPrefix: 'newsapi',
+      title: 'title',
+      url: 'url',
+      timestamp: 'publishedAt',
+      author: 'author',
+      content: 'content|description'
+    }
+  },
+
+  'alpha-vantage': {
+    apiKeyEnv: 'ALPHA_VANTAGE_API_KEY',
+    keyHosts: ['alphavantage.co'],
+    params: {
+      function: 'NEWS_SENTIMENT',
+      apikey: '{apiKey}',
+      topics: 'technology,finance,economy,real_estate,manufacturing,financial_markets',
+      limit: '{limit}',
+      time_from: '{fromCompact}'
+    },
+    response: {
+      items: 'feed',
+      id: 'url',
+      idPrefix: 'alphavantage',
+      title: 'title',
+      url: 'url',
+      timestamp: 'time_published',
+      author: 'authors.0',
+      content: 'summary',
+      symbols: 'ticker_sentiment[].ticker',
+      sentiment: {
+        provider: 'alpha-vantage',
+        label: 'overall_sentiment_label',
+        labels: {
+          bullish: 'positive',
+          'somewhat-bullish': 'positive',
+          neutral: 'neutral',
+          'somewhat-bearish': 'negative',
+          bearish: 'negative'
+        },
+        score: 'overall_sentiment_score',
+        symbols: {
+          path: 'ticker_sentiment',
+          symbol: 'ticker',
+          score: 'ticker_sentiment_score',
+          relevance: 'relevance_score'
+        }
+      }
+    }
+  },
+
+  fmp: {
+    apiKeyEnv: 'FINANCIAL_MODELING_PREP_API_KEY',
+    keyHosts: ['financialmodelingprep.com'],
+    params: { apikey: '{apiKey}', limit: '{limit}' },
+    response: {
+      id: 'url',
+      idPrefix: 'fmp',
+      title: 'title',
+      url: 'url',
+      timestamp: 'publishedDate',
+      author: 'site',
+      content: 'text',
+      symbols: 'symbol'
+    }
+  },
+
+  // Latest general news; symbol queries go to company-news one ticker at a time. No pagination.
+  finnhub: {
+    apiKeyEnv: 'FINNHUB_API_KEY',
+    keyHosts: ['finnhub.io'],
+    headers: { 'X-Finnhub-Token': '{apiKey}' },
+    params: { category: 'general' },
+    symbolQuery: {
+      param: 'symbol',
+      endpoint: 'https://finnhub.io/api/v1/company-news',
+      params: { from: '{fromDate}', to: '{toDate}' }
+    },
+    response: {
+      id: 'id',
+      idPrefix: 'finnhub',
+      title: 'headline',
+      url: 'url',
+      timestamp: 'datetime',
+      author: 'source',
+      content: 'summary',
+      symbols: 'related'
+    }
+  },
+
+  // Ticker news with per-ticker sentiment insights; next_url pages need header auth
+  polygon: {
+    apiKeyEnv: 'POLYGON_API_KEY',
+    keyHosts: ['polygon.io'],
+    headers: { Authorization: 'Bearer {apiKey}' },
+    params: {
+      'published_utc.gte': '{from}',
+      order: 'desc',
+      sort: 'published_utc',
+      limit: '{limit}'
+    },
+    symbolQuery: { param: 'ticker' },
+    pagination: { type: 'next-url', next: 'next_url' },
+    response: {
+      items: 'results',
+      id: 'id',
+      idPrefix: 'polygon',
+      title: 'title',
+      url: 'article_url',
+      timestamp: 'published_utc',
+      author: 'author|publisher.name',
+      content: 'description',
+      symbols: 'tickers',
+      sentiment: {
+        provider: 'polygon',
+        labels: { positive: 'positive', neutral: 'neutral', negative: 'negative' },
+        symbols: { path: 'insights', symbol: 'ticker', label: 'sentiment' }
+      }
+    }
+  },
+
+  // Entity-level sentiment scores; small plans return a few articles per page
+  marketaux: {
+    apiKeyEnv: 'MARKETAUX_API_KEY',
+    keyHosts: ['marketaux.com'],
+    params: {
+      api_token: '{apiKey}',
+      language: 'en',
+      published_after: '{fromUtc}',
+      limit: '{limit}'
+    },
+    symbolQuery: { param: 'symbols', separator: ',', params: { filter_entities: true } },
+    pagination: { type: 'page', param: 'page', start: 1 },
+    response: {
+      items: 'data',
+      id: 'uuid',
+      idPrefix: 'marketaux',
+      title: 'title',
+      url: 'url',
+      timestamp: 'published_at',
+      author: 'source',
+      content: 'description|snippet',
+      symbols: 'entities[].symbol',
+      sentiment: {
+        provider: 'marketaux',
+        symbols: { path: 'entities', symbol: 'symbol', score: 'sentiment_score', relevance: 'match_score' }
+      }
+    }
+  },
+
+  // Answers in XML unless JSON is asked for; pages start at 0
+  benzinga: {
+    apiKeyEnv: 'BENZINGA_API_KEY',
+    keyHosts: ['benzinga.com'],
+    headers: { Accept: 'application/json' },
+    params: {
+      token: '{apiKey}',
+      pageSize: '{limit}',
+      displayOutput: 'full',
+      dateFrom: '{fromDate}',
+      sort: 'created:desc'
+    },
+    symbolQuery: { param: 'tickers', separator: ',' },
+    pagination: { type: 'page', param: 'page', start: 0 },
+    response: {
+      id: 'id',
+      idPrefix: 'benzinga',
+      title: 'title',
+      url: 'url',
+      timestamp: 'created',
+      author: 'author',
+      content: 'teaser|body',
+      symbols: 'stocks[].name'
+    }
+  }
+};
+
+// Configs written before adapters existed name the provider only through the source name
+export const LEGACY_SOURCE_PRESETS: Record<string, string> = {
+  'NewsAPI.org': 'newsapi',
+  'Alpha Vantage News': 'alpha-vantage',
+  'Financial Modeling Prep': 'fmp'
+};
@@ -0,0 +1,404 @@
+import {
+  NewsApiAdapterConfig,
+  NewsApiResponseMapping,
+  NewsApiSentimentMapping,
+  NewsSource,
+  ProviderSentiment,
+  QueryParamValue,
+  SentimentLabel
+} from '../../types/marketData';
+import { NewsApiKeys } from '../../types/appConfig';
+import { SecurityValidator } from '../../utils/SecurityValidator';
+import { TimeUtils } from '../../utils/timeUtils';
+import { LEGACY_SOURCE_PRESETS, NEWS_ADAPTER_PRESETS } from './adapterPresets';
+
+// Keys ConfigManager reads into named fields; every other *_API_KEY lands in bearer
+const NAMED_KEYS: Record<string, Exclude<keyof NewsApiKeys, 'bearer'>> = {
+  NEWSAPI_ORG_API_KEY: 'newsApiOrg',
+  ALPHA_VANTAGE_API_KEY: 'alphaVantage',
+  FINANCIAL_MODELING_PREP_API_KEY: 'financialModelingPrep',
+  FINNHUB_API_KEY: 'finnhub',
+  POLYGON_API_KEY: 'polygon',
+  MARKETAUX_API_KEY: 'marketaux',
+  BENZINGA_API_KEY: 'benzinga'
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const COMPACT_TIMESTAMP = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?$/;
+
+// Scores for symbols a provider labels without scoring
+const LABEL_SCORES: Record<SentimentLabel, number> = { positive: 0.5, neutral: 0, negative: -0.5 };
+
+export interface AdapterRequest {
+  url: string;
+  params: Record<string, QueryParamValue>;
+  headers: Record<string, string>;
+}
+
+export interface AdapterRequestOptions {
+  timeframe: string;
+  limit: number;
+  symbols?: string[]; // Sent through symbolQuery when the adapter has one
+  since?: Date; // Newest article already seen; moves the {from} placeholders up when later than the timeframe start
+  now?: Date;
+}
+
+// Performs one HTTP GET and returns the parsed JSON body
+export type AdapterGet = (request: AdapterRequest) => Promise<unknown>;
+
+/**
+ * Article fields read from one API response entry, before scoring
+ */
+export interface MappedArticle {
+  id?: string;
+  title: string;
+  url?: string;
+  author?: string;
+  timestamp: string; // ISO 8601
+  content: string;
+  symbols: string[];
+  sentiment?: SentimentLabel;
+  providerSentiment?: ProviderSentiment;
+}
+
+/**
+ * Queries a JSON news API and maps its articles as declared in sources.json,
+ * so a new provider needs configuration rather than code
+ */
+export class NewsApiAdapter {
+  constructor(private source: NewsSource, private config: NewsApiAdapterConfig) {}
+
+  /**
+   * The source's adapter merged over its preset
+   */
+  static forSource(source: NewsSource): NewsApiAdapter {
+    const presetName = NewsApiAdapter.presetName(source);
+    const preset = NEWS_ADAPTER_PRESETS[presetName];
+    if (!preset) {
+      throw new Error(`Unknown news adapter preset "${presetName}" for ${source.name} (available: ${Object.keys(NEWS_ADAPTER_PRESETS).join(', ')})`);
+    }
+
+    const own = source.adapter || {};
+    const symbolQuery = own.symbolQuery || preset.symbolQuery;
+    const pagination = own.pagination || preset.pagination;
+    const keyHosts = own.keyHosts || preset.keyHosts;
+    return new NewsApiAdapter(source, {
+      apiKeyEnv: own.apiKeyEnv || preset.apiKeyEnv,
+      ...(keyHosts ? { keyHosts } : {}),
+      params: { ...preset.params, ...own.params },
+      headers: { ...preset.headers, ...own.headers },
+      ...(symbolQuery ? { symbolQuery } : {}),
+      ...(pagination ? { pagination } : {}),
+      response: { ...preset.response, ...own.response }
+    });
+  }
+
+  /**
+   * Preset an api source builds on; sources that name none use 'generic'
+   */
+  static presetName(source: NewsSource): string {
+    return source.adapter?.preset || LEGACY_SOURCE_PRESETS[source.name] || 'generic';
+  }
+
+  /**
+   * Refuse a URL outside keyHosts, so a preset's key never reaches another
+   * server, whether the endpoint or a next-page URL points there
+   */
+  checkKeyHost(url: string): void {
+    const keyHosts = this.config.keyHosts;
+    if (!keyHosts) return;
+
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      throw new Error(`Invalid URL for ${this.source.name}: ${url}`);
+    }
+    if (!keyHosts.some(allowed => host === allowed.toLowerCase() || host.endsWith(`.${allowed.toLowerCase()}`))) {
+      throw new Error(`${this.source.name} may only send its API key to ${keyHosts.join(', ')}, not ${host}`);
+    }
+  }
+
+  /**
+   * Variable the source's declared key is read from, when that key is not set
+   */
+  missingKey(apiKeys: NewsApiKeys): string | undefined {
+    const keyEnv = this.config.apiKeyEnv;
+    return keyEnv && !NewsApiAdapter.lookupKey(apiKeys, keyEnv) ? keyEnv : undefined;
+  }
+
+  /**
+   * Whether the provider can filter by symbol itself
+   */
+  get supportsSymbols(): boolean {
+    return !!this.config.symbolQuery;
+  }
+
+  /**
+   * First-page requests covering the timeframe: one, or one per symbol when
+   * the provider takes a single symbol at a time. queryParams are added last.
+   */
+  buildRequests(apiKeys: NewsApiKeys, options: AdapterRequestOptions): AdapterRequest[] {
+    const fill = this.createFiller(apiKeys, options);
+    const headers = { ...this.config.headers };
+    if (this.source.auth === 'bearer' && !headers.Authorization) {
+      headers.Authorization = 'Bearer {apiKey}';
+    }
+
+    const build = (url: string, params: Record<string, QueryParamValue>): AdapterRequest => {
+      this.checkKeyHost(url);
+      const pagination = this.config.pagination;
+      const merged: Record<string, QueryParamValue> = {
+        ...params,
+        ...this.source.queryParams,
+        ...(pagination?.type === 'page' && pagination.param ? { [pagination.param]: pagination.start ?? 1 } : {})
+      };
+      return {
+        url,
+        params: Object.fromEntries(Object.entries(merged).map(([key, value]) => [key, fill(value)])),
+        headers: Object.fromEntries(Object.entries(headers).map(([key, value]) => [key, String(fill(value))]))
+      };
+    };
+
+    const symbolQuery = this.config.symbolQuery;
+    if (!symbolQuery || !options.symbols?.length) {
+      return [build(this.source.endpoint, this.config.params || {})];
+    }
+
+    // A separate symbol endpoint takes different parameters than the default one
+    const params = symbolQuery.endpoint
+      ? { ...symbolQuery.params }
+      : { ...this.config.params, ...symbolQuery.params };
+    const groups = symbolQuery.separator !== undefined ? [options.symbols.join(symbolQuery.separator)] : options.symbols;
+    return groups.map(group => build(symbolQuery.endpoint || this.source.endpoint, { ...params, [symbolQuery.param]: group }));
+  }
+
+  /**
+   * Request the following page, or null when the response was the last one
+   */
+  nextPage(request: AdapterRequest, data: unknown, articleCount: number): AdapterRequest | null {
+    const pagination = this.config.pagination;
+    if (!pagination || articleCount === 0) return null;
+
+    switch (pagination.type) {
+      case 'page': {
+        if (!pagination.param) return null;
+        const page = Number(request.params[pagination.param]);
+        return { ...request, params: { ...request.params, [pagination.param]: page + 1 } };
+      }
+      case 'cursor': {
+        const cursor = NewsApiAdapter.text(NewsApiAdapter.read(data, pagination.next));
+        if (!cursor || !pagination.param) return null;
+        return { ...request, params: { ...request.params, [pagination.param]: cursor } };
+      }
+      case 'next-url': {
+        // The next URL carries the query, so the provider must authenticate by header
+        const url = NewsApiAdapter.text(NewsApiAdapter.read(data, pagination.next));
+        if (!url) return null;
+        this.checkKeyHost(url);
+        return { ...request, url, params: {} };
+      }
+    }
+  }
+
+  /**
+   * Every article for the options, following pages until the limit, the last
+   * page or pagination.maxPages. Articles seen in an earlier response are dropped.
+   */
+  async fetchArticles(get: AdapterGet, apiKeys: NewsApiKeys, options: AdapterRequestOptions): Promise<MappedArticle[]> {
+    const maxPages = this.config.pagination?.maxPages ?? 5;
+    const articles: MappedArticle[] = [];
+    const seen = new Set<string>();
+
+    for (const first of this.buildRequests(apiKeys, options)) {
+      let request: AdapterRequest | null = first;
+      let collected = 0;
+
+      for (let page = 1; request; page++) {
+        const data = await get(request);
+        const pageArticles = this.mapResponse(data);
+        for (const article of pageArticles) {
+          const key = article.id || article.url;
+          if (key && seen.has(key)) continue;
+          if (key) seen.add(key);
+          articles.push(article);
+          collected++;
+        }
+
+        request = collected < options.limit && page < maxPages ? this.nextPage(request, data, pageArticles.length) : null;
+      }
+    }
+
+    return articles;
+  }
+
+  private createFiller(apiKeys: NewsApiKeys, options: AdapterRequestOptions): (template: QueryParamValue) => QueryParamValue {
+    const keyEnv = this.config.apiKeyEnv || `${this.source.name.toUpperCase().replace(/\s+/g, '_')}_API_KEY`;
+    const apiKey = NewsApiAdapter.lookupKey(apiKeys, keyEnv);
+    const now = options.now || new Date();
+    const timeframeStart = now.getTime() - TimeUtils.parseTimeframe(options.timeframe).hours * 60 * 60 * 1000;
+    const from = new Date(Math.max(timeframeStart, options.since?.getTime() ?? 0));
+
+    const values: Record<string, QueryParamValue | undefined> = {
+      apiKey: apiKey && SecurityValidator.validateApiKey(apiKey) ? apiKey : undefined,
+      limit: options.limit,
+      timeframe: options.timeframe,
+      from: from.toISOString(),
+      fromUtc: from.toISOString().slice(0, 19),
+      fromDate: from.toISOString().split('T')[0],
+      fromCompact: from.toISOString().replace(/[-:]/g, '').slice(0, 13),
+      fromUnix: Math.floor(from.getTime() / 1000),
+      toDate: now.toISOString().split('T')[0]
+    };
+
+    return template => {
+      if (typeof template !== 'string') return template;
+      return template.replace(PLACEHOLDER, (match, name: string) => {
+        if (!(name in values)) return match;
+        const value = values[name];
+        if (value === undefined) {
+          throw new Error(`Invalid or missing API key for ${this.source.name}. Set ${keyEnv} in .env`);
+        }
+        return String(value);
+      });
+    };
+  }
+
+  /**
+   * Articles in a response; entries without a title or a readable timestamp are skipped
+   */
+  mapResponse(data: unknown): MappedArticle[] {
+    const mapping = this.config.response || {};
+    const entries = Array.isArray(data) ? data : NewsApiAdapter.read(data, mapping.items);
+    if (!Array.isArray(entries)) return [];
+
+    return entries.flatMap(entry => {
+      const article = this.mapArticle(entry, mapping);
+      return article ? [article] : [];
+    });
+  }
+
+  private mapArticle(entry: unknown, mapping: NewsApiResponseMapping): MappedArticle | null {
+    const title = NewsApiAdapter.text(NewsApiAdapter.read(entry, mapping.title));
+    const timestamp = NewsApiAdapter.parseTimestamp(NewsApiAdapter.read(entry, mapping.timestamp));
+    if (!title || !timestamp) return null;
+
+    const id = NewsApiAdapter.text(NewsApiAdapter.read(entry, mapping.id));
+    return {
+      id: id && mapping.idPrefix ? `${mapping.idPrefix}-${id}` : id,
+      title,
+      url: NewsApiAdapter.text(NewsApiAdapter.read(entry, mapping.url)),
+      author: NewsApiAdapter.text(NewsApiAdapter.read(entry, mapping.author)) || this.source.name,
+      timestamp,
+      content: NewsApiAdapter.text(NewsApiAdapter.read(entry, mapping.content)) || '',
+      symbols: NewsApiAdapter.symbols(NewsApiAdapter.read(entry, mapping.symbols)),
+      ...(mapping.sentiment ? this.mapSentiment(entry, mapping.sentiment) : {})
+    };
+  }
+
+  private mapSentiment(entry: unknown, mapping: NewsApiSentimentMapping): Pick<MappedArticle, 'sentiment' | 'providerSentiment'> {
+    const labels = Object.fromEntries(Object.entries(mapping.labels || {}).map(([key, value]) => [key.toLowerCase(), value]));
+    const toLabel = (value: unknown): SentimentLabel | undefined => {
+      const label = NewsApiAdapter.text(value)?.toLowerCase();
+      return label ? labels[label] : undefined;
+    };
+
+    const symbolMapping = mapping.symbols;
+    const symbolEntries = symbolMapping ? NewsApiAdapter.read(entry, symbolMapping.path) : undefined;
+    const symbols = symbolMapping && Array.isArray(symbolEntries)
+      ? symbolEntries
+        .map(symbolEntry => {
+          const label = toLabel(NewsApiAdapter.read(symbolEntry, symbolMapping.label));
+          const score = parseFloat(String(NewsApiAdapter.read(symbolEntry, symbolMapping.score)));
+          return {
+            symbol: (NewsApiAdapter.text(NewsApiAdapter.read(symbolEntry, symbolMapping.symbol)) || '').toUpperCase(),
+            score: isNaN(score) && label ? LABEL_SCORES[label] : score,
+            relevance: parseFloat(String(NewsApiAdapter.read(symbolEntry, symbolMapping.relevance))) || 0
+          };
+        })
+        .filter(symbolEntry => symbolEntry.symbol && !isNaN(symbolEntry.score))
+      : [];
+
+    // Providers that only score symbols get their mean as the overall score
+    const overall = parseFloat(String(NewsApiAdapter.read(entry, mapping.score)));
+    const score = !isNaN(overall) || mapping.score || symbols.length === 0
+      ? overall
+      : symbols.reduce((sum, symbolEntry) => sum + symbolEntry.score, 0) / symbols.length;
+
+    return {
+      sentiment: toLabel(NewsApiAdapter.read(entry, mapping.label)),
+      providerSentiment: isNaN(score) ? undefined : { provider: mapping.provider, score, symbols }
+    };
+  }
+
+  /**
+   * Value at a mapping path; the first alternative of 'a|b' that is not empty wins
+   */
+  static read(value: unknown, path?: string): unknown {
+    if (!path) return undefined;
+
+    for (const alternative of path.split('|')) {
+      const found = NewsApiAdapter.readSegments(value, alternative.trim().split('.'));
+      if (found !== undefined && found !== null && found !== '' && !(Array.isArray(found) && found.length === 0)) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  private static readSegments(value: unknown, segments: string[]): unknown {
+    if (segments.length === 0) return value;
+    if (typeof value !== 'object' || value === null) return undefined;
+
+    const [segment, ...rest] = segments;
+    const record = value as Record<string, unknown>;
+    if (segment.endsWith('[]')) {
+      const list = record[segment.slice(0, -2)];
+      if (!Array.isArray(list)) return undefined;
+      return list.flatMap(element => {
+        const found = NewsApiAdapter.readSegments(element, rest);
+        return found === undefined || found === null ? [] : [found];
+      });
+    }
+    return NewsApiAdapter.readSegments(record[segment], rest);
+  }
+
+  /**
+   * ISO 8601 from an ISO string, Unix seconds or milliseconds, or 20240131T153000 (UTC)
+   */
+  static parseTimestamp(value: unknown): string | undefined {
+    let time: number;
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) {
+      const numeric = Number(value);
+      time = numeric < 1e12 ? numeric * 1000 : numeric;
+    } else if (typeof value === 'string') {
+      const compact = value.match(COMPACT_TIMESTAMP);
+      time = compact
+        ? Date.UTC(+compact[1], +compact[2] - 1, +compact[3], +compact[4], +compact[5], +(compact[6] || 0))
+        : Date.parse(value);
+    } else {
+      return undefined;
+    }
+    return isNaN(time) ? undefined : new Date(time).toISOString();
+  }
+
+  private static text(value: unknown): string | undefined {
+    if (typeof value === 'number') return String(value);
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+  }
+
+  private static symbols(value: unknown): string[] {
+    // Some providers list related tickers as one comma separated string
+    const values = Array.isArray(value) ? value : [value];
+    const symbols = values
+      .flatMap(symbol => (NewsApiAdapter.text(symbol) || '').split(','))
+      .map(symbol => symbol.trim().toUpperCase())
+      .filter(symbol => symbol !== '');
+    return [...new Set(symbols)];
+  }
+
+  private static lookupKey(apiKeys: NewsApiKeys, envName: string): string | undefined {
+    const field = NAMED_KEYS[envName];
+    return field ? apiKeys[field] : apiKeys.bearer?.[envName];
+  }
+}
@@ -5,9 +5,22 @@ import { CacheManager } from '../utils/cache';
 import { RateLimiter } from '../utils/rateLimiter';
 import { TimeUtils } from '../utils/timeUtils';
 import { SecurityValidator } from '../utils/SecurityValidator';
-import { ErrorHandler } from '../utils/ErrorHandler';
-import { MarketDataItem, NewsSource, ProcessingResult } from '../types/marketData';
-import { BaseService } from './BaseService';
+import { NetworkGuard } from '../utils/NetworkGuard';
+import { FetchOptions, FullTextConfig, MarketDataItem, NewsSource, ProcessingResult, SourcesFetch } from '../types/marketData';
+import { Cancellation, TimeoutError } from '../utils/Cancellation';
+import { IncrementalFetch } from '../utils/IncrementalFetch';
+import { NewsApiKeys } from '../types/appConfig';
+import { AllSourcesFailedError, BaseService, SourcePoll } from './BaseService';
+import { AdapterRequest, MappedArticle, NewsApiAdapter } from './newsAdapters/newsApiAdapter';
+import { ArticleExtractor } from './articleExtractor';
+
+const DEFAULT_MAX_ARTICLES = 10;
+const DEFAULT_MIN_FEED_WORDS = 150;
+const ARTICLE_TIMEOUT_MS = 8000;
+const ARTICLE_CONCURRENCY = 3;
+const ARTICLE_BUDGET_SHARE = 0.5; // Share of the source deadline that all article pages of a poll may use
+const MAX_ARTICLE_BYTES = 2 * 1024 * 1024;
+const HTML_CONTENT_TYPE = /^\s*(?:text\/html|application\/xhtml\+xml)\b/i;
 
 interface NewsConfig {
   sources: NewsSource[];
@@ -25,12 +38,14 @@ interface RSSItem {
 
 export class NewsService extends BaseService {
   private rssParser: RSSParser;
+  private articleExtractor = new ArticleExtractor();
 
   constructor(
     private config: NewsConfig,
     cache: CacheManager,
     rateLimiter: RateLimiter,
-    logger: Logger
+    logger: Logger,
+    private apiKeys: NewsApiKeys
   ) {
     super(cache, rateLimiter, logger);
     this.rssParser = new RSSParser({
@@ -44,23 +59,36 @@ export class NewsService extends BaseService {
   async getNews(
     timeframe: string = '24h',
     symbols?: string[],
-    limit: number = 20
+    limit: number = 20,
+    options: FetchOptions = {}
   ): Promise<ProcessingResult> {
     try {
-      const cacheKey = this.generateCacheKey('news', { timeframe, symbols, limit });
-      
-      const data = await this.cacheOperation(cacheKey, async () => {
-        return await this.fetchNewsData(timeframe, symbols, limit);
-      }, TimeUtils.getOptimalCacheTTL('news'));
+      // Cached together with the source outcomes that produced it
+      const cacheKey = this.generateCacheKey('news-fetch', { timeframe, symbols, limit });
+      const sourceKeys = this.getEnabledSources().map(source => this.getSourceKey(source));
+
+      // Reading warm sources from the store is cheap, and the response cache would hide newer ingestions
+      let result: { data: SourcesFetch; cached: boolean };
+      if (await this.isWarm(sourceKeys)) {
+        const data = await this.fetchNewsData(timeframe, symbols, limit, options);
+        // Symbol queries may still have been sent live
+        result = { data, cached: data.outcomes.every(outcome => outcome.status === 'stored') };
+      } else {
+        result = await this.cachedResult(cacheKey, async () => {
+          return await this.fetchNewsData(timeframe, symbols, limit, options);
+        }, TimeUtils.getOptimalCacheTTL('news'));
+      }
+      const { data, cached } = result;
 
-      this.logger.info(`Fetched ${data.length} news articles`);
-      return { success: true, data };
+      this.logger.info(`Fetched ${data.items.length} news articles`);
+      return { success: true, data: data.items, cached, sourceOutcomes: data.outcomes };
     } catch (error) {
       this.handleError(error as Error, 'getNews');
       return { 
         success: false, 
         data: [],
-        error: error instanceof Error ? error.message : 'Unknown error fetching news' 
+        error: error instanceof Error ? error.message : 'Unknown error fetching news',
+        sourceOutcomes: error instanceof AllSourcesFailedError ? error.outcomes : undefined
       };
     }
   }
@@ -68,21 +96,40 @@ export class NewsService extends BaseService {
   private async fetchNewsData(
     timeframe: string,
     symbols?: string[],
-    limit: number = 20
-  ): Promise<MarketDataItem[]> {
-    const enabledSources = this.config.sources.filter(source => source.enabled);
-    const allNews: MarketDataItem[] = [];
-
-    // Fetch from all enabled sources
-    for (const source of enabledSources) {
-      try {
-        const news = await this.fetchFromSource(source, timeframe);
-        allNews.push(...news);
-      } catch (error) {
-        this.handleError(error as Error, `fetchFromSource:${source.name}`);
-        // Continue with other sources
-      }
-    }
+    limit: number = 20,
+    options: FetchOptions = {}
+  ): Promise<SourcesFetch> {
+    // Fetch from all enabled sources, reading recently ingested ones from the store.
+    // APIs that filter by symbol are asked directly, since ingestion stores their general feed.
+    const { items: allNews, outcomes } = await this.fetchSources(
+      this.getEnabledSources(),
+      'news',
+      source => this.getSourceKey(source),
+      async (source, signal) => {
+        const querySymbols = symbols?.length && this.supportsSymbolQuery(source) ? symbols : undefined;
+        if (querySymbols) {
+          // Each source caches its own answers, since the store does not hold them
+          const { data: items, cached } = await this.cachedResult(
+            this.generateCacheKey('news-symbols', { source: source.name, symbols: querySymbols, timeframe }),
+            async () => (await this.fetchFromSource(source, timeframe, signal, querySymbols)).items,
+            TimeUtils.getOptimalCacheTTL('news')
+          );
+          return { items, stored: cached };
+        }
+
+        const stored = await this.readWarmItems(this.getSourceKey(source), {
+          sourceName: source.name,
+          since: TimeUtils.getTimeframeStart(timeframe)
+        });
+        if (stored) return { items: stored, stored: true };
+
+        // Polls return what is new since the previous one; the rest of the window is in the store
+        const { items, fetchState } = await this.fetchFromSource(source, timeframe, signal);
+        const known = await this.readKnownItems(source.name, TimeUtils.getTimeframeStart(timeframe), items);
+        return { items, stored: false, known, fetchState };
+      },
+      options
+    );
 
     // Filter by symbols if provided
     let filteredNews = allNews;
@@ -110,147 +157,123 @@ export class NewsService extends BaseService {
     });
 
     // Limit results
-    return filteredNews.slice(0, limit);
+    return { items: filteredNews.slice(0, limit), outcomes };
   }
 
-  private async fetchFromSource(source: NewsSource, timeframe: string): Promise<MarketDataItem[]> {
-    const sourceId = `news-${source.name}`;
+  /**
+   * Swap in a reloaded sources config
+   */
+  reconfigure(config: NewsConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Every configured source, including disabled ones
+   */
+  getSources(): NewsSource[] {
+    return this.config.sources;
+  }
+
+  getEnabledSources(): NewsSource[] {
+    return this.config.sources.filter(source => source.enabled);
+  }
+
+  getSourceKey(source: NewsSource): string {
+    return `news-${source.name}`;
+  }
+
+  /**
+   * Fetch a single source without touching the response cache or the item store.
+   * Used by the ingestion scheduler, which scores and stores the items itself,
+   * then saves the poll state.
+   */
+  async collectFromSource(sourceName: string, timeframe: string = '24h'): Promise<SourcePoll> {
+    const source = this.config.sources.find(s => s.name === sourceName);
+    if (!source) {
+      throw new Error(`Source ${sourceName} not found`);
+    }
+
+    return this.fetchFromSource(source, timeframe);
+  }
+
+  private supportsSymbolQuery(source: NewsSource): boolean {
+    return source.type === 'api' && NewsApiAdapter.forSource(source).supportsSymbols;
+  }
+
+  private async fetchFromSource(
+    source: NewsSource,
+    timeframe: string,
+    signal?: AbortSignal,
+    symbols?: string[]
+  ): Promise<SourcePoll> {
+    const sourceId = this.getSourceKey(source);
     
     return this.executeWithRateLimit(async () => {
       if (source.type === 'rss') {
-        return this.fetchFromRSS(source);
+        return this.fetchFromRSS(source, signal);
       } else if (source.type === 'api') {
-        return this.fetchFromAPI(source, timeframe);
+        return this.fetchFromAPI(source, timeframe, signal, symbols);
       }
       throw new Error(`Unsupported source type: ${source.type}`);
-    }, sourceId, source.rateLimit);
+    }, sourceId, source.rateLimit, undefined, signal);
   }
 
-  private async fetchFromRSS(source: NewsSource): Promise<MarketDataItem[]> {
-    try {
-      const feed = await this.rssParser.parseURL(source.endpoint);
-      const items: MarketDataItem[] = [];
+  private async fetchFromRSS(source: NewsSource, signal?: AbortSignal): Promise<SourcePoll> {
+    const fullText = source.fullText?.enabled ? source.fullText : undefined;
 
-      for (const item of feed.items) {
-        const newsItem = this.convertRSSItemToMarketData(item, source);
-        if (newsItem) {
-          items.push(newsItem);
-        }
-      }
-
-      return items;
+    try {
+      const poll = await this.fetchNewFeedItems(
+        this.rssParser,
+        source.endpoint,
+        this.getSourceKey(source),
+        async item => this.convertRSSItemToMarketData(item, source),
+        signal
+      );
+      return fullText ? { ...poll, items: await this.addArticleTexts(poll.items, fullText, signal) } : poll;
     } catch (error) {
-      this.logger.error(`Error fetching RSS from ${source.name}:`, error);
+      if (!Cancellation.isCancelled(error, signal)) {
+        this.logger.error(`Error fetching RSS from ${source.name}:`, error);
+      }
       throw error;
     }
   }
 
-  private async fetchFromAPI(source: NewsSource, timeframe: string): Promise<MarketDataItem[]> {
+  private async fetchFromAPI(
+    source: NewsSource,
+    timeframe: string,
+    signal?: AbortSignal,
+    symbols?: string[]
+  ): Promise<SourcePoll> {
     try {
-      const headers: Record<string, string> = {
-        'User-Agent': 'Market-Analysis-MCP/1.0'
-      };
-
-      let params: Record<string, any> = {};
-      let apiKey = '';
-
-      // Configure API-specific parameters and authentication
-      switch (source.name) {
-        case 'NewsAPI.org':
-          apiKey = process.env.NEWSAPI_ORG_API_KEY || '';
-          if (!SecurityValidator.validateApiKey(apiKey)) {
-            const error = ErrorHandler.createStructuredError(
-              'INVALID_API_KEY',
-              `Invalid or missing API key for ${source.name}`,
-              { source: source.name }
-            );
-            throw new Error(`Invalid or missing API key for ${source.name}`);
-          }
-          params = {
-            apiKey,
-            q: 'stock market OR economy OR earnings OR fed OR trading OR nasdaq OR s&p OR dow OR stocks',
-            domains: 'bloomberg.com,reuters.com,marketwatch.com,cnbc.com,wsj.com',
-            sortBy: 'publishedAt',
-            language: 'en',
-            pageSize: 50,
-            from: this.getTimeframeDate(timeframe)
-          };
-          break;
-
-        case 'Alpha Vantage News':
-          apiKey = process.env.ALPHA_VANTAGE_API_KEY || '';
-          if (!SecurityValidator.validateApiKey(apiKey)) {
-            const error = ErrorHandler.createStructuredError(
-              'INVALID_API_KEY',
-              `Invalid or missing API key for ${source.name}`,
-              { source: source.name }
-            );
-            throw new Error(`Invalid or missing API key for ${source.name}`);
-          }
-          params = {
-            function: 'NEWS_SENTIMENT',
-            apikey: apiKey,
-            topics: 'technology,finance,economy,real_estate,manufacturing,financial_markets',
-            limit: 50,
-            time_from: this.getTimeframeDate(timeframe)
-          };
-          break;
-
-        case 'Financial Modeling Prep':
-          apiKey = process.env.FINANCIAL_MODELING_PREP_API_KEY || '';
-          if (!SecurityValidator.validateApiKey(apiKey)) {
-            const error = ErrorHandler.createStructuredError(
-              'INVALID_API_KEY',
-              `Invalid or missing API key for ${source.name}`,
-              { source: source.name }
-            );
-            throw new Error(`Invalid or missing API key for ${source.name}`);
-          }
-          params = {
-            apikey: apiKey,
-            limit: 50
-          };
-          break;
-
-        default:
-          // Legacy API handling
-          if (source.auth === 'bearer') {
-            const envKey = `${source.name.toUpperCase().replace(/\s+/g, '_')}_API_KEY`;
-            const legacyApiKey = process.env[envKey] || '';
-            if (legacyApiKey && SecurityValidator.validateApiKey(legacyApiKey)) {
-              headers['Authorization'] = `Bearer ${legacyApiKey}`;
-            } else if (legacyApiKey) {
-              const error = ErrorHandler.createStructuredError(
-                'INVALID_API_KEY',
-                `Invalid API key format for ${source.name}`,
-                { source: source.name, envKey }
-              );
-              this.logger.warn('Invalid API key format detected', error);
-            }
-          }
-          params = { limit: 50, timeframe: timeframe };
-          break;
-      }
+      // Symbol queries return a subset of the source, so only general polls move its fetch state
+      const sourceKey = this.getSourceKey(source);
+      const state = symbols?.length ? undefined : await this.getFetchState(sourceKey, source.endpoint);
+
+      // Every request counts against the rate limit; the attempt's own token covers the first
+      let requests = 0;
+      const articles = await NewsApiAdapter.forSource(source).fetchArticles(
+        request => requests++ === 0
+          ? this.getJson(request, signal)
+          : this.rateLimiter.withRateLimit(sourceKey, source.rateLimit, () => this.getJson(request, signal)),
+        this.apiKeys,
+        { timeframe, limit: 50, symbols, since: state?.lastPublishedAt ? new Date(state.lastPublishedAt) : undefined }
+      );
 
-      const response: AxiosResponse = await axios.get(source.endpoint, {
-        headers,
-        timeout: 10000,
-        params
-      });
+      const entries = articles.map(article => ({ article, seen: { guid: article.id || article.url, publishedAt: article.timestamp } }));
+      const newArticles = entries.filter(({ seen }) => IncrementalFetch.isNew(seen, state));
 
-      return this.convertAPIResponseToMarketData(response.data, source);
+      const items = this.convertAPIResponseToMarketData(newArticles.map(({ article }) => article), source);
+      return symbols?.length
+        ? { items }
+        : { items, fetchState: IncrementalFetch.advance(state, sourceKey, source.endpoint, newArticles.map(({ seen }) => seen)) };
     } catch (error) {
-      this.logger.error(`Error fetching from ${source.name} API:`, error);
+      if (!Cancellation.isCancelled(error, signal)) {
+        this.logger.error(`Error fetching from ${source.name} API:`, error);
+      }
       throw error;
     }
   }
 
-  private getTimeframeDate(timeframe: string): string {
-    const hours = TimeUtils.parseTimeframe(timeframe).hours;
-    const date = new Date(Date.now() - hours * 60 * 60 * 1000);
-    return date.toISOString().split('T')[0]; // YYYY-MM-DD format
-  }
-
   private convertRSSItemToMarketData(item: RSSItem, source: NewsSource): MarketDataItem | null {
     if (!item.title || !item.pubDate) {
       return null;
@@ -279,142 +302,116 @@ export class NewsService extends BaseService {
     };
   }
 
-  private convertAPIResponseToMarketData(data: any, source: NewsSource): MarketDataItem[] {
-    const items: MarketDataItem[] = [];
+  private isSnippet(item: MarketDataItem, minWords: number = DEFAULT_MIN_FEED_WORDS): boolean {
+    return Boolean(item.sourceDetails.url) && ArticleExtractor.countWords(item.content) < minWords;
+  }
+
+  /**
+   * Read the article pages of up to maxArticles snippet entries, a few at a
+   * time and under one time budget, so a slow site cannot make the source miss
+   * its deadline. Entries whose page was not read in time keep their snippet.
+   */
+  private async addArticleTexts(items: MarketDataItem[], fullText: FullTextConfig, signal?: AbortSignal): Promise<MarketDataItem[]> {
+    const pending = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => this.isSnippet(item, fullText.minWords))
+      .slice(0, fullText.maxArticles ?? DEFAULT_MAX_ARTICLES);
+    const results = [...items];
+    let next = 0;
+
+    const worker = async (budget: AbortSignal): Promise<void> => {
+      while (next < pending.length) {
+        const { item, index } = pending[next++];
+        results[index] = await this.addArticleText(item, budget);
+      }
+    };
+
+    const budgetMs = this.fetchSettings.sourceTimeoutMs * ARTICLE_BUDGET_SHARE;
+    try {
+      await Cancellation.withTimeout(
+        budgetMs,
+        budget => Promise.all(Array.from({ length: Math.min(ARTICLE_CONCURRENCY, pending.length) }, () => worker(budget))),
+        signal
+      );
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) throw error;
+      this.logger.warn(`Article pages of ${pending.length} entries took longer than ${budgetMs} ms; the rest keep their feed text`);
+    }
+    return [...results];
+  }
 
+  /**
+   * Replace a feed snippet with the text of the linked article page. Paywalled
+   * pages, and pages that yield no more than the feed did, keep the snippet.
+   * Feeds pick the link, so it must be a public http(s) page of bounded size.
+   */
+  private async addArticleText(item: MarketDataItem, signal?: AbortSignal): Promise<MarketDataItem> {
+    const url = item.sourceDetails.url!;
     try {
-      let articles: any[] = [];
-
-      // Handle different API response formats
-      switch (source.name) {
-        case 'NewsAPI.org':
-          articles = data.articles || [];
-          break;
-
-        case 'Alpha Vantage News':
-          articles = data.feed || [];
-          break;
-
-        case 'Financial Modeling Prep':
-          articles = Array.isArray(data) ? data : [];
-          break;
-
-        default:
-          // Generic handling
-          articles = Array.isArray(data) ? data : data.articles || data.data || [];
-          break;
+      NetworkGuard.checkUrl(url, 'article URL');
+      const response: AxiosResponse = await axios.get(url, {
+        headers: { 'User-Agent': 'Market-Analysis-MCP/1.0', Accept: 'text/html' },
+        timeout: ARTICLE_TIMEOUT_MS,
+        maxContentLength: MAX_ARTICLE_BYTES,
+        responseType: 'text',
+        signal,
+        ...NetworkGuard.requestOptions()
+      });
+      const contentType = response.headers['content-type'];
+      if (contentType && !HTML_CONTENT_TYPE.test(String(contentType))) {
+        this.logger.debug(`Skipped the article text of ${url}: ${contentType} is not HTML`);
+        return item;
       }
 
-      for (const article of articles) {
-        let item: MarketDataItem;
-
-        switch (source.name) {
-          case 'NewsAPI.org':
-            item = {
-              id: `newsapi-${Date.now()}-${Math.random()}`,
-              source: 'news',
-              sourceDetails: {
-                name: source.name,
-                url: article.url,
-                author: article.author
-              },
-              timestamp: new Date(article.publishedAt).toISOString(),
-              title: article.title || '',
-              content: article.content || article.description || '',
-              summary: this.generateSummary(article.content || article.description || ''),
-              relevanceScore: 0,
-              marketTags: [],
-              symbols: [],
-              sentiment: undefined
-            };
-            break;
-
-          case 'Alpha Vantage News':
-            item = {
-              id: `alphavantage-${Date.now()}-${Math.random()}`,
-              source: 'news',
-              sourceDetails: {
-                name: source.name,
-                url: article.url,
-                author: article.authors?.[0] || 'Alpha Vantage'
-              },
-              timestamp: new Date(article.time_published).toISOString(),
-              title: article.title || '',
-              content: article.summary || '',
-              summary: this.generateSummary(article.summary || ''),
-              relevanceScore: 0,
-              marketTags: [],
-              symbols: article.ticker_sentiment?.map((t: any) => t.ticker) || [],
-              sentiment: this.mapAlphaVantageSentiment(article.overall_sentiment_label)
-            };
-            break;
-
-          case 'Financial Modeling Prep':
-            item = {
-              id: `fmp-${Date.now()}-${Math.random()}`,
-              source: 'news',
-              sourceDetails: {
-                name: source.name,
-                url: article.url,
-                author: article.site || 'Financial Modeling Prep'
-              },
-              timestamp: new Date(article.publishedDate).toISOString(),
-              title: article.title || '',
-              content: article.text || '',
-              summary: this.generateSummary(article.text || ''),
-              relevanceScore: 0,
-              marketTags: [],
-              symbols: article.symbol ? [article.symbol] : [],
-              sentiment: undefined
-            };
-            break;
-
-          default:
-            // Generic handling for legacy APIs
-            item = {
-              id: article.id || article.uuid || `${source.name}-${Date.now()}-${Math.random()}`,
-              source: 'news',
-              sourceDetails: {
-                name: source.name,
-                url: article.url || article.link,
-                author: article.author || article.byline
-              },
-              timestamp: new Date(article.publishedAt || article.date || article.timestamp).toISOString(),
-              title: article.title || article.headline || '',
-              content: article.content || article.body || article.description || '',
-              summary: this.generateSummary(article.content || article.body || article.description || ''),
-              relevanceScore: 0,
-              marketTags: [],
-              symbols: [],
-              sentiment: undefined
-            };
-            break;
-        }
+      const article = this.articleExtractor.extract(String(response.data));
+      const extraction = {
+        method: article.method,
+        wordCount: article.wordCount,
+        paywalled: article.paywalled,
+        extractedAt: new Date().toISOString()
+      };
 
-        if (item.title && item.timestamp) {
-          items.push(item);
-        }
+      if (article.paywalled || article.wordCount <= ArticleExtractor.countWords(item.content)) {
+        return { ...item, extraction };
       }
+      return { ...item, content: article.text, summary: this.generateSummary(article.text), extraction };
     } catch (error) {
-      this.logger.error(`Error converting API response from ${source.name}:`, error);
+      if (Cancellation.isCancelled(error, signal)) throw error;
+      this.logger.warn(`Failed to read the article text of ${url}:`, error);
+      return item;
     }
+  }
 
-    return items;
+  private async getJson(request: AdapterRequest, signal?: AbortSignal): Promise<unknown> {
+    const response: AxiosResponse = await axios.get(request.url, {
+      headers: { 'User-Agent': 'Market-Analysis-MCP/1.0', ...request.headers },
+      timeout: 10000,
+      params: request.params,
+      signal,
+      ...NetworkGuard.requestOptions()
+    });
+    return response.data;
   }
 
-  private mapAlphaVantageSentiment(sentimentLabel: string): 'positive' | 'negative' | 'neutral' | undefined {
-    switch (sentimentLabel?.toLowerCase()) {
-      case 'bullish':
-      case 'somewhat-bullish':
-        return 'positive';
-      case 'bearish':
-      case 'somewhat-bearish':
-        return 'negative';
-      case 'neutral':
-        return 'neutral';
-      default:
-        return undefined;
-    }
+  private convertAPIResponseToMarketData(articles: MappedArticle[], source: NewsSource): MarketDataItem[] {
+    return articles.map(article => ({
+      id: article.id || `${source.name}-${Date.now()}-${Math.random()}`,
+      source: 'news',
+      sourceDetails: {
+        name: source.name,
+        url: article.url,
+        author: article.author
+      },
+      timestamp: article.timestamp,
+      title: article.title,
+      content: article.content,
+      summary: this.generateSummary(article.content),
+      relevanceScore: 0, // Will be calculated by RelevanceScorer
+      marketTags: [],
+      symbols: article.symbols,
+      sentiment: article.sentiment,
+      ...(article.providerSentiment ? { providerSentiment: article.providerSentiment } : {})
+    }));
   }
 
   private generateSummary(content: string): string {
@@ -498,43 +495,30 @@ export class NewsService extends BaseService {
     return status;
   }
 
-  async testConnection(sourceName: string): Promise<boolean> {
-    const source = this.config.sources.find(s => s.name === sourceName);
+  /**
+   * Fetch a one-item sample from a configured source, or from a candidate
+   * source that is not configured yet
+   */
+  async testConnection(sourceOrName: string | NewsSource): Promise<boolean> {
+    const source = typeof sourceOrName === 'string'
+      ? this.config.sources.find(s => s.name === sourceOrName)
+      : sourceOrName;
     if (!source) {
-      throw new Error(`Source ${sourceName} not found`);
+      throw new Error(`Source ${sourceOrName} not found`);
     }
+    const sourceName = source.name;
 
     try {
       if (source.type === 'rss') {
-        const feed = await this.rssParser.parseURL(source.endpoint);
-        return !!feed.title;
+        const download = await this.fetchFeed(this.rssParser, source.endpoint);
+        return !!download?.feed.title;
       } else if (source.type === 'api') {
-        // Use the same authentication logic as fetchFromAPI
-        const headers: Record<string, string> = {
-          'User-Agent': 'Market-Analysis-MCP/1.0'
-        };
-
-        let params: Record<string, any> = {};
-        
-        switch (source.name) {
-          case 'NewsAPI.org':
-            params = { apiKey: process.env.NEWSAPI_ORG_API_KEY, q: 'market', pageSize: 1 };
-            break;
-          case 'Alpha Vantage News':
-            params = { function: 'NEWS_SENTIMENT', apikey: process.env.ALPHA_VANTAGE_API_KEY, limit: 1 };
-            break;
-          case 'Financial Modeling Prep':
-            params = { apikey: process.env.FINANCIAL_MODELING_PREP_API_KEY, limit: 1 };
-            break;
-          default:
-            params = { limit: 1 };
-            break;
-        }
-
-        const response = await axios.get(source.endpoint, { 
-          headers, 
+        const [{ url, params, headers }] = NewsApiAdapter.forSource(source).buildRequests(this.apiKeys, { timeframe: '24h', limit: 1 });
+        const response = await axios.get(url, {
+          headers: { 'User-Agent': 'Market-Analysis-MCP/1.0', ...headers },
           params,
-          timeout: 10000 
+          timeout: 10000,
+          ...NetworkGuard.requestOptions()
         });
         return response.status === 200 && !response.data.error;
       }
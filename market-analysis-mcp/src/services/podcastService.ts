@@ -4,17 +4,22 @@ import { Logger } from 'winston';
 import { CacheManager } from '../utils/cache';
 import { RateLimiter } from '../utils/rateLimiter';
 import { TimeUtils } from '../utils/timeUtils';
-import { MarketDataItem, PodcastSource, ProcessingResult, PodcastEpisode } from '../types/marketData';
-import { BaseService } from './BaseService';
+import { FetchOptions, MarketDataItem, PodcastSource, ProcessingResult, PodcastTranscript, SourcesFetch } from '../types/marketData';
+import { Cancellation } from '../utils/Cancellation';
+import { AllSourcesFailedError, BaseService, SourcePoll } from './BaseService';
+import { TranscriptionPipeline } from './transcription/transcriptionPipeline';
 
 export class PodcastService extends BaseService {
+  static readonly RATE_LIMIT = '10/hour'; // Default rate limit for podcasts
+
   private rssParser: RSSParser;
 
   constructor(
     private config: PodcastSource[],
     cache: CacheManager,
     rateLimiter: RateLimiter,
-    logger: Logger
+    logger: Logger,
+    private transcriptionPipeline?: TranscriptionPipeline
   ) {
     super(cache, rateLimiter, logger);
     this.rssParser = new RSSParser({
@@ -27,44 +32,60 @@ export class PodcastService extends BaseService {
 
   async getPodcasts(
     timeframe: string = '7d',
-    includeTranscripts: boolean = false
+    includeTranscripts: boolean = false,
+    options: FetchOptions = {}
   ): Promise<ProcessingResult> {
     try {
-      const cacheKey = this.generateCacheKey('podcasts', { timeframe, includeTranscripts });
-      
-      const data = await this.cacheOperation(cacheKey, async () => {
-        return await this.fetchPodcastData(timeframe, includeTranscripts);
-      }, TimeUtils.getOptimalCacheTTL('podcast'));
+      // Cached together with the source outcomes that produced it
+      const cacheKey = this.generateCacheKey('podcast-fetch', { timeframe, includeTranscripts });
+      const sourceKeys = this.getEnabledSources().map(source => this.getSourceKey(source));
+
+      // Ingested episodes carry no transcripts, so transcript requests always take the live path
+      const { data, cached } = !includeTranscripts && await this.isWarm(sourceKeys)
+        ? { data: await this.fetchPodcastData(timeframe, includeTranscripts, options), cached: true }
+        : await this.cachedResult(cacheKey, async () => {
+          return await this.fetchPodcastData(timeframe, includeTranscripts, options);
+        }, TimeUtils.getOptimalCacheTTL('podcast'));
 
-      this.logger.info(`Fetched ${data.length} podcast episodes`);
-      return { success: true, data };
+      this.logger.info(`Fetched ${data.items.length} podcast episodes`);
+      return { success: true, data: data.items, cached, sourceOutcomes: data.outcomes };
     } catch (error) {
       this.handleError(error as Error, 'getPodcasts');
       return { 
         success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error fetching podcasts' 
+        error: error instanceof Error ? error.message : 'Unknown error fetching podcasts',
+        sourceOutcomes: error instanceof AllSourcesFailedError ? error.outcomes : undefined
       };
     }
   }
 
   private async fetchPodcastData(
     timeframe: string,
-    includeTranscripts: boolean
-  ): Promise<MarketDataItem[]> {
-    const enabledSources = this.config.filter(source => source.enabled);
-    const allPodcasts: MarketDataItem[] = [];
+    includeTranscripts: boolean,
+    options: FetchOptions = {}
+  ): Promise<SourcesFetch> {
+    const { items, outcomes } = await this.fetchSources(
+      this.getEnabledSources(),
+      'podcast',
+      source => this.getSourceKey(source),
+      async (source, signal) => {
+        const stored = includeTranscripts ? null : await this.readWarmItems(this.getSourceKey(source), {
+          sourceName: source.name,
+          since: TimeUtils.getTimeframeStart(timeframe)
+        });
+        if (stored) return { items: stored, stored: true };
 
-    for (const source of enabledSources) {
-      try {
-        const episodes = await this.fetchFromSource(source, timeframe, includeTranscripts);
-        allPodcasts.push(...episodes);
-      } catch (error) {
-        this.handleError(error as Error, `fetchFromSource:${source.name}`);
-        // Continue with other sources
-      }
-    }
+        // Polls return what is new since the previous one; the rest of the window is in the store
+        const { items, fetchState } = await this.fetchFromSource(source, timeframe, includeTranscripts, signal);
+        const known = includeTranscripts ? [] : await this.readKnownItems(source.name, TimeUtils.getTimeframeStart(timeframe), items);
+        return { items, stored: false, known, fetchState };
+      },
+      options,
+      // Transcribing an episode can take minutes, longer than any sensible feed deadline
+      includeTranscripts ? Infinity : undefined
+    );
 
-    const filteredPodcasts = allPodcasts.filter(item => 
+    const filteredPodcasts = items.filter(item => 
       TimeUtils.isWithinTimeframe(item.timestamp, timeframe)
     );
 
@@ -72,34 +93,88 @@ export class PodcastService extends BaseService {
       new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     );
 
-    return filteredPodcasts;
+    return { items: filteredPodcasts, outcomes };
+  }
+
+  /**
+   * Swap in a reloaded sources config
+   */
+  reconfigure(config: PodcastSource[]): void {
+    this.config = config;
+  }
+
+  /**
+   * Every configured source, including disabled ones
+   */
+  getSources(): PodcastSource[] {
+    return this.config;
+  }
+
+  getEnabledSources(): PodcastSource[] {
+    return this.config.filter(source => source.enabled);
+  }
+
+  getSourceKey(source: PodcastSource): string {
+    return `podcast-${source.name}`;
+  }
+
+  /**
+   * Fetch a single feed without transcripts, the response cache or the item store.
+   * Used by the ingestion scheduler, which scores and stores the items itself,
+   * then saves the poll state.
+   */
+  async collectFromSource(sourceName: string, timeframe: string = '7d'): Promise<SourcePoll> {
+    const source = this.config.find(s => s.name === sourceName);
+    if (!source) {
+      throw new Error(`Podcast source ${sourceName} not found`);
+    }
+
+    return this.fetchFromSource(source, timeframe, false);
   }
 
   private async fetchFromSource(
     source: PodcastSource, 
     timeframe: string, 
-    includeTranscripts: boolean
-  ): Promise<MarketDataItem[]> {
-    const sourceId = `podcast-${source.name}`;
+    includeTranscripts: boolean,
+    signal?: AbortSignal
+  ): Promise<SourcePoll> {
+    const sourceId = this.getSourceKey(source);
     
     return this.executeWithRateLimit(async () => {
-        const feed = await this.rssParser.parseURL(source.rssUrl);
+        if (!includeTranscripts) {
+          return this.fetchNewFeedItems(
+            this.rssParser,
+            source.rssUrl,
+            sourceId,
+            item => this.convertRSSItemToMarketData(item, source, timeframe, false),
+            signal
+          );
+        }
+
+        // Episodes seen before may still need transcripts, so transcript requests read the whole feed unconditionally
+        const download = await this.fetchFeed(this.rssParser, source.rssUrl, signal);
+        if (!download) {
+          throw new Error(`${source.name} answered an unconditional feed request with 304 Not Modified`);
+        }
         const items: MarketDataItem[] = [];
 
-        for (const item of feed.items) {
-          const episode = await this.convertRSSItemToMarketData(item, source, includeTranscripts);
+        for (const item of download.feed.items) {
+          // A transcription already running is shared and stored, so it finishes; the next one does not start
+          Cancellation.throwIfCancelled(signal);
+          const episode = await this.convertRSSItemToMarketData(item, source, timeframe, includeTranscripts);
           if (episode) {
             items.push(episode);
           }
         }
 
-        return items;
-      }, sourceId, '10/hour'); // Default rate limit for podcasts
+        return { items };
+      }, sourceId, PodcastService.RATE_LIMIT, undefined, signal);
   }
 
   private async convertRSSItemToMarketData(
     item: any, 
     source: PodcastSource, 
+    timeframe: string,
     includeTranscripts: boolean
   ): Promise<MarketDataItem | null> {
     if (!item.title || !item.pubDate) {
@@ -111,14 +186,22 @@ export class PodcastService extends BaseService {
     
     let content = item.content || item.contentSnippet || item.summary || '';
     let summary = this.generateSummary(content);
+    let transcriptSegments: MarketDataItem['transcriptSegments'];
 
-    // If transcripts are requested and we have audio URL, generate transcript
-    if (includeTranscripts && item.enclosure?.url) {
+    // If transcripts are requested and we have audio URL, generate transcript.
+    // Episodes outside the timeframe are filtered out later, so never pay to transcribe them.
+    if (includeTranscripts && item.enclosure?.url && TimeUtils.isWithinTimeframe(timestamp, timeframe)) {
       try {
-        const transcript = await this.generateTranscript(item.enclosure.url, source.transcriptionService);
+        const transcript = await this.generateTranscript(
+          item.guid || item.enclosure.url,
+          item.enclosure.url,
+          item.enclosure.type,
+          source
+        );
         if (transcript) {
-          content = transcript;
-          summary = this.generateSummary(transcript);
+          content = transcript.text;
+          summary = this.generateSummary(transcript.text);
+          transcriptSegments = transcript.segments;
         }
       } catch (error) {
         this.logger.warn(`Failed to generate transcript for ${item.title}:`, error);
@@ -140,29 +223,33 @@ export class PodcastService extends BaseService {
       relevanceScore: 0, // Will be calculated by RelevanceScorer
       marketTags: [],
       symbols: [],
-      sentiment: undefined
+      sentiment: undefined,
+      transcriptSegments
     };
   }
 
-  private async generateTranscript(audioUrl: string, service: string): Promise<string | null> {
-    // This is a placeholder for transcript generation
-    // In a real implementation, you would integrate with OpenAI Whisper or Assembly AI
-    
+  private async generateTranscript(
+    episodeId: string,
+    audioUrl: string,
+    mimeType: string | undefined,
+    source: PodcastSource
+  ): Promise<PodcastTranscript | null> {
+    if (!this.transcriptionPipeline) {
+      this.logger.warn('Transcripts requested but no transcription pipeline is configured');
+      return null;
+    }
+
     try {
-      if (service === 'openai-whisper' && process.env.OPENAI_API_KEY) {
-        // Placeholder for OpenAI Whisper integration
-        this.logger.info(`Would generate transcript for ${audioUrl} using OpenAI Whisper`);
-        return null; // Return null for now
-      } else if (service === 'assembly-ai') {
-        // Placeholder for Assembly AI integration
-        this.logger.info(`Would generate transcript for ${audioUrl} using Assembly AI`);
-        return null; // Return null for now
-      }
+      return await this.transcriptionPipeline.transcribe({
+        episodeId,
+        audioUrl,
+        mimeType,
+        service: source.transcriptionService
+      });
     } catch (error) {
-      this.logger.error('Error generating transcript:', error);
+      this.handleError(error as Error, `generateTranscript:${source.name}`);
+      return null;
     }
-
-    return null;
   }
 
   private generateSummary(content: string): string {
@@ -208,15 +295,21 @@ export class PodcastService extends BaseService {
     }
   }
 
-  async testConnection(sourceName: string): Promise<boolean> {
-    const source = this.config.find(s => s.name === sourceName);
+  /**
+   * Parse the feed of a configured podcast, or of a candidate that is not configured yet
+   */
+  async testConnection(sourceOrName: string | PodcastSource): Promise<boolean> {
+    const source = typeof sourceOrName === 'string'
+      ? this.config.find(s => s.name === sourceOrName)
+      : sourceOrName;
     if (!source) {
-      throw new Error(`Podcast source ${sourceName} not found`);
+      throw new Error(`Podcast source ${sourceOrName} not found`);
     }
+    const sourceName = source.name;
 
     try {
-      const feed = await this.rssParser.parseURL(source.rssUrl);
-      return !!feed.title;
+      const download = await this.fetchFeed(this.rssParser, source.rssUrl);
+      return !!download?.feed.title;
     } catch (error) {
       this.logger.error(`Connection test failed for ${sourceName}:`, error);
       return false;
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PromptArgumentDefinition, PromptDefinition, PromptManifest } from '../types/prompts';
+
+const PROMPT_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+const TICKER_PATTERN = /^[A-Z][A-Z0-9]{0,5}(?:\.[A-Z])?$/;
+const ARGUMENT_TYPES = ['string', 'symbol', 'timeframe', 'watchlist'];
+const MAX_ARGUMENT_LENGTH = 100;
+
+// {{name}} inserts a value; {{#name}}...{{/name}} and {{^name}}...{{/name}} render only when it is set or unset
+const SECTION_REGEX = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE_REGEX = /\{\{(\w+)\}\}/g;
+const TAG_REGEX = /\{\{[#^/]?(\w+)\}\}/g;
+
+export interface RenderedPrompt {
+  description: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+}
+
+interface LoadedPrompt {
+  definition: PromptDefinition;
+  template: string;
+}
+
+/**
+ * Workflow prompts served through prompts/list and prompts/get. Definitions
+ * live in config/prompts.json and templates in versioned files next to it.
+ */
+export class PromptLibrary {
+  static readonly DEFAULT_PATH = path.join(process.cwd(), 'config', 'prompts.json');
+
+  private prompts = new Map<string, LoadedPrompt>();
+
+  constructor(manifest: PromptManifest, templates: Record<string, string>) {
+    PromptLibrary.validate(manifest);
+
+    for (const definition of manifest.prompts) {
+      const template = templates[definition.template];
+      if (template === undefined) {
+        throw new Error(`Prompt ${definition.name} template ${definition.template} was not loaded`);
+      }
+      PromptLibrary.validateTemplate(definition, template);
+      this.prompts.set(definition.name, { definition, template });
+    }
+  }
+
+  static async load(manifestPath: string = PromptLibrary.DEFAULT_PATH): Promise<PromptLibrary> {
+    const manifest: PromptManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf8'));
+    PromptLibrary.validate(manifest);
+
+    const templates: Record<string, string> = {};
+    for (const definition of manifest.prompts) {
+      templates[definition.template] = await fs.promises.readFile(
+        path.resolve(path.dirname(manifestPath), definition.template),
+        'utf8'
+      );
+    }
+
+    return new PromptLibrary(manifest, templates);
+  }
+
+  static validate(manifest: PromptManifest): void {
+    if (!manifest || !Array.isArray(manifest.prompts)) {
+      throw new Error('Prompt manifest must have a "prompts" array');
+    }
+
+    const seen = new Set<string>();
+    manifest.prompts.forEach((prompt, index) => {
+      if (!prompt || typeof prompt.name !== 'string' || !PROMPT_NAME_PATTERN.test(prompt.name)) {
+        throw new Error(`Prompt ${index} has an invalid name: ${prompt?.name}`);
+      }
+      if (seen.has(prompt.name)) {
+        throw new Error(`Prompt ${prompt.name} is defined more than once`);
+      }
+      seen.add(prompt.name);
+
+      if (typeof prompt.description !== 'string' || !prompt.description.trim()) {
+        throw new Error(`Prompt ${prompt.name} needs a description`);
+      }
+      if (typeof prompt.template !== 'string' || path.isAbsolute(prompt.template) || prompt.template.includes('..')) {
+        throw new Error(`Prompt ${prompt.name} needs a template path inside the config directory`);
+      }
+      if (!Array.isArray(prompt.arguments)) {
+        throw new Error(`Prompt ${prompt.name} needs an "arguments" array`);
+      }
+      prompt.arguments.forEach(argument => PromptLibrary.validateArgument(prompt.name, argument));
+    });
+  }
+
+  list(): PromptDefinition[] {
+    return [...this.prompts.values()].map(prompt => prompt.definition);
+  }
+
+  /**
+   * Validate the arguments, apply defaults and fill in the template.
+   * Bad names and arguments are the client's to fix, so they throw InvalidParams.
+   */
+  render(name: string, args: Record<string, string> = {}): RenderedPrompt {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}. Available prompts: ${[...this.prompts.keys()].join(', ')}`);
+    }
+
+    const { definition, template } = prompt;
+    const declared = new Set(definition.arguments.map(argument => argument.name));
+    const unknown = Object.keys(args).filter(key => !declared.has(key));
+    if (unknown.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} does not accept ${unknown.join(', ')}`);
+    }
+
+    const values: Record<string, string> = {};
+    for (const argument of definition.arguments) {
+      const value = this.resolveArgument(name, argument, args[argument.name]);
+      if (value !== undefined) values[argument.name] = value;
+    }
+
+    const text = template
+      .replace(SECTION_REGEX, (_match, kind: string, key: string, body: string) =>
+        (kind === '#') === (values[key] !== undefined) ? body : '')
+      .replace(VARIABLE_REGEX, (_match, key: string) => values[key] ?? '')
+      .trim();
+
+    return {
+      description: definition.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }]
+    };
+  }
+
+  private resolveArgument(prompt: string, argument: PromptArgumentDefinition, raw: unknown): string | undefined {
+    const value = typeof raw === 'string' ? raw.trim() : undefined;
+
+    if (!value) {
+      if (argument.required) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt ${prompt} requires the "${argument.name}" argument`);
+      }
+      return argument.default;
+    }
+
+    if (value.length > MAX_ARGUMENT_LENGTH) {
+      throw new McpError(ErrorCode.InvalidParams, `Argument "${argument.name}" must be at most ${MAX_ARGUMENT_LENGTH} characters`);
+    }
+
+    const normalized = argument.type === 'symbol' ? value.replace(/^\$/, '').toUpperCase() : value;
+    if (argument.type === 'symbol' && !TICKER_PATTERN.test(normalized)) {
+      throw new McpError(ErrorCode.InvalidParams, `Argument "${argument.name}" must be a ticker symbol such as NVDA or BRK.B`);
+    }
+    if (argument.enum && !argument.enum.includes(normalized)) {
+      throw new McpError(ErrorCode.InvalidParams, `Argument "${argument.name}" must be one of: ${argument.enum.join(', ')}`);
+    }
+
+    return normalized;
+  }
+
+  private static validateArgument(prompt: string, argument: PromptArgumentDefinition): void {
+    if (!argument || typeof argument.name !== 'string' || !/^\w+$/.test(argument.name)) {
+      throw new Error(`Prompt ${prompt} has an argument with an invalid name: ${argument?.name}`);
+    }
+    if (!ARGUMENT_TYPES.includes(argument.type)) {
+      throw new Error(`Prompt ${prompt} argument ${argument.name} has an unknown type: ${argument.type}`);
+    }
+    if (argument.type === 'timeframe' && !Array.isArray(argument.enum)) {
+      throw new Error(`Prompt ${prompt} argument ${argument.name} must list its allowed timeframes`);
+    }
+    if (argument.default !== undefined && argument.enum && !argument.enum.includes(argument.default)) {
+      throw new Error(`Prompt ${prompt} argument ${argument.name} default is not one of its allowed values`);
+    }
+  }
+
+  private static validateTemplate(definition: PromptDefinition, template: string): void {
+    const declared = new Set(definition.arguments.map(argument => argument.name));
+    for (const match of template.matchAll(TAG_REGEX)) {
+      if (!declared.has(match[1])) {
+        throw new Error(`Prompt ${definition.name} template uses undeclared argument "${match[1]}"`);
+      }
+    }
+  }
+}
@@ -1,4 +1,7 @@
 import { TimeUtils } from '../utils/timeUtils';
+import { MarketDataItem, SentimentLabel, SentimentResult } from '../types/marketData';
+import { SymbolResolver } from './symbolResolver';
+import { SentimentAnalyzer, SentimentInput } from './sentiment/sentimentAnalyzer';
 
 export interface RelevanceConfig {
   marketKeywords: {
@@ -15,13 +18,13 @@ export interface RelevanceConfig {
 }
 
 export class RelevanceScorer {
-  private stockSymbolRegex: RegExp;
   private sourceAuthorityMap: Map<string, number>;
 
-  constructor(private config: RelevanceConfig) {
-    // Common stock symbol pattern: 1-5 uppercase letters, optionally followed by digits
-    this.stockSymbolRegex = /\b[A-Z]{1,5}(?:\d{0,2})?\b/g;
-    
+  constructor(
+    private config: RelevanceConfig,
+    private symbolResolver: SymbolResolver,
+    private sentimentAnalyzer: SentimentAnalyzer
+  ) {
     // Initialize source authority mapping
     this.sourceAuthorityMap = new Map([
       ['Bloomberg API', 100],
@@ -48,6 +51,13 @@ export class RelevanceScorer {
     ]);
   }
 
+  /**
+   * Swap in reloaded keyword lists and weights
+   */
+  reconfigure(config: RelevanceConfig): void {
+    this.config = config;
+  }
+
   scoreContent(
     title: string,
     content: string,
@@ -134,60 +144,24 @@ export class RelevanceScorer {
   }
 
   private calculateStockSymbolScore(text: string): { score: number; symbols: string[] } {
-    const matches = text.match(this.stockSymbolRegex) || [];
-    const symbols = this.filterValidStockSymbols([...new Set(matches)]);
-    
-    if (symbols.length === 0) return { score: 0, symbols: [] };
+    const resolved = this.symbolResolver
+      .resolve(text)
+      .filter(candidate => candidate.confidence >= SymbolResolver.MIN_CONFIDENCE);
+
+    if (resolved.length === 0) return { score: 0, symbols: [] };
 
-    // Score based on number of valid symbols mentioned
-    // Major companies (market cap tiers) could be weighted differently
-    let score = Math.min(100, symbols.length * 20); // 20 points per symbol, max 100
+    // 20 points per symbol, scaled by how confidently it was resolved
+    let score = resolved.reduce((sum, candidate) => sum + 20 * candidate.confidence, 0);
 
-    // Boost score for major symbols (simplified list)
-    const majorSymbols = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'TSLA', 'META', 'NVDA', 'SPY', 'QQQ'];
-    const majorSymbolsFound = symbols.filter(symbol => majorSymbols.includes(symbol));
-    score += majorSymbolsFound.length * 10; // Extra 10 points for major symbols
+    // Extra 10 points for large caps and index ETFs
+    score += resolved.filter(candidate => this.symbolResolver.isMajor(candidate.symbol)).length * 10;
 
     return {
-      score: Math.min(100, score),
-      symbols
+      score: Math.min(100, Math.round(score)),
+      symbols: resolved.map(candidate => candidate.symbol)
     };
   }
 
-  private filterValidStockSymbols(candidates: string[]): string[] {
-    // Filter out common false positives
-    const excludeList = [
-      'THE', 'AND', 'FOR', 'ARE', 'BUT', 'NOT', 'YOU', 'ALL', 'CAN', 'HER',
-      'WAS', 'ONE', 'OUR', 'HAD', 'BUT', 'HAS', 'HIS', 'HIM', 'WHO', 'OIL',
-      'GAS', 'NEW', 'NOW', 'TWO', 'WAY', 'ITS', 'MAY', 'DAY', 'GET', 'USE',
-      'MAN', 'OLD', 'SEE', 'HOW', 'ILL', 'BIG', 'PUT', 'END', 'WHY', 'LET',
-      'SAY', 'SHE', 'TRY', 'FAR', 'RUN', 'OWN', 'BACK', 'CALL', 'CAME',
-      'EACH', 'FIND', 'GOOD', 'HAND', 'HIGH', 'KEEP', 'LAST', 'LEFT',
-      'LIFE', 'LIVE', 'LONG', 'LOOK', 'MADE', 'MAKE', 'MANY', 'MOST',
-      'MOVE', 'MUCH', 'NAME', 'NEED', 'NEXT', 'OPEN', 'OVER', 'PART',
-      'PLAY', 'SAID', 'SAME', 'SEEM', 'SHOW', 'SIDE', 'TAKE', 'TELL',
-      'THAN', 'THAT', 'THEM', 'THIS', 'TIME', 'TURN', 'USED', 'VERY',
-      'WANT', 'WAYS', 'WELL', 'WENT', 'WERE', 'WHAT', 'WHEN', 'WHERE',
-      'WILL', 'WITH', 'WORD', 'WORK', 'YEAR', 'YOUR'
-    ];
-
-    return candidates.filter(candidate => {
-      // Must be 1-5 characters
-      if (candidate.length < 1 || candidate.length > 5) return false;
-      
-      // Must be all uppercase
-      if (candidate !== candidate.toUpperCase()) return false;
-      
-      // Must not be in exclude list
-      if (excludeList.includes(candidate)) return false;
-      
-      // Must contain at least one letter
-      if (!/[A-Z]/.test(candidate)) return false;
-      
-      return true;
-    });
-  }
-
   private calculateSourceAuthorityScore(sourceName: string): number {
     // Check for exact match first
     if (this.sourceAuthorityMap.has(sourceName)) {
@@ -215,40 +189,25 @@ export class RelevanceScorer {
     return TimeUtils.getRecencyScore(timestamp, 48); // 48-hour window for full recency score
   }
 
-  extractSentiment(title: string, content: string): 'positive' | 'negative' | 'neutral' {
-    const text = `${title} ${content}`.toLowerCase();
-    
-    const positiveWords = [
-      'bull', 'bullish', 'gain', 'gains', 'rise', 'rises', 'rising', 'up',
-      'surge', 'surges', 'surging', 'jump', 'jumps', 'jumping', 'rally',
-      'rallies', 'rallying', 'boost', 'boosts', 'strong', 'strength',
-      'outperform', 'beat', 'beats', 'exceed', 'exceeds', 'growth',
-      'positive', 'optimistic', 'upgrade', 'upgrades', 'buy', 'recommend'
-    ];
-
-    const negativeWords = [
-      'bear', 'bearish', 'fall', 'falls', 'falling', 'drop', 'drops',
-      'dropping', 'decline', 'declines', 'declining', 'down', 'plunge',
-      'plunges', 'plunging', 'crash', 'crashes', 'crashing', 'weak',
-      'weakness', 'underperform', 'miss', 'misses', 'below', 'concern',
-      'concerns', 'worry', 'worries', 'risk', 'risks', 'negative',
-      'pessimistic', 'downgrade', 'downgrades', 'sell'
-    ];
-
-    let positiveCount = 0;
-    let negativeCount = 0;
-
-    for (const word of positiveWords) {
-      if (text.includes(word)) positiveCount++;
-    }
+  analyzeSentiment(input: SentimentInput): SentimentResult {
+    return this.sentimentAnalyzer.analyze(input)
+      || { score: 0, label: 'neutral', symbols: [], analyzer: this.sentimentAnalyzer.name };
+  }
 
-    for (const word of negativeWords) {
-      if (text.includes(word)) negativeCount++;
-    }
+  /**
+   * Sentiment fields to spread onto a scored item
+   */
+  getSentimentFields(item: SentimentInput): Pick<MarketDataItem, 'sentiment' | 'sentimentScore' | 'symbolSentiment'> {
+    const result = this.analyzeSentiment(item);
+    return {
+      sentiment: result.label,
+      sentimentScore: result.score,
+      symbolSentiment: result.symbols
+    };
+  }
 
-    if (positiveCount > negativeCount) return 'positive';
-    if (negativeCount > positiveCount) return 'negative';
-    return 'neutral';
+  extractSentiment(title: string, content: string): SentimentLabel {
+    return this.analyzeSentiment({ title, content }).label;
   }
 
   updateSourceAuthority(sourceName: string, authority: number): void {
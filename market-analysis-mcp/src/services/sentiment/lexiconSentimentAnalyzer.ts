@@ -0,0 +1,165 @@
+import { SentimentResult, SymbolSentiment } from '../../types/marketData';
+import { SymbolResolver } from '../symbolResolver';
+import { SentimentAnalyzer, SentimentInput, toSentimentLabel } from './sentimentAnalyzer';
+
+// Signed word weights: ±1 is a mild signal, ±3 a strong one
+const LEXICON: Record<string, number> = {
+  // Bullish
+  bull: 1, bullish: 2, gain: 1, gains: 1, gained: 1, rise: 1, rises: 1, rising: 1, rose: 1,
+  surge: 2, surges: 2, surged: 2, surging: 2, soar: 2.5, soars: 2.5, soared: 2.5, soaring: 2.5,
+  jump: 1.5, jumps: 1.5, jumped: 1.5, rally: 1.5, rallies: 1.5, rallied: 1.5, rallying: 1.5,
+  climb: 1, climbs: 1, climbed: 1, rebound: 1, rebounds: 1, rebounded: 1, recover: 1, recovery: 1,
+  boost: 1, boosts: 1, boosted: 1, strong: 1, stronger: 1, strength: 1, robust: 1,
+  outperform: 1.5, outperforms: 1.5, outperformed: 1.5, beat: 1.5, beats: 1.5,
+  exceed: 1.5, exceeds: 1.5, exceeded: 1.5, growth: 1, positive: 1, optimistic: 1.5, optimism: 1.5,
+  upgrade: 2, upgrades: 2, upgraded: 2, buy: 1, profitable: 1, record: 1, higher: 0.5, tops: 1,
+  // Bearish
+  bear: -1, bearish: -2, fall: -1, falls: -1, fell: -1, falling: -1, drop: -1, drops: -1, dropped: -1,
+  decline: -1, declines: -1, declined: -1, declining: -1, slide: -1, slides: -1, slid: -1,
+  plunge: -2.5, plunges: -2.5, plunged: -2.5, plunging: -2.5, tumble: -2, tumbles: -2, tumbled: -2,
+  slump: -2, slumps: -2, slumped: -2, sink: -1.5, sinks: -1.5, sank: -1.5,
+  crash: -3, crashes: -3, crashed: -3, crashing: -3, selloff: -2, weak: -1, weaker: -1, weakness: -1,
+  underperform: -1.5, underperforms: -1.5, underperformed: -1.5, miss: -1.5, misses: -1.5, missed: -1.5,
+  concern: -1, concerns: -1, worry: -1, worries: -1, fear: -1.5, fears: -1.5, risk: -1, risks: -1,
+  negative: -1, pessimistic: -1.5, downgrade: -2, downgrades: -2, downgraded: -2, sell: -1,
+  warning: -1.5, warns: -1.5, lawsuit: -1.5, probe: -1, recall: -1.5, layoffs: -1.5, loss: -1, losses: -1,
+  bankruptcy: -3, default: -2, lower: -0.5
+};
+
+// Two-word phrases take precedence over their individual words
+const PHRASES: Record<string, number> = {
+  'rate cut': 1, 'rate cuts': 1, 'rate hike': -1, 'rate hikes': -1,
+  'raises guidance': 2, 'raised guidance': 2, 'cuts guidance': -2, 'cut guidance': -2, 'lowers guidance': -2,
+  'record high': 2, 'record low': -2, 'beats estimates': 2, 'misses estimates': -2,
+  'price target': 0, 'short squeeze': 1
+};
+
+const INTENSIFIERS: Record<string, number> = {
+  sharply: 1.5, sharp: 1.5, significantly: 1.5, strongly: 1.5, steep: 1.5, steeply: 1.5,
+  massive: 1.5, huge: 1.5, biggest: 1.5,
+  slightly: 0.5, modestly: 0.5, marginally: 0.5, somewhat: 0.5, mildly: 0.5
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'nor', 'fail', 'fails', 'failed', 'hardly']);
+const NEGATION_WINDOW = 3; // Tokens before a sentiment word that a negation reaches
+const NEGATION_FACTOR = -0.75;
+const NORMALIZATION_ALPHA = 15; // Larger values need more evidence to approach ±1
+
+const SENTENCE_SPLIT = /(?<=[.!?])\s+|\n+/;
+const CLAUSE_SPLIT = /[;,:]|\s[-–—]\s|\b(?:while|but|whereas|although|though)\b/i;
+
+/**
+ * Finance lexicon scorer with negation ("did not beat") and intensity
+ * ("fell sharply") handling. Per-symbol sentiment comes from the clauses that
+ * mention each symbol; clauses naming no symbol count towards every symbol in
+ * their sentence.
+ */
+export class LexiconSentimentAnalyzer implements SentimentAnalyzer {
+  readonly name = 'lexicon';
+
+  constructor(private symbolResolver?: SymbolResolver) {}
+
+  analyze(input: SentimentInput): SentimentResult {
+    const text = [input.title, input.content].filter(Boolean).join('\n');
+    const score = this.normalize(this.scoreText(text));
+
+    return {
+      score,
+      label: toSentimentLabel(score),
+      symbols: this.scoreSymbols(input),
+      analyzer: this.name
+    };
+  }
+
+  // Unnormalized sum of word weights in the text
+  private scoreText(text: string): number {
+    const tokens = this.tokenize(text);
+    let total = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      let weight: number | undefined;
+      let length = 1;
+
+      const phrase = i + 1 < tokens.length ? PHRASES[`${tokens[i]} ${tokens[i + 1]}`] : undefined;
+      if (phrase !== undefined) {
+        weight = phrase;
+        length = 2;
+      } else if (Object.prototype.hasOwnProperty.call(LEXICON, tokens[i])) {
+        weight = LEXICON[tokens[i]];
+      }
+
+      if (weight === undefined || weight === 0) {
+        i += length - 1;
+        continue;
+      }
+
+      // "fell sharply" and "sharply lower" are both intensified
+      const before = tokens[i - 1];
+      const after = tokens[i + length];
+      if (before && INTENSIFIERS[before]) {
+        weight *= INTENSIFIERS[before];
+      } else if (after && INTENSIFIERS[after]) {
+        weight *= INTENSIFIERS[after];
+      }
+
+      if (this.isNegated(tokens, i)) {
+        weight *= NEGATION_FACTOR;
+      }
+
+      total += weight;
+      i += length - 1;
+    }
+
+    return total;
+  }
+
+  private scoreSymbols(input: SentimentInput): SymbolSentiment[] {
+    if (!this.symbolResolver) return [];
+
+    const totals = new Map<string, number>();
+    const sentences = [input.title, ...(input.content || '').split(SENTENCE_SPLIT)].filter(Boolean);
+
+    for (const sentence of sentences) {
+      const clauses = sentence.split(CLAUSE_SPLIT).filter(clause => clause && clause.trim());
+      const sentenceSymbols = this.resolve(sentence);
+      if (sentenceSymbols.length === 0) continue;
+
+      for (const clause of clauses) {
+        const clauseScore = this.scoreText(clause);
+        const clauseSymbols = this.resolve(clause);
+        const targets = clauseSymbols.length > 0 ? clauseSymbols : sentenceSymbols;
+
+        targets.forEach(symbol => totals.set(symbol, (totals.get(symbol) || 0) + clauseScore));
+      }
+    }
+
+    return [...totals.entries()].map(([symbol, total]) => {
+      const score = this.normalize(total);
+      return { symbol, score, label: toSentimentLabel(score), analyzer: this.name };
+    });
+  }
+
+  private resolve(text: string): string[] {
+    return this.symbolResolver!
+      .resolve(text)
+      .filter(candidate => candidate.confidence >= SymbolResolver.MIN_CONFIDENCE)
+      .map(candidate => candidate.symbol);
+  }
+
+  private isNegated(tokens: string[], index: number): boolean {
+    for (let j = Math.max(0, index - NEGATION_WINDOW); j < index; j++) {
+      if (NEGATIONS.has(tokens[j]) || tokens[j].endsWith("n't")) return true;
+    }
+    return false;
+  }
+
+  private tokenize(text: string): string[] {
+    return (text.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z]+(?:'[a-z]+)?/g) || []);
+  }
+
+  private normalize(total: number): number {
+    if (total === 0) return 0;
+    const score = total / Math.sqrt(total * total + NORMALIZATION_ALPHA);
+    return Math.round(score * 1000) / 1000;
+  }
+}
@@ -0,0 +1,39 @@
+import { SentimentResult } from '../../types/marketData';
+import { SentimentAnalyzer, SentimentInput, toSentimentLabel } from './sentimentAnalyzer';
+
+/**
+ * Uses the overall and per-ticker scores a news API attaches to each article
+ * (Alpha Vantage, Polygon, Marketaux). Results are named after the provider.
+ */
+export class ProviderSentimentAnalyzer implements SentimentAnalyzer {
+  readonly name = 'provider';
+
+  analyze(input: SentimentInput): SentimentResult | null {
+    const provided = input.providerSentiment;
+    if (!provided || !Number.isFinite(provided.score)) {
+      return null;
+    }
+
+    const score = this.clamp(provided.score);
+    return {
+      score,
+      label: toSentimentLabel(score),
+      symbols: provided.symbols
+        .filter(entry => Number.isFinite(entry.score))
+        .map(entry => {
+          const symbolScore = this.clamp(entry.score);
+          return {
+            symbol: entry.symbol,
+            score: symbolScore,
+            label: toSentimentLabel(symbolScore),
+            analyzer: provided.provider
+          };
+        }),
+      analyzer: provided.provider
+    };
+  }
+
+  private clamp(score: number): number {
+    return Math.max(-1, Math.min(1, score));
+  }
+}
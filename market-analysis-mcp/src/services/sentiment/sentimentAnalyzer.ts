@@ -0,0 +1,22 @@
+import { MarketDataItem, SentimentLabel, SentimentResult } from '../../types/marketData';
+
+export type SentimentInput = Pick<MarketDataItem, 'title' | 'content' | 'providerSentiment'>;
+
+// Scores within this distance of zero are neutral, matching Alpha Vantage's own bands
+export const NEUTRAL_BAND = 0.15;
+
+/**
+ * Scores how bullish or bearish an item is, overall and per symbol.
+ * Analyzers return null when they have nothing to say about an item,
+ * so the engine can fall back to the next one.
+ */
+export interface SentimentAnalyzer {
+  readonly name: string;
+  analyze(input: SentimentInput): SentimentResult | null;
+}
+
+export function toSentimentLabel(score: number): SentimentLabel {
+  if (score >= NEUTRAL_BAND) return 'positive';
+  if (score <= -NEUTRAL_BAND) return 'negative';
+  return 'neutral';
+}
@@ -0,0 +1,53 @@
+import { SentimentResult, SymbolSentiment } from '../../types/marketData';
+import { SymbolResolver } from '../symbolResolver';
+import { SentimentAnalyzer, SentimentInput } from './sentimentAnalyzer';
+import { LexiconSentimentAnalyzer } from './lexiconSentimentAnalyzer';
+import { ProviderSentimentAnalyzer } from './providerSentimentAnalyzer';
+
+export interface SentimentEngineOptions {
+  // Prefer sentiment scores supplied by the source API over the lexicon
+  useProviderSentiment: boolean;
+}
+
+/**
+ * Runs analyzers in priority order. The first analyzer with a result sets the
+ * overall score; per-symbol scores are merged, earlier analyzers winning.
+ */
+export class SentimentEngine implements SentimentAnalyzer {
+  readonly name = 'engine';
+
+  constructor(private analyzers: SentimentAnalyzer[]) {
+    if (analyzers.length === 0) {
+      throw new Error('SentimentEngine needs at least one analyzer');
+    }
+  }
+
+  static create(
+    symbolResolver: SymbolResolver,
+    options: SentimentEngineOptions = { useProviderSentiment: true }
+  ): SentimentEngine {
+    const analyzers: SentimentAnalyzer[] = [];
+    if (options.useProviderSentiment) {
+      analyzers.push(new ProviderSentimentAnalyzer());
+    }
+    analyzers.push(new LexiconSentimentAnalyzer(symbolResolver));
+    return new SentimentEngine(analyzers);
+  }
+
+  analyze(input: SentimentInput): SentimentResult | null {
+    let overall: SentimentResult | null = null;
+    const symbols = new Map<string, SymbolSentiment>();
+
+    for (const analyzer of this.analyzers) {
+      const result = analyzer.analyze(input);
+      if (!result) continue;
+
+      overall = overall || result;
+      result.symbols.forEach(entry => {
+        if (!symbols.has(entry.symbol)) symbols.set(entry.symbol, entry);
+      });
+    }
+
+    return overall && { ...overall, symbols: [...symbols.values()] };
+  }
+}
@@ -0,0 +1,254 @@
+import { Logger } from 'winston';
+import { NewsService } from './newsService';
+import { PodcastService } from './podcastService';
+import { NewsApiAdapter } from './newsAdapters/newsApiAdapter';
+import { SourcesConfigWatcher } from '../config/sourcesConfig';
+import { NewsSource, PodcastSource, SourcesConfig } from '../types/marketData';
+import { SourceEntry } from '../types/outputSchemas';
+import { NetworkGuard } from '../utils/NetworkGuard';
+
+export interface SourceAdminOptions {
+  validateTimeoutMs: number; // Upper bound on fetching a sample from a new feed
+  resolveHost?: (hostname: string) => Promise<string[]>; // Override for tests; DNS by default
+}
+
+const DEFAULT_OPTIONS: SourceAdminOptions = {
+  validateTimeoutMs: 15000
+};
+
+// An address (crew@morningbrew.com) or a whole domain (morningbrew.com), as Gmail's from: accepts
+const SENDER_PATTERN = /^([^\s@]+@)?[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/;
+
+type SourceType = SourceEntry['sourceType'];
+
+/**
+ * Adds, removes and toggles sources at runtime. Every change is written back
+ * to sources.json through the config watcher, which applies it to the running
+ * services.
+ */
+export class SourceAdminService {
+  static readonly GMAIL_SOURCE_NAME = 'Gmail';
+
+  private options: SourceAdminOptions;
+
+  constructor(
+    private configWatcher: SourcesConfigWatcher,
+    private newsService: NewsService,
+    private podcastService: PodcastService,
+    private logger: Logger,
+    options: Partial<SourceAdminOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  listSources(sourceType?: SourceType): SourceEntry[] {
+    const entries = SourceAdminService.toEntries(this.configWatcher.current);
+    return sourceType ? entries.filter(entry => entry.sourceType === sourceType) : entries;
+  }
+
+  async addNewsSource(source: NewsSource, validate: boolean = true): Promise<SourceEntry> {
+    this.assertNameFree(this.configWatcher.current, source.name);
+    await NetworkGuard.checkPublicUrl(source.endpoint, 'feed URL', this.options.resolveHost);
+    if (source.type === 'api') {
+      this.assertKeyStaysWithProvider(source);
+    }
+    if (validate) {
+      await this.validateFeed(source.endpoint, () => this.newsService.testConnection(source));
+    }
+
+    const config = await this.configWatcher.update(current => {
+      this.assertNameFree(current, source.name);
+      current.news.sources.push(source);
+      return current;
+    });
+
+    this.logger.info(`Added news source ${source.name}`, { endpoint: source.endpoint });
+    return this.findEntry(config, 'news', source.name);
+  }
+
+  async addPodcast(source: PodcastSource, validate: boolean = true): Promise<SourceEntry> {
+    this.assertNameFree(this.configWatcher.current, source.name);
+    await NetworkGuard.checkPublicUrl(source.rssUrl, 'feed URL', this.options.resolveHost);
+    if (validate) {
+      await this.validateFeed(source.rssUrl, () => this.podcastService.testConnection(source));
+    }
+
+    const config = await this.configWatcher.update(current => {
+      this.assertNameFree(current, source.name);
+      current.podcasts.push(source);
+      return current;
+    });
+
+    this.logger.info(`Added podcast ${source.name}`, { rssUrl: source.rssUrl });
+    return this.findEntry(config, 'podcast', source.name);
+  }
+
+  async addGmailSender(sender: string): Promise<SourceEntry> {
+    const normalized = sender.trim().toLowerCase();
+    if (!SENDER_PATTERN.test(normalized)) {
+      throw new Error(`"${sender}" is not an email address or domain`);
+    }
+
+    const config = await this.configWatcher.update(current => {
+      if (current.gmail.targetSenders.some(existing => existing.toLowerCase() === normalized)) {
+        throw new Error(`${normalized} is already a Gmail target sender`);
+      }
+      current.gmail.targetSenders.push(normalized);
+      return current;
+    });
+
+    this.logger.info(`Added Gmail sender ${normalized}`);
+    return this.findEntry(config, 'email', SourceAdminService.GMAIL_SOURCE_NAME);
+  }
+
+  /**
+   * Enable or disable a news source, a podcast or the Gmail integration ("Gmail")
+   */
+  async setEnabled(name: string, enabled: boolean, sourceType?: SourceType): Promise<SourceEntry> {
+    let target: { sourceType: SourceType; name: string } | undefined;
+
+    const config = await this.configWatcher.update(current => {
+      target = this.locate(current, name, sourceType, true);
+      if (target.sourceType === 'email') {
+        current.gmail.enabled = enabled;
+      } else {
+        const sources: Array<NewsSource | PodcastSource> = target.sourceType === 'news' ? current.news.sources : current.podcasts;
+        sources.find(source => source.name === target!.name)!.enabled = enabled;
+      }
+      return current;
+    });
+
+    this.logger.info(`${enabled ? 'Enabled' : 'Disabled'} ${target!.sourceType} source ${target!.name}`);
+    return this.findEntry(config, target!.sourceType, target!.name);
+  }
+
+  /**
+   * Remove a news source, a podcast or a Gmail target sender. Items already
+   * fetched from the source stay in the store.
+   */
+  async remove(name: string, sourceType?: SourceType): Promise<SourceEntry> {
+    let removed: SourceEntry | undefined;
+
+    await this.configWatcher.update(current => {
+      const target = this.locate(current, name, sourceType, false);
+      removed = target.sourceType === 'email'
+        ? { sourceType: 'email', name: target.name, enabled: current.gmail.enabled }
+        : this.findEntry(current, target.sourceType, target.name);
+
+      if (target.sourceType === 'news') {
+        current.news.sources = current.news.sources.filter(source => source.name !== target.name);
+      } else if (target.sourceType === 'podcast') {
+        current.podcasts = current.podcasts.filter(source => source.name !== target.name);
+      } else {
+        current.gmail.targetSenders = current.gmail.targetSenders.filter(sender => sender !== target.name);
+      }
+      return current;
+    });
+
+    this.logger.info(`Removed ${removed!.sourceType} source ${removed!.name}`);
+    return removed!;
+  }
+
+  /**
+   * Find a source by name, case-insensitively. Gmail target senders are
+   * matched when removing; the Gmail integration itself when toggling.
+   */
+  private locate(
+    config: SourcesConfig,
+    name: string,
+    sourceType: SourceType | undefined,
+    toggling: boolean
+  ): { sourceType: SourceType; name: string } {
+    const wanted = name.trim().toLowerCase();
+    const candidates: Array<{ sourceType: SourceType; name: string }> = [
+      ...config.news.sources.map(source => ({ sourceType: 'news' as const, name: source.name })),
+      ...config.podcasts.map(source => ({ sourceType: 'podcast' as const, name: source.name })),
+      ...(toggling
+        ? [{ sourceType: 'email' as const, name: SourceAdminService.GMAIL_SOURCE_NAME }]
+        : config.gmail.targetSenders.map(sender => ({ sourceType: 'email' as const, name: sender })))
+    ];
+
+    const matches = candidates.filter(candidate =>
+      candidate.name.toLowerCase() === wanted && (!sourceType || candidate.sourceType === sourceType)
+    );
+
+    if (matches.length === 0) {
+      if (!toggling && wanted === SourceAdminService.GMAIL_SOURCE_NAME.toLowerCase()) {
+        throw new Error('Gmail cannot be removed. Use set_source_enabled to turn it off.');
+      }
+      throw new Error(`No ${sourceType ? `${sourceType} ` : ''}source named "${name}". Use list_sources to see configured sources.`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`"${name}" names more than one source (${matches.map(match => match.sourceType).join(', ')}). Pass source_type to choose one.`);
+    }
+    return matches[0];
+  }
+
+  private assertNameFree(config: SourcesConfig, name: string): void {
+    const wanted = name.trim().toLowerCase();
+    const taken = [...config.news.sources, ...config.podcasts].some(source => source.name.toLowerCase() === wanted);
+    if (taken || wanted === SourceAdminService.GMAIL_SOURCE_NAME.toLowerCase()) {
+      throw new Error(`A source named "${name}" already exists`);
+    }
+  }
+
+  /**
+   * API keys only go where sources.json sends them: a preset's key to its
+   * provider, and bearer keys, named after the source, to sources set up by hand
+   */
+  private assertKeyStaysWithProvider(source: NewsSource): void {
+    if (source.auth === 'bearer') {
+      throw new Error('Sources with bearer authentication are added in config/sources.json, not through tools');
+    }
+    NewsApiAdapter.forSource(source).checkKeyHost(source.endpoint);
+  }
+
+  private async validateFeed(url: string, testConnection: () => Promise<boolean>): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), this.options.validateTimeoutMs);
+    });
+
+    try {
+      if (!(await Promise.race([testConnection(), timeout]))) {
+        throw new Error(`Could not fetch a sample from ${url}. Check the URL, or pass validate: false to add it anyway.`);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private findEntry(config: SourcesConfig, sourceType: SourceType, name: string): SourceEntry {
+    return SourceAdminService.toEntries(config).find(entry => entry.sourceType === sourceType && entry.name === name)!;
+  }
+
+  private static toEntries(config: SourcesConfig): SourceEntry[] {
+    return [
+      ...config.news.sources.map((source): SourceEntry => ({
+        sourceType: 'news',
+        name: source.name,
+        enabled: source.enabled,
+        url: source.endpoint,
+        kind: source.type,
+        auth: source.auth,
+        ...(source.type === 'api' ? { adapter: NewsApiAdapter.presetName(source) } : {}),
+        ...(source.fullText?.enabled ? { fullText: true } : {}),
+        rateLimit: source.rateLimit
+      })),
+      ...config.podcasts.map((source): SourceEntry => ({
+        sourceType: 'podcast',
+        name: source.name,
+        enabled: source.enabled,
+        url: source.rssUrl,
+        rateLimit: PodcastService.RATE_LIMIT,
+        transcriptionService: source.transcriptionService
+      })),
+      {
+        sourceType: 'email',
+        name: SourceAdminService.GMAIL_SOURCE_NAME,
+        enabled: config.gmail.enabled,
+        senders: config.gmail.targetSenders
+      }
+    ];
+  }
+}
@@ -0,0 +1,204 @@
+import { Logger } from 'winston';
+import { CacheManager } from '../utils/cache';
+import { RateLimiter } from '../utils/rateLimiter';
+import { IngestionState, SourceFetchRecord } from '../types/marketData';
+import { SourceHealthEntry, SourceHealthStatus, SourceProbeResult } from '../types/outputSchemas';
+import { BaseService } from './BaseService';
+import { NewsService } from './newsService';
+import { PodcastService } from './podcastService';
+import { GmailService } from './gmailService';
+
+export interface SourceHealthQuery {
+  sourceType?: IngestionState['sourceType'];
+  probe?: boolean; // Run live connection tests against every enabled source
+}
+
+export interface SourceHealthOptions {
+  probeTimeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: SourceHealthOptions = {
+  probeTimeoutMs: 15000
+};
+
+interface ConfiguredSource {
+  sourceKey: string;
+  sourceType: IngestionState['sourceType'];
+  sourceName: string;
+  enabled: boolean;
+  rateLimit: string;
+  service: BaseService;
+  testConnection: () => Promise<boolean>;
+}
+
+/**
+ * Per-source diagnostics: the outcome of the last live fetch this process made,
+ * falling back to the persisted ingestion state after a restart, plus the
+ * remaining rate-limit budget and optional live connection probes.
+ */
+export class SourceHealthService {
+  private options: SourceHealthOptions;
+
+  constructor(
+    private newsService: NewsService,
+    private podcastService: PodcastService,
+    private gmailService: GmailService,
+    private rateLimiter: RateLimiter,
+    private cache: CacheManager,
+    private logger: Logger,
+    options: Partial<SourceHealthOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async getHealth(query: SourceHealthQuery = {}): Promise<SourceHealthEntry[]> {
+    let sources = this.getConfiguredSources();
+    if (query.sourceType) {
+      sources = sources.filter(source => source.sourceType === query.sourceType);
+    }
+
+    const states = await this.cache.getIngestionStates().catch(error => {
+      this.logger.warn('Failed to read ingestion states for source health:', error);
+      return [] as IngestionState[];
+    });
+    const statesByKey = new Map(states.map(state => [state.sourceKey, state]));
+
+    const probes = query.probe
+      ? await Promise.all(sources.map(source => source.enabled ? this.probe(source) : Promise.resolve(undefined)))
+      : [];
+
+    return sources.map((source, index) => this.buildEntry(
+      source,
+      source.service.getFetchRecord(source.sourceKey),
+      statesByKey.get(source.sourceKey),
+      probes[index]
+    ));
+  }
+
+  private getConfiguredSources(): ConfiguredSource[] {
+    const sources: ConfiguredSource[] = [];
+
+    for (const source of this.newsService.getSources()) {
+      sources.push({
+        sourceKey: this.newsService.getSourceKey(source),
+        sourceType: 'news',
+        sourceName: source.name,
+        enabled: source.enabled,
+        rateLimit: source.rateLimit,
+        service: this.newsService,
+        testConnection: () => this.newsService.testConnection(source.name)
+      });
+    }
+
+    for (const source of this.podcastService.getSources()) {
+      sources.push({
+        sourceKey: this.podcastService.getSourceKey(source),
+        sourceType: 'podcast',
+        sourceName: source.name,
+        enabled: source.enabled,
+        rateLimit: PodcastService.RATE_LIMIT,
+        service: this.podcastService,
+        testConnection: () => this.podcastService.testConnection(source.name)
+      });
+    }
+
+    sources.push({
+      sourceKey: GmailService.SOURCE_KEY,
+      sourceType: 'email',
+      sourceName: 'Gmail',
+      enabled: this.gmailService.isAvailable(),
+      rateLimit: GmailService.RATE_LIMIT,
+      service: this.gmailService,
+      testConnection: () => this.gmailService.testConnection()
+    });
+
+    return sources;
+  }
+
+  private buildEntry(
+    source: ConfiguredSource,
+    record: SourceFetchRecord | undefined,
+    state: IngestionState | undefined,
+    probe: SourceProbeResult | undefined
+  ): SourceHealthEntry {
+    // Fetches made since startup are the freshest view; the ingestion state survives restarts
+    const history = record
+      ? record
+      : state && {
+        lastSuccessAt: state.lastSuccessAt,
+        lastErrorAt: state.status === 'error' ? state.lastAttemptAt : undefined,
+        lastErrorCode: state.errorCode,
+        lastError: state.error,
+        itemCount: state.itemCount,
+        latencyMs: state.durationMs
+      };
+
+    const rateLimitRemaining = this.rateLimiter.getRemainingRequests(source.sourceKey, source.rateLimit);
+    const resetTime = this.rateLimiter.getResetTime(source.sourceKey);
+
+    return {
+      sourceKey: source.sourceKey,
+      sourceType: source.sourceType,
+      sourceName: source.sourceName,
+      enabled: source.enabled,
+      status: this.getStatus(source.enabled, history, rateLimitRemaining, probe),
+      lastSuccessAt: history?.lastSuccessAt,
+      lastErrorAt: history?.lastErrorAt,
+      lastErrorCode: history?.lastErrorCode,
+      lastError: history?.lastError,
+      itemsFetched: history?.lastSuccessAt ? history.itemCount : undefined,
+      latencyMs: history?.latencyMs,
+      rateLimit: source.rateLimit,
+      rateLimitRemaining,
+      rateLimitResetAt: resetTime > Date.now() ? new Date(resetTime).toISOString() : undefined,
+      probe
+    };
+  }
+
+  private getStatus(
+    enabled: boolean,
+    history: Pick<SourceFetchRecord, 'lastSuccessAt' | 'lastErrorAt'> | undefined,
+    rateLimitRemaining: number,
+    probe: SourceProbeResult | undefined
+  ): SourceHealthStatus {
+    if (!enabled) return 'disabled';
+    if (probe && !probe.ok) return 'error';
+    if (rateLimitRemaining === 0) return 'rate-limited';
+
+    const lastSuccess = history?.lastSuccessAt ? new Date(history.lastSuccessAt).getTime() : 0;
+    const lastError = history?.lastErrorAt ? new Date(history.lastErrorAt).getTime() : 0;
+    if (lastError > lastSuccess) return 'error';
+    if (lastSuccess > 0 || probe?.ok) return 'ok';
+    return 'unknown';
+  }
+
+  /**
+   * Live connection test. Probes bypass the rate limiter and the item store.
+   */
+  private async probe(source: ConfiguredSource): Promise<SourceProbeResult> {
+    const started = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Connection test timed out after ${this.options.probeTimeoutMs}ms`)),
+          this.options.probeTimeoutMs
+        );
+      });
+
+      const ok = await Promise.race([source.testConnection(), timeout]);
+      return ok
+        ? { ok, latencyMs: Date.now() - started }
+        : { ok, latencyMs: Date.now() - started, error: 'Connection test failed' };
+    } catch (error) {
+      return {
+        ok: false,
+        latencyMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
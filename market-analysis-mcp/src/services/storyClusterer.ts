@@ -0,0 +1,153 @@
+import { MarketDataItem, MarketStory } from '../types/marketData';
+
+export interface ClusteringOptions {
+  similarityThreshold: number; // 0-1, minimum similarity to join an existing story
+  maxTimeGapHours: number; // Items further apart than this are never the same story
+  sourceBoost: number; // Relevance points added per additional corroborating source
+}
+
+const DEFAULT_OPTIONS: ClusteringOptions = {
+  similarityThreshold: 0.5,
+  maxTimeGapHours: 48,
+  sourceBoost: 5,
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'its', 'has', 'had',
+  'with', 'from', 'that', 'this', 'than', 'into', 'over', 'after', 'about', 'amid', 'says',
+  'said', 'will', 'what', 'when', 'how', 'why', 'new', 'more', 'as', 'at', 'by', 'of', 'on',
+  'in', 'to', 'is', 'it', 'be', 'an', 'or', 'up', 'out', 'his', 'her', 'their', 'they',
+]);
+
+interface ClusterCandidate {
+  item: MarketDataItem;
+  titleTokens: Set<string>;
+  contentTokens: Set<string>;
+  symbols: Set<string>;
+  time: number;
+}
+
+export class StoryClusterer {
+  private options: ClusteringOptions;
+
+  constructor(options: Partial<ClusteringOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Group near-duplicate items covering the same event into stories.
+   * Items are visited in relevance order, so each story is led by its most relevant item.
+   */
+  cluster(items: MarketDataItem[]): MarketStory[] {
+    const ordered = [...items].sort((a, b) => {
+      if (b.relevanceScore !== a.relevanceScore) return b.relevanceScore - a.relevanceScore;
+      return a.id.localeCompare(b.id);
+    });
+
+    const clusters: ClusterCandidate[][] = [];
+    const seenIds = new Set<string>();
+
+    for (const item of ordered) {
+      // The same item can arrive twice, e.g. from overlapping API and RSS feeds
+      if (seenIds.has(item.id)) continue;
+      seenIds.add(item.id);
+
+      const candidate = this.toCandidate(item);
+      let bestCluster: ClusterCandidate[] | null = null;
+      let bestSimilarity = 0;
+
+      for (const cluster of clusters) {
+        const similarity = Math.max(...cluster.map(member => this.compare(candidate, member)));
+        if (similarity > bestSimilarity) {
+          bestSimilarity = similarity;
+          bestCluster = cluster;
+        }
+      }
+
+      if (bestCluster && bestSimilarity >= this.options.similarityThreshold) {
+        bestCluster.push(candidate);
+      } else {
+        clusters.push([candidate]);
+      }
+    }
+
+    return clusters
+      .map(cluster => this.toStory(cluster.map(member => member.item)))
+      .sort((a, b) => b.relevanceScore - a.relevanceScore);
+  }
+
+  /**
+   * Similarity between two items, 0-1.
+   * Headlines dominate; body overlap and shared symbols corroborate.
+   */
+  similarity(a: MarketDataItem, b: MarketDataItem): number {
+    return this.compare(this.toCandidate(a), this.toCandidate(b));
+  }
+
+  private compare(left: ClusterCandidate, right: ClusterCandidate): number {
+    if (Math.abs(left.time - right.time) > this.options.maxTimeGapHours * 60 * 60 * 1000) {
+      return 0;
+    }
+
+    const titleSimilarity = this.overlapCoefficient(left.titleTokens, right.titleTokens);
+    const contentSimilarity = this.jaccard(left.contentTokens, right.contentTokens);
+    const sharesSymbol = [...left.symbols].some(symbol => right.symbols.has(symbol));
+
+    const score = 0.7 * titleSimilarity + 0.3 * contentSimilarity + (sharesSymbol ? 0.15 : 0);
+    return Math.min(1, score);
+  }
+
+  private toStory(items: MarketDataItem[]): MarketStory {
+    const leadItem = items[0];
+    const sources = [...new Set(items.map(item => item.sourceDetails.name))];
+    const sourceTypes = [...new Set(items.map(item => item.source))];
+    const symbols = [...new Set(items.flatMap(item => item.symbols || []))];
+    const corroboration = (sources.length - 1) * this.options.sourceBoost;
+
+    return {
+      id: leadItem.id,
+      headline: leadItem.title,
+      leadItem,
+      items,
+      sources,
+      sourceTypes,
+      symbols,
+      relevanceScore: Math.min(100, leadItem.relevanceScore + corroboration),
+    };
+  }
+
+  private toCandidate(item: MarketDataItem): ClusterCandidate {
+    const time = new Date(item.timestamp).getTime();
+    return {
+      item,
+      titleTokens: this.tokenize(item.title),
+      contentTokens: this.tokenize(item.content.slice(0, 1000)),
+      symbols: new Set(item.symbols || []),
+      time: isNaN(time) ? 0 : time,
+    };
+  }
+
+  private tokenize(text: string): Set<string> {
+    const tokens = text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 2 && !STOP_WORDS.has(token))
+      .map(token => (token.length > 4 && token.endsWith('s') ? token.slice(0, -1) : token));
+
+    return new Set(tokens);
+  }
+
+  private overlapCoefficient(a: Set<string>, b: Set<string>): number {
+    // Short headlines ("Fed holds rates") would match almost anything, so require some substance
+    if (a.size < 3 || b.size < 3) return this.jaccard(a, b);
+    const shared = [...a].filter(token => b.has(token)).length;
+    return shared / Math.min(a.size, b.size);
+  }
+
+  private jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    const shared = [...a].filter(token => b.has(token)).length;
+    return shared / (a.size + b.size - shared);
+  }
+}
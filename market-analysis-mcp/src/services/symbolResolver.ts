@@ -0,0 +1,199 @@
+import fs from 'fs';
+import path from 'path';
+import { ResolvedSymbol, SymbolDictionary, SymbolEntry } from '../types/marketData';
+
+// Confidence per kind of mention; unknown tickers only count when explicitly marked
+const CONFIDENCE = {
+  exchange: 1.0,
+  exchangeUnknown: 0.85,
+  cashtag: 0.95,
+  cashtagUnknown: 0.7,
+  name: 0.9,
+  alias: 0.75,
+  ticker: 0.8
+};
+
+const EXCHANGES = ['NYSE', 'NASDAQ', 'NYSEARCA', 'NYSEAMERICAN', 'AMEX', 'ARCA', 'BATS', 'CBOE', 'OTC', 'TSX', 'LSE'];
+const TICKER_PATTERN = /^[A-Z][A-Z0-9]{0,5}(?:\.[A-Z])?$/;
+
+const EXCHANGE_REGEX = new RegExp(`\\b(?:${EXCHANGES.join('|')})\\s*:\\s*([A-Z][A-Z0-9]{0,5}(?:\\.[A-Z])?)\\b`, 'gi');
+const CASHTAG_REGEX = /(?<![\w$])\$([A-Za-z][A-Za-z0-9]{0,5}(?:\.[A-Za-z])?)\b/g;
+const BARE_TICKER_REGEX = /\b[A-Z][A-Z0-9]{0,5}(?:\.[A-Z])?\b/g;
+
+interface Mention {
+  symbol: string;
+  confidence: number;
+  matchedBy: ResolvedSymbol['matchedBy'];
+  text: string;
+  index: number;
+}
+
+/**
+ * Resolves ticker mentions in free text against a reference dictionary:
+ * exchange-prefixed tickers (NASDAQ:AAPL), cashtags ($TSLA), bare tickers
+ * and company names or aliases ("Nvidia").
+ */
+export class SymbolResolver {
+  static readonly DEFAULT_PATH = path.join(process.cwd(), 'config', 'symbols.json');
+  // Weaker mentions are not reported as symbols
+  static readonly MIN_CONFIDENCE = 0.6;
+
+  private entries = new Map<string, SymbolEntry>();
+  private names = new Map<string, { entry: SymbolEntry; confidence: number }>();
+  private nameRegex: RegExp | null = null;
+
+  constructor(dictionary: SymbolDictionary) {
+    SymbolResolver.validate(dictionary);
+
+    for (const entry of dictionary.symbols) {
+      this.entries.set(entry.ticker, entry);
+      this.addName(entry.name, entry, CONFIDENCE.name);
+      (entry.aliases || []).forEach(alias => this.addName(alias, entry, CONFIDENCE.alias));
+    }
+
+    if (this.names.size > 0) {
+      // Longest first so "Bank of America" wins over a shorter alias inside it
+      const alternatives = [...this.names.keys()]
+        .sort((a, b) => b.length - a.length)
+        .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+      this.nameRegex = new RegExp(`(?<![A-Za-z0-9&])(?:${alternatives.join('|')})(?![A-Za-z0-9&])`, 'gi');
+    }
+  }
+
+  static async load(filePath: string = SymbolResolver.DEFAULT_PATH): Promise<SymbolResolver> {
+    const data = await fs.promises.readFile(filePath, 'utf8');
+    return new SymbolResolver(JSON.parse(data));
+  }
+
+  static validate(dictionary: SymbolDictionary): void {
+    if (!dictionary || !Array.isArray(dictionary.symbols)) {
+      throw new Error('Symbol dictionary must have a "symbols" array');
+    }
+
+    const seen = new Set<string>();
+    dictionary.symbols.forEach((entry, index) => {
+      if (!entry || typeof entry.ticker !== 'string' || !TICKER_PATTERN.test(entry.ticker)) {
+        throw new Error(`Symbol dictionary entry ${index} has an invalid ticker: ${entry?.ticker}`);
+      }
+      if (typeof entry.name !== 'string' || !entry.name.trim()) {
+        throw new Error(`Symbol dictionary entry ${entry.ticker} needs a name`);
+      }
+      if (entry.aliases !== undefined && !Array.isArray(entry.aliases)) {
+        throw new Error(`Symbol dictionary entry ${entry.ticker} has invalid aliases`);
+      }
+      if (seen.has(entry.ticker)) {
+        throw new Error(`Symbol dictionary lists ${entry.ticker} more than once`);
+      }
+      seen.add(entry.ticker);
+    });
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  getEntry(ticker: string): SymbolEntry | undefined {
+    return this.entries.get(ticker.toUpperCase());
+  }
+
+  isMajor(ticker: string): boolean {
+    return this.getEntry(ticker)?.major === true;
+  }
+
+  /**
+   * Canonical tickers mentioned in the text, in order of first mention,
+   * each with the confidence of its strongest mention.
+   */
+  resolve(text: string): ResolvedSymbol[] {
+    if (!text) return [];
+
+    const best = new Map<string, Mention>();
+    const firstIndex = new Map<string, number>();
+
+    for (const mention of this.findMentions(text)) {
+      if (!firstIndex.has(mention.symbol) || mention.index < firstIndex.get(mention.symbol)!) {
+        firstIndex.set(mention.symbol, mention.index);
+      }
+      const current = best.get(mention.symbol);
+      if (!current || mention.confidence > current.confidence) {
+        best.set(mention.symbol, mention);
+      }
+    }
+
+    return [...best.values()]
+      .sort((a, b) => firstIndex.get(a.symbol)! - firstIndex.get(b.symbol)!)
+      .map(({ symbol, confidence, matchedBy, text: mentionText }) => ({
+        symbol,
+        confidence,
+        matchedBy,
+        text: mentionText
+      }));
+  }
+
+  private findMentions(text: string): Mention[] {
+    const mentions: Mention[] = [];
+
+    for (const match of text.matchAll(EXCHANGE_REGEX)) {
+      const symbol = match[1].toUpperCase();
+      mentions.push({
+        symbol,
+        confidence: this.entries.has(symbol) ? CONFIDENCE.exchange : CONFIDENCE.exchangeUnknown,
+        matchedBy: 'exchange',
+        text: match[0],
+        index: match.index ?? 0
+      });
+    }
+
+    for (const match of text.matchAll(CASHTAG_REGEX)) {
+      const symbol = match[1].toUpperCase();
+      mentions.push({
+        symbol,
+        confidence: this.entries.has(symbol) ? CONFIDENCE.cashtag : CONFIDENCE.cashtagUnknown,
+        matchedBy: 'cashtag',
+        text: match[0],
+        index: match.index ?? 0
+      });
+    }
+
+    // Bare upper-case words only count when they are a known ticker that is not also a common word
+    for (const match of text.matchAll(BARE_TICKER_REGEX)) {
+      const entry = this.entries.get(match[0]);
+      if (!entry || entry.requiresPrefix) continue;
+      mentions.push({
+        symbol: entry.ticker,
+        confidence: CONFIDENCE.ticker,
+        matchedBy: 'ticker',
+        text: match[0],
+        index: match.index ?? 0
+      });
+    }
+
+    if (this.nameRegex) {
+      for (const match of text.matchAll(this.nameRegex)) {
+        // Names are proper nouns; "apple" in lower case is fruit, not the company
+        if (!/^[A-Z0-9]/.test(match[0])) continue;
+        const name = this.names.get(match[0].replace(/\s+/g, ' ').toLowerCase());
+        if (!name) continue;
+        mentions.push({
+          symbol: name.entry.ticker,
+          confidence: name.confidence,
+          matchedBy: 'name',
+          text: match[0],
+          index: match.index ?? 0
+        });
+      }
+    }
+
+    return mentions;
+  }
+
+  private addName(name: string, entry: SymbolEntry, confidence: number): void {
+    const key = name.trim().replace(/\s+/g, ' ').toLowerCase();
+    if (!key) return;
+
+    const existing = this.names.get(key);
+    if (!existing || existing.confidence < confidence) {
+      this.names.set(key, { entry, confidence });
+    }
+  }
+}
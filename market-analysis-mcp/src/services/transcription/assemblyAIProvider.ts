@@ -0,0 +1,78 @@
+import axios, { AxiosInstance } from 'axios';
+import { AudioChunk, ChunkTranscript, TranscriptionProvider } from './transcriptionProvider';
+
+interface AssemblyTranscript {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'error';
+  text?: string;
+  error?: string;
+  audio_duration?: number;
+  language_code?: string;
+}
+
+interface AssemblySentences {
+  sentences: Array<{ start: number; end: number; text: string }>; // Milliseconds
+}
+
+export class AssemblyAIProvider implements TranscriptionProvider {
+  readonly name = 'assembly-ai' as const;
+  // AssemblyAI accepts whole episodes, so chunking is effectively disabled
+  readonly maxChunkBytes = 2 * 1024 * 1024 * 1024;
+
+  private client: AxiosInstance;
+
+  constructor(
+    apiKey: string,
+    private pollIntervalMs: number = 5000,
+    private maxWaitMs: number = 30 * 60 * 1000,
+    baseURL: string = 'https://api.assemblyai.com/v2'
+  ) {
+    this.client = axios.create({
+      baseURL,
+      headers: { authorization: apiKey },
+      timeout: 60000,
+      maxBodyLength: Infinity
+    });
+  }
+
+  async transcribe(chunk: AudioChunk): Promise<ChunkTranscript> {
+    const upload = await this.client.post<{ upload_url: string }>('/upload', chunk.data, {
+      headers: { 'Content-Type': 'application/octet-stream' }
+    });
+
+    const created = await this.client.post<AssemblyTranscript>('/transcript', {
+      audio_url: upload.data.upload_url
+    });
+
+    const transcript = await this.waitForCompletion(created.data.id);
+    const sentences = await this.client.get<AssemblySentences>(`/transcript/${transcript.id}/sentences`);
+
+    return {
+      text: (transcript.text || '').trim(),
+      segments: sentences.data.sentences.map(sentence => ({
+        start: sentence.start / 1000,
+        end: sentence.end / 1000,
+        text: sentence.text.trim()
+      })),
+      durationSeconds: transcript.audio_duration,
+      language: transcript.language_code
+    };
+  }
+
+  private async waitForCompletion(id: string): Promise<AssemblyTranscript> {
+    const deadline = Date.now() + this.maxWaitMs;
+
+    while (Date.now() < deadline) {
+      const response = await this.client.get<AssemblyTranscript>(`/transcript/${id}`);
+
+      if (response.data.status === 'completed') return response.data;
+      if (response.data.status === 'error') {
+        throw new Error(`AssemblyAI transcription failed: ${response.data.error || 'unknown error'}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+    }
+
+    throw new Error(`AssemblyAI transcription ${id} timed out`);
+  }
+}
@@ -0,0 +1,69 @@
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { AudioChunk, ChunkTranscript, TranscriptionProvider } from './transcriptionProvider';
+
+const execFileAsync = promisify(execFile);
+
+interface WhisperJsonOutput {
+  text: string;
+  language?: string;
+  segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+/**
+ * Runs a Whisper-compatible command-line tool on the local machine.
+ *
+ * The command is a template where {input} is replaced by the audio file and
+ * {outputDir} by a scratch directory; the tool must write a Whisper-style JSON
+ * file ({ text, segments: [{ start, end, text }] }) into that directory.
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name = 'local-whisper' as const;
+  // Local tools read the file from disk, so there is no upload limit to respect
+  readonly maxChunkBytes = 2 * 1024 * 1024 * 1024;
+
+  constructor(
+    private commandTemplate: string = 'whisper {input} --model base --output_format json --output_dir {outputDir}',
+    private timeoutMs: number = 60 * 60 * 1000
+  ) {}
+
+  async transcribe(chunk: AudioChunk): Promise<ChunkTranscript> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'market-mcp-whisper-'));
+
+    try {
+      const inputPath = path.join(workDir, path.basename(chunk.fileName));
+      const outputDir = path.join(workDir, 'out');
+      await fs.mkdir(outputDir);
+      await fs.writeFile(inputPath, chunk.data);
+
+      // Split the template ourselves and avoid a shell so file names are never interpreted
+      const [command, ...args] = this.commandTemplate
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(part => part.replace('{input}', inputPath).replace('{outputDir}', outputDir));
+
+      await execFileAsync(command, args, { timeout: this.timeoutMs, maxBuffer: 16 * 1024 * 1024 });
+
+      const outputFile = (await fs.readdir(outputDir)).find(file => file.endsWith('.json'));
+      if (!outputFile) {
+        throw new Error(`Local whisper command produced no JSON output: ${command}`);
+      }
+
+      const output: WhisperJsonOutput = JSON.parse(await fs.readFile(path.join(outputDir, outputFile), 'utf8'));
+      return {
+        text: output.text.trim(),
+        segments: (output.segments || []).map(segment => ({
+          start: segment.start,
+          end: segment.end,
+          text: segment.text.trim()
+        })),
+        language: output.language
+      };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
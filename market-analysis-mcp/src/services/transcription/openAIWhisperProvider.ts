@@ -0,0 +1,46 @@
+import axios from 'axios';
+import { AudioChunk, ChunkTranscript, TranscriptionProvider } from './transcriptionProvider';
+
+interface WhisperVerboseResponse {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+export class OpenAIWhisperProvider implements TranscriptionProvider {
+  readonly name = 'openai-whisper' as const;
+  // The API rejects uploads over 25 MB
+  readonly maxChunkBytes = 24 * 1024 * 1024;
+
+  constructor(
+    private apiKey: string,
+    private model: string = 'whisper-1',
+    private endpoint: string = 'https://api.openai.com/v1/audio/transcriptions'
+  ) {}
+
+  async transcribe(chunk: AudioChunk): Promise<ChunkTranscript> {
+    const form = new FormData();
+    form.append('file', new Blob([chunk.data], { type: chunk.mimeType }), chunk.fileName);
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+
+    const response = await axios.post<WhisperVerboseResponse>(this.endpoint, form, {
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      timeout: 10 * 60 * 1000,
+      maxBodyLength: Infinity
+    });
+
+    const data = response.data;
+    return {
+      text: data.text.trim(),
+      segments: (data.segments || []).map(segment => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim()
+      })),
+      durationSeconds: data.duration,
+      language: data.language
+    };
+  }
+}
@@ -0,0 +1,209 @@
+import axios from 'axios';
+import { Logger } from 'winston';
+import { CacheManager } from '../../utils/cache';
+import { NetworkGuard } from '../../utils/NetworkGuard';
+import { PodcastTranscript, TranscriptSegment, TranscriptionServiceName } from '../../types/marketData';
+import { TranscriptionSettings } from '../../types/appConfig';
+import { AudioChunk, ChunkTranscript, TranscriptionProvider } from './transcriptionProvider';
+import { OpenAIWhisperProvider } from './openAIWhisperProvider';
+import { AssemblyAIProvider } from './assemblyAIProvider';
+import { LocalWhisperProvider } from './localWhisperProvider';
+
+export interface TranscriptionRequest {
+  episodeId: string;
+  audioUrl: string;
+  mimeType?: string;
+  service: TranscriptionServiceName;
+}
+
+export interface TranscriptionPipelineOptions {
+  maxAudioBytes: number; // Refuse to download enclosures larger than this
+  downloadTimeoutMs: number;
+  downloadAudio?: (url: string) => Promise<Buffer>; // Override for tests or custom fetching
+}
+
+// Byte ranges of these are playable on their own
+const MPEG_AUDIO_TYPES = ['audio/mpeg', 'audio/mp3'];
+
+const DEFAULT_OPTIONS: TranscriptionPipelineOptions = {
+  maxAudioBytes: 300 * 1024 * 1024,
+  downloadTimeoutMs: 5 * 60 * 1000
+};
+
+export class TranscriptionPipeline {
+  private providers = new Map<TranscriptionServiceName, TranscriptionProvider>();
+  private inFlight = new Map<string, Promise<PodcastTranscript | null>>();
+  private options: TranscriptionPipelineOptions;
+
+  constructor(
+    providers: TranscriptionProvider[],
+    private cache: CacheManager,
+    private logger: Logger,
+    options: Partial<TranscriptionPipelineOptions> = {}
+  ) {
+    providers.forEach(provider => this.providers.set(provider.name, provider));
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Build providers for every backend that has credentials configured.
+   * The local CLI backend is always available; it fails at run time if the command is missing.
+   */
+  static createProviders(settings: TranscriptionSettings): TranscriptionProvider[] {
+    const providers: TranscriptionProvider[] = [];
+
+    if (settings.openaiApiKey) {
+      providers.push(new OpenAIWhisperProvider(settings.openaiApiKey, settings.whisperModel));
+    }
+
+    if (settings.assemblyAiApiKey) {
+      providers.push(new AssemblyAIProvider(settings.assemblyAiApiKey));
+    }
+
+    providers.push(new LocalWhisperProvider(settings.localWhisperCommand));
+
+    return providers;
+  }
+
+  hasProvider(service: TranscriptionServiceName): boolean {
+    return this.providers.has(service);
+  }
+
+  /**
+   * Transcribe an episode, reusing the stored transcript when one exists.
+   * Concurrent requests for the same episode share a single transcription.
+   */
+  async transcribe(request: TranscriptionRequest): Promise<PodcastTranscript | null> {
+    const stored = await this.cache.getTranscript(request.episodeId);
+    if (stored) {
+      this.logger.debug(`Transcript cache hit for episode: ${request.episodeId}`);
+      return stored;
+    }
+
+    const pending = this.inFlight.get(request.episodeId);
+    if (pending) return pending;
+
+    const job = this.runTranscription(request).finally(() => {
+      this.inFlight.delete(request.episodeId);
+    });
+    this.inFlight.set(request.episodeId, job);
+    return job;
+  }
+
+  private async runTranscription(request: TranscriptionRequest): Promise<PodcastTranscript | null> {
+    const provider = this.providers.get(request.service);
+    if (!provider) {
+      this.logger.warn(`No transcription provider configured for ${request.service}`, {
+        episodeId: request.episodeId
+      });
+      return null;
+    }
+
+    const audio = await this.download(request.audioUrl);
+    const chunks = this.chunkAudio(audio, provider.maxChunkBytes, request);
+
+    this.logger.info(`Transcribing episode ${request.episodeId} with ${provider.name}`, {
+      bytes: audio.length,
+      chunks: chunks.length
+    });
+
+    const segments: TranscriptSegment[] = [];
+    const texts: string[] = [];
+    let offsetSeconds = 0;
+    let language: string | undefined;
+
+    // Chunks run in order so each one's timestamps can be shifted by the audio before it
+    for (const chunk of chunks) {
+      const result = await provider.transcribe(chunk);
+
+      segments.push(...result.segments.map(segment => ({
+        start: segment.start + offsetSeconds,
+        end: segment.end + offsetSeconds,
+        text: segment.text
+      })));
+      texts.push(result.text);
+      language = language || result.language;
+      offsetSeconds += this.chunkDuration(result);
+    }
+
+    const transcript: PodcastTranscript = {
+      episodeId: request.episodeId,
+      provider: provider.name,
+      text: texts.filter(Boolean).join(' '),
+      segments,
+      language,
+      createdAt: new Date().toISOString()
+    };
+
+    await this.cache.saveTranscript(transcript);
+    return transcript;
+  }
+
+  private async download(url: string): Promise<Buffer> {
+    // Enclosure URLs come from third-party feeds, so they may not point inside the network
+    NetworkGuard.checkUrl(url, 'enclosure URL');
+    if (this.options.downloadAudio) {
+      return this.options.downloadAudio(url);
+    }
+
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      timeout: this.options.downloadTimeoutMs,
+      maxContentLength: this.options.maxAudioBytes,
+      headers: { 'User-Agent': 'Market-Analysis-MCP/1.0' },
+      ...NetworkGuard.requestOptions()
+    });
+
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Split audio into provider-sized byte ranges. MPEG audio resynchronises on the
+   * next frame header, so byte splitting is safe for the MP3 enclosures podcasts use.
+   * Any other container is only valid whole, so oversize files of those are refused.
+   */
+  private chunkAudio(audio: Buffer, maxChunkBytes: number, request: TranscriptionRequest): AudioChunk[] {
+    const mimeType = request.mimeType || 'audio/mpeg';
+    const extension = this.extensionFor(mimeType);
+    const chunks: AudioChunk[] = [];
+
+    if (audio.length > maxChunkBytes && !MPEG_AUDIO_TYPES.includes(mimeType.toLowerCase())) {
+      throw new Error(
+        `Episode ${request.episodeId} is ${audio.length} bytes of ${mimeType}, over the ${maxChunkBytes} byte provider limit; ` +
+        'only MPEG audio can be split into chunks'
+      );
+    }
+
+    for (let start = 0, index = 0; start < audio.length; start += maxChunkBytes, index++) {
+      chunks.push({
+        data: audio.subarray(start, start + maxChunkBytes),
+        index,
+        mimeType,
+        fileName: `episode-${index}.${extension}`
+      });
+    }
+
+    return chunks;
+  }
+
+  private chunkDuration(result: ChunkTranscript): number {
+    if (result.durationSeconds !== undefined) return result.durationSeconds;
+    const lastSegment = result.segments[result.segments.length - 1];
+    return lastSegment ? lastSegment.end : 0;
+  }
+
+  private extensionFor(mimeType: string): string {
+    const extensions: Record<string, string> = {
+      'audio/mpeg': 'mp3',
+      'audio/mp3': 'mp3',
+      'audio/mp4': 'm4a',
+      'audio/x-m4a': 'm4a',
+      'audio/aac': 'aac',
+      'audio/wav': 'wav',
+      'audio/x-wav': 'wav',
+      'audio/ogg': 'ogg'
+    };
+
+    return extensions[mimeType.toLowerCase()] || 'mp3';
+  }
+}
@@ -0,0 +1,26 @@
+import { TranscriptSegment, TranscriptionServiceName } from '../../types/marketData';
+
+export interface AudioChunk {
+  data: Buffer;
+  index: number; // Position of the chunk within the episode
+  mimeType: string;
+  fileName: string;
+}
+
+export interface ChunkTranscript {
+  text: string;
+  segments: TranscriptSegment[]; // Relative to the start of the chunk
+  durationSeconds?: number; // Falls back to the end of the last segment
+  language?: string;
+}
+
+/**
+ * A speech-to-text backend. Providers only ever see one chunk at a time;
+ * the pipeline takes care of downloading, chunking, offsets and persistence.
+ */
+export interface TranscriptionProvider {
+  readonly name: TranscriptionServiceName;
+  // Largest chunk the backend accepts; longer audio is split before transcription
+  readonly maxChunkBytes: number;
+  transcribe(chunk: AudioChunk): Promise<ChunkTranscript>;
+}
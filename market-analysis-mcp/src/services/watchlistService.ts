@@ -0,0 +1,158 @@
+import { Logger } from 'winston';
+import { CacheManager } from '../utils/cache';
+import { MarketDataItem, Watchlist } from '../types/marketData';
+
+export interface WatchlistChanges {
+  symbols?: string[]; // Replaces the whole list
+  addSymbols?: string[];
+  removeSymbols?: string[];
+  description?: string;
+  active?: boolean;
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _-]{0,49}$/;
+const SYMBOL_PATTERN = /^[A-Z][A-Z0-9.-]{0,9}$/;
+const MAX_SYMBOLS = 200;
+
+export class WatchlistService {
+  // Relevance points added to snapshot items that mention an active-watchlist symbol
+  static readonly ACTIVE_BOOST = 15;
+
+  constructor(
+    private cache: CacheManager,
+    private logger: Logger
+  ) {}
+
+  async create(
+    clientId: string,
+    name: string,
+    symbols: string[],
+    description?: string,
+    active?: boolean
+  ): Promise<Watchlist> {
+    this.validateName(name);
+
+    if (await this.cache.getWatchlist(clientId, name)) {
+      throw new Error(`Watchlist "${name}" already exists. Use update_watchlist to change it.`);
+    }
+
+    // A client's first watchlist becomes active unless told otherwise
+    const isActive = active ?? !(await this.getActive(clientId));
+    const now = new Date().toISOString();
+    const watchlist: Watchlist = {
+      clientId,
+      name,
+      symbols: this.normalizeSymbols(symbols),
+      description,
+      active: isActive,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.cache.saveWatchlist(watchlist);
+    this.logger.info(`Created watchlist ${name}`, { clientId, symbols: watchlist.symbols.length });
+    return watchlist;
+  }
+
+  async update(clientId: string, name: string, changes: WatchlistChanges): Promise<Watchlist> {
+    const existing = await this.get(clientId, name);
+
+    let symbols = changes.symbols ? this.normalizeSymbols(changes.symbols) : existing.symbols;
+    if (changes.addSymbols) {
+      symbols = this.normalizeSymbols([...symbols, ...changes.addSymbols]);
+    }
+    if (changes.removeSymbols) {
+      const removed = new Set(this.normalizeSymbols(changes.removeSymbols));
+      symbols = symbols.filter(symbol => !removed.has(symbol));
+    }
+
+    const watchlist: Watchlist = {
+      ...existing,
+      symbols,
+      description: changes.description ?? existing.description,
+      active: changes.active ?? existing.active,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.cache.saveWatchlist(watchlist);
+    this.logger.info(`Updated watchlist ${existing.name}`, { clientId, symbols: symbols.length });
+    return watchlist;
+  }
+
+  async get(clientId: string, name: string): Promise<Watchlist> {
+    const watchlist = await this.cache.getWatchlist(clientId, name);
+    if (!watchlist) {
+      throw new Error(`Watchlist "${name}" not found. Use list_watchlists to see available watchlists.`);
+    }
+    return watchlist;
+  }
+
+  async list(clientId: string): Promise<Watchlist[]> {
+    return this.cache.listWatchlists(clientId);
+  }
+
+  async delete(clientId: string, name: string): Promise<Watchlist> {
+    const existing = await this.get(clientId, name);
+    await this.cache.deleteWatchlist(clientId, existing.name);
+    this.logger.info(`Deleted watchlist ${existing.name}`, { clientId });
+    return existing;
+  }
+
+  async getActive(clientId: string): Promise<Watchlist | undefined> {
+    const watchlists = await this.cache.listWatchlists(clientId);
+    return watchlists.find(watchlist => watchlist.active);
+  }
+
+  /**
+   * Resolve a `watchlist` tool argument to its symbols. An explicit symbol array wins;
+   * with neither, undefined is returned so tools keep their unfiltered behaviour.
+   */
+  async resolveSymbols(clientId: string, watchlistName?: string, symbols?: string[]): Promise<string[] | undefined> {
+    if (symbols && symbols.length > 0) return symbols;
+    if (!watchlistName) return undefined;
+
+    const watchlist = await this.get(clientId, watchlistName);
+    return watchlist.symbols;
+  }
+
+  /**
+   * Raise the relevance of items mentioning any watchlist symbol
+   */
+  boostItems(items: MarketDataItem[], symbols: string[]): MarketDataItem[] {
+    if (symbols.length === 0) return items;
+
+    const watched = new Set(symbols);
+    return items.map(item => {
+      if (!item.symbols?.some(symbol => watched.has(symbol))) return item;
+      return { ...item, relevanceScore: Math.min(100, item.relevanceScore + WatchlistService.ACTIVE_BOOST) };
+    });
+  }
+
+  normalizeSymbols(symbols: string[]): string[] {
+    if (!Array.isArray(symbols)) {
+      throw new Error('Watchlist symbols must be an array of ticker strings');
+    }
+
+    const normalized = new Set<string>();
+    for (const raw of symbols) {
+      const symbol = String(raw).trim().replace(/^\$/, '').toUpperCase();
+      if (!symbol) continue;
+      if (!SYMBOL_PATTERN.test(symbol)) {
+        throw new Error(`Invalid symbol "${raw}": use 1-10 letters, digits, dots or dashes starting with a letter`);
+      }
+      normalized.add(symbol);
+    }
+
+    if (normalized.size > MAX_SYMBOLS) {
+      throw new Error(`Watchlists are limited to ${MAX_SYMBOLS} symbols`);
+    }
+
+    return [...normalized];
+  }
+
+  private validateName(name: string): void {
+    if (!name || !NAME_PATTERN.test(name)) {
+      throw new Error('Watchlist names must be 1-50 letters, digits, spaces, dashes or underscores');
+    }
+  }
+}
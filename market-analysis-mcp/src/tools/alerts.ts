@@ -0,0 +1,273 @@
+import { ALERT_SINK_TYPES, AlertEngine } from '../services/alerts/alertEngine';
+import { Alert, AlertConditions, AlertRule } from '../types/marketData';
+import { ToolContext } from '../types/toolContext';
+import { ToolFormatter } from '../utils/ToolFormatter';
+import { ToolOutput } from '../utils/ToolOutput';
+import { ToolDefinition } from '../types/toolDefinition';
+
+export class AlertTools {
+  constructor(private alertEngine: AlertEngine) {}
+
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'create_alert_rule',
+        description: 'Create a rule that pushes an alert whenever newly ingested items match its conditions',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              minLength: 1,
+              description: 'Rule name'
+            },
+            symbols: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'symbol' },
+              description: 'Match items mentioning any of these symbols (optional)'
+            },
+            market_tags: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'keyword' },
+              description: 'Match items with any of these market tags, e.g. "earnings", "fed" (optional)'
+            },
+            sentiment: {
+              type: 'array',
+              items: { type: 'string', enum: ['positive', 'negative', 'neutral'] },
+              description: 'Match items with any of these sentiments (optional)'
+            },
+            min_relevance: {
+              type: 'number',
+              description: 'Minimum relevance score (optional)',
+              minimum: 0,
+              maximum: 100
+            },
+            sources: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'keyword' },
+              description: 'Match items from these source types ("news", "podcast", "email") or source names (optional)'
+            },
+            sinks: {
+              type: 'array',
+              items: { type: 'string', enum: ALERT_SINK_TYPES },
+              description: 'Where to deliver alerts',
+              default: ['mcp']
+            },
+            webhook_url: {
+              type: 'string',
+              sanitize: 'url',
+              description: 'Webhook to POST alerts to when sinks includes "webhook" (optional, defaults to ALERT_WEBHOOK_URL)'
+            },
+            enabled: {
+              type: 'boolean',
+              description: 'Whether the rule is checked',
+              default: true
+            }
+          },
+          required: ['name']
+        },
+        handler: (args, context) => this.createAlertRule(args, context)
+      },
+      {
+        name: 'list_alert_rules',
+        description: 'List your alert rules',
+        inputSchema: {
+          type: 'object',
+          properties: {}
+        },
+        handler: (args, context) => this.listAlertRules(args, context)
+      },
+      {
+        name: 'delete_alert_rule',
+        description: 'Delete an alert rule',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            rule_id: {
+              type: 'string',
+              sanitize: 'identifier',
+              description: 'Id of the rule to delete, from list_alert_rules'
+            }
+          },
+          required: ['rule_id']
+        },
+        handler: (args, context) => this.deleteAlertRule(args, context)
+      },
+      {
+        name: 'get_alert_history',
+        description: 'Show alerts your rules have fired and how each was delivered',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            rule_id: {
+              type: 'string',
+              sanitize: 'identifier',
+              description: 'Only show alerts from this rule (optional)'
+            },
+            limit: {
+              type: 'integer',
+              description: 'Maximum number of alerts to return',
+              default: 20,
+              minimum: 1,
+              maximum: 100
+            }
+          }
+        },
+        handler: (args, context) => this.getAlertHistory(args, context)
+      }
+    ];
+  }
+
+  async createAlertRule(args: any, context: ToolContext): Promise<any> {
+    const { name, symbols, market_tags, sentiment, min_relevance, sources, sinks, webhook_url, enabled } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
+
+    try {
+      const conditions: AlertConditions = {
+        symbols,
+        marketTags: market_tags,
+        sentiment,
+        minRelevance: min_relevance,
+        sources
+      };
+      const rule = await this.alertEngine.createRule(context.clientId, {
+        name,
+        conditions,
+        sinks,
+        webhookUrl: webhook_url,
+        enabled
+      });
+
+      return ToolOutput.build(outputFormat, {
+        tool: 'create_alert_rule',
+        schema: 'alert-rules',
+        data: [rule],
+        cached: true,
+        markdown: () => this.formatRules(`✅ Created alert rule **${rule.name}**. It is checked on every ingestion cycle.`, [rule])
+      });
+    } catch (error) {
+      return this.errorResponse(error, 'creating alert rule');
+    }
+  }
+
+  async listAlertRules(args: any, context: ToolContext): Promise<any> {
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
+
+    try {
+      const rules = await this.alertEngine.listRules(context.clientId);
+
+      return ToolOutput.build(outputFormat, {
+        tool: 'list_alert_rules',
+        schema: 'alert-rules',
+        data: rules,
+        cached: true,
+        markdown: () => this.formatRules(
+          rules.length > 0 ? `**Alert rules**: ${rules.length}` : 'No alert rules yet. Use create_alert_rule to add one.',
+          rules
+        )
+      });
+    } catch (error) {
+      return this.errorResponse(error, 'listing alert rules');
+    }
+  }
+
+  async deleteAlertRule(args: any, context: ToolContext): Promise<any> {
+    const { rule_id } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
+
+    try {
+      const rule = await this.alertEngine.deleteRule(context.clientId, rule_id);
+
+      return ToolOutput.build(outputFormat, {
+        tool: 'delete_alert_rule',
+        schema: 'alert-rules',
+        data: [rule],
+        cached: true,
+        markdown: () => this.formatRules(`🗑️ Deleted alert rule **${rule.name}**`, [rule])
+      });
+    } catch (error) {
+      return this.errorResponse(error, 'deleting alert rule');
+    }
+  }
+
+  async getAlertHistory(args: any, context: ToolContext): Promise<any> {
+    const { rule_id, limit = 20 } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
+
+    try {
+      const alerts = await this.alertEngine.getHistory(context.clientId, rule_id, limit);
+
+      return ToolOutput.build(outputFormat, {
+        tool: 'get_alert_history',
+        schema: 'alerts',
+        data: alerts,
+        cached: true,
+        markdown: () => this.formatHistory(alerts)
+      });
+    } catch (error) {
+      return this.errorResponse(error, 'reading alert history');
+    }
+  }
+
+  private formatRules(message: string, rules: AlertRule[]): string {
+    const lines: string[] = ['# 🔔 Alert Rules', '', message, ''];
+
+    rules.forEach(rule => {
+      lines.push(`## ${rule.name}${rule.enabled ? '' : ' (disabled)'}`);
+      lines.push('');
+      lines.push(`**Id**: ${rule.id}`);
+      lines.push(`**Conditions**: ${this.describeConditions(rule.conditions)}`);
+      lines.push(`**Delivers to**: ${rule.sinks.join(', ')}${rule.webhookUrl ? ` (${rule.webhookUrl})` : ''}`);
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  }
+
+  private formatHistory(alerts: Alert[]): string {
+    const lines: string[] = ['# 🔔 Alert History', ''];
+
+    if (alerts.length === 0) {
+      lines.push('No alerts have fired yet.');
+      return lines.join('\n');
+    }
+
+    alerts.forEach(alert => {
+      const failed = alert.deliveries.filter(delivery => !delivery.delivered);
+      lines.push(`## ${alert.item.title}`);
+      lines.push('');
+      lines.push(`**Rule**: ${alert.ruleName} | **Fired**: ${ToolFormatter.formatTimeAgo(alert.firedAt)} | **Relevance**: ${alert.item.relevanceScore}/100`);
+      lines.push(`**Source**: ${alert.item.sourceDetails.name}${alert.item.sourceDetails.url ? ` | ${alert.item.sourceDetails.url}` : ''}`);
+      if (failed.length > 0) {
+        lines.push(`⚠️ **Delivery failed**: ${failed.map(delivery => `${delivery.sink} (${delivery.error})`).join(', ')}`);
+      }
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  }
+
+  private describeConditions(conditions: AlertConditions): string {
+    const parts: string[] = [];
+    if (conditions.symbols) parts.push(`symbols ${conditions.symbols.join('/')}`);
+    if (conditions.marketTags) parts.push(`tags ${conditions.marketTags.join('/')}`);
+    if (conditions.sentiment) parts.push(`sentiment ${conditions.sentiment.join('/')}`);
+    if (conditions.minRelevance !== undefined) parts.push(`relevance ≥ ${conditions.minRelevance}`);
+    if (conditions.sources) parts.push(`sources ${conditions.sources.join('/')}`);
+    return parts.join(' AND ');
+  }
+
+  private errorResponse(error: unknown, context: string): any {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: ToolFormatter.formatErrorResponse(
+            error instanceof Error ? error : new Error('Unknown error occurred'),
+            context
+          )
+        }
+      ]
+    };
+  }
+}
@@ -2,6 +2,10 @@ import { GmailService } from '../services/gmailService';
 import { RelevanceScorer } from '../services/relevanceScorer';
 import { MarketDataItem } from '../types/marketData';
 import { ToolFormatter } from '../utils/ToolFormatter';
+import { ToolOutput } from '../utils/ToolOutput';
+import { ProgressTracker } from '../utils/ProgressTracker';
+import { ToolContext } from '../types/toolContext';
+import { ToolDefinition } from '../types/toolDefinition';
 
 export class GmailTools {
   constructor(
@@ -9,11 +13,44 @@ export class GmailTools {
     private relevanceScorer: RelevanceScorer
   ) {}
 
-  async getRelevantEmails(args: any): Promise<any> {
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'get_relevant_emails',
+        description: 'Extract market-relevant emails from Gmail',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            timeframe: {
+              type: 'string',
+              enum: ['24h', '7d', '30d'],
+              description: 'Time range for emails',
+              default: '7d'
+            },
+            senders: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'email' },
+              description: 'Filter by specific sender emails (optional)'
+            },
+            keywords: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'keyword' },
+              description: 'Search for specific market terms (optional)'
+            }
+          }
+        },
+        handler: (args, context) => this.getRelevantEmails(args, context)
+      }
+    ];
+  }
+
+  async getRelevantEmails(args: any, context: ToolContext): Promise<any> {
     const { timeframe = '7d', senders, keywords } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
 
     try {
-      const result = await this.gmailService.getRelevantEmails(timeframe, senders, keywords);
+      const progress = new ProgressTracker(context, 1);
+      const result = await this.gmailService.getRelevantEmails(timeframe, senders, keywords, progress.options);
 
       if (!result.success) {
         return {
@@ -21,41 +58,30 @@ export class GmailTools {
             {
               type: 'text',
               text: ToolFormatter.formatErrorResponse(new Error(result.error), 'fetching emails')
+                + ToolFormatter.formatDataCompleteness(result.sourceOutcomes ?? [])
             }
           ]
         };
       }
 
-      if (!result.data || result.data.length === 0) {
-        const timeframeFormatted = ToolFormatter.formatTimeframe(this.parseTimeframe(timeframe));
-        return {
-          content: [
-            {
-              type: 'text',
-              text: ToolFormatter.generateMarkdownSummary([], 'Relevant Email Summaries', timeframeFormatted, false)
-            }
-          ]
-        };
-      }
-
-      const scoredEmails = result.data.map(item => this.enhanceEmailItem(item));
+      const scoredEmails = (result.data || []).map(item => this.enhanceEmailItem(item));
       scoredEmails.sort((a, b) => b.relevanceScore - a.relevanceScore);
 
       const timeframeFormatted = ToolFormatter.formatTimeframe(this.parseTimeframe(timeframe));
-      const response = ToolFormatter.generateMarkdownSummary(
-        scoredEmails,
-        'Relevant Email Summaries',
-        timeframeFormatted
-      );
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: response
-          }
-        ]
-      };
+      return ToolOutput.build(outputFormat, {
+        tool: 'get_relevant_emails',
+        schema: 'market-items',
+        data: scoredEmails,
+        cached: result.cached,
+        sourceOutcomes: result.sourceOutcomes,
+        metadata: { timeframe, senders, keywords },
+        markdown: () => ToolFormatter.generateMarkdownSummary(
+          scoredEmails,
+          'Relevant Email Summaries',
+          timeframeFormatted
+        )
+      });
     } catch (error) {
       return {
         content: [
@@ -81,7 +107,7 @@ export class GmailTools {
       relevanceScore: scoring.score,
       marketTags: scoring.marketTags,
       symbols: scoring.symbols,
-      sentiment: this.relevanceScorer.extractSentiment(item.title, item.content)
+      ...this.relevanceScorer.getSentimentFields(item)
     };
   }
 
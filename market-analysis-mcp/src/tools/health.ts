@@ -0,0 +1,131 @@
+import { SourceHealthService } from '../services/sourceHealthService';
+import { ErrorHandler } from '../utils/ErrorHandler';
+import { ToolFormatter } from '../utils/ToolFormatter';
+import { ToolOutput } from '../utils/ToolOutput';
+import { SourceHealthEntry, SourceHealthStatus } from '../types/outputSchemas';
+import { ToolContext } from '../types/toolContext';
+import { ToolDefinition } from '../types/toolDefinition';
+
+const STATUS_ICONS: Record<SourceHealthStatus, string> = {
+  'ok': '🟢',
+  'rate-limited': '🟡',
+  'error': '🔴',
+  'unknown': '⚪',
+  'disabled': '⚫'
+};
+
+export class HealthTools {
+  constructor(private sourceHealth: SourceHealthService) {}
+
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'get_source_health',
+        description: 'Diagnose each configured source: last successful fetch, last error code, items fetched, rate-limit budget and latency',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source_type: {
+              type: 'string',
+              enum: ['news', 'podcast', 'email'],
+              description: 'Only report sources of this type (optional)'
+            },
+            probe: {
+              type: 'boolean',
+              description: 'Run a live connection test against every enabled source',
+              default: false
+            }
+          }
+        },
+        handler: (args, context) => this.getSourceHealth(args, context)
+      }
+    ];
+  }
+
+  async getSourceHealth(args: any, _context: ToolContext): Promise<any> {
+    const { source_type, probe = false } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
+
+    try {
+      const entries = await this.sourceHealth.getHealth({ sourceType: source_type, probe });
+
+      return ToolOutput.build(outputFormat, {
+        tool: 'get_source_health',
+        schema: 'source-health',
+        data: entries,
+        // Probes are live requests; everything else is read from memory and the store
+        cached: !probe,
+        errors: entries
+          .filter(entry => entry.status === 'error')
+          .map(entry => ({
+            source: entry.sourceName,
+            message: entry.probe?.error || entry.lastError || entry.lastErrorCode || 'Unknown error'
+          })),
+        metadata: { probed: probe, server: ErrorHandler.getHealthStatus() },
+        markdown: () => this.formatHealth(entries, probe, source_type)
+      });
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: ToolFormatter.formatErrorResponse(
+              error instanceof Error ? error : new Error('Unknown error occurred'),
+              'checking source health'
+            )
+          }
+        ]
+      };
+    }
+  }
+
+  private formatHealth(entries: SourceHealthEntry[], probed: boolean, sourceType?: string): string {
+    const counts = entries.reduce<Record<string, number>>((acc, entry) => {
+      acc[entry.status] = (acc[entry.status] || 0) + 1;
+      return acc;
+    }, {});
+
+    let response = `# 🩺 Source Health\n\n`;
+    response += `**Sources**: ${entries.length}`;
+    response += Object.keys(counts).length > 0
+      ? ` (${Object.entries(counts).map(([status, count]) => `${count} ${status}`).join(', ')})\n`
+      : '\n';
+    response += probed
+      ? `**Probe**: live connection tests run\n\n`
+      : `**Probe**: not run — pass probe: true to test connections live\n\n`;
+
+    if (entries.length === 0) {
+      response += `No configured sources${sourceType ? ` of type ${sourceType}` : ''}.\n`;
+    }
+
+    for (const entry of entries) {
+      response += `## ${STATUS_ICONS[entry.status]} ${entry.sourceName} (${entry.sourceType})\n\n`;
+      response += `- **Status**: ${entry.status}\n`;
+      if (!entry.enabled) {
+        response += '\n';
+        continue;
+      }
+
+      response += `- **Last Success**: ${entry.lastSuccessAt ? ToolFormatter.formatTimeAgo(entry.lastSuccessAt) : 'never'}\n`;
+      if (entry.itemsFetched !== undefined) {
+        response += `- **Items Fetched**: ${entry.itemsFetched}\n`;
+      }
+      if (entry.latencyMs !== undefined) {
+        response += `- **Latency**: ${entry.latencyMs}ms\n`;
+      }
+      if (entry.lastErrorCode && entry.lastErrorAt) {
+        response += `- **Last Error**: ${entry.lastErrorCode} — ${entry.lastError} (${ToolFormatter.formatTimeAgo(entry.lastErrorAt)})\n`;
+      }
+      response += `- **Rate Limit**: ${entry.rateLimitRemaining} remaining of ${entry.rateLimit}`;
+      response += entry.rateLimitResetAt ? ` (resets ${entry.rateLimitResetAt})\n` : '\n';
+      if (entry.probe) {
+        response += entry.probe.ok
+          ? `- **Probe**: ✅ connected in ${entry.probe.latencyMs}ms\n`
+          : `- **Probe**: ❌ ${entry.probe.error} after ${entry.probe.latencyMs}ms\n`;
+      }
+      response += '\n';
+    }
+
+    return response;
+  }
+}
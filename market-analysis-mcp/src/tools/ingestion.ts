@@ -0,0 +1,125 @@
+import { IngestionScheduler } from '../services/ingestionScheduler';
+import { CacheManager } from '../utils/cache';
+import { IngestionState } from '../types/marketData';
+import { ToolFormatter } from '../utils/ToolFormatter';
+import { ToolOutput } from '../utils/ToolOutput';
+import { IngestionStatusEntry } from '../types/outputSchemas';
+import { ToolContext } from '../types/toolContext';
+import { ToolDefinition } from '../types/toolDefinition';
+
+export class IngestionTools {
+  constructor(
+    private scheduler: IngestionScheduler,
+    private cache: CacheManager
+  ) {}
+
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'get_ingestion_status',
+        description: 'Report when each source was last ingested by the background scheduler',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source_type: {
+              type: 'string',
+              enum: ['news', 'podcast', 'email'],
+              description: 'Only report sources of this type (optional)'
+            }
+          }
+        },
+        handler: (args, context) => this.getIngestionStatus(args, context)
+      }
+    ];
+  }
+
+  async getIngestionStatus(args: any, _context: ToolContext): Promise<any> {
+    const { source_type } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
+
+    try {
+      const states = await this.cache.getIngestionStates();
+      const statesByKey = new Map(states.map(state => [state.sourceKey, state]));
+      const storedItems = await this.cache.countItems();
+
+      let jobs = this.scheduler.getJobs();
+      if (source_type) {
+        jobs = jobs.filter(job => job.sourceType === source_type);
+      }
+
+      const entries: IngestionStatusEntry[] = jobs.map(job => ({
+        sourceKey: job.sourceKey,
+        sourceType: job.sourceType,
+        sourceName: job.sourceName,
+        rateLimit: job.rateLimit,
+        intervalMinutes: Math.round(this.scheduler.getIntervalMinutes(job)),
+        nextRunAt: this.scheduler.getNextRun(job.sourceKey)?.toISOString(),
+        state: statesByKey.get(job.sourceKey)
+      }));
+
+      return ToolOutput.build(outputFormat, {
+        tool: 'get_ingestion_status',
+        schema: 'ingestion-status',
+        data: entries,
+        cached: true,
+        metadata: { schedulerRunning: this.scheduler.isRunning(), storedItems },
+        markdown: () => this.formatStatus(entries, storedItems, source_type)
+      });
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: ToolFormatter.formatErrorResponse(
+              error instanceof Error ? error : new Error('Unknown error occurred'),
+              'reading ingestion status'
+            )
+          }
+        ]
+      };
+    }
+  }
+
+  private formatStatus(entries: IngestionStatusEntry[], storedItems: number, sourceType?: string): string {
+    let response = `# 🛰️ Ingestion Status\n\n`;
+    response += this.scheduler.isRunning()
+      ? `**Scheduler**: running (${entries.length} sources)\n`
+      : `**Scheduler**: stopped — set INGESTION_ENABLED=true to ingest in the background. Tools fetch on request.\n`;
+    response += `**Stored Items**: ${storedItems}\n\n`;
+
+    if (entries.length === 0) {
+      response += `No enabled sources${sourceType ? ` of type ${sourceType}` : ''}.\n`;
+    }
+
+    for (const entry of entries) {
+      const state = entry.state;
+
+      response += `## ${this.getStatusIcon(state)} ${entry.sourceName} (${entry.sourceType})\n\n`;
+      response += `- **Last Ingested**: ${state?.lastSuccessAt ? ToolFormatter.formatTimeAgo(state.lastSuccessAt) : 'never'}\n`;
+      if (state) {
+        response += `- **Items Last Run**: ${state.itemCount}\n`;
+        response += `- **Serving From Store**: ${this.isFresh(state) ? 'yes' : 'no (fetched live on request)'}\n`;
+      }
+      if (state?.status === 'error') {
+        response += `- **Last Error**: ${state.error} (${ToolFormatter.formatTimeAgo(state.lastAttemptAt)})\n`;
+      }
+      response += `- **Cadence**: every ${entry.intervalMinutes} minutes (rate limit ${entry.rateLimit})\n`;
+      if (entry.nextRunAt) {
+        response += `- **Next Run**: ${entry.nextRunAt}\n`;
+      }
+      response += '\n';
+    }
+
+    return response;
+  }
+
+  private isFresh(state: IngestionState): boolean {
+    return !!state.freshUntil && new Date(state.freshUntil).getTime() > Date.now();
+  }
+
+  private getStatusIcon(state?: IngestionState): string {
+    if (!state) return '⚪';
+    if (state.status === 'error') return '🔴';
+    return this.isFresh(state) ? '🟢' : '🟡';
+  }
+}
@@ -1,19 +1,67 @@
 import { NewsService } from '../services/newsService';
 import { RelevanceScorer } from '../services/relevanceScorer';
+import { WatchlistService } from '../services/watchlistService';
 import { MarketDataItem } from '../types/marketData';
+import { ToolContext } from '../types/toolContext';
 import { ToolFormatter } from '../utils/ToolFormatter';
+import { ToolOutput } from '../utils/ToolOutput';
+import { ProgressTracker } from '../utils/ProgressTracker';
+import { ToolDefinition } from '../types/toolDefinition';
 
 export class NewsTools {
   constructor(
     private newsService: NewsService,
-    private relevanceScorer: RelevanceScorer
+    private relevanceScorer: RelevanceScorer,
+    private watchlistService: WatchlistService
   ) {}
 
-  async getMarketNews(args: any): Promise<any> {
-    const { timeframe = '24h', symbols, limit = 20 } = args;
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'get_market_news',
+        description: 'Retrieve latest financial news articles',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            timeframe: {
+              type: 'string',
+              enum: ['1h', '6h', '24h', '7d'],
+              description: 'Time range for news articles',
+              default: '24h'
+            },
+            symbols: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'symbol' },
+              maxItems: 50,
+              description: 'Filter by stock symbols (optional)'
+            },
+            watchlist: {
+              type: 'string',
+              description: 'Name of a saved watchlist to use instead of symbols (optional)'
+            },
+            limit: {
+              type: 'integer',
+              description: 'Maximum number of articles to return',
+              default: 20,
+              minimum: 1,
+              maximum: 100
+            }
+          }
+        },
+        handler: (args, context) => this.getMarketNews(args, context)
+      }
+    ];
+  }
+
+  async getMarketNews(args: any, context: ToolContext): Promise<any> {
+    const { timeframe = '24h', limit = 20, watchlist } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
 
     try {
-      const result = await this.newsService.getNews(timeframe, symbols, limit);
+      const symbols = await this.watchlistService.resolveSymbols(context.clientId, watchlist, args.symbols);
+      const progress = new ProgressTracker(context, this.newsService.getEnabledSources().length);
+      const result = await this.newsService.getNews(timeframe, symbols, limit, progress.options);
+      progress.finish();
 
       if (!result.success) {
         return {
@@ -21,44 +69,33 @@ export class NewsTools {
             {
               type: 'text',
               text: ToolFormatter.formatErrorResponse(new Error(result.error), 'fetching news')
-            }
-          ]
-        };
-      }
-
-      if (!result.data || result.data.length === 0) {
-        const timeframeFormatted = ToolFormatter.formatTimeframe(this.parseTimeframe(timeframe));
-        return {
-          content: [
-            {
-              type: 'text',
-              text: ToolFormatter.generateMarkdownSummary([], 'Market News Summary', timeframeFormatted, false)
+                + ToolFormatter.formatDataCompleteness(result.sourceOutcomes ?? [])
             }
           ]
         };
       }
 
       // Score and enhance each news item
-      const scoredNews = result.data.map(item => this.enhanceNewsItem(item));
+      const scoredNews = (result.data || []).map(item => this.enhanceNewsItem(item));
 
       // Sort by relevance score
       scoredNews.sort((a, b) => b.relevanceScore - a.relevanceScore);
 
       const timeframeFormatted = ToolFormatter.formatTimeframe(this.parseTimeframe(timeframe));
-      const response = ToolFormatter.generateMarkdownSummary(
-        scoredNews,
-        'Market News Summary',
-        timeframeFormatted
-      );
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: response
-          }
-        ]
-      };
+      return ToolOutput.build(outputFormat, {
+        tool: 'get_market_news',
+        schema: 'market-items',
+        data: scoredNews,
+        cached: result.cached,
+        sourceOutcomes: result.sourceOutcomes,
+        metadata: { timeframe, symbols, watchlist, limit },
+        markdown: () => ToolFormatter.generateMarkdownSummary(
+          scoredNews,
+          'Market News Summary',
+          timeframeFormatted
+        )
+      });
     } catch (error) {
       return {
         content: [
@@ -84,7 +121,7 @@ export class NewsTools {
       relevanceScore: scoring.score,
       marketTags: scoring.marketTags,
       symbols: scoring.symbols,
-      sentiment: this.relevanceScorer.extractSentiment(item.title, item.content)
+      ...this.relevanceScorer.getSentimentFields(item)
     };
   }
 
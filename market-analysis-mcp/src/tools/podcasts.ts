@@ -2,6 +2,10 @@ import { PodcastService } from '../services/podcastService';
 import { RelevanceScorer } from '../services/relevanceScorer';
 import { MarketDataItem } from '../types/marketData';
 import { ToolFormatter } from '../utils/ToolFormatter';
+import { ToolOutput } from '../utils/ToolOutput';
+import { ProgressTracker } from '../utils/ProgressTracker';
+import { ToolContext } from '../types/toolContext';
+import { ToolDefinition } from '../types/toolDefinition';
 
 export class PodcastTools {
   constructor(
@@ -9,11 +13,40 @@ export class PodcastTools {
     private relevanceScorer: RelevanceScorer
   ) {}
 
-  async getPodcastSummaries(args: any): Promise<any> {
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'get_podcast_summaries',
+        description: 'Get summaries from configured market podcasts',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            timeframe: {
+              type: 'string',
+              enum: ['24h', '7d', '30d'],
+              description: 'Time range for podcast episodes',
+              default: '7d'
+            },
+            include_transcripts: {
+              type: 'boolean',
+              description: 'Include full transcripts in response',
+              default: false
+            }
+          }
+        },
+        handler: (args, context) => this.getPodcastSummaries(args, context)
+      }
+    ];
+  }
+
+  async getPodcastSummaries(args: any, context: ToolContext): Promise<any> {
     const { timeframe = '7d', include_transcripts = false } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
 
     try {
-      const result = await this.podcastService.getPodcasts(timeframe, include_transcripts);
+      const progress = new ProgressTracker(context, this.podcastService.getEnabledSources().length);
+      const result = await this.podcastService.getPodcasts(timeframe, include_transcripts, progress.options);
+      progress.finish();
 
       if (!result.success) {
         return {
@@ -21,42 +54,43 @@ export class PodcastTools {
             {
               type: 'text',
               text: `Error fetching podcasts: ${result.error}`
+                + ToolFormatter.formatDataCompleteness(result.sourceOutcomes ?? [])
             }
           ]
         };
       }
 
-      if (!result.data || result.data.length === 0) {
-        const timeframeFormatted = ToolFormatter.formatTimeframe(this.parseTimeframe(timeframe));
-        return {
-          content: [
-            {
-              type: 'text',
-              text: ToolFormatter.generateMarkdownSummary([], 'Podcast Episode Summary', timeframeFormatted, false)
-            }
-          ]
-        };
-      }
-
-      const scoredPodcasts = result.data.map(item => this.enhancePodcastItem(item));
+      const scoredPodcasts = (result.data || []).map(item => this.enhancePodcastItem(item));
       scoredPodcasts.sort((a, b) => b.relevanceScore - a.relevanceScore);
 
       const timeframeFormatted = ToolFormatter.formatTimeframe(this.parseTimeframe(timeframe));
-      const response = ToolFormatter.generateMarkdownSummary(
-        scoredPodcasts,
-        'Podcast Episode Summary',
-        timeframeFormatted,
-        result.cached || false
-      );
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: response
+      return ToolOutput.build(outputFormat, {
+        tool: 'get_podcast_summaries',
+        schema: 'market-items',
+        data: scoredPodcasts,
+        cached: result.cached,
+        sourceOutcomes: result.sourceOutcomes,
+        metadata: { timeframe, include_transcripts },
+        markdown: () => {
+          if (scoredPodcasts.length === 0) {
+            return ToolFormatter.generateMarkdownSummary([], 'Podcast Episode Summary', timeframeFormatted, false);
           }
-        ]
-      };
+
+          let response = ToolFormatter.generateMarkdownSummary(
+            scoredPodcasts,
+            'Podcast Episode Summary',
+            timeframeFormatted,
+            result.cached || false
+          );
+
+          if (include_transcripts) {
+            response += this.formatTranscripts(scoredPodcasts);
+          }
+
+          return response;
+        }
+      });
     } catch (error) {
       return {
         content: [
@@ -82,10 +116,24 @@ export class PodcastTools {
       relevanceScore: scoring.score,
       marketTags: scoring.marketTags,
       symbols: scoring.symbols,
-      sentiment: this.relevanceScorer.extractSentiment(item.title, item.content)
+      ...this.relevanceScorer.getSentimentFields(item)
     };
   }
 
+  private formatTranscripts(items: MarketDataItem[]): string {
+    const transcribed = items.filter(item => item.transcriptSegments && item.transcriptSegments.length > 0);
+
+    if (transcribed.length === 0) {
+      return '\n\n## 📝 Transcripts\n\n*No transcripts available for these episodes yet.*';
+    }
+
+    const sections = transcribed.map(item =>
+      `### ${item.title}\n\n${ToolFormatter.formatTranscriptSegments(item.transcriptSegments!)}`
+    );
+
+    return `\n\n## 📝 Transcripts\n\n${sections.join('\n\n')}`;
+  }
+
   private parseTimeframe(timeframe: string): number {
     const match = timeframe.match(/(\d+)([hdw])/);
     if (!match) return 168; // Default to 7 days for podcasts
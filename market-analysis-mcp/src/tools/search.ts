@@ -5,7 +5,13 @@ import { RelevanceScorer } from '../services/relevanceScorer';
 import { CacheManager } from '../utils/cache';
 import { SecurityValidator } from '../utils/SecurityValidator';
 import { ErrorHandler } from '../utils/ErrorHandler';
-import { MarketDataItem, SearchQuery } from '../types/marketData';
+import { TimeUtils } from '../utils/timeUtils';
+import { FtsQuery } from '../utils/ftsQuery';
+import { ToolOutput } from '../utils/ToolOutput';
+import { ProgressTracker } from '../utils/ProgressTracker';
+import { MarketDataItem, SearchQuery, SourceOutcome } from '../types/marketData';
+import { ToolContext } from '../types/toolContext';
+import { ToolDefinition } from '../types/toolDefinition';
 
 export class SearchTools {
   constructor(
@@ -16,7 +22,48 @@ export class SearchTools {
     private cache: CacheManager
   ) {}
 
-  async searchMarketData(args: any): Promise<any> {
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'search_market_data',
+        description: 'Search across all historical collected data',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              minLength: 1,
+              maxLength: 500,
+              sanitize: 'search',
+              description: 'Search terms. Supports "quoted phrases", AND / OR / NOT, -exclusions and prefix*'
+            },
+            sources: {
+              type: 'array',
+              items: { type: 'string', enum: ['news', 'podcast', 'email'] },
+              description: 'Limit to specific sources (optional)'
+            },
+            timeframe: {
+              type: 'string',
+              enum: ['1h', '6h', '24h', '7d', '30d', '90d', '1y', 'all'],
+              description: 'Time range to search (optional)',
+              default: '7d'
+            },
+            min_relevance: {
+              type: 'number',
+              description: 'Minimum relevance score (0-100)',
+              default: 50,
+              minimum: 0,
+              maximum: 100
+            }
+          },
+          required: ['query']
+        },
+        handler: (args, context) => this.searchMarketData(args, context)
+      }
+    ];
+  }
+
+  async searchMarketData(args: any, context: ToolContext): Promise<any> {
     try {
       // Validate request structure for security
       if (!SecurityValidator.validateRequestStructure(args)) {
@@ -34,17 +81,16 @@ export class SearchTools {
         };
       }
 
-      // Sanitize all input parameters
-      const sanitizedArgs = SecurityValidator.sanitizeInput(args);
-      
+      // Arguments arrive validated and sanitized by the ToolRegistry
       const { 
         query, 
         sources, 
         timeframe = '7d', 
         min_relevance = 50 
-      }: SearchQuery & { min_relevance: number } = sanitizedArgs;
+      }: SearchQuery & { min_relevance: number } = args;
+      const outputFormat = ToolOutput.parseFormat(args.output_format);
 
-      // Sanitize and validate the search query
+      // Sanitization empties a query made only of markup
       if (!query || query.trim().length === 0) {
         return {
           content: [
@@ -56,80 +102,36 @@ export class SearchTools {
         };
       }
 
-      const sanitizedQuery = SecurityValidator.sanitizeSearchQuery(query);
-      
-      if (sanitizedQuery !== query) {
-        // Log potential security issue but continue with sanitized query
-        console.warn('Search query was sanitized for security:', { original: query, sanitized: sanitizedQuery });
-      }
-
-      if (sanitizedQuery.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Error: Search query contains only invalid characters.'
-            }
-          ]
-        };
-      }
+      const searchQuery = query.trim();
 
-      const cacheKey = this.cache.generateKey('search', { query: sanitizedQuery, sources, timeframe, min_relevance });
-      
-      // Try cache first
-      const cached = await this.cache.get(cacheKey);
-      if (cached) {
+      const parsedQuery = FtsQuery.parse(searchQuery);
+      if (!parsedQuery) {
         return {
           content: [
             {
               type: 'text',
-              text: this.formatSearchResponse(cached, { query: sanitizedQuery, sources, timeframe, min_relevance, cached: true })
+              text: 'Error: Search query must contain at least one term to match.'
             }
           ]
         };
       }
 
       const searchSources = sources || ['news', 'podcast', 'email'];
-      const allResults: MarketDataItem[] = [];
-
-      // Search each enabled source
-      const searchPromises: Promise<MarketDataItem[]>[] = [];
-
-      if (searchSources.includes('news')) {
-        searchPromises.push(this.searchNews(sanitizedQuery, timeframe));
-      }
-
-      if (searchSources.includes('podcast')) {
-        searchPromises.push(this.searchPodcasts(sanitizedQuery, timeframe));
-      }
 
-      if (searchSources.includes('email')) {
-        searchPromises.push(this.searchEmails(sanitizedQuery, timeframe));
-      }
+      // A brand new store has nothing to search yet, so collect once before querying it
+      const needsWarmup = await this.cache.countItems() === 0;
+      const sourceOutcomes = needsWarmup ? await this.warmStore(searchSources, context) : [];
 
-      // Execute searches in parallel
-      const results = await Promise.allSettled(searchPromises);
-
-      // Collect successful results
-      results.forEach(result => {
-        if (result.status === 'fulfilled') {
-          allResults.push(...result.value);
-        }
+      const storedResults = await this.cache.searchMarketData(searchQuery, {
+        sources: searchSources,
+        since: TimeUtils.getTimeframeStart(timeframe),
+        limit: 200
       });
 
-      if (allResults.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No results found for query: "${sanitizedQuery}"`
-            }
-          ]
-        };
-      }
-
-      // Enhance each result with scoring
-      const enhancedResults = allResults.map(item => this.enhanceSearchResult(item, sanitizedQuery));
+      // Enhance each result with scoring; results arrive ordered by full-text rank
+      const enhancedResults = storedResults.map((item, rank) =>
+        this.enhanceSearchResult(item, parsedQuery.terms, rank)
+      );
 
       // Filter by minimum relevance
       const filteredResults = enhancedResults.filter(item => item.relevanceScore >= min_relevance);
@@ -143,19 +145,27 @@ export class SearchTools {
         return b.relevanceScore - a.relevanceScore;
       });
 
-      // Cache results for 15 minutes
-      await this.cache.set(cacheKey, filteredResults, 900);
-
-      const response = this.formatSearchResponse(filteredResults, { query: sanitizedQuery, sources, timeframe, min_relevance });
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: response
+      return ToolOutput.build(outputFormat, {
+        tool: 'search_market_data',
+        schema: 'search-results',
+        data: filteredResults,
+        // Searches read the item store; only a first-run warmup fetches live
+        cached: !needsWarmup,
+        sourceOutcomes,
+        metadata: { query: searchQuery, terms: parsedQuery.terms, sources: searchSources, timeframe, min_relevance },
+        markdown: () => {
+          if (storedResults.length === 0) {
+            return `No results found for query: "${searchQuery}"`;
           }
-        ]
-      };
+          return this.formatSearchResponse(filteredResults, {
+            query: searchQuery,
+            terms: parsedQuery.terms,
+            sources,
+            timeframe,
+            min_relevance
+          });
+        }
+      });
     } catch (error) {
       const structuredError = ErrorHandler.createStructuredError(
         'SEARCH_ERROR',
@@ -174,34 +184,29 @@ export class SearchTools {
     }
   }
 
-  private async searchNews(query: string, timeframe: string): Promise<MarketDataItem[]> {
-    try {
-      return await this.newsService.searchNews(query, timeframe, 100);
-    } catch (error) {
-      // Silent error handling for MCP - errors are logged in the service layer
-      return [];
-    }
-  }
+  /**
+   * Fetch every requested source type once so the store has items, returning each source's outcome
+   */
+  private async warmStore(sources: string[], context: ToolContext): Promise<SourceOutcome[]> {
+    const progress = new ProgressTracker(context,
+      (sources.includes('news') ? this.newsService.getEnabledSources().length : 0)
+      + (sources.includes('podcast') ? this.podcastService.getEnabledSources().length : 0)
+      + (sources.includes('email') ? 1 : 0)
+    );
+    const { options } = progress;
 
-  private async searchPodcasts(query: string, timeframe: string): Promise<MarketDataItem[]> {
-    try {
-      return await this.podcastService.searchPodcasts(query, timeframe);
-    } catch (error) {
-      // Silent error handling for MCP - errors are logged in the service layer
-      return [];
-    }
-  }
+    // Each service persists what it fetches; failures are logged in the service layer
+    const results = await Promise.allSettled([
+      sources.includes('news') ? this.newsService.getNews('7d', undefined, 1000, options) : Promise.resolve(undefined),
+      sources.includes('podcast') ? this.podcastService.getPodcasts('30d', false, options) : Promise.resolve(undefined),
+      sources.includes('email') ? this.gmailService.getRelevantEmails('30d', undefined, undefined, options) : Promise.resolve(undefined)
+    ]);
+    progress.finish();
 
-  private async searchEmails(query: string, timeframe: string): Promise<MarketDataItem[]> {
-    try {
-      return await this.gmailService.searchEmails(query, timeframe);
-    } catch (error) {
-      // Silent error handling for MCP - errors are logged in the service layer
-      return [];
-    }
+    return results.flatMap(result => (result.status === 'fulfilled' && result.value?.sourceOutcomes) || []);
   }
 
-  private enhanceSearchResult(item: MarketDataItem, query: string): MarketDataItem {
+  private enhanceSearchResult(item: MarketDataItem, terms: string[], rank: number): MarketDataItem {
     const scoring = this.relevanceScorer.scoreContent(
       item.title,
       item.content,
@@ -211,25 +216,28 @@ export class SearchTools {
 
     // Boost relevance score for direct query matches
     let queryBoost = 0;
-    const queryLower = query.toLowerCase();
     const titleLower = item.title.toLowerCase();
     const contentLower = item.content.toLowerCase();
+    const termsLower = terms.map(term => term.toLowerCase());
 
     // Title matches get higher boost
-    if (titleLower.includes(queryLower)) {
+    if (termsLower.some(term => titleLower.includes(term))) {
       queryBoost += 15;
     }
 
     // Content matches get moderate boost
-    if (contentLower.includes(queryLower)) {
+    if (termsLower.some(term => contentLower.includes(term))) {
       queryBoost += 10;
     }
 
     // Symbol matches get high boost
-    if (item.symbols?.some(symbol => symbol.toLowerCase() === queryLower)) {
+    if (item.symbols?.some(symbol => termsLower.includes(symbol.toLowerCase()))) {
       queryBoost += 20;
     }
 
+    // The best full-text matches get a small extra nudge
+    queryBoost += Math.max(0, 5 - rank);
+
     const finalScore = Math.min(100, scoring.score + queryBoost);
 
     return {
@@ -237,13 +245,13 @@ export class SearchTools {
       relevanceScore: finalScore,
       marketTags: scoring.marketTags,
       symbols: scoring.symbols,
-      sentiment: this.relevanceScorer.extractSentiment(item.title, item.content)
+      ...this.relevanceScorer.getSentimentFields(item)
     };
   }
 
   private formatSearchResponse(
     results: MarketDataItem[], 
-    searchParams: { query: string; sources?: string[]; timeframe: string; min_relevance: number; cached?: boolean }
+    searchParams: { query: string; terms: string[]; sources?: string[]; timeframe: string; min_relevance: number }
   ): string {
     const lines: string[] = [];
 
@@ -254,9 +262,6 @@ export class SearchTools {
     lines.push(`**Sources**: ${searchParams.sources?.join(', ') || 'All sources'}`);
     lines.push(`**Min Relevance**: ${searchParams.min_relevance}/100`);
     lines.push(`**Results Found**: ${results.length}`);
-    if (searchParams.cached) {
-      lines.push('**Source**: Cached data');
-    }
     lines.push('');
 
     if (results.length === 0) {
@@ -299,7 +304,7 @@ export class SearchTools {
       lines.push('## 📰 News Results');
       lines.push('');
       resultsBySource.news.slice(0, 5).forEach(item => {
-        lines.push(this.formatSearchResultItem(item, searchParams.query));
+        lines.push(this.formatSearchResultItem(item, searchParams.terms));
       });
       lines.push('');
     }
@@ -308,7 +313,7 @@ export class SearchTools {
       lines.push('## 🎙️ Podcast Results');
       lines.push('');
       resultsBySource.podcast.slice(0, 3).forEach(item => {
-        lines.push(this.formatSearchResultItem(item, searchParams.query));
+        lines.push(this.formatSearchResultItem(item, searchParams.terms));
       });
       lines.push('');
     }
@@ -317,7 +322,7 @@ export class SearchTools {
       lines.push('## 📧 Email Results');
       lines.push('');
       resultsBySource.email.slice(0, 3).forEach(item => {
-        lines.push(this.formatSearchResultItem(item, searchParams.query));
+        lines.push(this.formatSearchResultItem(item, searchParams.terms));
       });
       lines.push('');
     }
@@ -334,7 +339,7 @@ export class SearchTools {
     return lines.join('\n');
   }
 
-  private formatSearchResultItem(item: MarketDataItem, query: string): string {
+  private formatSearchResultItem(item: MarketDataItem, terms: string[]): string {
     const lines: string[] = [];
     
     const date = new Date(item.timestamp).toLocaleString();
@@ -353,7 +358,7 @@ export class SearchTools {
     }
 
     // Highlight query terms in summary
-    const highlightedSummary = this.highlightQuery(item.summary, query);
+    const highlightedSummary = this.highlightQuery(item.summary, terms);
     lines.push(`**Summary**: ${highlightedSummary}`);
 
     if (item.sourceDetails.url && item.source !== 'email') {
@@ -367,9 +372,10 @@ export class SearchTools {
     return lines.join('\n');
   }
 
-  private highlightQuery(text: string, query: string): string {
-    const queryLower = query.toLowerCase();
-    const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
+  private highlightQuery(text: string, terms: string[]): string {
+    if (terms.length === 0) return text;
+    const alternatives = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const regex = new RegExp(`(${alternatives.join('|')})`, 'gi');
     return text.replace(regex, '**$1**');
   }
 
@@ -0,0 +1,331 @@
+import { SourceAdminService } from '../services/sourceAdminService';
+import { SourceEntry } from '../types/outputSchemas';
+import { NEWS_ADAPTER_PRESETS } from '../services/newsAdapters/adapterPresets';
+import { ToolContext } from '../types/toolContext';
+import { ToolFormatter } from '../utils/ToolFormatter';
+import { ToolOutput } from '../utils/ToolOutput';
+import { JsonSchema, ToolDefinition } from '../types/toolDefinition';
+
+const SOURCE_TYPE: JsonSchema = {
+  type: 'string',
+  enum: ['news', 'podcast', 'email'],
+  description: 'Source type, when a name is used by more than one (optional)'
+};
+
+const VALIDATE: JsonSchema = {
+  type: 'boolean',
+  description: 'Fetch a sample from the feed before adding it',
+  default: true
+};
+
+const TYPE_ICONS: Record<SourceEntry['sourceType'], string> = {
+  news: '📰',
+  podcast: '🎙️',
+  email: '📧'
+};
+
+export class SourceTools {
+  /**
+   * @param canChangeSources Whether a client may edit sources.json; every
+   * other client of a shared server only reads the source list
+   */
+  constructor(
+    private sourceAdmin: SourceAdminService,
+    private canChangeSources: (clientId: string) => boolean
+  ) {}
+
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'list_sources',
+        description: 'List the configured news sources, podcasts and Gmail senders, including disabled ones',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source_type: {
+              type: 'string',
+              enum: ['news', 'podcast', 'email'],
+              description: 'Only list sources of this type (optional)'
+            }
+          }
+        },
+        handler: (args, context) => this.listSources(args, context)
+      },
+      {
+        name: 'add_news_source',
+        description: 'Add an RSS feed or news API to config/sources.json and start using it without a restart',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              minLength: 1,
+              maxLength: 100,
+              description: 'Unique source name, shown as the item source'
+            },
+            endpoint: {
+              type: 'string',
+              pattern: '^https?://\\S+$',
+              description: 'Feed or API URL'
+            },
+            type: {
+              type: 'string',
+              enum: ['rss', 'api'],
+              description: 'Feed format',
+              default: 'rss'
+            },
+            rate_limit: {
+              type: 'string',
+              pattern: '^[1-9][0-9]*/(second|minute|hour|day)$',
+              description: 'Request budget, e.g. "60/hour"',
+              default: '60/hour'
+            },
+            adapter: {
+              type: 'string',
+              enum: Object.keys(NEWS_ADAPTER_PRESETS),
+              description: 'Built-in adapter for an api source (optional, default generic). Presets with a key only work on their provider\'s endpoint; other keys and custom mappings are edited in sources.json.'
+            },
+            full_text: {
+              type: 'boolean',
+              description: 'Fetch the linked article page of rss entries that only carry a snippet (optional)',
+              default: false
+            },
+            enabled: {
+              type: 'boolean',
+              default: true
+            },
+            validate: VALIDATE
+          },
+          required: ['name', 'endpoint']
+        },
+        handler: (args, context) => this.addNewsSource(args, context)
+      },
+      {
+        name: 'add_podcast',
+        description: 'Add a podcast RSS feed to config/sources.json and start using it without a restart',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              minLength: 1,
+              maxLength: 100,
+              description: 'Unique podcast name'
+            },
+            rss_url: {
+              type: 'string',
+              pattern: '^https?://\\S+$',
+              description: 'Podcast feed URL'
+            },
+            transcription_service: {
+              type: 'string',
+              enum: ['openai-whisper', 'assembly-ai', 'local-whisper'],
+              description: 'Backend that transcribes episodes',
+              default: 'openai-whisper'
+            },
+            enabled: {
+              type: 'boolean',
+              default: true
+            },
+            validate: VALIDATE
+          },
+          required: ['name', 'rss_url']
+        },
+        handler: (args, context) => this.addPodcast(args, context)
+      },
+      {
+        name: 'add_gmail_sender',
+        description: 'Add a newsletter sender (address or domain) to the Gmail target senders',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sender: {
+              type: 'string',
+              minLength: 3,
+              description: 'Email address or domain, e.g. "crew@morningbrew.com"'
+            }
+          },
+          required: ['sender']
+        },
+        handler: (args, context) => this.addGmailSender(args, context)
+      },
+      {
+        name: 'set_source_enabled',
+        description: 'Enable or disable a news source or podcast by name, or Gmail as a whole ("Gmail")',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              minLength: 1,
+              description: 'Source name as shown by list_sources'
+            },
+            enabled: {
+              type: 'boolean'
+            },
+            source_type: SOURCE_TYPE
+          },
+          required: ['name', 'enabled']
+        },
+        handler: (args, context) => this.setSourceEnabled(args, context)
+      },
+      {
+        name: 'remove_source',
+        description: 'Remove a news source or podcast by name, or a Gmail sender by address. Fetched items are kept.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              minLength: 1,
+              description: 'Source name, or the Gmail sender to remove'
+            },
+            source_type: SOURCE_TYPE
+          },
+          required: ['name']
+        },
+        handler: (args, context) => this.removeSource(args, context)
+      }
+    ];
+  }
+
+  async listSources(args: any, _context: ToolContext): Promise<any> {
+    return this.respond(args, 'list_sources', 'listing sources', async () => {
+      const sources = this.sourceAdmin.listSources(args.source_type);
+      return { sources, message: `**Sources**: ${sources.length} (${sources.filter(source => source.enabled).length} enabled)` };
+    });
+  }
+
+  async addNewsSource(args: any, context: ToolContext): Promise<any> {
+    const { name, endpoint, type = 'rss', rate_limit = '60/hour', adapter, full_text = false, enabled = true, validate = true } = args;
+
+    return this.respond(args, 'add_news_source', 'adding news source', async () => {
+      this.assertCanChangeSources(context);
+      const source = await this.sourceAdmin.addNewsSource(
+        {
+          name,
+          type,
+          endpoint,
+          rateLimit: rate_limit,
+          enabled,
+          ...(adapter && type === 'api' ? { adapter: { preset: adapter } } : {}),
+          ...(full_text && type === 'rss' ? { fullText: { enabled: true } } : {})
+        },
+        validate
+      );
+      return { sources: [source], message: `✅ Added news source **${source.name}**` };
+    });
+  }
+
+  async addPodcast(args: any, context: ToolContext): Promise<any> {
+    const { name, rss_url, transcription_service = 'openai-whisper', enabled = true, validate = true } = args;
+
+    return this.respond(args, 'add_podcast', 'adding podcast', async () => {
+      this.assertCanChangeSources(context);
+      const source = await this.sourceAdmin.addPodcast(
+        { name, rssUrl: rss_url, transcriptionService: transcription_service, enabled },
+        validate
+      );
+      return { sources: [source], message: `✅ Added podcast **${source.name}**` };
+    });
+  }
+
+  async addGmailSender(args: any, context: ToolContext): Promise<any> {
+    return this.respond(args, 'add_gmail_sender', 'adding Gmail sender', async () => {
+      this.assertCanChangeSources(context);
+      const source = await this.sourceAdmin.addGmailSender(args.sender);
+      const note = source.enabled ? '' : ' (Gmail is disabled; use set_source_enabled to turn it on)';
+      return { sources: [source], message: `✅ Added Gmail sender **${args.sender.trim().toLowerCase()}**${note}` };
+    });
+  }
+
+  async setSourceEnabled(args: any, context: ToolContext): Promise<any> {
+    const { name, enabled, source_type } = args;
+
+    return this.respond(args, 'set_source_enabled', 'updating source', async () => {
+      this.assertCanChangeSources(context);
+      const source = await this.sourceAdmin.setEnabled(name, enabled, source_type);
+      return { sources: [source], message: `${enabled ? '✅ Enabled' : '⏸️ Disabled'} **${source.name}**` };
+    });
+  }
+
+  async removeSource(args: any, context: ToolContext): Promise<any> {
+    const { name, source_type } = args;
+
+    return this.respond(args, 'remove_source', 'removing source', async () => {
+      this.assertCanChangeSources(context);
+      const source = await this.sourceAdmin.remove(name, source_type);
+      return { sources: [source], message: `🗑️ Removed ${source.sourceType} source **${source.name}**` };
+    });
+  }
+
+  private assertCanChangeSources(context: ToolContext): void {
+    if (!this.canChangeSources(context.clientId)) {
+      throw new Error(`Client ${context.clientId} may not change sources; add it to MCP_ADMIN_CLIENTS`);
+    }
+  }
+
+  private async respond(
+    args: any,
+    tool: string,
+    errorContext: string,
+    action: () => Promise<{ sources: SourceEntry[]; message: string }>
+  ): Promise<any> {
+    try {
+      const { sources, message } = await action();
+
+      return ToolOutput.build(ToolOutput.parseFormat(args.output_format), {
+        tool,
+        schema: 'sources',
+        data: sources,
+        cached: true,
+        markdown: () => this.formatSources(message, sources)
+      });
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: ToolFormatter.formatErrorResponse(
+              error instanceof Error ? error : new Error('Unknown error occurred'),
+              errorContext
+            )
+          }
+        ]
+      };
+    }
+  }
+
+  private formatSources(message: string, sources: SourceEntry[]): string {
+    const lines: string[] = ['# 🗂️ Sources', '', message, ''];
+
+    sources.forEach(source => {
+      lines.push(`## ${TYPE_ICONS[source.sourceType]} ${source.name}${source.enabled ? '' : ' (disabled)'}`);
+      lines.push('');
+      if (source.url) {
+        lines.push(`- **URL**: ${source.url}`);
+      }
+      if (source.kind) {
+        lines.push(`- **Type**: ${source.kind}${source.auth && source.auth !== 'none' ? ` (${source.auth})` : ''}`);
+      }
+      if (source.adapter) {
+        lines.push(`- **Adapter**: ${source.adapter}`);
+      }
+      if (source.fullText) {
+        lines.push('- **Full Text**: article pages fetched for snippet entries');
+      }
+      if (source.rateLimit) {
+        lines.push(`- **Rate Limit**: ${source.rateLimit}`);
+      }
+      if (source.transcriptionService) {
+        lines.push(`- **Transcription**: ${source.transcriptionService}`);
+      }
+      if (source.senders) {
+        lines.push(`- **Senders** (${source.senders.length}): ${source.senders.length > 0 ? source.senders.join(', ') : 'none'}`);
+      }
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,94 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { OUTPUT_FORMATS } from '../types/outputSchemas';
+import { JsonSchema, ToolDefinition } from '../types/toolDefinition';
+import { ToolContext } from '../types/toolContext';
+import { SchemaValidator } from '../utils/SchemaValidator';
+import { SanitizationChange, SecurityValidator } from '../utils/SecurityValidator';
+
+// Shared by every tool; json output is an embedded resource following a published schema
+export const OUTPUT_FORMAT_PROPERTY: JsonSchema = {
+  type: 'string',
+  enum: OUTPUT_FORMATS,
+  description: 'markdown (default), json (typed payload as an embedded resource), or both',
+  default: 'markdown'
+};
+
+/**
+ * Every tool the server offers. Each definition declares its schema once; the
+ * registry publishes it, rejects arguments that do not match it with
+ * InvalidParams, and dispatches valid calls to the handler.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(definitions: ToolDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  register(definition: ToolDefinition): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool ${definition.name} is registered more than once`);
+    }
+
+    // Every tool accepts output_format, and arguments not in the schema are rejected
+    this.tools.set(definition.name, {
+      ...definition,
+      inputSchema: {
+        ...definition.inputSchema,
+        properties: { output_format: OUTPUT_FORMAT_PROPERTY, ...definition.inputSchema.properties },
+        additionalProperties: false
+      }
+    });
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Tool descriptions for tools/list, in registration order
+   */
+  list(): Array<Pick<ToolDefinition, 'name' | 'description' | 'inputSchema'>> {
+    return [...this.tools.values()].map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+  }
+
+  /**
+   * Throw InvalidParams unless the tool exists and the arguments match its schema
+   */
+  validate(name: string, args: unknown): Record<string, unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    const value = args ?? {};
+    const errors = SchemaValidator.validate(tool.inputSchema, value);
+    if (errors.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${name}: ${errors.join('; ')}`, { tool: name, errors });
+    }
+
+    return value as Record<string, unknown>;
+  }
+
+  /**
+   * Clean validated arguments with the sanitization policies in the tool's schema
+   */
+  sanitize(name: string, args: Record<string, unknown>): { args: Record<string, unknown>; changes: SanitizationChange[] } {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    const { value, changes } = SecurityValidator.sanitizeArguments(tool.inputSchema, args);
+    return { args: value, changes };
+  }
+
+  async call(name: string, args: Record<string, unknown>, context: ToolContext): Promise<any> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    return tool.handler(args, context);
+  }
+}
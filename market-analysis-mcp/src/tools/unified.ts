@@ -2,79 +2,178 @@ import { NewsService } from '../services/newsService';
 import { PodcastService } from '../services/podcastService';
 import { GmailService } from '../services/gmailService';
 import { RelevanceScorer } from '../services/relevanceScorer';
-import { MarketDataItem, MarketSnapshot } from '../types/marketData';
+import { StoryClusterer } from '../services/storyClusterer';
+import { MorningBriefBuilder } from '../services/morningBriefBuilder';
+import { WatchlistService } from '../services/watchlistService';
+import { MarketDataItem, MarketSnapshot, MarketStory, SourceOutcome } from '../types/marketData';
+import { SourceError } from '../types/outputSchemas';
+import { ToolContext } from '../types/toolContext';
 import { ToolFormatter } from '../utils/ToolFormatter';
+import { ToolOutput } from '../utils/ToolOutput';
+import { ProgressTracker } from '../utils/ProgressTracker';
+import { TimeUtils } from '../utils/timeUtils';
+import { ToolDefinition } from '../types/toolDefinition';
+
+interface CollectedItems {
+  items: MarketDataItem[];
+  cached: boolean;
+  errors: SourceError[]; // Per source type
+  sourceOutcomes: SourceOutcome[]; // Per source
+}
 
 export class UnifiedTools {
+  private storyClusterer = new StoryClusterer();
+  private morningBriefBuilder = new MorningBriefBuilder(this.storyClusterer);
+
   constructor(
     private newsService: NewsService,
     private podcastService: PodcastService,
     private gmailService: GmailService,
-    private relevanceScorer: RelevanceScorer
+    private relevanceScorer: RelevanceScorer,
+    private watchlistService: WatchlistService
   ) {}
 
-  async getMarketSnapshot(args: any): Promise<any> {
-    const { timeframe = '6h', priority_symbols } = args;
-
-    try {
-      // Fetch data from all sources in parallel
-      const [newsResult, podcastResult, emailResult] = await Promise.allSettled([
-        this.newsService.getNews(timeframe, priority_symbols, 50),
-        this.podcastService.getPodcasts(timeframe, false),
-        this.gmailService.getRelevantEmails(timeframe, undefined, undefined)
-      ]);
-
-      const allData: MarketDataItem[] = [];
-      const sourceBreakdown = { news: 0, podcasts: 0, emails: 0 };
-
-      // Process news results
-      if (newsResult.status === 'fulfilled' && newsResult.value.success && newsResult.value.data) {
-        const enhancedNews = newsResult.value.data.map(item => this.enhanceItem(item));
-        allData.push(...enhancedNews);
-        sourceBreakdown.news = enhancedNews.length;
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'get_market_snapshot',
+        description: 'Unified view across all sources with key highlights',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            timeframe: {
+              type: 'string',
+              enum: ['1h', '6h', '24h'],
+              description: 'Time range for snapshot',
+              default: '6h'
+            },
+            priority_symbols: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'symbol' },
+              maxItems: 50,
+              description: 'Prioritize specific symbols (optional)'
+            },
+            watchlist: {
+              type: 'string',
+              description: 'Name of a saved watchlist to use instead of priority_symbols (optional). Items about the active watchlist are always boosted'
+            }
+          }
+        },
+        handler: (args, context) => this.getMarketSnapshot(args, context)
+      },
+      {
+        name: 'generate_morning_brief',
+        description: 'Pre-market brief covering everything since the previous market close: executive summary, top 5 alerts, sentiment split, key events, priority-symbol activity and time-sensitive items',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            priority_symbols: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'symbol' },
+              maxItems: 50,
+              description: 'Symbols to report activity for (optional, defaults to the active watchlist)'
+            },
+            watchlist: {
+              type: 'string',
+              description: 'Name of a saved watchlist to use instead of priority_symbols (optional)'
+            }
+          }
+        },
+        handler: (args, context) => this.generateMorningBrief(args, context)
       }
+    ];
+  }
 
-      // Process podcast results
-      if (podcastResult.status === 'fulfilled' && podcastResult.value.success && podcastResult.value.data) {
-        const enhancedPodcasts = podcastResult.value.data.map(item => this.enhanceItem(item));
-        allData.push(...enhancedPodcasts);
-        sourceBreakdown.podcasts = enhancedPodcasts.length;
-      }
+  async getMarketSnapshot(args: any, context: ToolContext): Promise<any> {
+    const { timeframe = '6h', watchlist } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
 
-      // Process email results
-      if (emailResult.status === 'fulfilled' && emailResult.value.success && emailResult.value.data) {
-        const enhancedEmails = emailResult.value.data.map(item => this.enhanceItem(item));
-        allData.push(...enhancedEmails);
-        sourceBreakdown.emails = enhancedEmails.length;
-      }
+    try {
+      const priority_symbols = await this.watchlistService.resolveSymbols(
+        context.clientId,
+        watchlist,
+        args.priority_symbols
+      );
+      const activeWatchlist = await this.watchlistService.getActive(context.clientId);
 
-      if (allData.length === 0) {
-        const timeframeFormatted = ToolFormatter.formatTimeframe(this.parseTimeframe(timeframe));
-        return {
-          content: [
-            {
-              type: 'text',
-              text: ToolFormatter.generateMarkdownSummary([], 'Market Snapshot', timeframeFormatted, false)
-            }
-          ]
-        };
-      }
+      const collected = await this.collectItems(timeframe, priority_symbols, 50, context);
+      const { cached, errors, sourceOutcomes } = collected;
+
+      // Items about the active watchlist's symbols rank higher without being filtered to them
+      const allData = this.watchlistService.boostItems(collected.items, activeWatchlist?.symbols || []);
 
       // Sort by relevance score
       allData.sort((a, b) => b.relevanceScore - a.relevanceScore);
 
       // Create market snapshot
-      const snapshot = this.createMarketSnapshot(allData, sourceBreakdown, priority_symbols);
-      const response = this.formatSnapshotResponse(snapshot, timeframe);
-
+      const snapshot = this.createMarketSnapshot(allData, priority_symbols);
+
+      return ToolOutput.build(outputFormat, {
+        tool: 'get_market_snapshot',
+        schema: 'market-snapshot',
+        data: snapshot,
+        cached,
+        errors,
+        sourceOutcomes,
+        metadata: { timeframe, priority_symbols, watchlist, activeWatchlist: activeWatchlist?.name },
+        markdown: () => {
+          if (allData.length === 0) {
+            const timeframeFormatted = ToolFormatter.formatTimeframe(this.parseTimeframe(timeframe));
+            return ToolFormatter.generateMarkdownSummary([], 'Market Snapshot', timeframeFormatted, false);
+          }
+          return this.formatSnapshotResponse(snapshot, timeframe);
+        }
+      });
+    } catch (error) {
       return {
         content: [
           {
             type: 'text',
-            text: response
+            text: ToolFormatter.formatErrorResponse(
+              error instanceof Error ? error : new Error('Unknown error occurred'),
+              'generating market snapshot'
+            )
           }
         ]
       };
+    }
+  }
+
+  async generateMorningBrief(args: any, context: ToolContext): Promise<any> {
+    const { watchlist } = args;
+    const outputFormat = ToolOutput.parseFormat(args.output_format);
+
+    try {
+      // Without explicit symbols or a named watchlist, report on the active watchlist
+      const priority_symbols = await this.watchlistService.resolveSymbols(context.clientId, watchlist, args.priority_symbols)
+        || (await this.watchlistService.getActive(context.clientId))?.symbols
+        || [];
+
+      const now = new Date();
+      const window = {
+        start: TimeUtils.getPreviousMarketClose(now),
+        end: now,
+        nextMarketOpen: TimeUtils.getNextMarketOpen(now)
+      };
+
+      // Weekend and holiday gaps can exceed a day, so fetch the smallest timeframe that covers the window
+      const windowHours = (window.end.getTime() - window.start.getTime()) / (60 * 60 * 1000);
+      const timeframe = windowHours <= 24 ? '24h' : '7d';
+
+      // Priority symbols shape the brief rather than filtering the news fetch
+      const { items: allData, cached, errors, sourceOutcomes } = await this.collectItems(timeframe, undefined, 100, context);
+      const brief = this.morningBriefBuilder.build(allData, window, priority_symbols);
+
+      return ToolOutput.build(outputFormat, {
+        tool: 'generate_morning_brief',
+        schema: 'morning-brief',
+        data: brief,
+        cached,
+        errors,
+        sourceOutcomes,
+        metadata: { priority_symbols, watchlist },
+        markdown: () => this.morningBriefBuilder.format(brief)
+      });
     } catch (error) {
       return {
         content: [
@@ -82,7 +181,7 @@ export class UnifiedTools {
             type: 'text',
             text: ToolFormatter.formatErrorResponse(
               error instanceof Error ? error : new Error('Unknown error occurred'),
-              'generating market snapshot'
+              'generating morning brief'
             )
           }
         ]
@@ -90,6 +189,60 @@ export class UnifiedTools {
     }
   }
 
+  /**
+   * Fetch from all sources in parallel and score every item. Failed sources are skipped
+   * and reported in the outcomes. Progress counts every news source and podcast, plus Gmail.
+   */
+  private async collectItems(
+    timeframe: string,
+    symbols: string[] | undefined,
+    newsLimit: number,
+    context: ToolContext
+  ): Promise<CollectedItems> {
+    const progress = new ProgressTracker(
+      context,
+      this.newsService.getEnabledSources().length + this.podcastService.getEnabledSources().length + 1
+    );
+    const { options } = progress;
+
+    const results = await Promise.allSettled([
+      this.newsService.getNews(timeframe, symbols, newsLimit, options),
+      this.podcastService.getPodcasts(timeframe, false, options),
+      this.gmailService.getRelevantEmails(timeframe, undefined, undefined, options)
+    ]);
+    progress.finish();
+    const sourceTypes = ['news', 'podcast', 'email'];
+
+    const allData: MarketDataItem[] = [];
+    const errors: SourceError[] = [];
+    const sourceOutcomes: SourceOutcome[] = [];
+    let cached = true;
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        cached = false;
+        errors.push({
+          source: sourceTypes[index],
+          message: result.reason instanceof Error ? result.reason.message : String(result.reason)
+        });
+        return;
+      }
+
+      sourceOutcomes.push(...(result.value.sourceOutcomes || []));
+
+      if (!result.value.success) {
+        cached = false;
+        errors.push({ source: sourceTypes[index], message: result.value.error || 'Unknown error' });
+        return;
+      }
+
+      cached = cached && !!result.value.cached;
+      allData.push(...(result.value.data || []).map(item => this.enhanceItem(item)));
+    });
+
+    return { items: allData, cached, errors, sourceOutcomes };
+  }
+
   private enhanceItem(item: MarketDataItem): MarketDataItem {
     const scoring = this.relevanceScorer.scoreContent(
       item.title,
@@ -103,86 +256,103 @@ export class UnifiedTools {
       relevanceScore: scoring.score,
       marketTags: scoring.marketTags,
       symbols: scoring.symbols,
-      sentiment: this.relevanceScorer.extractSentiment(item.title, item.content)
+      ...this.relevanceScorer.getSentimentFields(item)
     };
   }
 
-  private createMarketSnapshot(
+  /**
+   * Group scored items into stories and summarize them; items should be sorted by relevance
+   */
+  createMarketSnapshot(
     allData: MarketDataItem[], 
-    sourceBreakdown: { news: number; podcasts: number; emails: number },
     prioritySymbols?: string[]
   ): MarketSnapshot {
-    // Identify high-relevance items (alert-worthy)
-    const alertItems = allData.filter(item => item.relevanceScore >= 80);
+    // Collapse coverage of the same event from several outlets into one story
+    const stories = this.storyClusterer.cluster(allData);
 
-    // Get key events (top relevance items from each source)
-    const keyEvents: MarketDataItem[] = [];
-    
-    const newsByRelevance = allData.filter(item => item.source === 'news').slice(0, 3);
-    const podcastsByRelevance = allData.filter(item => item.source === 'podcast').slice(0, 2);
-    const emailsByRelevance = allData.filter(item => item.source === 'email').slice(0, 2);
-    
-    keyEvents.push(...newsByRelevance, ...podcastsByRelevance, ...emailsByRelevance);
+    // Each story is represented by its lead item, carrying the combined story score
+    const storyLeads = stories.map(story => this.toStoryLead(story));
+
+    // Identify high-relevance stories (alert-worthy)
+    const alertItems = storyLeads.filter(item => item.relevanceScore >= 80);
 
-    // Sort key events by relevance
-    keyEvents.sort((a, b) => b.relevanceScore - a.relevanceScore);
+    // Count distinct stories per source type rather than raw items
+    const sourceBreakdown = {
+      news: stories.filter(story => story.sourceTypes.includes('news')).length,
+      podcasts: stories.filter(story => story.sourceTypes.includes('podcast')).length,
+      emails: stories.filter(story => story.sourceTypes.includes('email')).length
+    };
 
     // Identify cross-source patterns
-    const crossSourcePatterns = this.identifyCrossSourcePatterns(allData);
+    const crossSourcePatterns = this.identifyCrossSourcePatterns(stories);
 
     // Generate summary
-    const summary = this.generateSummary(allData, alertItems, crossSourcePatterns, prioritySymbols);
+    const summary = this.generateSummary(allData, stories, alertItems, crossSourcePatterns, prioritySymbols);
 
     return {
       summary,
-      keyEvents: keyEvents.slice(0, 10), // Top 10 key events
+      stories,
+      keyEvents: storyLeads.slice(0, 10), // Top 10 stories
       crossSourcePatterns,
       alertItems: alertItems.slice(0, 5), // Top 5 alerts
       sourceBreakdown
     };
   }
 
-  private identifyCrossSourcePatterns(allData: MarketDataItem[]): string[] {
+  private toStoryLead(story: MarketStory): MarketDataItem {
+    return {
+      ...story.leadItem,
+      relevanceScore: story.relevanceScore,
+      symbols: story.symbols
+    };
+  }
+
+  private identifyCrossSourcePatterns(stories: MarketStory[]): string[] {
     const patterns: string[] = [];
-    
-    // Find symbols mentioned across multiple sources
-    const symbolCounts: Record<string, { sources: Set<string>; count: number }> = {};
-    
-    allData.forEach(item => {
-      if (item.symbols) {
-        item.symbols.forEach(symbol => {
-          if (!symbolCounts[symbol]) {
-            symbolCounts[symbol] = { sources: new Set(), count: 0 };
-          }
-          symbolCounts[symbol].sources.add(item.source);
-          symbolCounts[symbol].count++;
-        });
-      }
+
+    // Stories corroborated by several outlets are the strongest signal
+    stories
+      .filter(story => story.sources.length >= 2)
+      .forEach(story => {
+        patterns.push(`"${story.headline}" covered by ${story.sources.length} sources (${story.sources.join(', ')})`);
+      });
+
+    // Find symbols appearing in several distinct stories across source types
+    const symbolStories: Record<string, { sourceTypes: Set<string>; count: number }> = {};
+
+    stories.forEach(story => {
+      story.symbols.forEach(symbol => {
+        if (!symbolStories[symbol]) {
+          symbolStories[symbol] = { sourceTypes: new Set(), count: 0 };
+        }
+        story.sourceTypes.forEach(type => symbolStories[symbol].sourceTypes.add(type));
+        symbolStories[symbol].count++;
+      });
     });
 
-    // Identify symbols mentioned across multiple sources
-    Object.entries(symbolCounts).forEach(([symbol, data]) => {
-      if (data.sources.size >= 2 && data.count >= 3) {
-        patterns.push(`${symbol} mentioned across ${data.sources.size} sources (${Array.from(data.sources).join(', ')})`);
+    Object.entries(symbolStories).forEach(([symbol, data]) => {
+      if (data.sourceTypes.size >= 2 && data.count >= 2) {
+        patterns.push(`${symbol} featured in ${data.count} stories across ${Array.from(data.sourceTypes).join(', ')}`);
       }
     });
 
-    // Find common tags across sources
-    const tagCounts: Record<string, { sources: Set<string>; count: number }> = {};
-    
-    allData.forEach(item => {
-      item.marketTags.forEach(tag => {
-        if (!tagCounts[tag]) {
-          tagCounts[tag] = { sources: new Set(), count: 0 };
+    // Find common tags across stories
+    const tagStories: Record<string, { sourceTypes: Set<string>; count: number }> = {};
+
+    stories.forEach(story => {
+      const storyTags = new Set(story.items.flatMap(item => item.marketTags));
+      storyTags.forEach(tag => {
+        if (!tagStories[tag]) {
+          tagStories[tag] = { sourceTypes: new Set(), count: 0 };
         }
-        tagCounts[tag].sources.add(item.source);
-        tagCounts[tag].count++;
+        story.sourceTypes.forEach(type => tagStories[tag].sourceTypes.add(type));
+        tagStories[tag].count++;
       });
     });
 
-    Object.entries(tagCounts).forEach(([tag, data]) => {
-      if (data.sources.size >= 2 && data.count >= 4) {
-        patterns.push(`"${tag}" trending across ${data.sources.size} sources`);
+    Object.entries(tagStories).forEach(([tag, data]) => {
+      if (data.sourceTypes.size >= 2 && data.count >= 3) {
+        patterns.push(`"${tag}" trending across ${data.count} stories from ${data.sourceTypes.size} source types`);
       }
     });
 
@@ -191,6 +361,7 @@ export class UnifiedTools {
 
   private generateSummary(
     allData: MarketDataItem[], 
+    stories: MarketStory[],
     alertItems: MarketDataItem[], 
     patterns: string[],
     prioritySymbols?: string[]
@@ -201,7 +372,7 @@ export class UnifiedTools {
     const totalItems = allData.length;
     const highRelevanceItems = allData.filter(item => item.relevanceScore >= 70).length;
     
-    lines.push(`Market activity analysis shows ${totalItems} total items with ${highRelevanceItems} high-relevance items.`);
+    lines.push(`Market activity analysis shows ${totalItems} total items covering ${stories.length} distinct stories, with ${highRelevanceItems} high-relevance items.`);
 
     // Alert summary
     if (alertItems.length > 0) {
@@ -280,14 +451,16 @@ export class UnifiedTools {
 
     // Source breakdown  
     lines.push(ToolFormatter.createSectionHeader('Source Breakdown', '📁'));
-    lines.push(ToolFormatter.generateSourceBreakdown(this.flattenSnapshotItems(snapshot)));
+    lines.push(`- **news**: ${snapshot.sourceBreakdown.news} stories`);
+    lines.push(`- **podcast**: ${snapshot.sourceBreakdown.podcasts} stories`);
+    lines.push(`- **email**: ${snapshot.sourceBreakdown.emails} stories`);
     lines.push('');
 
     // Alert items
     if (snapshot.alertItems.length > 0) {
       lines.push(ToolFormatter.createSectionHeader('Critical Alerts', '🚨'));
       snapshot.alertItems.forEach(item => {
-        lines.push(ToolFormatter.formatMarketItem(item));
+        lines.push(this.formatStoryItem(item, snapshot));
       });
     }
 
@@ -304,15 +477,16 @@ export class UnifiedTools {
     if (snapshot.keyEvents.length > 0) {
       lines.push(ToolFormatter.createSectionHeader('Key Events', '📈'));
       snapshot.keyEvents.forEach(item => {
-        lines.push(ToolFormatter.formatMarketItem(item));
+        lines.push(this.formatStoryItem(item, snapshot));
       });
     }
 
     return lines.join('\n');
   }
 
-  private flattenSnapshotItems(snapshot: MarketSnapshot): MarketDataItem[] {
-    return [...snapshot.keyEvents, ...snapshot.alertItems];
+  private formatStoryItem(item: MarketDataItem, snapshot: MarketSnapshot): string {
+    const story = snapshot.stories.find(candidate => candidate.id === item.id);
+    return story ? ToolFormatter.formatStory(story, item) : ToolFormatter.formatMarketItem(item);
   }
 
 }
\ No newline at end of file
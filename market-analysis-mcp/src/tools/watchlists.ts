@@ -0,0 +1,201 @@
+import { WatchlistService } from '../services/watchlistService';
+import { Watchlist } from '../types/marketData';
+import { ToolContext } from '../types/toolContext';
+import { ToolFormatter } from '../utils/ToolFormatter';
+import { ToolOutput } from '../utils/ToolOutput';
+import { ToolDefinition } from '../types/toolDefinition';
+
+export class WatchlistTools {
+  constructor(private watchlistService: WatchlistService) {}
+
+  get definitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'create_watchlist',
+        description: 'Save a named list of symbols that other tools accept as watchlist: "<name>"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              minLength: 1,
+              description: 'Watchlist name (letters, digits, spaces, dashes, underscores)'
+            },
+            symbols: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'symbol' },
+              maxItems: 200,
+              description: 'Ticker symbols, e.g. ["AAPL", "NVDA"]'
+            },
+            description: {
+              type: 'string',
+              description: 'What the watchlist tracks (optional)'
+            },
+            active: {
+              type: 'boolean',
+              description: 'Make this the active watchlist that boosts snapshot scoring (defaults to true for your first watchlist)'
+            }
+          },
+          required: ['name', 'symbols']
+        },
+        handler: (args, context) => this.createWatchlist(args, context)
+      },
+      {
+        name: 'update_watchlist',
+        description: 'Replace, add or remove symbols on a saved watchlist, or make it active',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Watchlist to update'
+            },
+            symbols: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'symbol' },
+              description: 'Replace all symbols (optional)'
+            },
+            add_symbols: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'symbol' },
+              description: 'Symbols to add (optional)'
+            },
+            remove_symbols: {
+              type: 'array',
+              items: { type: 'string', sanitize: 'symbol' },
+              description: 'Symbols to remove (optional)'
+            },
+            description: {
+              type: 'string',
+              description: 'New description (optional)'
+            },
+            active: {
+              type: 'boolean',
+              description: 'Make this the active watchlist (optional)'
+            }
+          },
+          required: ['name']
+        },
+        handler: (args, context) => this.updateWatchlist(args, context)
+      },
+      {
+        name: 'list_watchlists',
+        description: 'List your saved watchlists and which one is active',
+        inputSchema: {
+          type: 'object',
+          properties: {}
+        },
+        handler: (args, context) => this.listWatchlists(args, context)
+      },
+      {
+        name: 'delete_watchlist',
+        description: 'Delete a saved watchlist',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Watchlist to delete'
+            }
+          },
+          required: ['name']
+        },
+        handler: (args, context) => this.deleteWatchlist(args, context)
+      }
+    ];
+  }
+
+  async createWatchlist(args: any, context: ToolContext): Promise<any> {
+    const { name, symbols = [], description, active } = args;
+
+    return this.respond(args, 'create_watchlist', 'creating watchlist', async () => {
+      const watchlist = await this.watchlistService.create(context.clientId, name, symbols, description, active);
+      return { watchlists: [watchlist], message: `✅ Created watchlist **${watchlist.name}**` };
+    });
+  }
+
+  async updateWatchlist(args: any, context: ToolContext): Promise<any> {
+    const { name, symbols, add_symbols, remove_symbols, description, active } = args;
+
+    return this.respond(args, 'update_watchlist', 'updating watchlist', async () => {
+      const watchlist = await this.watchlistService.update(context.clientId, name, {
+        symbols,
+        addSymbols: add_symbols,
+        removeSymbols: remove_symbols,
+        description,
+        active
+      });
+      return { watchlists: [watchlist], message: `✅ Updated watchlist **${watchlist.name}**` };
+    });
+  }
+
+  async listWatchlists(args: any, context: ToolContext): Promise<any> {
+    return this.respond(args, 'list_watchlists', 'listing watchlists', async () => {
+      const watchlists = await this.watchlistService.list(context.clientId);
+      return {
+        watchlists,
+        message: watchlists.length > 0
+          ? `**Watchlists**: ${watchlists.length}`
+          : 'No watchlists yet. Use create_watchlist to save a list of symbols.'
+      };
+    });
+  }
+
+  async deleteWatchlist(args: any, context: ToolContext): Promise<any> {
+    const { name } = args;
+
+    return this.respond(args, 'delete_watchlist', 'deleting watchlist', async () => {
+      const watchlist = await this.watchlistService.delete(context.clientId, name);
+      return { watchlists: [watchlist], message: `🗑️ Deleted watchlist **${watchlist.name}**` };
+    });
+  }
+
+  private async respond(
+    args: any,
+    tool: string,
+    errorContext: string,
+    action: () => Promise<{ watchlists: Watchlist[]; message: string }>
+  ): Promise<any> {
+    try {
+      const { watchlists, message } = await action();
+
+      return ToolOutput.build(ToolOutput.parseFormat(args.output_format), {
+        tool,
+        schema: 'watchlists',
+        data: watchlists,
+        cached: true,
+        markdown: () => this.formatWatchlists(message, watchlists)
+      });
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: ToolFormatter.formatErrorResponse(
+              error instanceof Error ? error : new Error('Unknown error occurred'),
+              errorContext
+            )
+          }
+        ]
+      };
+    }
+  }
+
+  private formatWatchlists(message: string, watchlists: Watchlist[]): string {
+    const lines: string[] = ['# 📋 Watchlists', '', message, ''];
+
+    watchlists.forEach(watchlist => {
+      lines.push(`## ${watchlist.active ? '⭐ ' : ''}${watchlist.name}${watchlist.active ? ' (active)' : ''}`);
+      lines.push('');
+      if (watchlist.description) {
+        lines.push(watchlist.description);
+        lines.push('');
+      }
+      lines.push(`**Symbols** (${watchlist.symbols.length}): ${watchlist.symbols.length > 0 ? watchlist.symbols.join(', ') : 'none'}`);
+      lines.push(`**Updated**: ${ToolFormatter.formatTimeAgo(watchlist.updatedAt)}`);
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,266 @@
+import { randomUUID } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { Logger } from 'winston';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { TokenAuthenticator } from './tokenAuth';
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  path?: string; // MCP endpoint, default /mcp
+  maxBodyBytes?: number;
+  sessionIdleMinutes?: number; // Sessions without requests or an open stream for this long are closed
+}
+
+interface Session {
+  clientId: string;
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  openStreams: number; // SSE GET streams still connected; server messages flow over these
+}
+
+/**
+ * Streamable HTTP endpoint (POST/GET/DELETE on one path, SSE for server
+ * messages) for several clients at once. Each session gets its own MCP server
+ * from the factory, bound to the client identity of its bearer token.
+ */
+export class HttpTransportServer {
+  private httpServer: http.Server | null = null;
+  private sessions = new Map<string, Session>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private path: string;
+  private maxBodyBytes: number;
+  private idleMs: number;
+
+  constructor(
+    private createServer: () => Server,
+    private authenticator: TokenAuthenticator,
+    private logger: Logger,
+    private options: HttpTransportOptions
+  ) {
+    this.path = options.path || '/mcp';
+    this.maxBodyBytes = options.maxBodyBytes || 1024 * 1024;
+    this.idleMs = (options.sessionIdleMinutes ?? 30) * 60 * 1000;
+  }
+
+  async start(): Promise<AddressInfo> {
+    const httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.logger.error('HTTP transport request failed:', error);
+        if (!res.headersSent) {
+          this.sendError(res, 500, -32603, 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.httpServer = httpServer;
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.idleMs, 60 * 1000));
+    this.sweepTimer.unref();
+
+    const address = httpServer.address() as AddressInfo;
+    this.logger.info(`HTTP transport listening on ${address.address}:${address.port}${this.path}`);
+    return address;
+  }
+
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    await Promise.all([...this.sessions.keys()].map(sessionId => this.closeSession(sessionId)));
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * MCP servers of the client's open sessions, for server-initiated messages
+   */
+  getServers(clientId: string): Server[] {
+    return [...this.sessions.values()]
+      .filter(session => session.clientId === clientId)
+      .map(session => session.server);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      this.sendJson(res, 200, { status: 'ok', sessions: this.sessions.size });
+      return;
+    }
+
+    if (url.pathname !== this.path) {
+      this.sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const authInfo = this.authenticator.authenticate(req.headers.authorization);
+    if (!authInfo) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="market-analysis-mcp"');
+      this.sendError(res, 401, -32001, 'Unauthorized: a valid bearer token is required');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await this.readBody(req);
+      } catch (error) {
+        const tooLarge = error instanceof Error && error.message === 'too large';
+        this.sendError(res, tooLarge ? 413 : 400, -32700, tooLarge ? 'Request body too large' : 'Parse error');
+        return;
+      }
+    }
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const request = Object.assign(req, { auth: authInfo });
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      if (session.clientId !== authInfo.clientId) {
+        // Session ids are not credentials; a token only reaches its own sessions
+        this.sendError(res, 403, -32001, 'Session belongs to another client');
+        return;
+      }
+
+      session.lastSeen = Date.now();
+      if (req.method === 'GET') this.trackStream(session, res);
+      await session.transport.handleRequest(request, res, body);
+      return;
+    }
+
+    if (req.method === 'POST' && this.isInitialize(body)) {
+      await this.openSession(authInfo, request, res, body);
+      return;
+    }
+
+    this.sendError(res, 400, -32000, 'Bad request: missing Mcp-Session-Id header');
+  }
+
+  private async openSession(
+    authInfo: AuthInfo,
+    req: IncomingMessage & { auth: AuthInfo },
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        this.sessions.set(sessionId, { clientId: authInfo.clientId, server, transport, lastSeen: Date.now(), openStreams: 0 });
+        this.logger.info('HTTP session opened', { clientId: authInfo.clientId, sessionId });
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        this.logger.info('HTTP session closed', { clientId: authInfo.clientId, sessionId: transport.sessionId });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      this.logger.warn(`Failed to close HTTP session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * A client that only listens for notifications sends no requests, so an open
+   * stream keeps its session alive and the idle clock starts when it disconnects
+   */
+  private trackStream(session: Session, res: ServerResponse): void {
+    session.openStreams++;
+    res.once('close', () => {
+      session.openStreams--;
+      session.lastSeen = Date.now();
+    });
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.idleMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openStreams === 0 && session.lastSeen < cutoff) {
+        this.logger.info('Closing idle HTTP session', { clientId: session.clientId, sessionId });
+        void this.closeSession(sessionId);
+      }
+    }
+  }
+
+  private isInitialize(body: unknown): boolean {
+    return Array.isArray(body) ? body.some(message => isInitializeRequest(message)) : isInitializeRequest(body);
+  }
+
+  private readBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        // Keep draining oversized bodies so the 413 response can still be sent
+        if (size <= this.maxBodyBytes) chunks.push(chunk);
+      });
+      req.on('end', () => {
+        if (size > this.maxBodyBytes) {
+          reject(new Error('too large'));
+          return;
+        }
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch (error) {
+          reject(error);
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+  }
+
+  private sendJson(res: ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
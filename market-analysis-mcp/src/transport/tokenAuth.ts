@@ -0,0 +1,85 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+const MIN_TOKEN_LENGTH = 16;
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._@-]{0,63}$/;
+
+interface TokenEntry {
+  clientId: string;
+  digest: Buffer;
+}
+
+/**
+ * Static bearer tokens, each mapped to the client identity that owns
+ * watchlists, alert rules and a rate-limit budget.
+ */
+export class TokenAuthenticator {
+  private entries: TokenEntry[] = [];
+
+  constructor(tokens: Array<{ clientId: string; token: string }>) {
+    if (tokens.length === 0) {
+      throw new Error('At least one access token is required for the HTTP transport (set MCP_AUTH_TOKENS)');
+    }
+
+    const seen = new Set<string>();
+    for (const { clientId, token } of tokens) {
+      if (!CLIENT_ID_PATTERN.test(clientId)) {
+        throw new Error(`Invalid client id "${clientId}": use letters, digits, dots, dashes, underscores or @`);
+      }
+      if (token.length < MIN_TOKEN_LENGTH) {
+        throw new Error(`Access token for ${clientId} must be at least ${MIN_TOKEN_LENGTH} characters`);
+      }
+      if (seen.has(token)) {
+        throw new Error(`Access token for ${clientId} is already assigned to another client`);
+      }
+      seen.add(token);
+      this.entries.push({ clientId, digest: this.digest(token) });
+    }
+  }
+
+  /**
+   * Parse MCP_AUTH_TOKENS: comma-separated clientId:token pairs
+   */
+  static fromEnv(value: string | undefined): TokenAuthenticator {
+    const tokens = (value || '')
+      .split(',')
+      .map(pair => pair.trim())
+      .filter(Boolean)
+      .map(pair => {
+        const separator = pair.indexOf(':');
+        if (separator <= 0) {
+          throw new Error('MCP_AUTH_TOKENS entries must look like clientId:token');
+        }
+        return { clientId: pair.slice(0, separator).trim(), token: pair.slice(separator + 1).trim() };
+      });
+
+    return new TokenAuthenticator(tokens);
+  }
+
+  get clientCount(): number {
+    return new Set(this.entries.map(entry => entry.clientId)).size;
+  }
+
+  /**
+   * Auth info for a valid `Authorization: Bearer <token>` header, otherwise null
+   */
+  authenticate(header: string | undefined): AuthInfo | null {
+    const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+    if (!match) return null;
+
+    const digest = this.digest(match[1]);
+    // Compare against every entry so timing does not reveal which token matched
+    let clientId: string | null = null;
+    for (const entry of this.entries) {
+      if (timingSafeEqual(entry.digest, digest)) {
+        clientId = entry.clientId;
+      }
+    }
+
+    return clientId ? { token: match[1], clientId, scopes: [] } : null;
+  }
+
+  private digest(token: string): Buffer {
+    return createHash('sha256').update(token).digest();
+  }
+}
@@ -0,0 +1,76 @@
+import { SourcesConfig } from './marketData';
+
+export type Environment = 'development' | 'production' | 'test';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface ServerSettings {
+  transport: TransportMode;
+  port: number; // HTTP transport only
+  host: string;
+  authTokens?: string; // clientId:token pairs, comma separated
+  adminClients?: string; // Client ids that may change sources over HTTP, comma separated
+}
+
+export interface NewsApiKeys {
+  newsApiOrg?: string;
+  alphaVantage?: string;
+  financialModelingPrep?: string;
+  finnhub?: string;
+  polygon?: string;
+  marketaux?: string;
+  benzinga?: string;
+  bearer?: Record<string, string>; // Other *_API_KEY variables, for sources with auth "bearer"
+}
+
+export interface GmailCredentials {
+  clientId?: string;
+  clientSecret?: string;
+  refreshToken?: string;
+  redirectUri: string; // Must match the URI the refresh token was issued for
+}
+
+export interface TranscriptionSettings {
+  openaiApiKey?: string;
+  whisperModel: string;
+  assemblyAiApiKey?: string;
+  localWhisperCommand?: string; // {input} and {outputDir} are substituted
+}
+
+export interface FetchSettings {
+  concurrency: number; // Sources one tool call fetches at the same time
+  sourceTimeoutMs: number; // Deadline for each source, including retries
+}
+
+export interface AlertSettings {
+  webhookUrl?: string; // Default target of the webhook sink
+  logPath: string; // JSONL file of the file sink
+}
+
+/**
+ * Everything the server reads at runtime, merged by ConfigManager
+ */
+export interface AppConfig {
+  environment: Environment;
+  server: ServerSettings;
+  database: { path: string };
+  logging: { level: string; filePath: string };
+  ingestion: { enabled: boolean };
+  fetching: FetchSettings;
+  sentiment: { providerScores: boolean }; // Prefer scores supplied by news APIs
+  alerts: AlertSettings;
+  newsApiKeys: NewsApiKeys;
+  gmail: GmailCredentials;
+  transcription: TranscriptionSettings;
+  sources: SourcesConfig;
+}
+
+// Where a setting's value came from, lowest precedence first
+export type ConfigLayer = 'default' | 'environment-file' | 'sources-file' | 'env' | 'cli';
+
+export interface ConfigSetting {
+  path: string; // Dotted path, e.g. server.port
+  value: unknown; // Secrets are redacted
+  layer: ConfigLayer;
+  origin: string; // File name, variable or flag that set it
+}
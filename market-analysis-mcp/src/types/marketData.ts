@@ -13,21 +13,98 @@ export interface MarketDataItem {
   relevanceScore: number; // 0-100
   marketTags: string[]; // e.g., ['earnings', 'fed', 'crypto']
   symbols?: string[]; // Stock symbols mentioned
-  sentiment?: 'positive' | 'negative' | 'neutral';
+  sentiment?: SentimentLabel;
+  sentimentScore?: number; // -1 (bearish) to 1 (bullish)
+  symbolSentiment?: SymbolSentiment[]; // Sentiment towards each mentioned symbol
+  providerSentiment?: ProviderSentiment; // Scores supplied by the source API, when it has them
+  transcriptSegments?: TranscriptSegment[]; // Podcast transcript with timestamps
+  extraction?: ArticleExtraction; // Set when the linked article page was fetched for its full text
+}
+
+export type ArticleExtractionMethod = 'json-ld' | 'article' | 'paragraphs';
+
+export interface ArticleExtraction {
+  method: ArticleExtractionMethod; // Structured data articleBody, the <article> element, or scored page paragraphs
+  wordCount: number; // Words extracted from the page
+  paywalled: boolean; // Paywalled items keep the feed's content
+  extractedAt: string; // ISO 8601
+}
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface SymbolSentiment {
+  symbol: string;
+  score: number; // -1 to 1
+  label: SentimentLabel;
+  analyzer: string; // Analyzer that produced the score, e.g. 'lexicon', 'alpha-vantage'
+}
+
+export interface ProviderSentiment {
+  provider: string; // Adapter that supplied the scores, e.g. 'alpha-vantage'
+  score: number; // Provider's overall score, -1 to 1
+  symbols: Array<{ symbol: string; score: number; relevance: number }>;
+}
+
+export interface SentimentResult {
+  score: number; // -1 to 1
+  label: SentimentLabel;
+  symbols: SymbolSentiment[];
+  analyzer: string;
+}
+
+export interface MarketStory {
+  id: string; // Id of the lead item
+  headline: string;
+  leadItem: MarketDataItem; // Most relevant item covering the story
+  items: MarketDataItem[]; // Every contributing item, lead first
+  sources: string[]; // Distinct source names, e.g. 'Reuters API', 'Gmail'
+  sourceTypes: Array<MarketDataItem['source']>;
+  symbols: string[];
+  relevanceScore: number; // Lead score plus a boost per corroborating source, 0-100
 }
 
 export interface MarketSnapshot {
   summary: string;
+  stories: MarketStory[]; // Items grouped by the event they cover
   keyEvents: MarketDataItem[];
   crossSourcePatterns: string[];
   alertItems: MarketDataItem[]; // High relevance items
-  sourceBreakdown: {
+  sourceBreakdown: { // Distinct stories each source type contributed to
     news: number;
     podcasts: number;
     emails: number;
   };
 }
 
+export type TimeSensitiveCategory = 'earnings' | 'fed' | 'economic-data' | 'after-hours';
+
+export interface MorningBrief {
+  windowStart: string; // Previous market close, ISO 8601
+  windowEnd: string;
+  nextMarketOpen: string;
+  itemCount: number;
+  storyCount: number;
+  executiveSummary: string;
+  alerts: MarketStory[]; // Top 5 stories scoring 80+
+  sentiment: {
+    positive: number;
+    negative: number;
+    neutral: number;
+  };
+  keyEvents: MarketStory[]; // Stories scoring 70+ that are not alerts
+  prioritySymbols: Array<{
+    symbol: string;
+    storyCount: number;
+    itemCount: number;
+    sentiment?: SentimentLabel;
+    topStory?: MarketStory;
+  }>;
+  timeSensitive: Array<{
+    category: TimeSensitiveCategory;
+    story: MarketStory;
+  }>;
+}
+
 export interface NewsSource {
   name: string;
   type: 'api' | 'rss';
@@ -35,19 +112,97 @@ export interface NewsSource {
   auth?: 'bearer' | 'api_key' | 'none';
   rateLimit: string;
   enabled: boolean;
+  adapter?: NewsApiAdapterConfig; // How to query an api source and read its response
+  queryParams?: Record<string, QueryParamValue>; // Added to the adapter's query parameters, overriding them
+  fullText?: FullTextConfig; // rss only: fetch each new entry's page when the feed ships a snippet
+}
+
+export interface FullTextConfig {
+  enabled: boolean;
+  maxArticles?: number; // Pages fetched per poll, default 10
+  minWords?: number; // Feed content this long is kept without fetching the page, default 150
 }
 
+export type QueryParamValue = string | number | boolean;
+
+/**
+ * Declarative request template and field mapping for a JSON news API. Starts
+ * from a built-in preset when one is named; every other field overrides it.
+ */
+export interface NewsApiAdapterConfig {
+  preset?: string; // e.g. 'newsapi', 'alpha-vantage', 'fmp', 'finnhub', 'polygon', 'marketaux', 'benzinga', 'generic'
+  apiKeyEnv?: string; // Environment variable holding the key, e.g. 'ALPHA_VANTAGE_API_KEY'
+  keyHosts?: string[]; // Hosts, and their subdomains, that requests may go to; omit to allow any
+  params?: Record<string, QueryParamValue>; // Values may use {apiKey}, {limit}, {timeframe}, {from}, {fromUtc}, {fromDate}, {fromCompact}, {fromUnix}, {toDate}
+  headers?: Record<string, string>; // Same placeholders as params
+  symbolQuery?: NewsApiSymbolQuery;
+  pagination?: NewsApiPagination;
+  response?: NewsApiResponseMapping;
+}
+
+/**
+ * How requested symbols are sent to the provider, so it filters server-side
+ */
+export interface NewsApiSymbolQuery {
+  param: string; // e.g. 'tickers'
+  separator?: string; // Joins all symbols into one request; omit to send one request per symbol
+  endpoint?: string; // Separate endpoint for symbol queries; it gets only symbolQuery.params
+  params?: Record<string, QueryParamValue>; // Added to symbol queries
+}
+
+export interface NewsApiPagination {
+  type: 'page' | 'cursor' | 'next-url';
+  param?: string; // Page number or cursor parameter
+  start?: number; // First page number (page), default 1
+  next?: string; // Path to the next cursor or URL in the response (cursor, next-url)
+  maxPages?: number; // Per request, default 5
+}
+
+/**
+ * Where each item field lives in an article. Paths are dot separated
+ * ('source.name'), may index arrays ('authors.0') or collect from them
+ * ('entities[].symbol'); 'a|b' falls back to b when a is empty.
+ */
+export interface NewsApiResponseMapping {
+  items?: string; // Path to the article array; omit when the response is the array
+  id?: string; // Stable id; items without one get a generated id
+  idPrefix?: string; // Prepended to the id, e.g. 'newsapi'
+  title?: string;
+  url?: string;
+  timestamp?: string; // ISO 8601, Unix seconds or milliseconds, or 20240131T153000
+  author?: string; // Defaults to the source name when empty
+  content?: string;
+  symbols?: string;
+  sentiment?: NewsApiSentimentMapping;
+}
+
+export interface NewsApiSentimentMapping {
+  provider: string; // Recorded as providerSentiment.provider, e.g. 'alpha-vantage'
+  label?: string; // Path to the provider's overall label
+  labels?: Record<string, SentimentLabel>; // Provider label to ours, matched case-insensitively
+  score?: string; // Path to the overall score, -1 to 1; defaults to the mean of the symbol scores
+  symbols?: { // Per-symbol scores, read from each element of the array at path
+    path: string;
+    symbol: string;
+    score?: string;
+    label?: string; // Used when there is no score: positive 0.5, neutral 0, negative -0.5 after mapping through labels
+    relevance?: string;
+  };
+}
+
+export type TranscriptionServiceName = 'openai-whisper' | 'assembly-ai' | 'local-whisper';
+
 export interface PodcastSource {
   name: string;
   rssUrl: string;
-  transcriptionService: 'openai-whisper' | 'assembly-ai';
+  transcriptionService: TranscriptionServiceName;
   enabled: boolean;
 }
 
 export interface GmailConfig {
   targetSenders: string[];
-  labels: string[];
-  excludePatterns: string[];
+  labels?: string[];
+  excludePatterns?: string[];
   enabled: boolean;
 }
 
@@ -90,6 +245,150 @@ export interface ProcessingResult {
   data?: MarketDataItem[];
   error?: string;
   cached?: boolean;
+  sourceOutcomes?: SourceOutcome[]; // One per source read for this result
+}
+
+/**
+ * Per-request controls for a fetch across several sources
+ */
+export interface FetchOptions {
+  signal?: AbortSignal; // Aborts in-flight requests and retry waits
+  onSourceDone?: (sourceName: string) => void; // Called once per source, whether it was fetched, read from the store or failed
+}
+
+// 'stored' sources were read from the item store instead of being fetched live
+export type SourceOutcomeStatus = 'ok' | 'stored' | 'timeout' | 'auth-error' | 'rate-limited' | 'error';
+
+/**
+ * What happened to one source while a tool collected its data
+ */
+export interface SourceOutcome {
+  source: string; // Source name
+  sourceType: MarketDataItem['source'];
+  status: SourceOutcomeStatus;
+  itemCount: number;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Items collected from several sources, with the outcome of each
+ */
+export interface SourcesFetch {
+  items: MarketDataItem[];
+  outcomes: SourceOutcome[];
+}
+
+export interface Watchlist {
+  clientId: string; // Owner; watchlists are never shared between clients
+  name: string;
+  symbols: string[]; // Upper-case tickers
+  description?: string;
+  active: boolean; // The active watchlist boosts snapshot scoring; at most one per client
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+}
+
+export interface SymbolEntry {
+  ticker: string; // Canonical ticker, e.g. 'BRK.B'
+  name: string; // Company or fund name, also matched in prose
+  exchange?: string;
+  aliases?: string[]; // Other names matched in prose, e.g. 'Nvidia', 'Google'
+  major?: boolean; // Large caps and index ETFs score higher
+  requiresPrefix?: boolean; // Ticker is also a common word ('AI', 'ALL'), so only $AI or NYSE:AI count
+}
+
+export interface SymbolDictionary {
+  version: number;
+  symbols: SymbolEntry[];
+}
+
+export interface ResolvedSymbol {
+  symbol: string;
+  confidence: number; // 0-1, from the strongest mention
+  matchedBy: 'exchange' | 'cashtag' | 'ticker' | 'name';
+  text: string; // Mention that produced the confidence
+}
+
+export type AlertSinkType = 'webhook' | 'file' | 'mcp';
+
+// Every condition that is set must hold; list conditions match on any value
+export interface AlertConditions {
+  symbols?: string[];
+  marketTags?: string[];
+  sentiment?: Array<NonNullable<MarketDataItem['sentiment']>>;
+  minRelevance?: number; // 0-100
+  sources?: string[]; // Source types ('news', 'podcast', 'email') or source names
+}
+
+export interface AlertRule {
+  id: string;
+  clientId: string; // Owner; rules are never shared between clients
+  name: string;
+  conditions: AlertConditions;
+  sinks: AlertSinkType[];
+  webhookUrl?: string; // Overrides ALERT_WEBHOOK_URL for the webhook sink
+  enabled: boolean;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+}
+
+export interface AlertDelivery {
+  sink: AlertSinkType;
+  delivered: boolean;
+  error?: string;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  clientId: string;
+  firedAt: string; // ISO 8601
+  item: MarketDataItem; // Lead item of the matching story
+  relatedItemIds: string[]; // Every item of the story, so later copies do not fire again
+  deliveries: AlertDelivery[];
+}
+
+export interface IngestionState {
+  sourceKey: string; // e.g. 'news-MarketWatch RSS', 'podcast-Chat with Traders', 'gmail'
+  sourceType: 'news' | 'podcast' | 'email';
+  sourceName: string;
+  lastAttemptAt: string; // ISO 8601
+  lastSuccessAt?: string;
+  freshUntil?: string; // Tools may read this source from the store instead of fetching until then
+  status: 'ok' | 'error';
+  itemCount: number; // Items collected by the last successful run
+  error?: string;
+  errorCode?: string; // BaseService.getErrorCode of the last failure
+  durationMs?: number; // Duration of the last run
+}
+
+/**
+ * Outcome of the live fetches a service made for one source since startup
+ */
+export interface SourceFetchRecord {
+  sourceKey: string;
+  lastAttemptAt: string; // ISO 8601
+  lastSuccessAt?: string;
+  lastErrorAt?: string;
+  lastErrorCode?: string;
+  lastError?: string;
+  itemCount: number; // Items returned by the last successful fetch
+  latencyMs: number; // Duration of the last attempt, excluding retry backoff
+}
+
+/**
+ * What a source's last poll returned, so the next poll can ask only for changes
+ */
+export interface SourceFetchState {
+  sourceKey: string;
+  url: string; // Endpoint the state belongs to; a changed endpoint starts over
+  etag?: string; // Sent back as If-None-Match
+  lastModified?: string; // Last-Modified header, sent back as If-Modified-Since
+  lastGuid?: string; // Guid, link or id of the newest entry seen
+  lastPublishedAt?: string; // ISO 8601 publish time of the newest entry seen
+  updatedAt: string;
 }
 
 export interface SearchQuery {
@@ -116,4 +415,19 @@ export interface PodcastEpisode {
   audioUrl: string;
   duration?: string;
   transcript?: string;
-}
\ No newline at end of file
+}
+
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the episode
+  end: number;
+  text: string;
+}
+
+export interface PodcastTranscript {
+  episodeId: string; // Episode guid, or enclosure URL when the feed has no guid
+  provider: TranscriptionServiceName;
+  text: string;
+  segments: TranscriptSegment[];
+  language?: string;
+  createdAt: string; // ISO 8601
+}
@@ -0,0 +1,498 @@
+import { IngestionState, SourceOutcome } from './marketData';
+
+export type OutputFormat = 'markdown' | 'json' | 'both';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'json', 'both'];
+
+export const SCHEMA_URI_PREFIX = 'market-analysis://schemas/';
+
+export type OutputSchemaName =
+  | 'market-items'
+  | 'market-snapshot'
+  | 'morning-brief'
+  | 'search-results'
+  | 'ingestion-status'
+  | 'source-health'
+  | 'sources'
+  | 'watchlists'
+  | 'alert-rules'
+  | 'alerts';
+
+export interface SourceError {
+  source: string; // Source type ('news', 'podcast', 'email') or a specific source name
+  message: string;
+}
+
+export interface ToolOutputMetadata {
+  cached: boolean; // True when every source was served without a live fetch
+  errors: SourceError[];
+  sources: SourceOutcome[]; // Per-source outcomes of the fetch behind the data; empty for tools that fetch nothing
+  [key: string]: unknown;
+}
+
+/**
+ * JSON payload returned by tools in json/both mode, as an embedded resource
+ */
+export interface ToolOutputEnvelope<T> {
+  $schema: string; // SCHEMA_URI_PREFIX + OutputSchemaName
+  tool: string;
+  generatedAt: string; // ISO 8601
+  data: T;
+  metadata: ToolOutputMetadata;
+}
+
+export interface IngestionStatusEntry {
+  sourceKey: string;
+  sourceType: IngestionState['sourceType'];
+  sourceName: string;
+  rateLimit: string;
+  intervalMinutes: number;
+  nextRunAt?: string;
+  state?: IngestionState;
+}
+
+export type SourceHealthStatus = 'ok' | 'error' | 'rate-limited' | 'unknown' | 'disabled';
+
+export interface SourceProbeResult {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface SourceHealthEntry {
+  sourceKey: string;
+  sourceType: IngestionState['sourceType'];
+  sourceName: string;
+  enabled: boolean;
+  status: SourceHealthStatus;
+  lastSuccessAt?: string;
+  lastErrorAt?: string;
+  lastErrorCode?: string;
+  lastError?: string;
+  itemsFetched?: number; // Items returned by the last successful fetch
+  latencyMs?: number; // Duration of the last fetch
+  rateLimit: string;
+  rateLimitRemaining: number;
+  rateLimitResetAt?: string;
+  probe?: SourceProbeResult;
+}
+
+/**
+ * A source as configured in sources.json; Gmail is one entry listing its senders
+ */
+export interface SourceEntry {
+  sourceType: IngestionState['sourceType'];
+  name: string;
+  enabled: boolean;
+  url?: string; // News endpoint or podcast feed
+  kind?: 'api' | 'rss'; // News only
+  auth?: 'bearer' | 'api_key' | 'none';
+  adapter?: string; // Adapter preset of news APIs
+  fullText?: boolean; // Rss news sources that fetch the article page of snippet entries
+  rateLimit?: string;
+  transcriptionService?: string; // Podcasts only
+  senders?: string[]; // Gmail only
+}
+
+const STRING_ARRAY = { type: 'array', items: { type: 'string' } };
+const SENTIMENT = { type: 'string', enum: ['positive', 'negative', 'neutral'] };
+
+const MARKET_DATA_ITEM_SCHEMA = {
+  type: 'object',
+  required: ['id', 'source', 'sourceDetails', 'timestamp', 'title', 'content', 'summary', 'relevanceScore', 'marketTags'],
+  properties: {
+    id: { type: 'string' },
+    source: { type: 'string', enum: ['news', 'podcast', 'email'] },
+    sourceDetails: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        url: { type: 'string' },
+        author: { type: 'string' }
+      }
+    },
+    timestamp: { type: 'string', format: 'date-time' },
+    title: { type: 'string' },
+    content: { type: 'string' },
+    summary: { type: 'string' },
+    relevanceScore: { type: 'number', minimum: 0, maximum: 100 },
+    marketTags: STRING_ARRAY,
+    symbols: STRING_ARRAY,
+    sentiment: SENTIMENT,
+    sentimentScore: { type: 'number', minimum: -1, maximum: 1 },
+    symbolSentiment: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['symbol', 'score', 'label', 'analyzer'],
+        properties: {
+          symbol: { type: 'string' },
+          score: { type: 'number', minimum: -1, maximum: 1 },
+          label: SENTIMENT,
+          analyzer: { type: 'string' }
+        }
+      }
+    },
+    extraction: {
+      type: 'object',
+      required: ['method', 'wordCount', 'paywalled', 'extractedAt'],
+      properties: {
+        method: { type: 'string', enum: ['json-ld', 'article', 'paragraphs'] },
+        wordCount: { type: 'integer', minimum: 0 },
+        paywalled: { type: 'boolean' },
+        extractedAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    providerSentiment: {
+      type: 'object',
+      required: ['provider', 'score', 'symbols'],
+      properties: {
+        provider: { type: 'string' },
+        score: { type: 'number' },
+        symbols: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['symbol', 'score', 'relevance'],
+            properties: {
+              symbol: { type: 'string' },
+              score: { type: 'number' },
+              relevance: { type: 'number' }
+            }
+          }
+        }
+      }
+    },
+    transcriptSegments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['start', 'end', 'text'],
+        properties: {
+          start: { type: 'number' },
+          end: { type: 'number' },
+          text: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+const MARKET_STORY_SCHEMA = {
+  type: 'object',
+  required: ['id', 'headline', 'leadItem', 'items', 'sources', 'sourceTypes', 'symbols', 'relevanceScore'],
+  properties: {
+    id: { type: 'string' },
+    headline: { type: 'string' },
+    leadItem: { $ref: '#/definitions/marketDataItem' },
+    items: { type: 'array', items: { $ref: '#/definitions/marketDataItem' } },
+    sources: STRING_ARRAY,
+    sourceTypes: { type: 'array', items: { type: 'string', enum: ['news', 'podcast', 'email'] } },
+    symbols: STRING_ARRAY,
+    relevanceScore: { type: 'number' }
+  }
+};
+
+const INGESTION_STATE_SCHEMA = {
+  type: 'object',
+  required: ['sourceKey', 'sourceType', 'sourceName', 'lastAttemptAt', 'status', 'itemCount'],
+  properties: {
+    sourceKey: { type: 'string' },
+    sourceType: { type: 'string', enum: ['news', 'podcast', 'email'] },
+    sourceName: { type: 'string' },
+    lastAttemptAt: { type: 'string', format: 'date-time' },
+    lastSuccessAt: { type: 'string', format: 'date-time' },
+    freshUntil: { type: 'string', format: 'date-time' },
+    status: { type: 'string', enum: ['ok', 'error'] },
+    itemCount: { type: 'number' },
+    error: { type: 'string' },
+    errorCode: { type: 'string' },
+    durationMs: { type: 'number' }
+  }
+};
+
+const WATCHLIST_SCHEMA = {
+  type: 'object',
+  required: ['clientId', 'name', 'symbols', 'active', 'createdAt', 'updatedAt'],
+  properties: {
+    clientId: { type: 'string' },
+    name: { type: 'string' },
+    symbols: STRING_ARRAY,
+    description: { type: 'string' },
+    active: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+const ALERT_RULE_SCHEMA = {
+  type: 'object',
+  required: ['id', 'clientId', 'name', 'conditions', 'sinks', 'enabled', 'createdAt', 'updatedAt'],
+  properties: {
+    id: { type: 'string' },
+    clientId: { type: 'string' },
+    name: { type: 'string' },
+    conditions: {
+      type: 'object',
+      properties: {
+        symbols: STRING_ARRAY,
+        marketTags: STRING_ARRAY,
+        sentiment: { type: 'array', items: SENTIMENT },
+        minRelevance: { type: 'number', minimum: 0, maximum: 100 },
+        sources: STRING_ARRAY
+      }
+    },
+    sinks: { type: 'array', items: { type: 'string', enum: ['webhook', 'file', 'mcp'] } },
+    webhookUrl: { type: 'string' },
+    enabled: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+const ALERT_SCHEMA = {
+  type: 'object',
+  required: ['id', 'ruleId', 'ruleName', 'clientId', 'firedAt', 'item', 'relatedItemIds', 'deliveries'],
+  properties: {
+    id: { type: 'string' },
+    ruleId: { type: 'string' },
+    ruleName: { type: 'string' },
+    clientId: { type: 'string' },
+    firedAt: { type: 'string', format: 'date-time' },
+    item: { $ref: '#/definitions/marketDataItem' },
+    relatedItemIds: STRING_ARRAY,
+    deliveries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['sink', 'delivered'],
+        properties: {
+          sink: { type: 'string', enum: ['webhook', 'file', 'mcp'] },
+          delivered: { type: 'boolean' },
+          error: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+const DATA_SCHEMAS: Record<OutputSchemaName, object> = {
+  'market-items': {
+    type: 'array',
+    items: { $ref: '#/definitions/marketDataItem' }
+  },
+  'search-results': {
+    type: 'array',
+    items: { $ref: '#/definitions/marketDataItem' }
+  },
+  'market-snapshot': {
+    type: 'object',
+    required: ['summary', 'stories', 'keyEvents', 'crossSourcePatterns', 'alertItems', 'sourceBreakdown'],
+    properties: {
+      summary: { type: 'string' },
+      stories: { type: 'array', items: { $ref: '#/definitions/marketStory' } },
+      keyEvents: { type: 'array', items: { $ref: '#/definitions/marketDataItem' } },
+      crossSourcePatterns: STRING_ARRAY,
+      alertItems: { type: 'array', items: { $ref: '#/definitions/marketDataItem' } },
+      sourceBreakdown: {
+        type: 'object',
+        required: ['news', 'podcasts', 'emails'],
+        properties: {
+          news: { type: 'number' },
+          podcasts: { type: 'number' },
+          emails: { type: 'number' }
+        }
+      }
+    }
+  },
+  'morning-brief': {
+    type: 'object',
+    required: [
+      'windowStart', 'windowEnd', 'nextMarketOpen', 'itemCount', 'storyCount', 'executiveSummary',
+      'alerts', 'sentiment', 'keyEvents', 'prioritySymbols', 'timeSensitive'
+    ],
+    properties: {
+      windowStart: { type: 'string', format: 'date-time' },
+      windowEnd: { type: 'string', format: 'date-time' },
+      nextMarketOpen: { type: 'string', format: 'date-time' },
+      itemCount: { type: 'number' },
+      storyCount: { type: 'number' },
+      executiveSummary: { type: 'string' },
+      alerts: { type: 'array', items: { $ref: '#/definitions/marketStory' } },
+      sentiment: {
+        type: 'object',
+        required: ['positive', 'negative', 'neutral'],
+        properties: {
+          positive: { type: 'number' },
+          negative: { type: 'number' },
+          neutral: { type: 'number' }
+        }
+      },
+      keyEvents: { type: 'array', items: { $ref: '#/definitions/marketStory' } },
+      prioritySymbols: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['symbol', 'storyCount', 'itemCount'],
+          properties: {
+            symbol: { type: 'string' },
+            storyCount: { type: 'number' },
+            itemCount: { type: 'number' },
+            sentiment: SENTIMENT,
+            topStory: { $ref: '#/definitions/marketStory' }
+          }
+        }
+      },
+      timeSensitive: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['category', 'story'],
+          properties: {
+            category: { type: 'string', enum: ['earnings', 'fed', 'economic-data', 'after-hours'] },
+            story: { $ref: '#/definitions/marketStory' }
+          }
+        }
+      }
+    }
+  },
+  'watchlists': {
+    type: 'array',
+    items: WATCHLIST_SCHEMA
+  },
+  'alert-rules': {
+    type: 'array',
+    items: ALERT_RULE_SCHEMA
+  },
+  'alerts': {
+    type: 'array',
+    items: ALERT_SCHEMA
+  },
+  'ingestion-status': {
+    type: 'array',
+    items: {
+      type: 'object',
+      required: ['sourceKey', 'sourceType', 'sourceName', 'rateLimit', 'intervalMinutes'],
+      properties: {
+        sourceKey: { type: 'string' },
+        sourceType: { type: 'string', enum: ['news', 'podcast', 'email'] },
+        sourceName: { type: 'string' },
+        rateLimit: { type: 'string' },
+        intervalMinutes: { type: 'number' },
+        nextRunAt: { type: 'string', format: 'date-time' },
+        state: { $ref: '#/definitions/ingestionState' }
+      }
+    }
+  },
+  'source-health': {
+    type: 'array',
+    items: {
+      type: 'object',
+      required: ['sourceKey', 'sourceType', 'sourceName', 'enabled', 'status', 'rateLimit', 'rateLimitRemaining'],
+      properties: {
+        sourceKey: { type: 'string' },
+        sourceType: { type: 'string', enum: ['news', 'podcast', 'email'] },
+        sourceName: { type: 'string' },
+        enabled: { type: 'boolean' },
+        status: { type: 'string', enum: ['ok', 'error', 'rate-limited', 'unknown', 'disabled'] },
+        lastSuccessAt: { type: 'string', format: 'date-time' },
+        lastErrorAt: { type: 'string', format: 'date-time' },
+        lastErrorCode: { type: 'string' },
+        lastError: { type: 'string' },
+        itemsFetched: { type: 'number' },
+        latencyMs: { type: 'number' },
+        rateLimit: { type: 'string' },
+        rateLimitRemaining: { type: 'number' },
+        rateLimitResetAt: { type: 'string', format: 'date-time' },
+        probe: {
+          type: 'object',
+          required: ['ok', 'latencyMs'],
+          properties: {
+            ok: { type: 'boolean' },
+            latencyMs: { type: 'number' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  },
+  'sources': {
+    type: 'array',
+    items: {
+      type: 'object',
+      required: ['sourceType', 'name', 'enabled'],
+      properties: {
+        sourceType: { type: 'string', enum: ['news', 'podcast', 'email'] },
+        name: { type: 'string' },
+        enabled: { type: 'boolean' },
+        url: { type: 'string' },
+        kind: { type: 'string', enum: ['api', 'rss'] },
+        auth: { type: 'string', enum: ['bearer', 'api_key', 'none'] },
+        adapter: { type: 'string' },
+        fullText: { type: 'boolean' },
+        rateLimit: { type: 'string' },
+        transcriptionService: { type: 'string' },
+        senders: STRING_ARRAY
+      }
+    }
+  }
+};
+
+/**
+ * Full JSON Schema (draft-07) for the envelope a tool returns with the given payload
+ */
+export function getOutputSchema(name: OutputSchemaName): object {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: `${SCHEMA_URI_PREFIX}${name}`,
+    type: 'object',
+    required: ['$schema', 'tool', 'generatedAt', 'data', 'metadata'],
+    properties: {
+      $schema: { type: 'string', const: `${SCHEMA_URI_PREFIX}${name}` },
+      tool: { type: 'string' },
+      generatedAt: { type: 'string', format: 'date-time' },
+      data: DATA_SCHEMAS[name],
+      metadata: {
+        type: 'object',
+        required: ['cached', 'errors', 'sources'],
+        properties: {
+          cached: { type: 'boolean' },
+          sources: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['source', 'sourceType', 'status', 'itemCount', 'latencyMs'],
+              properties: {
+                source: { type: 'string' },
+                sourceType: { type: 'string', enum: ['news', 'podcast', 'email'] },
+                status: { type: 'string', enum: ['ok', 'stored', 'timeout', 'auth-error', 'rate-limited', 'error'] },
+                itemCount: { type: 'integer' },
+                latencyMs: { type: 'number' },
+                error: { type: 'string' }
+              }
+            }
+          },
+          errors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['source', 'message'],
+              properties: {
+                source: { type: 'string' },
+                message: { type: 'string' }
+              }
+            }
+          }
+        }
+      }
+    },
+    definitions: {
+      marketDataItem: MARKET_DATA_ITEM_SCHEMA,
+      marketStory: MARKET_STORY_SCHEMA,
+      ingestionState: INGESTION_STATE_SCHEMA
+    }
+  };
+}
+
+export const OUTPUT_SCHEMA_NAMES = Object.keys(DATA_SCHEMAS) as OutputSchemaName[];
@@ -0,0 +1,24 @@
+// Symbols are validated as tickers and upper-cased; timeframes must be one of the argument's enum values
+export type PromptArgumentType = 'string' | 'symbol' | 'timeframe' | 'watchlist';
+
+export interface PromptArgumentDefinition {
+  name: string;
+  type: PromptArgumentType;
+  description: string;
+  required?: boolean;
+  enum?: string[]; // Allowed values
+  default?: string; // Used when the argument is omitted
+}
+
+export interface PromptDefinition {
+  name: string;
+  title?: string;
+  description: string;
+  template: string; // Path relative to the manifest
+  arguments: PromptArgumentDefinition[];
+}
+
+export interface PromptManifest {
+  version: number;
+  prompts: PromptDefinition[];
+}
@@ -0,0 +1,8 @@
+/**
+ * Per-call information passed to every tool alongside its arguments
+ */
+export interface ToolContext {
+  clientId: string; // Identifies the caller for rate limiting and per-user data such as watchlists
+  signal?: AbortSignal; // Aborted when the client cancels the call
+  reportProgress?: (progress: number, total?: number, message?: string) => void; // Set when the client asked for progress
+}
@@ -0,0 +1,36 @@
+import { ToolContext } from './toolContext';
+
+// How SecurityValidator cleans a string argument; strings without one are treated as 'text'
+export type SanitizePolicy = 'symbol' | 'search' | 'email' | 'keyword' | 'text' | 'identifier' | 'url';
+
+// The subset of JSON Schema that tool inputs use and SchemaValidator enforces
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  default?: unknown;
+  sanitize?: SanitizePolicy;
+}
+
+export type ToolHandler = (args: any, context: ToolContext) => Promise<any>;
+
+/**
+ * One MCP tool: what tools/list publishes and what tools/call runs
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+  handler: ToolHandler;
+}
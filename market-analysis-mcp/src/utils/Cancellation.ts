@@ -0,0 +1,97 @@
+import axios from 'axios';
+
+/**
+ * Thrown when the client cancels the request a fetch was made for
+ */
+export class CancelledError extends Error {
+  constructor(message: string = 'Request cancelled by the client') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Thrown when a source misses its deadline
+ */
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`No response within the ${ms} ms source timeout`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class Cancellation {
+  static throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+  }
+
+  /**
+   * True for our own CancelledError, an aborted axios request or a DOM-style
+   * AbortError. Clients that wrap the abort in their own error type (googleapis)
+   * are recognised by passing the signal.
+   */
+  static isCancelled(error: unknown, signal?: AbortSignal): boolean {
+    return !!signal?.aborted
+      || error instanceof CancelledError
+      || axios.isCancel(error)
+      || (error instanceof Error && error.name === 'AbortError');
+  }
+
+  /**
+   * Wait ms milliseconds, rejecting with CancelledError as soon as the signal aborts
+   */
+  static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Run an operation under a deadline. The operation gets its own signal, aborted
+   * when the deadline passes or the parent signal aborts. Rejects with
+   * TimeoutError at the deadline even if the operation ignores its signal.
+   * An infinite ms sets no deadline.
+   */
+  static async withTimeout<T>(
+    ms: number,
+    operation: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    Cancellation.throwIfCancelled(signal);
+
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      if (!Number.isFinite(ms)) return;
+      timer = setTimeout(() => {
+        reject(new TimeoutError(ms));
+        controller.abort();
+      }, ms);
+    });
+
+    try {
+      return await Promise.race([operation(controller.signal), deadline]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { SourceFetchState } from '../types/marketData';
+
+/**
+ * Identity and publish time of one feed entry or API article
+ */
+export interface FeedEntry {
+  guid?: string;
+  publishedAt?: string; // Any date string Date.parse accepts
+}
+
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Decides which entries of a poll are new since the previous one, and what to
+ * remember for the next
+ */
+export class IncrementalFetch {
+  /**
+   * Headers that make a request conditional on the feed having changed
+   */
+  static conditionalHeaders(state?: SourceFetchState): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (state?.etag) headers['If-None-Match'] = state.etag;
+    if (state?.lastModified) headers['If-Modified-Since'] = state.lastModified;
+    return headers;
+  }
+
+  /**
+   * True for entries published after the newest entry of the previous poll.
+   * Entries sharing its publish time count as new unless they are that entry.
+   */
+  static isNew(entry: FeedEntry, state?: SourceFetchState): boolean {
+    if (!state?.lastPublishedAt) return true;
+
+    const published = entry.publishedAt ? Date.parse(entry.publishedAt) : NaN;
+    if (Number.isNaN(published)) return entry.guid !== state.lastGuid;
+
+    const lastPublished = Date.parse(state.lastPublishedAt);
+    return published > lastPublished || (published === lastPublished && entry.guid !== state.lastGuid);
+  }
+
+  /**
+   * State after a successful poll: the newest entry of the poll or of the
+   * previous state, and the validators of the response
+   */
+  static advance(
+    previous: SourceFetchState | undefined,
+    sourceKey: string,
+    url: string,
+    entries: FeedEntry[],
+    validators: HttpValidators = {},
+    now: Date = new Date()
+  ): SourceFetchState {
+    let newest = previous?.lastPublishedAt
+      ? { guid: previous.lastGuid, time: Date.parse(previous.lastPublishedAt) }
+      : undefined;
+
+    for (const entry of entries) {
+      const time = entry.publishedAt ? Date.parse(entry.publishedAt) : NaN;
+      if (!Number.isNaN(time) && (!newest || time > newest.time)) {
+        newest = { guid: entry.guid, time };
+      }
+    }
+
+    const state: SourceFetchState = { sourceKey, url, updatedAt: now.toISOString() };
+    if (validators.etag) state.etag = validators.etag;
+    if (validators.lastModified) state.lastModified = validators.lastModified;
+    if (newest) {
+      state.lastGuid = newest.guid;
+      state.lastPublishedAt = new Date(newest.time).toISOString();
+    }
+    return state;
+  }
+}
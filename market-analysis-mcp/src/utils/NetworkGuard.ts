@@ -0,0 +1,127 @@
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import { AxiosRequestConfig } from 'axios';
+
+// IPv4 ranges that are not reachable on the public internet, as [network, prefix length]
+const INTERNAL_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3] // Multicast and reserved
+];
+
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/**
+ * Keeps requests to URLs that clients or feeds supply away from the server's
+ * own network: loopback, private, link-local and reserved addresses.
+ */
+export class NetworkGuard {
+  static isInternalAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 4) {
+      const value = NetworkGuard.ipv4ToNumber(address);
+      return INTERNAL_IPV4_RANGES.some(([network, bits]) => {
+        const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+        return ((value & mask) >>> 0) === ((NetworkGuard.ipv4ToNumber(network) & mask) >>> 0);
+      });
+    }
+    if (version === 6) {
+      const normalized = address.toLowerCase();
+      const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+      if (mapped) return NetworkGuard.isInternalAddress(mapped[1]);
+      return normalized === '::' ||
+        normalized === '::1' ||
+        /^f[cd]/.test(normalized) || // Unique local, fc00::/7
+        /^fe[89ab]/.test(normalized) || // Link-local, fe80::/10
+        /^ff/.test(normalized); // Multicast
+    }
+    return false;
+  }
+
+  /**
+   * Hostnames that name the server's own network without a DNS lookup:
+   * localhost, .local and .internal names, and internal address literals
+   */
+  static isInternalHost(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+    return host === 'localhost' ||
+      INTERNAL_HOST_SUFFIXES.some(suffix => host.endsWith(suffix)) ||
+      NetworkGuard.isInternalAddress(host);
+  }
+
+  /**
+   * Parse an http(s) URL and refuse internal hosts. Names are checked again when
+   * requests made with requestOptions() connect, since DNS can point anywhere.
+   */
+  static checkUrl(url: string, label: string = 'URL'): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error(`Invalid ${label}: ${url}`);
+    }
+
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new Error(`The ${label} must use http or https`);
+    }
+    if (NetworkGuard.isInternalHost(parsed.hostname)) {
+      throw new Error(`The ${label} points to a local or private address (${parsed.hostname})`);
+    }
+    return parsed;
+  }
+
+  /**
+   * checkUrl, then resolve the hostname and refuse it when any of its
+   * addresses is internal. For URLs fetched by clients other than axios.
+   */
+  static async checkPublicUrl(
+    url: string,
+    label: string = 'URL',
+    resolve: (hostname: string) => Promise<string[]> = NetworkGuard.resolve
+  ): Promise<URL> {
+    const parsed = NetworkGuard.checkUrl(url, label);
+    if (!isIP(parsed.hostname.replace(/^\[|\]$/g, ''))) {
+      NetworkGuard.assertPublicAddresses(parsed.hostname, await resolve(parsed.hostname));
+    }
+    return parsed;
+  }
+
+  static async resolve(hostname: string): Promise<string[]> {
+    return (await dns.lookup(hostname, { all: true })).map(entry => entry.address);
+  }
+
+  /**
+   * Axios options that refuse to connect to internal addresses, whether the
+   * hostname resolves to one or a redirect points at one
+   */
+  static requestOptions(): Pick<AxiosRequestConfig, 'lookup' | 'beforeRedirect'> {
+    return {
+      lookup: async (hostname: string) => {
+        const addresses = await dns.lookup(hostname, { all: true });
+        NetworkGuard.assertPublicAddresses(hostname, addresses.map(entry => entry.address));
+        return [addresses];
+      },
+      beforeRedirect: (options: Record<string, any>) => {
+        NetworkGuard.checkUrl(`${options.protocol}//${options.hostname}/`, 'redirect URL');
+      }
+    };
+  }
+
+  private static assertPublicAddresses(hostname: string, addresses: string[]): void {
+    const internal = addresses.find(address => NetworkGuard.isInternalAddress(address));
+    if (internal) {
+      throw new Error(`${hostname} resolves to the private address ${internal}`);
+    }
+  }
+
+  private static ipv4ToNumber(address: string): number {
+    return address.split('.').reduce((value, octet) => (value << 8) + Number(octet), 0) >>> 0;
+  }
+}
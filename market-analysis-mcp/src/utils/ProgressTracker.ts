@@ -0,0 +1,38 @@
+import { FetchOptions } from '../types/marketData';
+import { ToolContext } from '../types/toolContext';
+
+/**
+ * Counts sources as a tool's fetches complete and reports them to the client
+ * as MCP progress. Does nothing when the client did not ask for progress.
+ */
+export class ProgressTracker {
+  private done = 0;
+
+  constructor(private context: ToolContext, private total: number) {}
+
+  /**
+   * Fetch options to hand to the services: the call's signal plus a per-source callback
+   */
+  get options(): FetchOptions {
+    return {
+      signal: this.context.signal,
+      onSourceDone: sourceName => this.advance(`Fetched ${sourceName}`)
+    };
+  }
+
+  advance(message?: string): void {
+    // Never report past the total, even if a source finishes twice after a reload
+    this.done = Math.min(this.done + 1, this.total);
+    this.context.reportProgress?.(this.done, this.total, message);
+  }
+
+  /**
+   * Report completion; cached responses finish without visiting each source
+   */
+  finish(): void {
+    if (this.done < this.total) {
+      this.done = this.total;
+      this.context.reportProgress?.(this.done, this.total, 'Done');
+    }
+  }
+}
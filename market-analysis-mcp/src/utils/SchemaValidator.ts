@@ -0,0 +1,120 @@
+import { JsonSchema } from '../types/toolDefinition';
+
+export class SchemaValidator {
+  /**
+   * Check a value against a schema. Returns one message per problem, each
+   * naming the offending argument path, or an empty array when the value is valid.
+   * The noun names what the properties are in messages, e.g. 'field' for config files.
+   */
+  static validate(schema: JsonSchema, value: unknown, path: string = '', noun: string = 'argument'): string[] {
+    const label = path || `${noun}s`;
+
+    if (schema.type && !this.hasType(schema.type, value)) {
+      return [`${label} must be ${this.describeType(schema.type)} (got ${this.describeValue(value)})`];
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+      return [`${label} must be one of ${schema.enum.join(', ')} (got ${this.describeValue(value)})`];
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${label} must be at least ${schema.minimum} (got ${value})`];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [`${label} must be at most ${schema.maximum} (got ${value})`];
+      }
+    }
+
+    if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [schema.minLength === 1 ? `${label} must not be empty` : `${label} must be at least ${schema.minLength} characters`];
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return [`${label} must be at most ${schema.maxLength} characters`];
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return [`${label} has an invalid format (got ${this.describeValue(value)})`];
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return [`${label} must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`];
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return [`${label} must have at most ${schema.maxItems} items (got ${value.length})`];
+      }
+      if (schema.items) {
+        const itemSchema = schema.items;
+        return value.flatMap((item, index) => this.validate(itemSchema, item, `${label}[${index}]`, noun));
+      }
+    }
+
+    if (this.isObject(value)) {
+      return this.validateObject(schema, value, path, noun);
+    }
+
+    return [];
+  }
+
+  private static validateObject(schema: JsonSchema, value: Record<string, unknown>, path: string, noun: string): string[] {
+    const errors: string[] = [];
+    const properties = schema.properties || {};
+    const prefix = path ? `${path}.` : '';
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined || value[key] === null) {
+        errors.push(`missing required ${noun} ${prefix}${key}`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (!propertySchema) {
+        if (schema.additionalProperties === false) {
+          const known = Object.keys(properties);
+          errors.push(`unknown ${noun} ${prefix}${key}${known.length > 0 ? ` (accepted: ${known.join(', ')})` : ''}`);
+        }
+        continue;
+      }
+      // Optional arguments may be sent as null to mean "not set"
+      if (propertyValue === undefined || propertyValue === null) continue;
+
+      errors.push(...this.validate(propertySchema, propertyValue, `${prefix}${key}`, noun));
+    }
+
+    return errors;
+  }
+
+  private static hasType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+    switch (type) {
+      case 'object':
+        return this.isObject(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static describeType(type: NonNullable<JsonSchema['type']>): string {
+    return type === 'array' || type === 'object' || type === 'integer' ? `an ${type}` : `a ${type}`;
+  }
+
+  private static describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+    if (typeof value === 'object') return 'an object';
+    return String(value);
+  }
+}
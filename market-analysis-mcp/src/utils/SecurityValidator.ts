@@ -1,8 +1,20 @@
+import { JsonSchema, SanitizePolicy } from '../types/toolDefinition';
+
 interface RateLimitEntry {
   count: number;
   resetTime: number;
 }
 
+export interface SanitizationChange {
+  path: string; // Argument path, e.g. 'symbols[1]'
+  policy: SanitizePolicy;
+  original: string;
+  sanitized: string;
+}
+
+// Everything below a space except tab, newline and carriage return
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+
 export class SecurityValidator {
   private static rateLimitStore = new Map<string, RateLimitEntry>();
   private static readonly RATE_LIMIT_WINDOW = 60 * 60 * 1000; // 1 hour in milliseconds
@@ -20,15 +32,7 @@ export class SecurityValidator {
   }
 
   static sanitizeSearchQuery(query: string): string {
-    if (!query) return '';
-    
-    // Enhanced sanitization for security
-    return query
-      .replace(/[<>"'&;(){}]/g, '') // Remove dangerous characters
-      .replace(/\b(script|javascript|vbscript|onload|onerror|onclick)\b/gi, '') // Remove script-related terms
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim()
-      .slice(0, 500); // Limit length
+    return this.sanitizeField('search', query || '');
   }
 
   static isRateLimitExceeded(clientId: string, limit: number = 100): boolean {
@@ -62,28 +66,80 @@ export class SecurityValidator {
     return Math.max(0, limit - entry.count);
   }
 
-  static sanitizeInput(input: any): any {
-    if (typeof input === 'string') {
-      return this.sanitizeString(input);
-    } else if (Array.isArray(input)) {
-      return input.map(item => this.sanitizeInput(item));
-    } else if (input && typeof input === 'object') {
-      const sanitized: any = {};
-      for (const [key, value] of Object.entries(input)) {
-        sanitized[this.sanitizeString(key)] = this.sanitizeInput(value);
+  /**
+   * Clean tool arguments field by field, using each string's `sanitize` policy
+   * from the tool schema. Enum values are left alone; they are already validated.
+   */
+  static sanitizeArguments(schema: JsonSchema, value: any, path: string = ''): { value: any; changes: SanitizationChange[] } {
+    const changes: SanitizationChange[] = [];
+    const sanitized = this.sanitizeValue(schema, value, path, changes);
+    return { value: sanitized, changes };
+  }
+
+  /**
+   * Apply one policy. Every policy drops control characters, markup and script
+   * URLs, and otherwise keeps the characters its field legitimately uses, such
+   * as "S&P 500", "Q3 (guidance)" or "Berkshire's" in search text.
+   */
+  static sanitizeField(policy: SanitizePolicy, input: string): string {
+    const value = input.replace(CONTROL_CHARACTERS, '');
+
+    switch (policy) {
+      case 'symbol':
+        return value.trim().replace(/^\$/, '').toUpperCase().replace(/[^A-Z0-9.\-:^=]/g, '').slice(0, 20);
+      case 'email': {
+        // Accept "Name <user@example.com>" as well as a bare address
+        const address = value.match(/<([^<>]+)>/)?.[1] ?? value;
+        return address.trim().toLowerCase().replace(/[^a-z0-9._%+\-@]/g, '').slice(0, 254);
+      }
+      case 'identifier':
+        return value.trim().replace(/[^A-Za-z0-9_.:\-]/g, '').slice(0, 200);
+      case 'url':
+        return value.trim().replace(/[\s<>"{}|\\^`]/g, '').slice(0, 2000);
+      case 'search':
+        return this.stripMarkup(value).replace(/[{}`]/g, '').replace(/\s+/g, ' ').trim().slice(0, 500);
+      case 'keyword':
+        // Gmail wraps each keyword in quotes, so a keyword cannot contain one
+        return this.stripMarkup(value).replace(/[{}`"]/g, '').replace(/\s+/g, ' ').trim().slice(0, 200);
+      default:
+        return this.stripMarkup(value).replace(/[{}`]/g, '').trim().slice(0, 1000);
+    }
+  }
+
+  private static sanitizeValue(schema: JsonSchema, value: any, path: string, changes: SanitizationChange[]): any {
+    if (typeof value === 'string') {
+      if (schema.enum) return value;
+
+      const policy = schema.sanitize ?? 'text';
+      const sanitized = this.sanitizeField(policy, value);
+      if (sanitized !== value) {
+        changes.push({ path: path || 'value', policy, original: value, sanitized });
+      }
+      return sanitized;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.sanitizeValue(schema.items || {}, item, `${path}[${index}]`, changes));
+    }
+
+    if (value && typeof value === 'object') {
+      const sanitized: Record<string, any> = {};
+      for (const [key, property] of Object.entries(value)) {
+        const propertySchema = schema.properties?.[key] || {};
+        sanitized[key] = this.sanitizeValue(propertySchema, property, path ? `${path}.${key}` : key, changes);
       }
       return sanitized;
     }
-    return input;
+
+    return value;
   }
 
-  private static sanitizeString(str: string): string {
-    if (!str) return '';
-    return str
-      .replace(/[<>"'&;(){}]/g, '')
-      .replace(/\b(script|javascript|vbscript|onload|onerror|onclick)\b/gi, '')
-      .trim()
-      .slice(0, 1000);
+  private static stripMarkup(value: string): string {
+    return value
+      .replace(/<\/?[a-z!][^>]*>/gi, '') // HTML tags
+      .replace(/[<>]/g, '')
+      .replace(/\b(?:javascript|vbscript|data)\s*:/gi, '') // Script URLs
+      .replace(/\bon[a-z]+\s*=/gi, ''); // Inline event handlers
   }
 
   static validateRequestStructure(request: any): boolean {
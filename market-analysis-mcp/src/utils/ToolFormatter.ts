@@ -1,4 +1,4 @@
-import { MarketDataItem } from '../types/marketData';
+import { MarketDataItem, MarketStory, SourceOutcome, SourceOutcomeStatus, TranscriptSegment } from '../types/marketData';
 
 export class ToolFormatter {
   /**
@@ -22,6 +22,17 @@ ${this.truncateContent(item.content, 300)}
 ---`;
   }
 
+  /**
+   * Format a clustered story, listing every source that covered it
+   */
+  static formatStory(story: MarketStory, leadItem: MarketDataItem = story.leadItem): string {
+    const formatted = this.formatMarketItem(leadItem);
+    if (story.items.length < 2) return formatted;
+
+    const coverage = `**Covered by**: ${story.sources.join(', ')} (${story.items.length} items)`;
+    return formatted.replace(/\n---$/, `${coverage}\n\n---`);
+  }
+
   /**
    * Format relevance score with visual indicators
    */
@@ -139,6 +150,33 @@ ${timeframe ? `**Timeframe**: ${timeframe}\n` : ''}**Items Found**: ${items.leng
 `;
   }
 
+  /**
+   * Format transcript segments as timestamped lines
+   */
+  static formatTranscriptSegments(segments: TranscriptSegment[], maxSegments: number = 20): string {
+    const lines = segments
+      .slice(0, maxSegments)
+      .map(segment => `- \`[${this.formatTimestampOffset(segment.start)}]\` ${segment.text}`);
+
+    if (segments.length > maxSegments) {
+      lines.push(`- *...${segments.length - maxSegments} more segments*`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Format a number of seconds as h:mm:ss or m:ss
+   */
+  static formatTimestampOffset(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = String(total % 60).padStart(2, '0');
+
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+  }
+
   /**
    * Format timeframe display
    */
@@ -179,7 +217,10 @@ ${timeframe ? `**Timeframe**: ${timeframe}\n` : ''}**Items Found**: ${items.leng
     return '📄';
   }
 
-  private static formatTimeAgo(timestamp: string): string {
+  /**
+   * Format a timestamp relative to now
+   */
+  static formatTimeAgo(timestamp: string): string {
     try {
       const date = new Date(timestamp);
       const now = new Date();
@@ -254,4 +295,30 @@ ${timeframe ? `**Timeframe**: ${timeframe}\n` : ''}**Items Found**: ${items.leng
   static generateSuccessMessage(operation: string, count: number): string {
     return `✅ ${operation} completed successfully! Found ${count} item${count !== 1 ? 's' : ''}.`;
   }
-}
\ No newline at end of file
+
+  /**
+   * Footer listing what each source returned, so partial results are visible
+   */
+  static formatDataCompleteness(outcomes: SourceOutcome[]): string {
+    if (outcomes.length === 0) return '';
+
+    const answered = outcomes.filter(outcome => outcome.status === 'ok' || outcome.status === 'stored').length;
+    const lines = outcomes.map(outcome => {
+      const { icon, label } = this.OUTCOME_LABELS[outcome.status];
+      const detail = outcome.error ? ` - ${this.truncateContent(outcome.error, 120)}` : '';
+      const items = `${outcome.itemCount} item${outcome.itemCount !== 1 ? 's' : ''}`;
+      return `- ${icon} **${outcome.source}**: ${label}, ${items} (${outcome.latencyMs} ms)${detail}`;
+    });
+
+    return `\n\n---\n\n**Data completeness**: ${answered} of ${outcomes.length} sources answered\n\n${lines.join('\n')}`;
+  }
+
+  private static readonly OUTCOME_LABELS: Record<SourceOutcomeStatus, { icon: string; label: string }> = {
+    ok: { icon: '✅', label: 'ok' },
+    stored: { icon: '🗄️', label: 'from store' },
+    timeout: { icon: '⏱️', label: 'timed out' },
+    'auth-error': { icon: '🔑', label: 'auth error' },
+    'rate-limited': { icon: '🚦', label: 'rate limited' },
+    error: { icon: '⚠️', label: 'failed' }
+  };
+}
@@ -0,0 +1,71 @@
+import {
+  OUTPUT_FORMATS,
+  OutputFormat,
+  OutputSchemaName,
+  SCHEMA_URI_PREFIX,
+  SourceError,
+  ToolOutputEnvelope
+} from '../types/outputSchemas';
+import { SourceOutcome } from '../types/marketData';
+import { ToolFormatter } from './ToolFormatter';
+
+export interface ToolOutputOptions<T> {
+  tool: string;
+  schema: OutputSchemaName;
+  data: T;
+  markdown: () => string; // Only rendered when the format needs it
+  cached?: boolean;
+  errors?: SourceError[];
+  sourceOutcomes?: SourceOutcome[]; // Rendered as a data completeness footer
+  metadata?: Record<string, unknown>;
+}
+
+export class ToolOutput {
+  /**
+   * Resolve the requested output format, falling back to markdown for unknown values
+   */
+  static parseFormat(value: unknown): OutputFormat {
+    return OUTPUT_FORMATS.includes(value as OutputFormat) ? value as OutputFormat : 'markdown';
+  }
+
+  /**
+   * Build a tool result in the requested format. JSON payloads are returned as an
+   * embedded resource whose $schema names one of the published output schemas.
+   */
+  static build<T>(format: OutputFormat, options: ToolOutputOptions<T>): any {
+    const content: any[] = [];
+
+    if (format === 'markdown' || format === 'both') {
+      content.push({
+        type: 'text',
+        text: options.markdown() + ToolFormatter.formatDataCompleteness(options.sourceOutcomes ?? [])
+      });
+    }
+
+    if (format === 'json' || format === 'both') {
+      const envelope: ToolOutputEnvelope<T> = {
+        $schema: `${SCHEMA_URI_PREFIX}${options.schema}`,
+        tool: options.tool,
+        generatedAt: new Date().toISOString(),
+        data: options.data,
+        metadata: {
+          ...options.metadata,
+          cached: options.cached ?? false,
+          errors: options.errors ?? [],
+          sources: options.sourceOutcomes ?? []
+        }
+      };
+
+      content.push({
+        type: 'resource',
+        resource: {
+          uri: `market-analysis://output/${options.tool}`,
+          mimeType: 'application/json',
+          text: JSON.stringify(envelope, null, 2)
+        }
+      });
+    }
+
+    return { content };
+  }
+}
@@ -1,12 +1,35 @@
 import NodeCache from 'node-cache';
 import sqlite3 from 'sqlite3';
 import { promisify } from 'util';
-import { CacheEntry } from '../types/marketData';
+import { Alert, AlertRule, CacheEntry, IngestionState, MarketDataItem, PodcastTranscript, SourceFetchState, Watchlist } from '../types/marketData';
+import { FtsQuery } from './ftsQuery';
+
+export interface ItemSearchOptions {
+  sources?: string[];
+  since?: Date;
+  limit?: number;
+}
+
+export interface ItemQueryOptions {
+  source?: MarketDataItem['source'];
+  sourceName?: string;
+  since?: Date;
+  limit?: number;
+}
+
+export interface AlertHistoryQuery {
+  clientId?: string;
+  ruleId?: string;
+  since?: Date;
+  limit?: number;
+}
 
 export class CacheManager {
   private memoryCache: NodeCache;
   private db: sqlite3.Database | null = null;
   private dbInitialized = false;
+  // Item writes run in transactions on a shared connection, so they must not interleave
+  private writeQueue: Promise<void> = Promise.resolve();
 
   constructor(private dbPath: string = './data/cache.db') {
     this.memoryCache = new NodeCache({
@@ -32,13 +55,72 @@ export class CacheManager {
           return;
         }
 
-        this.db!.run(`
+        this.db!.exec(`
           CREATE TABLE IF NOT EXISTS cache_entries (
             key TEXT PRIMARY KEY,
             value TEXT NOT NULL,
             timestamp INTEGER NOT NULL,
             ttl INTEGER NOT NULL
-          )
+          );
+
+          CREATE TABLE IF NOT EXISTS market_items (
+            id TEXT PRIMARY KEY,
+            source TEXT NOT NULL,
+            source_name TEXT NOT NULL,
+            published_at INTEGER NOT NULL,
+            collected_at INTEGER NOT NULL,
+            data TEXT NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS idx_market_items_published ON market_items (published_at);
+
+          CREATE VIRTUAL TABLE IF NOT EXISTS market_items_fts USING fts5(
+            item_id UNINDEXED,
+            title,
+            content,
+            symbols,
+            tags,
+            tokenize = 'porter unicode61'
+          );
+
+          CREATE TABLE IF NOT EXISTS source_ingestion (
+            source_key TEXT PRIMARY KEY,
+            data TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS source_fetch_state (
+            source_key TEXT PRIMARY KEY,
+            data TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS watchlists (
+            client_id TEXT NOT NULL,
+            name TEXT NOT NULL COLLATE NOCASE,
+            data TEXT NOT NULL,
+            PRIMARY KEY (client_id, name)
+          );
+
+          CREATE TABLE IF NOT EXISTS alert_rules (
+            id TEXT PRIMARY KEY,
+            client_id TEXT NOT NULL,
+            data TEXT NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS idx_alert_rules_client ON alert_rules (client_id);
+
+          CREATE TABLE IF NOT EXISTS alert_history (
+            id TEXT PRIMARY KEY,
+            rule_id TEXT NOT NULL,
+            client_id TEXT NOT NULL,
+            fired_at INTEGER NOT NULL,
+            data TEXT NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS idx_alert_history_rule ON alert_history (rule_id, fired_at);
+
+          CREATE TABLE IF NOT EXISTS podcast_transcripts (
+            episode_id TEXT PRIMARY KEY,
+            provider TEXT NOT NULL,
+            data TEXT NOT NULL,
+            created_at INTEGER NOT NULL
+          );
         `, (err) => {
           if (err) {
             reject(err);
@@ -113,19 +195,10 @@ export class CacheManager {
     const timestamp = Date.now();
     const serializedValue = JSON.stringify(value);
 
-    return new Promise((resolve, reject) => {
-      this.db!.run(
-        'INSERT OR REPLACE INTO cache_entries (key, value, timestamp, ttl) VALUES (?, ?, ?, ?)',
-        [key, serializedValue, timestamp, ttlSeconds],
-        (err) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-          resolve();
-        }
-      );
-    });
+    await this.serializeWrite(() => this.run(
+      'INSERT OR REPLACE INTO cache_entries (key, value, timestamp, ttl) VALUES (?, ?, ?, ?)',
+      [key, serializedValue, timestamp, ttlSeconds]
+    ));
   }
 
   async delete(key: string): Promise<void> {
@@ -137,15 +210,7 @@ export class CacheManager {
       await this.initializeDatabase();
     }
 
-    return new Promise((resolve, reject) => {
-      this.db!.run('DELETE FROM cache_entries WHERE key = ?', [key], (err) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-        resolve();
-      });
-    });
+    await this.serializeWrite(() => this.run('DELETE FROM cache_entries WHERE key = ?', [key]));
   }
 
   async clear(): Promise<void> {
@@ -157,15 +222,7 @@ export class CacheManager {
       await this.initializeDatabase();
     }
 
-    return new Promise((resolve, reject) => {
-      this.db!.run('DELETE FROM cache_entries', (err) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-        resolve();
-      });
-    });
+    await this.serializeWrite(() => this.run('DELETE FROM cache_entries'));
   }
 
   async cleanup(): Promise<void> {
@@ -175,8 +232,430 @@ export class CacheManager {
       await this.initializeDatabase();
     }
 
+    await this.serializeWrite(() => this.run('DELETE FROM cache_entries WHERE timestamp + (ttl * 1000) < ?', [now]));
+  }
+
+  /**
+   * Persist collected items into the durable, full-text indexed item store.
+   * Items are keyed by id, so re-collecting the same article refreshes it in place.
+   */
+  async storeItems(items: MarketDataItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    await this.serializeWrite(() => this.writeItems(items));
+  }
+
+  private async writeItems(items: MarketDataItem[]): Promise<void> {
+    const collectedAt = Date.now();
+
+    await this.run('BEGIN');
+    try {
+      for (const item of items) {
+        const publishedAt = new Date(item.timestamp).getTime();
+
+        await this.run(
+          `INSERT INTO market_items (id, source, source_name, published_at, collected_at, data)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET
+             source = excluded.source,
+             source_name = excluded.source_name,
+             published_at = excluded.published_at,
+             collected_at = excluded.collected_at,
+             data = excluded.data`,
+          [
+            item.id,
+            item.source,
+            item.sourceDetails.name,
+            isNaN(publishedAt) ? collectedAt : publishedAt,
+            collectedAt,
+            JSON.stringify(item),
+          ]
+        );
+        await this.run('DELETE FROM market_items_fts WHERE item_id = ?', [item.id]);
+        await this.run(
+          'INSERT INTO market_items_fts (item_id, title, content, symbols, tags) VALUES (?, ?, ?, ?, ?)',
+          [
+            item.id,
+            item.title,
+            item.content,
+            (item.symbols || []).join(' '),
+            item.marketTags.join(' '),
+          ]
+        );
+      }
+      await this.run('COMMIT');
+    } catch (error) {
+      // A failed rollback must not hide why the write failed
+      await this.run('ROLLBACK').catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text search over every stored item, best BM25 match first.
+   * Title and symbol matches are weighted above body text.
+   */
+  async searchMarketData(query: string, options: ItemSearchOptions = {}): Promise<MarketDataItem[]> {
+    const parsed = FtsQuery.parse(query);
+    if (!parsed) return [];
+
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const conditions = ['market_items_fts MATCH ?'];
+    const params: any[] = [parsed.match];
+
+    if (options.since) {
+      conditions.push('m.published_at >= ?');
+      params.push(options.since.getTime());
+    }
+
+    if (options.sources && options.sources.length > 0) {
+      conditions.push(`m.source IN (${options.sources.map(() => '?').join(', ')})`);
+      params.push(...options.sources);
+    }
+
+    params.push(options.limit ?? 100);
+
+    const rows = await this.all<{ data: string }>(
+      `SELECT m.data
+       FROM market_items_fts
+       JOIN market_items m ON m.id = market_items_fts.item_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY bm25(market_items_fts, 0, 10.0, 1.0, 8.0, 4.0), m.published_at DESC
+       LIMIT ?`,
+      params
+    );
+
+    return rows.map(row => JSON.parse(row.data) as MarketDataItem);
+  }
+
+  async countItems(): Promise<number> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = await this.all<{ total: number }>('SELECT COUNT(*) AS total FROM market_items');
+    return rows[0]?.total ?? 0;
+  }
+
+  /**
+   * Stored items, newest first, optionally limited to one source and time window.
+   */
+  async getItems(options: ItemQueryOptions = {}): Promise<MarketDataItem[]> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.source) {
+      conditions.push('source = ?');
+      params.push(options.source);
+    }
+
+    if (options.sourceName) {
+      conditions.push('source_name = ?');
+      params.push(options.sourceName);
+    }
+
+    if (options.since) {
+      conditions.push('published_at >= ?');
+      params.push(options.since.getTime());
+    }
+
+    params.push(options.limit ?? 500);
+
+    const rows = await this.all<{ data: string }>(
+      `SELECT data FROM market_items
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY published_at DESC
+       LIMIT ?`,
+      params
+    );
+
+    return rows.map(row => JSON.parse(row.data) as MarketDataItem);
+  }
+
+  async getItem(id: string): Promise<MarketDataItem | undefined> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = await this.all<{ data: string }>('SELECT data FROM market_items WHERE id = ?', [id]);
+    return rows.length > 0 ? JSON.parse(rows[0].data) : undefined;
+  }
+
+  async saveIngestionState(state: IngestionState): Promise<void> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    await this.serializeWrite(() => this.run(
+      'INSERT OR REPLACE INTO source_ingestion (source_key, data) VALUES (?, ?)',
+      [state.sourceKey, JSON.stringify(state)]
+    ));
+  }
+
+  async getIngestionState(sourceKey: string): Promise<IngestionState | undefined> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = await this.all<{ data: string }>(
+      'SELECT data FROM source_ingestion WHERE source_key = ?',
+      [sourceKey]
+    );
+    return rows.length > 0 ? JSON.parse(rows[0].data) : undefined;
+  }
+
+  async getIngestionStates(): Promise<IngestionState[]> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = await this.all<{ data: string }>('SELECT data FROM source_ingestion ORDER BY source_key');
+    return rows.map(row => JSON.parse(row.data) as IngestionState);
+  }
+
+  async saveFetchState(state: SourceFetchState): Promise<void> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    await this.serializeWrite(() => this.run(
+      'INSERT OR REPLACE INTO source_fetch_state (source_key, data) VALUES (?, ?)',
+      [state.sourceKey, JSON.stringify(state)]
+    ));
+  }
+
+  async getFetchState(sourceKey: string): Promise<SourceFetchState | undefined> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = await this.all<{ data: string }>(
+      'SELECT data FROM source_fetch_state WHERE source_key = ?',
+      [sourceKey]
+    );
+    return rows.length > 0 ? JSON.parse(rows[0].data) : undefined;
+  }
+
+  async saveWatchlist(watchlist: Watchlist): Promise<void> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    await this.serializeWrite(async () => {
+      await this.run('BEGIN');
+      try {
+        // Only one watchlist per client is active at a time
+        if (watchlist.active) {
+          const others = await this.all<{ data: string }>(
+            'SELECT data FROM watchlists WHERE client_id = ? AND name != ?',
+            [watchlist.clientId, watchlist.name]
+          );
+          for (const row of others) {
+            const other: Watchlist = JSON.parse(row.data);
+            if (!other.active) continue;
+            await this.run(
+              'UPDATE watchlists SET data = ? WHERE client_id = ? AND name = ?',
+              [JSON.stringify({ ...other, active: false }), other.clientId, other.name]
+            );
+          }
+        }
+
+        await this.run(
+          'INSERT OR REPLACE INTO watchlists (client_id, name, data) VALUES (?, ?, ?)',
+          [watchlist.clientId, watchlist.name, JSON.stringify(watchlist)]
+        );
+        await this.run('COMMIT');
+      } catch (error) {
+        await this.run('ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+    });
+  }
+
+  async getWatchlist(clientId: string, name: string): Promise<Watchlist | undefined> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = await this.all<{ data: string }>(
+      'SELECT data FROM watchlists WHERE client_id = ? AND name = ?',
+      [clientId, name]
+    );
+    return rows.length > 0 ? JSON.parse(rows[0].data) : undefined;
+  }
+
+  async listWatchlists(clientId: string): Promise<Watchlist[]> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = await this.all<{ data: string }>(
+      'SELECT data FROM watchlists WHERE client_id = ? ORDER BY name',
+      [clientId]
+    );
+    return rows.map(row => JSON.parse(row.data) as Watchlist);
+  }
+
+  async deleteWatchlist(clientId: string, name: string): Promise<boolean> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const existing = await this.getWatchlist(clientId, name);
+    if (!existing) return false;
+
+    await this.serializeWrite(() => this.run(
+      'DELETE FROM watchlists WHERE client_id = ? AND name = ?',
+      [clientId, name]
+    ));
+    return true;
+  }
+
+  async saveAlertRule(rule: AlertRule): Promise<void> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    await this.serializeWrite(() => this.run(
+      'INSERT OR REPLACE INTO alert_rules (id, client_id, data) VALUES (?, ?, ?)',
+      [rule.id, rule.clientId, JSON.stringify(rule)]
+    ));
+  }
+
+  /**
+   * Rules for one client, or every client's rules when clientId is omitted
+   */
+  async listAlertRules(clientId?: string): Promise<AlertRule[]> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = clientId
+      ? await this.all<{ data: string }>('SELECT data FROM alert_rules WHERE client_id = ?', [clientId])
+      : await this.all<{ data: string }>('SELECT data FROM alert_rules');
+    return rows
+      .map(row => JSON.parse(row.data) as AlertRule)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async deleteAlertRule(clientId: string, ruleId: string): Promise<boolean> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = await this.all<{ id: string }>(
+      'SELECT id FROM alert_rules WHERE client_id = ? AND id = ?',
+      [clientId, ruleId]
+    );
+    if (rows.length === 0) return false;
+
+    await this.serializeWrite(() => this.run(
+      'DELETE FROM alert_rules WHERE client_id = ? AND id = ?',
+      [clientId, ruleId]
+    ));
+    return true;
+  }
+
+  async saveAlert(alert: Alert): Promise<void> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    await this.serializeWrite(() => this.run(
+      'INSERT OR REPLACE INTO alert_history (id, rule_id, client_id, fired_at, data) VALUES (?, ?, ?, ?, ?)',
+      [alert.id, alert.ruleId, alert.clientId, new Date(alert.firedAt).getTime(), JSON.stringify(alert)]
+    ));
+  }
+
+  /**
+   * Fired alerts, newest first
+   */
+  async getAlertHistory(query: AlertHistoryQuery = {}): Promise<Alert[]> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.clientId) {
+      conditions.push('client_id = ?');
+      params.push(query.clientId);
+    }
+
+    if (query.ruleId) {
+      conditions.push('rule_id = ?');
+      params.push(query.ruleId);
+    }
+
+    if (query.since) {
+      conditions.push('fired_at >= ?');
+      params.push(query.since.getTime());
+    }
+
+    params.push(query.limit ?? 100);
+
+    const rows = await this.all<{ data: string }>(
+      `SELECT data FROM alert_history
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY fired_at DESC
+       LIMIT ?`,
+      params
+    );
+
+    return rows.map(row => JSON.parse(row.data) as Alert);
+  }
+
+  /**
+   * Transcripts are expensive to produce, so they are kept indefinitely by episode id.
+   */
+  async getTranscript(episodeId: string): Promise<PodcastTranscript | undefined> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    const rows = await this.all<{ data: string }>(
+      'SELECT data FROM podcast_transcripts WHERE episode_id = ?',
+      [episodeId]
+    );
+    return rows.length > 0 ? JSON.parse(rows[0].data) : undefined;
+  }
+
+  async saveTranscript(transcript: PodcastTranscript): Promise<void> {
+    if (!this.dbInitialized) {
+      await this.initializeDatabase();
+    }
+
+    await this.serializeWrite(() => this.run(
+      'INSERT OR REPLACE INTO podcast_transcripts (episode_id, provider, data, created_at) VALUES (?, ?, ?, ?)',
+      [transcript.episodeId, transcript.provider, JSON.stringify(transcript), Date.now()]
+    ));
+  }
+
+  /**
+   * Every write goes through here. The connection is shared, so a write issued
+   * while another write's transaction is open would join it and roll back with it.
+   */
+  private serializeWrite(write: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(write);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private run(sql: string, params: any[] = []): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.db!.run('DELETE FROM cache_entries WHERE timestamp + (ttl * 1000) < ?', [now], (err) => {
+      this.db!.run(sql, params, (err) => {
         if (err) {
           reject(err);
           return;
@@ -186,6 +665,18 @@ export class CacheManager {
     });
   }
 
+  private all<T>(sql: string, params: any[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.db!.all(sql, params, (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows as T[]);
+      });
+    });
+  }
+
   generateKey(prefix: string, params: Record<string, any>): string {
     const sortedParams = Object.keys(params)
       .sort()
@@ -0,0 +1,104 @@
+export interface ParsedSearchQuery {
+  match: string; // SQLite FTS5 MATCH expression
+  terms: string[]; // Positive terms and phrases, used for highlighting and boosting
+}
+
+type QueryToken =
+  | { kind: 'term'; value: string; prefix: boolean; negated: boolean }
+  | { kind: 'operator'; value: 'AND' | 'OR' | 'NOT' };
+
+export class FtsQuery {
+  /**
+   * Translate a user search query into an FTS5 MATCH expression.
+   *
+   * Supported syntax: bare terms (implicit AND), "quoted phrases", AND / OR / NOT,
+   * -term exclusion and trailing * for prefix matches. Every term is emitted as a
+   * quoted FTS5 string so user input can never inject FTS5 syntax.
+   */
+  static parse(query: string): ParsedSearchQuery | null {
+    if (!query) return null;
+
+    const tokens = this.tokenize(query);
+    const positives: string[] = [];
+    const negatives: string[] = [];
+    const terms: string[] = [];
+    let pendingOperator: 'AND' | 'OR' = 'AND';
+    let negateNext = false;
+
+    for (const token of tokens) {
+      if (token.kind === 'operator') {
+        if (token.value === 'NOT') {
+          negateNext = true;
+        } else if (positives.length > 0) {
+          pendingOperator = token.value;
+        }
+        continue;
+      }
+
+      const expression = this.quote(token.value) + (token.prefix ? '*' : '');
+
+      if (token.negated || negateNext) {
+        negatives.push(expression);
+        negateNext = false;
+        continue;
+      }
+
+      if (positives.length > 0) {
+        positives.push(pendingOperator);
+      }
+      positives.push(expression);
+      terms.push(token.value);
+      pendingOperator = 'AND';
+    }
+
+    // FTS5 NOT is a binary operator, so a query of only exclusions matches nothing useful
+    if (positives.length === 0) return null;
+
+    let match = positives.length > 1 ? `(${positives.join(' ')})` : positives[0];
+    for (const negative of negatives) {
+      match += ` NOT ${negative}`;
+    }
+
+    return { match, terms };
+  }
+
+  private static tokenize(query: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    const pattern = /(-?)"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(query)) !== null) {
+      if (match[2] !== undefined) {
+        const phrase = this.normalizeTerm(match[2]);
+        if (phrase) {
+          tokens.push({ kind: 'term', value: phrase, prefix: false, negated: match[1] === '-' });
+        }
+        continue;
+      }
+
+      const raw = match[3];
+      if (raw === 'AND' || raw === 'OR' || raw === 'NOT') {
+        tokens.push({ kind: 'operator', value: raw });
+        continue;
+      }
+
+      const negated = raw.startsWith('-') && raw.length > 1;
+      const prefix = raw.endsWith('*') && raw.length > 1;
+      const value = this.normalizeTerm(raw.slice(negated ? 1 : 0, prefix ? -1 : undefined));
+      if (value) {
+        tokens.push({ kind: 'term', value, prefix, negated });
+      }
+    }
+
+    return tokens;
+  }
+
+  private static normalizeTerm(term: string): string {
+    // The unicode61 tokenizer ignores punctuation anyway; dropping it here keeps phrases tidy
+    return term.replace(/[^\p{L}\p{N}\s$&.'-]/gu, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private static quote(term: string): string {
+    return `"${term.replace(/"/g, '""')}"`;
+  }
+}
@@ -1,4 +1,5 @@
 import { RateLimitEntry } from '../types/marketData';
+import { Cancellation } from './Cancellation';
 
 export class RateLimiter {
   private limits: Map<string, RateLimitEntry> = new Map();
@@ -123,26 +124,33 @@ export class RateLimiter {
     return operation();
   }
 
+  /**
+   * Run an operation within the rate limit, retrying with backoff. An aborted
+   * signal stops the retries and cuts the backoff wait short.
+   */
   async withRetry<T>(
     source: string,
     rateLimit: string,
     operation: () => Promise<T>,
     maxRetries: number = 3,
-    baseDelay: number = 1000
+    baseDelay: number = 1000,
+    signal?: AbortSignal
   ): Promise<T> {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      Cancellation.throwIfCancelled(signal);
       try {
         return await this.withRateLimit(source, rateLimit, operation);
       } catch (error) {
+        if (Cancellation.isCancelled(error, signal)) throw error;
         lastError = error as Error;
 
         if (attempt === maxRetries) break;
 
         // Exponential backoff with jitter
         const delay = baseDelay * Math.pow(2, attempt) + Math.random() * 1000;
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await Cancellation.sleep(delay, signal);
       }
     }
 
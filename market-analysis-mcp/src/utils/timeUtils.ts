@@ -6,6 +6,8 @@ export class TimeUtils {
       '24h': 24,
       '7d': 24 * 7,
       '30d': 24 * 30,
+      '90d': 24 * 90,
+      '1y': 24 * 365,
     };
 
     const hours = timeMap[timeframe] || 24;
@@ -16,6 +18,9 @@ export class TimeUtils {
   }
 
   static getTimeframeStart(timeframe: string): Date {
+    // 'all' is only meaningful for the historical item store
+    if (timeframe === 'all') return new Date(0);
+
     const { milliseconds } = this.parseTimeframe(timeframe);
     return new Date(Date.now() - milliseconds);
   }
@@ -67,8 +72,7 @@ export class TimeUtils {
     return totalMinutes >= marketOpen && totalMinutes <= marketClose;
   }
 
-  static getNextMarketOpen(): Date {
-    const now = new Date();
+  static getNextMarketOpen(now: Date = new Date()): Date {
     let nextOpen = new Date(now);
 
     // Set to 9:30 AM ET
@@ -85,6 +89,20 @@ export class TimeUtils {
     return nextOpen;
   }
 
+  static getPreviousMarketClose(now: Date = new Date()): Date {
+    const previousClose = new Date(now);
+
+    // Set to 4:00 PM ET
+    previousClose.setUTCHours(21, 0, 0, 0); // 4:00 PM ET in UTC (simplified)
+
+    // If today's close is still ahead or today is a weekend, step back to the last weekday
+    while (previousClose > now || previousClose.getUTCDay() === 0 || previousClose.getUTCDay() === 6) {
+      previousClose.setUTCDate(previousClose.getUTCDate() - 1);
+    }
+
+    return previousClose;
+  }
+
   static getUpdateFrequency(timeframe: string): number {
     // Return update frequency in minutes based on timeframe
     const frequencyMap: Record<string, number> = {
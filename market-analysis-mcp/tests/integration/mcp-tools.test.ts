@@ -7,15 +7,22 @@ import { NewsTools } from '../../src/tools/news';
 import { SearchTools } from '../../src/tools/search';
 import { UnifiedTools } from '../../src/tools/unified';
 import { NewsService } from '../../src/services/newsService';
+import { PodcastService } from '../../src/services/podcastService';
+import { GmailService } from '../../src/services/gmailService';
+import { WatchlistService } from '../../src/services/watchlistService';
 import { RelevanceScorer } from '../../src/services/relevanceScorer';
+import { SymbolResolver } from '../../src/services/symbolResolver';
+import { SentimentEngine } from '../../src/services/sentiment/sentimentEngine';
 import { CacheManager } from '../../src/utils/cache';
 import { RateLimiter } from '../../src/utils/rateLimiter';
 import { MarketDataItem } from '../../src/types/marketData';
+import { ToolContext } from '../../src/types/toolContext';
 import * as winston from 'winston';
-import * as path from 'path';
 
 describe('MCP Tools Integration', () => {
   let newsService: NewsService;
+  let podcastService: PodcastService;
+  let gmailService: GmailService;
   let relevanceScorer: RelevanceScorer;
   let cache: CacheManager;
   let rateLimiter: RateLimiter;
@@ -24,6 +31,8 @@ describe('MCP Tools Integration', () => {
   let searchTools: SearchTools;
   let unifiedTools: UnifiedTools;
 
+  const context: ToolContext = { clientId: 'test-client' };
+
   const mockConfig = {
     news: {
       sources: [
@@ -54,8 +63,7 @@ describe('MCP Tools Integration', () => {
 
   beforeAll(async () => {
     // Initialize test database
-    const testDbPath = path.join(__dirname, '../fixtures/test-integration.db');
-    cache = new CacheManager(testDbPath);
+    cache = new CacheManager(':memory:');
     await cache.initializeDatabase();
 
     // Initialize other components
@@ -65,19 +73,36 @@ describe('MCP Tools Integration', () => {
       transports: [new winston.transports.Console({ silent: true })]
     });
 
-    relevanceScorer = new RelevanceScorer(mockConfig.relevanceScoring);
-    newsService = new NewsService(mockConfig.news, cache, rateLimiter, logger);
+    const symbolResolver = await SymbolResolver.load();
+    relevanceScorer = new RelevanceScorer(mockConfig.relevanceScoring, symbolResolver, SentimentEngine.create(symbolResolver));
+    newsService = new NewsService(mockConfig.news, cache, rateLimiter, logger, {});
+    podcastService = new PodcastService([], cache, rateLimiter, logger);
+    gmailService = new GmailService({ targetSenders: [], enabled: false }, cache, rateLimiter, logger, {
+      redirectUri: 'http://localhost'
+    });
+    const watchlistService = new WatchlistService(cache, logger);
 
     // Initialize tools
-    newsTools = new NewsTools(newsService, relevanceScorer);
-    searchTools = new SearchTools(cache, relevanceScorer);
-    unifiedTools = new UnifiedTools(newsService, undefined, undefined, relevanceScorer);
+    newsTools = new NewsTools(newsService, relevanceScorer, watchlistService);
+    searchTools = new SearchTools(newsService, podcastService, gmailService, relevanceScorer, cache);
+    unifiedTools = new UnifiedTools(newsService, podcastService, gmailService, relevanceScorer, watchlistService);
+  });
+
+  beforeEach(() => {
+    // No test reaches a live feed; suites that need items mock them in
+    jest.spyOn(newsService, 'getNews').mockResolvedValue({ success: true, data: [] });
+    jest.spyOn(podcastService, 'getPodcasts').mockResolvedValue({ success: true, data: [] });
+    jest.spyOn(gmailService, 'getRelevantEmails').mockResolvedValue({ success: true, data: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   afterAll(async () => {
     // Cleanup test database
     if (cache) {
-      await cache.cleanup?.();
+      await cache.close();
     }
   });
 
@@ -123,13 +148,9 @@ describe('MCP Tools Integration', () => {
       });
     });
 
-    afterEach(() => {
-      jest.restoreAllMocks();
-    });
-
     it('should successfully fetch and format market news', async () => {
       const args = { timeframe: '24h', limit: 10 };
-      const result = await newsTools.getMarketNews(args);
+      const result = await newsTools.getMarketNews(args, context);
 
       expect(result).toHaveProperty('content');
       expect(Array.isArray(result.content)).toBe(true);
@@ -139,7 +160,7 @@ describe('MCP Tools Integration', () => {
       const text = result.content[0].text;
       expect(text).toContain('Market News Summary');
       expect(text).toContain('AAPL Earnings Beat Expectations');
-      expect(text).toContain('Items Found: 2');
+      expect(text).toContain('**Items Found**: 2');
     });
 
     it('should handle news service errors gracefully', async () => {
@@ -149,7 +170,7 @@ describe('MCP Tools Integration', () => {
       });
 
       const args = { timeframe: '24h', limit: 10 };
-      const result = await newsTools.getMarketNews(args);
+      const result = await newsTools.getMarketNews(args, context);
 
       expect(result.content[0].text).toContain('❌ **Error in fetching news**');
       expect(result.content[0].text).toContain('Service unavailable');
@@ -162,7 +183,7 @@ describe('MCP Tools Integration', () => {
       });
 
       const args = { timeframe: '24h', limit: 10 };
-      const result = await newsTools.getMarketNews(args);
+      const result = await newsTools.getMarketNews(args, context);
 
       const text = result.content[0].text;
       expect(text).toContain('Market News Summary');
@@ -171,14 +192,14 @@ describe('MCP Tools Integration', () => {
 
     it('should filter news by symbols when specified', async () => {
       const args = { timeframe: '24h', symbols: ['AAPL'], limit: 10 };
-      const result = await newsTools.getMarketNews(args);
+      const result = await newsTools.getMarketNews(args, context);
 
-      expect(newsService.getNews).toHaveBeenCalledWith('24h', ['AAPL'], 10);
+      expect(newsService.getNews).toHaveBeenCalledWith('24h', ['AAPL'], 10, expect.anything());
     });
 
     it('should apply relevance scoring and sorting', async () => {
       const args = { timeframe: '24h', limit: 10 };
-      const result = await newsTools.getMarketNews(args);
+      const result = await newsTools.getMarketNews(args, context);
 
       const text = result.content[0].text;
       // The AAPL earnings news should score higher due to earnings keyword and AAPL symbol
@@ -222,7 +243,8 @@ describe('MCP Tools Integration', () => {
         await cache.set(`market_data:${item.id}`, item, 3600);
       }
 
-      // Mock cache search
+      // Mock cache search; a non-empty store skips the first-run warmup
+      jest.spyOn(cache, 'countItems').mockResolvedValue(testItems.length);
       jest.spyOn(cache, 'searchMarketData').mockResolvedValue(testItems as MarketDataItem[]);
     });
 
@@ -234,36 +256,36 @@ describe('MCP Tools Integration', () => {
         limit: 10
       };
 
-      const result = await searchTools.searchMarketData(args);
+      const result = await searchTools.searchMarketData(args, context);
 
       expect(result).toHaveProperty('content');
       expect(result.content[0].text).toContain('Search Results');
       expect(result.content[0].text).toContain('Tesla Stock Surges');
-      expect(result.content[0].text).toContain('Query: Tesla earnings');
+      expect(result.content[0].text).toContain('**Query**: "Tesla earnings"');
     });
 
     it('should apply relevance filtering', async () => {
       const args = {
         query: 'market',
         timeframe: '24h',
-        minRelevance: 70, // Should filter out the 60-score item
+        min_relevance: 65, // Results are rescored against the query, so only the market story clears this
         limit: 10
       };
 
-      const result = await searchTools.searchMarketData(args);
+      const result = await searchTools.searchMarketData(args, context);
       const text = result.content[0].text;
 
-      expect(text).toContain('Tesla Stock Surges'); // Score 85
-      expect(text).not.toContain('Market Volatility Concerns'); // Score 60
+      expect(text).toContain('Market Volatility Concerns');
+      expect(text).not.toContain('Tesla Stock Surges');
     });
 
     it('should handle search errors gracefully', async () => {
       jest.spyOn(cache, 'searchMarketData').mockRejectedValue(new Error('Database error'));
 
       const args = { query: 'test', timeframe: '24h' };
-      const result = await searchTools.searchMarketData(args);
+      const result = await searchTools.searchMarketData(args, context);
 
-      expect(result.content[0].text).toContain('❌ **Error in searching market data**');
+      expect(result.content[0].text).toContain('Error searching market data');
       expect(result.content[0].text).toContain('Database error');
     });
   });
@@ -293,24 +315,24 @@ describe('MCP Tools Integration', () => {
 
     it('should create unified market snapshot', async () => {
       const args = { timeframe: '4h' };
-      const result = await unifiedTools.getUnifiedSnapshot(args);
+      const result = await unifiedTools.getMarketSnapshot(args, context);
 
       expect(result).toHaveProperty('content');
       const text = result.content[0].text;
 
-      expect(text).toContain('Unified Market Snapshot');
+      expect(text).toContain('Market Snapshot');
       expect(text).toContain('Fed Raises Interest Rates');
-      expect(text).toContain('Summary Metrics');
-      expect(text).toContain('Cross-Source Analysis');
+      expect(text).toContain('Executive Summary');
+      expect(text).toContain('Source Breakdown');
     });
 
-    it('should identify high-relevance alert items', async () => {
-      const args = { timeframe: '4h', alertThreshold: 80 };
-      const result = await unifiedTools.getUnifiedSnapshot(args);
+    it('should list the top items as key events', async () => {
+      const args = { timeframe: '4h' };
+      const result = await unifiedTools.getMarketSnapshot(args, context);
 
       const text = result.content[0].text;
-      expect(text).toContain('🚨 Alert Items'); // Should contain high-relevance section
-      expect(text).toContain('Fed Raises Interest Rates'); // Score 90 > threshold 80
+      expect(text).toContain('Key Events');
+      expect(text.indexOf('Fed Raises Interest Rates')).toBeGreaterThan(text.indexOf('Key Events'));
     });
 
     it('should handle partial service failures gracefully', async () => {
@@ -321,11 +343,11 @@ describe('MCP Tools Integration', () => {
       });
 
       const args = { timeframe: '4h' };
-      const result = await unifiedTools.getUnifiedSnapshot(args);
+      const result = await unifiedTools.getMarketSnapshot(args, context);
 
       expect(result).toHaveProperty('content');
       const text = result.content[0].text;
-      expect(text).toContain('Unified Market Snapshot');
+      expect(text).toContain('Market Snapshot');
       // Should still provide a snapshot even with failed services
     });
   });
@@ -334,7 +356,7 @@ describe('MCP Tools Integration', () => {
     it('should maintain data consistency across tools', async () => {
       // Test that data flows correctly between news retrieval and search
       const newsArgs = { timeframe: '24h', limit: 5 };
-      const newsResult = await newsTools.getMarketNews(newsArgs);
+      const newsResult = await newsTools.getMarketNews(newsArgs, context);
 
       // Simulate data being cached by news service
       const mockCachedItems = [
@@ -356,7 +378,7 @@ describe('MCP Tools Integration', () => {
       jest.spyOn(cache, 'searchMarketData').mockResolvedValue(mockCachedItems);
 
       const searchArgs = { query: 'Cross-tool', timeframe: '24h' };
-      const searchResult = await searchTools.searchMarketData(searchArgs);
+      const searchResult = await searchTools.searchMarketData(searchArgs, context);
 
       // Both tools should work with consistent data structures
       expect(newsResult.content[0]).toHaveProperty('text');
@@ -367,9 +389,9 @@ describe('MCP Tools Integration', () => {
     it('should handle concurrent tool usage', async () => {
       // Test multiple tools running simultaneously
       const promises = [
-        newsTools.getMarketNews({ timeframe: '24h', limit: 5 }),
-        searchTools.searchMarketData({ query: 'test', timeframe: '24h' }),
-        unifiedTools.getUnifiedSnapshot({ timeframe: '4h' })
+        newsTools.getMarketNews({ timeframe: '24h', limit: 5 }, context),
+        searchTools.searchMarketData({ query: 'test', timeframe: '24h' }, context),
+        unifiedTools.getMarketSnapshot({ timeframe: '4h' }, context)
       ];
 
       const results = await Promise.all(promises);
@@ -386,7 +408,7 @@ describe('MCP Tools Integration', () => {
     it('should complete operations within reasonable time limits', async () => {
       const startTime = Date.now();
       
-      await newsTools.getMarketNews({ timeframe: '24h', limit: 10 });
+      await newsTools.getMarketNews({ timeframe: '24h', limit: 10 }, context);
       
       const duration = Date.now() - startTime;
       expect(duration).toBeLessThan(5000); // Should complete within 5 seconds
@@ -395,7 +417,7 @@ describe('MCP Tools Integration', () => {
     it('should handle rate limiting appropriately', async () => {
       // Test that rate limiter is respected
       const promises = Array.from({ length: 5 }, () => 
-        newsTools.getMarketNews({ timeframe: '1h', limit: 5 })
+        newsTools.getMarketNews({ timeframe: '1h', limit: 5 }, context)
       );
 
       const results = await Promise.allSettled(promises);
@@ -435,11 +457,11 @@ describe('MCP Tools Integration', () => {
       const args = { timeframe: '24h', limit: 10 };
       
       // First call should handle error gracefully
-      const firstResult = await newsTools.getMarketNews(args);
+      const firstResult = await newsTools.getMarketNews(args, context);
       expect(firstResult.content[0].text).toContain('Error');
 
       // Second call should succeed
-      const secondResult = await newsTools.getMarketNews(args);
+      const secondResult = await newsTools.getMarketNews(args, context);
       expect(secondResult.content[0].text).toContain('Market News Summary');
     });
 
@@ -447,7 +469,7 @@ describe('MCP Tools Integration', () => {
       // Test invalid timeframe
       const invalidArgs = { timeframe: 'invalid', limit: 'not-a-number' };
       
-      const result = await newsTools.getMarketNews(invalidArgs);
+      const result = await newsTools.getMarketNews(invalidArgs, context);
       
       // Should handle gracefully and not crash
       expect(result).toHaveProperty('content');
@@ -458,7 +480,7 @@ describe('MCP Tools Integration', () => {
       jest.spyOn(cache, 'searchMarketData').mockRejectedValue(new Error('Connection failed'));
 
       const args = { query: 'test', timeframe: '24h' };
-      const result = await searchTools.searchMarketData(args);
+      const result = await searchTools.searchMarketData(args, context);
 
       expect(result.content[0].text).toContain('Error');
       expect(result.content[0].text).toContain('Connection failed');
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigManager } from '../../../src/config/ConfigManager';
+
+const SOURCES = {
+  news: {
+    sources: [
+      { name: 'MarketWatch RSS', type: 'rss', endpoint: 'https://example.com/rss', rateLimit: '60/hour', enabled: true }
+    ]
+  },
+  podcasts: [],
+  gmail: { targetSenders: [], enabled: false },
+  relevanceScoring: {
+    marketKeywords: { high: ['earnings'], medium: ['stock'], low: ['chart'] },
+    weights: { marketKeywords: 40, stockSymbols: 30, sourceAuthority: 20, recency: 10 }
+  }
+};
+
+describe('ConfigManager', () => {
+  let configDir: string;
+
+  const load = (argv: string[] = [], env: NodeJS.ProcessEnv = {}): ConfigManager =>
+    ConfigManager.load({ argv, env, configDir });
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-manager-'));
+    fs.writeFileSync(path.join(configDir, 'sources.json'), JSON.stringify(SOURCES));
+  });
+
+  afterEach(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('defaults to stdio', () => {
+    const config = load();
+
+    expect(config.get('environment')).toBe('development');
+    expect(config.get('server')).toEqual({ transport: 'stdio', port: 3001, host: '127.0.0.1' });
+    expect(config.get('sources').news.sources).toHaveLength(1);
+  });
+
+  it('prefers command line flags over the environment', () => {
+    const env = { MCP_TRANSPORT: 'stdio', MCP_SERVER_PORT: '4000', MCP_HTTP_HOST: '0.0.0.0' };
+
+    expect(load(['--transport', 'http', '--port=5000'], env).get('server'))
+      .toEqual({ transport: 'http', port: 5000, host: '0.0.0.0' });
+    expect(load([], { MCP_TRANSPORT: 'HTTP' }).get('server').transport).toBe('http');
+  });
+
+  it('layers the environment file between defaults and variables', () => {
+    fs.writeFileSync(path.join(configDir, 'test.json'), JSON.stringify({
+      database: { path: './data/test_cache.db' },
+      logging: { level: 'error' }
+    }));
+
+    const config = load([], { NODE_ENV: 'test', LOG_LEVEL: 'warn' });
+
+    expect(config.get('database').path).toBe('./data/test_cache.db');
+    expect(config.get('logging')).toEqual({ level: 'warn', filePath: './logs/market-mcp.log' });
+    expect(config.isTest()).toBe(true);
+  });
+
+  it('reports where each setting came from and redacts secrets', () => {
+    const config = load(['--log-level', 'debug'], {
+      MCP_AUTH_TOKENS: 'alice:secret',
+      NEWSAPI_ORG_API_KEY: 'news-key',
+      FINNHUB_API_KEY: 'finnhub-key',
+      BLOOMBERG_API_KEY: 'bloomberg-key',
+      INGESTION_ENABLED: ''
+    });
+    const settings = new Map(config.describe().map(setting => [setting.path, setting]));
+
+    expect(settings.get('logging.level')).toEqual({ path: 'logging.level', value: 'debug', layer: 'cli', origin: '--log-level' });
+    expect(settings.get('ingestion.enabled')).toMatchObject({ value: false, layer: 'default' });
+    expect(settings.get('server.authTokens')).toMatchObject({ value: '********', origin: 'MCP_AUTH_TOKENS' });
+    expect(settings.get('newsApiKeys.finnhub')).toMatchObject({ value: '********', origin: 'FINNHUB_API_KEY' });
+    expect(settings.get('newsApiKeys.bearer.BLOOMBERG_API_KEY')).toMatchObject({ value: '********', layer: 'env' });
+    expect(settings.get('sources')).toMatchObject({ layer: 'sources-file' });
+    expect(config.get('newsApiKeys')).toEqual({
+      newsApiOrg: 'news-key',
+      finnhub: 'finnhub-key',
+      bearer: { BLOOMBERG_API_KEY: 'bloomberg-key' }
+    });
+    expect(config.format()).not.toContain('secret');
+  });
+
+  it('rejects unknown transports and ports, naming their origin', () => {
+    expect(() => load(['--transport', 'websocket']))
+      .toThrow('server.transport must be one of stdio, http (got "websocket") [--transport]');
+    expect(() => load([], { MCP_SERVER_PORT: 'abc' })).toThrow('[MCP_SERVER_PORT]');
+    expect(() => load(['--port'])).toThrow('--port needs a value');
+    expect(() => load([], { FETCH_CONCURRENCY: '0' })).toThrow('[FETCH_CONCURRENCY]');
+    expect(load([], { SOURCE_TIMEOUT_MS: '5000' }).get('fetching')).toEqual({ concurrency: 4, sourceTimeoutMs: 5000 });
+  });
+
+  it('rejects unknown keys in the environment file', () => {
+    fs.writeFileSync(path.join(configDir, 'development.json'), JSON.stringify({ databse: { path: 'x.db' } }));
+
+    expect(() => load()).toThrow(/unknown setting databse \(accepted: .*\) \[config\/development\.json\]/);
+  });
+
+  it('refuses to start with an enabled API source whose key is not set', () => {
+    const finnhub = { name: 'Finnhub', type: 'api', endpoint: 'https://finnhub.io/api/v1/news', rateLimit: '60/minute', enabled: true, adapter: { preset: 'finnhub' } };
+    fs.writeFileSync(path.join(configDir, 'sources.json'), JSON.stringify({
+      ...SOURCES,
+      news: { sources: [...SOURCES.news.sources, finnhub, { ...finnhub, name: 'Finnhub Backup', enabled: false }] }
+    }));
+
+    expect(() => load()).toThrow('news source "Finnhub" is enabled but FINNHUB_API_KEY is not set');
+    expect(() => load([], { FINNHUB_API_KEY: 'finnhub-key' })).not.toThrow();
+  });
+
+  it('rejects an invalid sources.json', () => {
+    fs.writeFileSync(path.join(configDir, 'sources.json'), '{}');
+
+    expect(() => load()).toThrow('sources.json is invalid');
+  });
+});
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as winston from 'winston';
+import { SourcesConfigLoader, SourcesConfigWatcher } from '../../../src/config/sourcesConfig';
+import { SourcesConfig } from '../../../src/types/marketData';
+
+const logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+
+function makeConfig(): SourcesConfig {
+  return {
+    news: {
+      sources: [
+        { name: 'MarketWatch RSS', type: 'rss', endpoint: 'https://example.com/rss', rateLimit: '60/hour', enabled: true }
+      ]
+    },
+    podcasts: [
+      { name: 'Chat with Traders', rssUrl: 'https://example.com/podcast', transcriptionService: 'openai-whisper', enabled: true }
+    ],
+    gmail: { targetSenders: ['crew@morningbrew.com'], enabled: false },
+    relevanceScoring: {
+      marketKeywords: { high: ['earnings'], medium: ['stock'], low: ['chart'] },
+      weights: { marketKeywords: 40, stockSymbols: 30, sourceAuthority: 20, recency: 10 }
+    }
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('SourcesConfigLoader', () => {
+  it('accepts the shipped config/sources.json', async () => {
+    const config = await SourcesConfigLoader.load(path.join(__dirname, '../../../config/sources.json'));
+
+    expect(config.news.sources.length).toBeGreaterThan(0);
+  });
+
+  it('names every offending field', () => {
+    const config: any = makeConfig();
+    config.news.sources[0].rateLimit = '60/hr';
+    delete config.podcasts[0].rssUrl;
+    config.relevanceScoring.weights.recency = 150;
+
+    expect(SourcesConfigLoader.validate(config)).toEqual([
+      'news.sources[0].rateLimit has an invalid format (got "60/hr")',
+      'missing required field podcasts[0].rssUrl',
+      'relevanceScoring.weights.recency must be at most 100 (got 150)'
+    ]);
+  });
+
+  it('rejects duplicate source names', () => {
+    const config = makeConfig();
+    config.news.sources.push({ ...config.news.sources[0] });
+
+    expect(SourcesConfigLoader.validate(config)).toEqual(['news.sources names "MarketWatch RSS" more than once']);
+  });
+
+  it('checks news API adapters', () => {
+    const config = makeConfig();
+    config.news.sources.push({
+      name: 'Custom API',
+      type: 'api',
+      endpoint: 'https://example.com/api',
+      rateLimit: '60/hour',
+      enabled: true,
+      adapter: {
+        preset: 'newsapi-v3',
+        params: { tags: ['markets'] as any },
+        response: { sentiment: { provider: 'custom', labels: { up: 'bullish' as any } } }
+      }
+    });
+
+    expect(SourcesConfigLoader.validate(config)).toEqual([
+      'news.sources[1].adapter.preset must be one of generic, newsapi, alpha-vantage, fmp, finnhub, polygon, marketaux, benzinga (got "newsapi-v3")'
+    ]);
+
+    config.news.sources[1].adapter!.preset = 'generic';
+    expect(SourcesConfigLoader.validate(config)).toEqual([
+      'news.sources[1].adapter.params.tags must be a string, number or boolean (got ["markets"])',
+      'news.sources[1].adapter.response.sentiment.labels.up must be one of positive, negative, neutral (got "bullish")'
+    ]);
+  });
+
+  it('checks full text settings and keeps them to rss sources', () => {
+    const config = makeConfig();
+    config.news.sources[0].fullText = { enabled: true, maxArticles: 0 };
+    expect(SourcesConfigLoader.validate(config)).toEqual(['news.sources[0].fullText.maxArticles must be at least 1 (got 0)']);
+
+    config.news.sources[0] = { ...config.news.sources[0], type: 'api', fullText: { enabled: true } };
+    expect(SourcesConfigLoader.validate(config)).toEqual(['news.sources[0].fullText applies to rss sources only']);
+  });
+
+  it('reports JSON syntax errors and validation errors with the file name', () => {
+    expect(() => SourcesConfigLoader.parse('{ "news": ', 'sources.json')).toThrow('sources.json is not valid JSON');
+    expect(() => SourcesConfigLoader.parse('{}', 'sources.json'))
+      .toThrow('sources.json is invalid:\n- missing required field news');
+  });
+});
+
+describe('SourcesConfigWatcher', () => {
+  let dir: string;
+  let configPath: string;
+  let applied: SourcesConfig[];
+  let watcher: SourcesConfigWatcher;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sources-config-'));
+    configPath = path.join(dir, 'sources.json');
+    fs.writeFileSync(configPath, JSON.stringify(makeConfig()));
+
+    applied = [];
+    watcher = new SourcesConfigWatcher(configPath, makeConfig(), config => {
+      applied.push(config);
+    }, logger, { debounceMs: 20 });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies a valid edit', async () => {
+    const config = makeConfig();
+    config.news.sources[0].enabled = false;
+    fs.writeFileSync(configPath, JSON.stringify(config));
+
+    await expect(watcher.reload()).resolves.toBe(true);
+    expect(applied).toHaveLength(1);
+    expect(watcher.current.news.sources[0].enabled).toBe(false);
+  });
+
+  it('keeps the last good config when an edit is invalid', async () => {
+    fs.writeFileSync(configPath, '{ "news": { "sources": [ ');
+
+    await expect(watcher.reload()).resolves.toBe(false);
+    expect(applied).toHaveLength(0);
+    expect(watcher.current).toEqual(makeConfig());
+  });
+
+  it('skips saves that do not change the content', async () => {
+    await expect(watcher.reload()).resolves.toBe(false);
+    expect(applied).toHaveLength(0);
+  });
+
+  it('reloads when the file changes on disk', async () => {
+    watcher.start();
+
+    const config = makeConfig();
+    config.gmail.enabled = true;
+    fs.writeFileSync(configPath, JSON.stringify(config));
+
+    await waitFor(() => applied.length === 1);
+    expect(applied[0].gmail.enabled).toBe(true);
+  });
+});
@@ -0,0 +1,205 @@
+import axios from 'axios';
+import RSSParser from 'rss-parser';
+import * as winston from 'winston';
+import { AllSourcesFailedError, BaseService, SourceRead } from '../../../src/services/BaseService';
+import { CacheManager } from '../../../src/utils/cache';
+import { RateLimiter } from '../../../src/utils/rateLimiter';
+import { Cancellation } from '../../../src/utils/Cancellation';
+import { FetchOptions, MarketDataItem } from '../../../src/types/marketData';
+
+const logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+
+interface TestSource {
+  name: string;
+  read: (signal: AbortSignal) => Promise<SourceRead>;
+}
+
+class FetchingService extends BaseService {
+  fetch(sources: TestSource[], options?: FetchOptions) {
+    return this.fetchSources(sources, 'news', source => `news-${source.name}`, (source, signal) => source.read(signal), options);
+  }
+
+  async poll(url: string) {
+    const { items, fetchState } = await this.fetchNewFeedItems(new RSSParser(), url, 'news-Feed', async entry => item(entry.guid));
+    if (fetchState) await this.saveFetchState(fetchState);
+    return items;
+  }
+}
+
+function item(id: string): MarketDataItem {
+  return {
+    id,
+    source: 'news',
+    sourceDetails: { name: 'Test' },
+    timestamp: '2024-03-15T12:00:00.000Z',
+    title: id,
+    content: '',
+    summary: '',
+    relevanceScore: 0,
+    marketTags: []
+  };
+}
+
+const answers = (items: MarketDataItem[], stored = false) => async (): Promise<SourceRead> => ({ items, stored });
+const fails = (message: string) => async (): Promise<SourceRead> => {
+  throw new Error(message);
+};
+
+describe('BaseService.fetchSources', () => {
+  let storeItems: jest.Mock;
+  let saveFetchState: jest.Mock;
+  let service: FetchingService;
+
+  beforeEach(() => {
+    storeItems = jest.fn(async () => undefined);
+    saveFetchState = jest.fn(async () => undefined);
+    service = new FetchingService({ storeItems, saveFetchState } as unknown as CacheManager, {} as RateLimiter, logger);
+    service.configureFetching({ concurrency: 2, sourceTimeoutMs: 50 });
+  });
+
+  it('keeps partial results and records an outcome for every source', async () => {
+    const onSourceDone = jest.fn();
+    const result = await service.fetch([
+      { name: 'Live', read: answers([item('a'), item('b')]) },
+      { name: 'Stored', read: answers([item('c')], true) },
+      { name: 'Keyless', read: fails('Invalid or missing API key for Keyless. Set KEYLESS_API_KEY in .env') },
+      { name: 'Denied', read: fails('Request failed with status code 403') },
+      { name: 'Busy', read: fails('Rate limit exceeded for news-Busy. Reset in 30 seconds.') },
+      { name: 'Slow', read: signal => Cancellation.sleep(1000, signal).then(answers([item('d')])) },
+      { name: 'Broken', read: fails('getaddrinfo ENOTFOUND broken.example') }
+    ], { onSourceDone });
+
+    expect(result.items.map(entry => entry.id)).toEqual(['a', 'b', 'c']);
+    expect(result.outcomes.map(outcome => [outcome.source, outcome.status, outcome.itemCount])).toEqual([
+      ['Live', 'ok', 2],
+      ['Stored', 'stored', 1],
+      ['Keyless', 'auth-error', 0],
+      ['Denied', 'auth-error', 0],
+      ['Busy', 'rate-limited', 0],
+      ['Slow', 'timeout', 0],
+      ['Broken', 'error', 0]
+    ]);
+    expect(result.outcomes[6].error).toBe('getaddrinfo ENOTFOUND broken.example');
+    expect(onSourceDone).toHaveBeenCalledTimes(7);
+
+    // Only live items are saved, and the timeout shows up in the source's fetch record
+    expect(storeItems).toHaveBeenCalledWith([item('a'), item('b')]);
+    expect(service.getFetchRecord('news-Slow')).toMatchObject({ lastErrorCode: 'REQUEST_TIMEOUT' });
+  });
+
+  it('saves a poll state only after storing the items it counts as seen', async () => {
+    const fetchState = { sourceKey: 'news-Live', url: 'https://example.com/rss', lastGuid: 'a', updatedAt: '2024-03-15T12:00:00.000Z' };
+
+    await service.fetch([
+      { name: 'Live', read: async () => ({ items: [item('a')], stored: false, fetchState }) },
+      { name: 'Slow', read: () => new Promise<SourceRead>(resolve => setTimeout(() => resolve({ items: [item('b')], stored: false, fetchState: { ...fetchState, sourceKey: 'news-Slow' } }), 200)) }
+    ]);
+
+    expect(saveFetchState.mock.calls).toEqual([[fetchState]]);
+    expect(storeItems.mock.invocationCallOrder[0]).toBeLessThan(saveFetchState.mock.invocationCallOrder[0]);
+  });
+
+  it('fetches no more than the configured number of sources at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const read = async (): Promise<SourceRead> => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return { items: [], stored: false };
+    };
+
+    await service.fetch(['A', 'B', 'C', 'D', 'E'].map(name => ({ name, read })));
+
+    expect(peak).toBe(2);
+  });
+
+  it('fails the call when every source failed', async () => {
+    const fetching = service.fetch([
+      { name: 'Down', read: fails('Request failed with status code 500') },
+      { name: 'Busy', read: fails('Request failed with status code 429') }
+    ]);
+
+    await expect(fetching).rejects.toThrow(AllSourcesFailedError);
+    await expect(fetching).rejects.toMatchObject({
+      message: 'All 2 sources failed: Down (error), Busy (rate-limited)',
+      outcomes: [{ source: 'Down', status: 'error' }, { source: 'Busy', status: 'rate-limited' }]
+    });
+  });
+
+  it('passes a cancellation on instead of recording it', async () => {
+    const controller = new AbortController();
+    const fetching = service.fetch([
+      { name: 'Slow', read: signal => Cancellation.sleep(1000, signal).then(answers([])) }
+    ], { signal: controller.signal });
+    controller.abort();
+
+    await expect(fetching).rejects.toThrow('Request cancelled by the client');
+    expect(service.getFetchRecord('news-Slow')).toBeUndefined();
+  });
+});
+
+describe('BaseService.fetchNewFeedItems', () => {
+  const feed = (guids: Array<[string, string]>): string => `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Feed</title>
+${guids.map(([guid, date]) => `<item><title>${guid}</title><guid>${guid}</guid><pubDate>${date}</pubDate></item>`).join('\n')}
+</channel></rss>`;
+
+  let cache: CacheManager;
+  let service: FetchingService;
+  let get: jest.SpyInstance;
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+    service = new FetchingService(cache, {} as RateLimiter, logger);
+    get = jest.spyOn(axios, 'get');
+  });
+
+  afterEach(async () => {
+    get.mockRestore();
+    await cache.close();
+  });
+
+  it('sends conditional requests and converts only entries new since the last poll', async () => {
+    get.mockResolvedValueOnce({
+      status: 200,
+      headers: { etag: '"v1"', 'last-modified': 'Fri, 15 Mar 2024 12:00:00 GMT' },
+      data: feed([['b', 'Fri, 15 Mar 2024 12:00:00 GMT'], ['a', 'Fri, 15 Mar 2024 11:00:00 GMT']])
+    });
+    expect((await service.poll('https://example.com/rss')).map(entry => entry.id)).toEqual(['b', 'a']);
+
+    get.mockResolvedValueOnce({ status: 304, headers: {}, data: '' });
+    expect(await service.poll('https://example.com/rss')).toEqual([]);
+    // Feeds are polled unattended, so redirects and DNS answers pointing inside are refused
+    expect(get.mock.calls[0][1]).toEqual(expect.objectContaining({ lookup: expect.any(Function), beforeRedirect: expect.any(Function) }));
+    expect(get.mock.calls[1][1].headers).toMatchObject({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Fri, 15 Mar 2024 12:00:00 GMT'
+    });
+
+    get.mockResolvedValueOnce({
+      status: 200,
+      headers: { etag: '"v2"' },
+      data: feed([['c', 'Fri, 15 Mar 2024 13:00:00 GMT'], ['b', 'Fri, 15 Mar 2024 12:00:00 GMT'], ['a', 'Fri, 15 Mar 2024 11:00:00 GMT']])
+    });
+    expect((await service.poll('https://example.com/rss')).map(entry => entry.id)).toEqual(['c']);
+    expect(await cache.getFetchState('news-Feed')).toMatchObject({ etag: '"v2"', lastGuid: 'c', lastPublishedAt: '2024-03-15T13:00:00.000Z' });
+  });
+
+  it('starts over when the source moved to another endpoint', async () => {
+    await cache.saveFetchState({
+      sourceKey: 'news-Feed',
+      url: 'https://old.example.com/rss',
+      etag: '"old"',
+      lastGuid: 'z',
+      lastPublishedAt: '2030-01-01T00:00:00.000Z',
+      updatedAt: '2024-03-15T12:00:00.000Z'
+    });
+    get.mockResolvedValueOnce({ status: 200, headers: {}, data: feed([['a', 'Fri, 15 Mar 2024 11:00:00 GMT']]) });
+
+    expect((await service.poll('https://example.com/rss')).map(entry => entry.id)).toEqual(['a']);
+    expect(get.mock.calls[0][1].headers).not.toHaveProperty('If-None-Match');
+  });
+});
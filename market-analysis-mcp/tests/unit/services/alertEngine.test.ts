@@ -0,0 +1,162 @@
+import * as winston from 'winston';
+import { AlertEngine } from '../../../src/services/alerts/alertEngine';
+import { AlertSink } from '../../../src/services/alerts/alertSink';
+import { StoryClusterer } from '../../../src/services/storyClusterer';
+import { CacheManager } from '../../../src/utils/cache';
+import { Alert, AlertSinkType, MarketDataItem } from '../../../src/types/marketData';
+
+class RecordingSink implements AlertSink {
+  delivered: Alert[] = [];
+
+  constructor(readonly type: AlertSinkType, private failure?: string) {}
+
+  async deliver(alert: Alert): Promise<void> {
+    if (this.failure) throw new Error(this.failure);
+    this.delivered.push(alert);
+  }
+}
+
+const item = (id: string, overrides: Partial<MarketDataItem> = {}): MarketDataItem => ({
+  id,
+  source: 'news',
+  sourceDetails: { name: 'Reuters API' },
+  timestamp: new Date().toISOString(),
+  title: 'Nvidia beats quarterly revenue estimates on data center demand',
+  content: 'Nvidia reported record data center revenue.',
+  summary: '',
+  relevanceScore: 85,
+  marketTags: ['earnings'],
+  symbols: ['NVDA'],
+  sentiment: 'positive',
+  ...overrides
+});
+
+describe('AlertEngine', () => {
+  let cache: CacheManager;
+  let mcpSink: RecordingSink;
+  let engine: AlertEngine;
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+    mcpSink = new RecordingSink('mcp');
+    const logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+    engine = new AlertEngine(
+      [mcpSink, new RecordingSink('webhook', 'connect ECONNREFUSED')],
+      cache,
+      new StoryClusterer(),
+      logger
+    );
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  describe('matches', () => {
+    it('requires every set condition and any value within a condition', () => {
+      const conditions = { symbols: ['NVDA', 'AMD'], minRelevance: 80, sentiment: ['positive' as const] };
+
+      expect(AlertEngine.matches(conditions, item('a'))).toBe(true);
+      expect(AlertEngine.matches(conditions, item('b', { relevanceScore: 70 }))).toBe(false);
+      expect(AlertEngine.matches(conditions, item('c', { symbols: ['AAPL'] }))).toBe(false);
+      expect(AlertEngine.matches(conditions, item('d', { sentiment: undefined }))).toBe(false);
+    });
+
+    it('matches sources by type or name and tags case-insensitively', () => {
+      expect(AlertEngine.matches({ sources: ['news'] }, item('a'))).toBe(true);
+      expect(AlertEngine.matches({ sources: ['reuters api'] }, item('b'))).toBe(true);
+      expect(AlertEngine.matches({ sources: ['email'] }, item('c'))).toBe(false);
+      expect(AlertEngine.matches({ marketTags: ['earnings'] }, item('d', { marketTags: ['Earnings'] }))).toBe(true);
+    });
+  });
+
+  it('validates rules on creation', async () => {
+    await expect(engine.createRule('client-a', { name: 'Empty', conditions: {} })).rejects.toThrow('at least one condition');
+    await expect(engine.createRule('client-a', { name: 'Bad sink', conditions: { symbols: ['NVDA'] }, sinks: ['sms' as AlertSinkType] }))
+      .rejects.toThrow('Unknown alert sink');
+    await expect(engine.createRule('client-a', { name: 'Bad url', conditions: { symbols: ['NVDA'] }, webhookUrl: 'ftp://example.com' }))
+      .rejects.toThrow('http or https');
+    await expect(engine.createRule('client-a', { name: 'Metadata', conditions: { symbols: ['NVDA'] }, webhookUrl: 'http://169.254.169.254/latest' }))
+      .rejects.toThrow('local or private address');
+
+    const rule = await engine.createRule('client-a', { name: 'NVDA', conditions: { symbols: ['$nvda'] } });
+    expect(rule).toMatchObject({ conditions: { symbols: ['NVDA'] }, sinks: ['mcp'], enabled: true });
+  });
+
+  it('fires once per story and records the alert', async () => {
+    await engine.createRule('client-a', { name: 'NVDA earnings', conditions: { symbols: ['NVDA'], minRelevance: 80 } });
+
+    const fired = await engine.evaluate([item('reuters-1'), item('other', { symbols: ['XOM'] })]);
+
+    expect(fired).toHaveLength(1);
+    expect(mcpSink.delivered).toHaveLength(1);
+    expect(fired[0].deliveries).toEqual([{ sink: 'mcp', delivered: true }]);
+    expect(await engine.getHistory('client-a')).toHaveLength(1);
+  });
+
+  it('does not fire again for the same item or another source covering the same story', async () => {
+    await engine.createRule('client-a', { name: 'NVDA', conditions: { symbols: ['NVDA'] } });
+
+    await engine.evaluate([item('reuters-1')]);
+    const repeated = await engine.evaluate([
+      item('reuters-1'),
+      item('marketwatch-1', {
+        sourceDetails: { name: 'MarketWatch RSS' },
+        title: 'Nvidia beats revenue estimates as data center demand surges'
+      })
+    ]);
+
+    expect(repeated).toEqual([]);
+    expect(mcpSink.delivered).toHaveLength(1);
+  });
+
+  it('fires separately for distinct stories and for each rule', async () => {
+    await engine.createRule('client-a', { name: 'NVDA', conditions: { symbols: ['NVDA'] } });
+    await engine.createRule('client-b', { name: 'Earnings', conditions: { marketTags: ['earnings'] } });
+
+    const fired = await engine.evaluate([
+      item('story-1'),
+      item('story-2', { title: 'Nvidia unveils new Blackwell chips at developer conference', content: 'New GPU lineup.' })
+    ]);
+
+    expect(fired).toHaveLength(4);
+    expect(new Set(fired.map(alert => alert.clientId))).toEqual(new Set(['client-a', 'client-b']));
+  });
+
+  it('records failed deliveries without stopping other sinks', async () => {
+    await engine.createRule('client-a', {
+      name: 'NVDA',
+      conditions: { symbols: ['NVDA'] },
+      sinks: ['webhook', 'mcp', 'file'],
+      webhookUrl: 'https://example.com/hook'
+    });
+
+    const [alert] = await engine.evaluate([item('reuters-1')]);
+
+    expect(alert.deliveries).toEqual([
+      { sink: 'webhook', delivered: false, error: 'connect ECONNREFUSED' },
+      { sink: 'mcp', delivered: true },
+      { sink: 'file', delivered: false, error: 'Sink not configured' }
+    ]);
+  });
+
+  it('skips disabled rules and items published well before the rule existed', async () => {
+    await engine.createRule('client-a', { name: 'Off', conditions: { symbols: ['NVDA'] }, enabled: false });
+    await engine.createRule('client-a', { name: 'On', conditions: { symbols: ['NVDA'] } });
+
+    const old = new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString();
+    const fired = await engine.evaluate([item('old', { timestamp: old })]);
+
+    expect(fired).toEqual([]);
+  });
+
+  it('keeps rules separate per client', async () => {
+    const rule = await engine.createRule('client-a', { name: 'NVDA', conditions: { symbols: ['NVDA'] } });
+
+    expect(await engine.listRules('client-b')).toEqual([]);
+    await expect(engine.deleteRule('client-b', rule.id)).rejects.toThrow('not found');
+    await engine.deleteRule('client-a', rule.id);
+    expect(await engine.listRules('client-a')).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import { ArticleExtractor } from '../../../src/services/articleExtractor';
+
+function page(name: string): string {
+  return fs.readFileSync(path.join(__dirname, '../../fixtures/articles', `${name}.html`), 'utf8');
+}
+
+describe('ArticleExtractor', () => {
+  const extractor = new ArticleExtractor();
+
+  it('reads the story paragraphs of the <article> element and drops boilerplate', () => {
+    const article = extractor.extract(page('marketwatch-story'));
+
+    expect(article.method).toBe('article');
+    expect(article.paywalled).toBe(false);
+    expect(article.text.split('\n\n')).toEqual([
+      'Shares of Nvidia Corp. rose 4% in premarket trading on Friday after the chip maker reported record data-center revenue of $18.4 billion, well ahead of what analysts had expected.',
+      '“Demand for accelerated computing keeps outrunning supply,” Chief Executive Jensen Huang told analysts, adding that the company’s next-generation Blackwell chips would ship later this year.',
+      'The results lifted other semiconductor stocks, with Advanced Micro Devices Inc. up 2% and the PHLX Semiconductor Index on pace for its best week since November.',
+      'Some analysts cautioned that the valuation leaves little room for error — Nvidia trades at about 35 times forward earnings & any slowdown in cloud spending could weigh on the stock.'
+    ]);
+    expect(article.wordCount).toBe(ArticleExtractor.countWords(article.text));
+  });
+
+  it('prefers the articleBody of schema.org structured data', () => {
+    const article = extractor.extract(page('reuters-jsonld'));
+
+    expect(article.method).toBe('json-ld');
+    expect(article.paywalled).toBe(false);
+    expect(article.text.split('\n\n')).toHaveLength(3);
+    expect(article.text).toContain('still needed "greater confidence" that inflation');
+    expect(article.text).not.toContain('Trust Principles');
+  });
+
+  it('falls back to page paragraphs that are long enough and not mostly links', () => {
+    const article = extractor.extract(page('blog-no-article'));
+
+    expect(article.method).toBe('paragraphs');
+    expect(article.text.split('\n\n').map(paragraph => paragraph.slice(0, 20))).toEqual([
+      'The Russell 2000 has',
+      'Higher borrowing cos',
+      'Until the Fed starts'
+    ]);
+    expect(article.text).toContain('S&P 500');
+  });
+
+  it('trusts isAccessibleForFree when the page declares it', () => {
+    const article = extractor.extract(page('ft-paywalled'));
+
+    expect(article.paywalled).toBe(true);
+    expect(article.text).toContain('The European Central Bank has signalled');
+    expect(article.text).not.toContain('Subscribe to unlock');
+  });
+
+  it('spots paywall containers and subscribe prompts on pages without structured data', () => {
+    const article = extractor.extract(page('metered-paywall'));
+
+    expect(article.paywalled).toBe(true);
+    expect(article.text).toBe('Treasury yields rose for a third day on Tuesday as investors made room for a $42 billion sale of 10-year notes.');
+    expect(article.wordCount).toBe(21);
+  });
+
+  it('ends paragraphs at the next block when the page leaves out </p>', () => {
+    const sentence = (n: number) => `Paragraph ${n} explains how the central bank weighed rate cuts against sticky inflation this week.`;
+    const html = `<html><body><main><h1>Rates</h1><p>${sentence(1)}<p>${sentence(2)}<div class="related"><a href="/x">Related story</a></div><p>${sentence(3)}</main></body></html>`;
+
+    expect(extractor.extract(html).text.split('\n\n')).toEqual([sentence(1), sentence(2), sentence(3)]);
+  });
+
+  it('reads large pages without closing tags in linear time', () => {
+    const paragraph = '<p>Shares of chip makers rose on Friday after record data-center revenue lifted the sector. ';
+    const html = `<html><body><article>${paragraph.repeat(9000)}`;
+
+    const started = Date.now();
+    const article = extractor.extract(html);
+
+    expect(article.method).toBe('article');
+    expect(article.text.split('\n\n')).toHaveLength(9000);
+    // The quadratic version took seconds on a page this size
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('counts the words of markup and plain text alike', () => {
+    expect(ArticleExtractor.countWords('<p>Stocks&nbsp;rose <b>sharply</b></p>\n<p>today.</p>')).toBe(4);
+    expect(ArticleExtractor.countWords('  ')).toBe(0);
+  });
+});
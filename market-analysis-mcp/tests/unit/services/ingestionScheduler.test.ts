@@ -0,0 +1,190 @@
+import * as winston from 'winston';
+import { IngestionCycle, IngestionScheduler } from '../../../src/services/ingestionScheduler';
+import { NewsService } from '../../../src/services/newsService';
+import { PodcastService } from '../../../src/services/podcastService';
+import { GmailService } from '../../../src/services/gmailService';
+import { RelevanceScorer } from '../../../src/services/relevanceScorer';
+import { SymbolResolver } from '../../../src/services/symbolResolver';
+import { SentimentEngine } from '../../../src/services/sentiment/sentimentEngine';
+import { CacheManager } from '../../../src/utils/cache';
+import { RateLimiter } from '../../../src/utils/rateLimiter';
+import { SourcePoll } from '../../../src/services/BaseService';
+import { MarketDataItem, NewsSource, SourceFetchState } from '../../../src/types/marketData';
+
+const source: NewsSource = {
+  name: 'MarketWatch RSS',
+  type: 'rss',
+  endpoint: 'https://example.com/rss',
+  rateLimit: '60/hour',
+  enabled: true
+};
+
+function makeItem(id: string): MarketDataItem {
+  return {
+    id,
+    source: 'news',
+    sourceDetails: { name: source.name },
+    timestamp: new Date().toISOString(),
+    title: 'AAPL earnings beat expectations',
+    content: 'Apple stock rallies after strong quarterly earnings.',
+    summary: '',
+    relevanceScore: 0,
+    marketTags: []
+  };
+}
+
+const fetchState: SourceFetchState = {
+  sourceKey: 'news-MarketWatch RSS',
+  url: source.endpoint,
+  lastGuid: 'item-2',
+  updatedAt: '2024-03-15T14:30:00.000Z'
+};
+
+describe('IngestionScheduler', () => {
+  let cache: CacheManager;
+  let collect: jest.Mock<Promise<SourcePoll>, [string, string]>;
+  let sources: NewsSource[];
+  let scheduler: IngestionScheduler;
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+
+    collect = jest.fn(async (_name: string, _timeframe: string) => ({ items: [makeItem('item-1'), makeItem('item-2')], fetchState }));
+
+    sources = [source];
+    const newsService = {
+      getEnabledSources: () => sources,
+      getSourceKey: (s: NewsSource) => `news-${s.name}`,
+      collectFromSource: collect
+    } as unknown as NewsService;
+    const podcastService = { getEnabledSources: () => [] } as unknown as PodcastService;
+    const gmailService = { isAvailable: () => false } as unknown as GmailService;
+    const rateLimiter = { parseRateLimit: RateLimiter.prototype.parseRateLimit } as unknown as RateLimiter;
+    const symbolResolver = new SymbolResolver({ version: 1, symbols: [] });
+    const scorer = new RelevanceScorer({
+      marketKeywords: { high: ['earnings'], medium: ['stock'], low: ['news'] },
+      weights: { marketKeywords: 30, stockSymbols: 25, sourceAuthority: 25, recency: 20 }
+    }, symbolResolver, SentimentEngine.create(symbolResolver));
+    const logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+
+    scheduler = new IngestionScheduler(newsService, podcastService, gmailService, scorer, cache, rateLimiter, logger);
+  });
+
+  afterEach(async () => {
+    scheduler.stop();
+    await cache.close();
+  });
+
+  it('builds one job per enabled source', () => {
+    const jobs = scheduler.getJobs();
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({ sourceKey: 'news-MarketWatch RSS', sourceType: 'news', rateLimit: '60/hour' });
+  });
+
+  it('stores scored items and records a fresh ingestion state', async () => {
+    await scheduler.runJob(scheduler.getJobs()[0]);
+
+    const items = await cache.getItems({ sourceName: source.name });
+    expect(items.map(item => item.id).sort()).toEqual(['item-1', 'item-2']);
+    expect(items[0].relevanceScore).toBeGreaterThan(0);
+
+    const state = await cache.getIngestionState('news-MarketWatch RSS');
+    expect(state).toMatchObject({ status: 'ok', itemCount: 2 });
+    expect(new Date(state!.freshUntil!).getTime()).toBeGreaterThan(Date.now());
+    expect(await cache.getFetchState('news-MarketWatch RSS')).toMatchObject({ lastGuid: 'item-2' });
+  });
+
+  it('keeps the previous poll state when the items cannot be stored', async () => {
+    jest.spyOn(cache, 'storeItems').mockRejectedValueOnce(new Error('SQLITE_FULL: database or disk is full'));
+
+    await scheduler.runJob(scheduler.getJobs()[0]);
+
+    expect(await cache.getIngestionState('news-MarketWatch RSS')).toMatchObject({ status: 'error' });
+    expect(await cache.getFetchState('news-MarketWatch RSS')).toBeUndefined();
+  });
+
+  it('keeps the previous success window when a run fails', async () => {
+    const job = scheduler.getJobs()[0];
+    await scheduler.runJob(job);
+    const before = await cache.getIngestionState(job.sourceKey);
+
+    collect.mockRejectedValueOnce(new Error('ENOTFOUND example.com'));
+    await scheduler.runJob(job);
+
+    const after = await cache.getIngestionState(job.sourceKey);
+    expect(after).toMatchObject({
+      status: 'error',
+      error: 'ENOTFOUND example.com',
+      errorCode: 'DNS_RESOLUTION_FAILED',
+      lastSuccessAt: before!.lastSuccessAt,
+      freshUntil: before!.freshUntil,
+      itemCount: 2
+    });
+  });
+
+  it('notifies cycle listeners with the scored items', async () => {
+    const cycles: IngestionCycle[] = [];
+    scheduler.onCycle(cycle => {
+      cycles.push(cycle);
+    });
+
+    await scheduler.runJob(scheduler.getJobs()[0]);
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].items).toHaveLength(2);
+    expect(cycles[0].state.status).toBe('ok');
+  });
+
+  it('shares one run between concurrent requests for the same source', async () => {
+    const job = scheduler.getJobs()[0];
+    await Promise.all([scheduler.runJob(job), scheduler.runJob(job)]);
+
+    expect(collect).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the next poll of a run that outlives a reschedule', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      let finish!: (poll: SourcePoll) => void;
+      collect.mockImplementationOnce(() => new Promise(resolve => {
+        finish = resolve;
+      }));
+
+      scheduler.start();
+      jest.advanceTimersByTime(0);
+      // The run reads its previous state from the store before collecting
+      while (collect.mock.calls.length === 0) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      // The source was removed while its run was still collecting
+      sources = [];
+      scheduler.reschedule();
+      finish({ items: [makeItem('item-1')] });
+      await (scheduler as any).running.get('news-MarketWatch RSS');
+      await Promise.resolve();
+
+      expect(jest.getTimerCount()).toBe(0);
+      expect(scheduler.getNextRun('news-MarketWatch RSS')).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('never polls faster than the rate limit budget allows', () => {
+    const job = { ...scheduler.getJobs()[0], rateLimit: '10/day' };
+
+    // 10 requests a day at half the budget is one run every 288 minutes
+    expect(scheduler.getIntervalMinutes(job)).toBeCloseTo(288);
+  });
+
+  it('polls news faster during market hours', () => {
+    const job = scheduler.getJobs()[0];
+    const marketHours = new Date('2024-03-06T16:00:00Z'); // Wednesday 11:00 ET
+    const overnight = new Date('2024-03-06T03:00:00Z');
+
+    expect(scheduler.getIntervalMinutes(job, marketHours)).toBeLessThan(scheduler.getIntervalMinutes(job, overnight));
+  });
+});
@@ -0,0 +1,132 @@
+import * as winston from 'winston';
+import { MarketResourceService, ResourceSubscriber } from '../../../src/services/marketResourceService';
+import { WatchlistService } from '../../../src/services/watchlistService';
+import { CacheManager } from '../../../src/utils/cache';
+import { MarketDataItem, MarketSnapshot } from '../../../src/types/marketData';
+
+class RecordingSubscriber implements ResourceSubscriber {
+  updates: string[] = [];
+
+  async sendResourceUpdated(params: { uri: string }): Promise<void> {
+    this.updates.push(params.uri);
+  }
+}
+
+const item = (id: string, overrides: Partial<MarketDataItem> = {}): MarketDataItem => ({
+  id,
+  source: 'news',
+  sourceDetails: { name: 'Reuters API' },
+  timestamp: new Date().toISOString(),
+  title: `Headline ${id}`,
+  content: '',
+  summary: '',
+  relevanceScore: 50,
+  marketTags: [],
+  symbols: [],
+  ...overrides
+});
+
+describe('MarketResourceService', () => {
+  let cache: CacheManager;
+  let watchlists: WatchlistService;
+  let resources: MarketResourceService;
+  let snapshotBuilds: number;
+
+  const read = async (uri: string, clientId = 'alice') => JSON.parse((await resources.read(uri, clientId)).text);
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+    const logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+    watchlists = new WatchlistService(cache, logger);
+    snapshotBuilds = 0;
+    resources = new MarketResourceService(
+      cache,
+      watchlists,
+      items => {
+        snapshotBuilds++;
+        return { summary: `${items.length} items`, stories: [], keyEvents: items, crossSourcePatterns: [], alertItems: [],
+          sourceBreakdown: { news: 0, podcasts: 0, emails: 0 } } as MarketSnapshot;
+      },
+      logger
+    );
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('round-trips resource uris with encoded names', () => {
+    const uri = MarketResourceService.sourceUri('MarketWatch RSS');
+
+    expect(uri).toBe('market://source/MarketWatch%20RSS/latest');
+    expect(MarketResourceService.parseUri(uri)).toEqual({ kind: 'source', name: 'MarketWatch RSS' });
+    expect(MarketResourceService.parseUri('market://snapshot/latest')).toEqual({ kind: 'snapshot' });
+    expect(MarketResourceService.parseUri('market://item/a%2Fb')).toEqual({ kind: 'item', id: 'a/b' });
+    expect(MarketResourceService.parseUri('market://unknown/thing')).toBeNull();
+    expect(MarketResourceService.parseUri('market-analysis://schemas/news')).toBeNull();
+  });
+
+  it('reads items, source feeds and the latest snapshot from the store', async () => {
+    await cache.storeItems([item('n1'), item('n2', { sourceDetails: { name: 'Bloomberg' } })]);
+
+    expect(await read(MarketResourceService.itemUri('n1'))).toMatchObject({ id: 'n1' });
+    expect((await read(MarketResourceService.sourceUri('Bloomberg'))).items.map((entry: MarketDataItem) => entry.id))
+      .toEqual(['n2']);
+    expect(await read('market://snapshot/latest')).toMatchObject({ itemCount: 2, snapshot: { summary: '2 items' } });
+    await expect(resources.read(MarketResourceService.itemUri('missing'), 'alice')).rejects.toThrow('not in the item store');
+  });
+
+  it('scopes watchlist resources to their owner', async () => {
+    await watchlists.create('alice', 'chips', ['NVDA']);
+    await cache.storeItems([item('n1', { symbols: ['NVDA'] }), item('n2', { symbols: ['AAPL'] })]);
+
+    const watchlist = await read(MarketResourceService.watchlistUri('chips'));
+    expect(watchlist.items.map((entry: MarketDataItem) => entry.id)).toEqual(['n1']);
+    await expect(resources.read(MarketResourceService.watchlistUri('chips'), 'bob')).rejects.toThrow('not found');
+    expect((await resources.list('alice')).map(resource => resource.uri)).toContain('market://watchlist/chips');
+    expect((await resources.list('bob')).map(resource => resource.uri)).not.toContain('market://watchlist/chips');
+  });
+
+  it('notifies subscribers of the resources a cycle changed', async () => {
+    await watchlists.create('alice', 'chips', ['NVDA']);
+    const alice = new RecordingSubscriber();
+    const bob = new RecordingSubscriber();
+    resources.subscribe(alice, 'alice', 'market://snapshot/latest');
+    resources.subscribe(alice, 'alice', 'market://items/high-relevance');
+    resources.subscribe(alice, 'alice', MarketResourceService.watchlistUri('chips'));
+    resources.subscribe(bob, 'bob', MarketResourceService.sourceUri('Bloomberg'));
+
+    const items = [item('n1', { symbols: ['AAPL'] })];
+    await cache.storeItems(items);
+    await resources.publish(items, 'Reuters API');
+
+    expect(alice.updates).toEqual(['market://snapshot/latest']);
+    expect(bob.updates).toEqual([]);
+    expect(snapshotBuilds).toBe(1);
+
+    alice.updates = [];
+    await resources.publish([item('n2', { symbols: ['NVDA'], relevanceScore: 90 })], 'Reuters API');
+
+    expect(alice.updates.sort()).toEqual([
+      'market://items/high-relevance',
+      'market://snapshot/latest',
+      'market://watchlist/chips'
+    ]);
+  });
+
+  it('stops notifying after unsubscribe and when the session is forgotten', async () => {
+    const subscriber = new RecordingSubscriber();
+    resources.subscribe(subscriber, 'alice', 'market://snapshot/latest');
+    resources.subscribe(subscriber, 'alice', MarketResourceService.itemUri('n1'));
+    resources.unsubscribe(subscriber, 'market://snapshot/latest');
+
+    await resources.publish([item('n1')], 'Reuters API');
+    expect(subscriber.updates).toEqual(['market://item/n1']);
+
+    resources.forget(subscriber);
+    await resources.publish([item('n1')], 'Reuters API');
+    expect(subscriber.updates).toEqual(['market://item/n1']);
+    expect(() => resources.subscribe(subscriber, 'alice', 'market://nope')).toThrow('unknown resource');
+  });
+});
@@ -0,0 +1,157 @@
+import { MorningBriefBuilder } from '../../../src/services/morningBriefBuilder';
+import { MarketDataItem } from '../../../src/types/marketData';
+import { TimeUtils } from '../../../src/utils/timeUtils';
+
+function makeItem(overrides: Partial<MarketDataItem> & { id: string; title: string }): MarketDataItem {
+  return {
+    source: 'news',
+    sourceDetails: { name: 'Reuters API' },
+    timestamp: '2024-03-06T02:00:00.000Z',
+    content: '',
+    summary: '',
+    relevanceScore: 50,
+    marketTags: [],
+    symbols: [],
+    ...overrides
+  };
+}
+
+describe('MorningBriefBuilder', () => {
+  // Wednesday 07:30 ET
+  const now = new Date('2024-03-06T12:30:00.000Z');
+  const window = {
+    start: TimeUtils.getPreviousMarketClose(now),
+    end: now,
+    nextMarketOpen: TimeUtils.getNextMarketOpen(now)
+  };
+
+  const items: MarketDataItem[] = [
+    makeItem({
+      id: 'fed-reuters',
+      title: 'Powell signals Fed rate cuts are coming later this year',
+      content: 'Federal Reserve chair testimony',
+      relevanceScore: 88,
+      sentiment: 'positive',
+      symbols: ['SPY']
+    }),
+    makeItem({
+      id: 'fed-email',
+      source: 'email',
+      sourceDetails: { name: 'Morning Brew' },
+      title: 'Powell signals Fed rate cuts coming later this year',
+      relevanceScore: 70,
+      sentiment: 'positive'
+    }),
+    makeItem({
+      id: 'nvda',
+      title: 'NVDA jumps after hours on record data center revenue',
+      content: 'Shares rose in extended trading after earnings.',
+      relevanceScore: 84,
+      sentiment: 'positive',
+      symbols: ['NVDA']
+    }),
+    makeItem({
+      id: 'cpi',
+      title: 'CPI report due at 8:30 ET expected to show cooling inflation',
+      relevanceScore: 74,
+      sentiment: 'neutral'
+    }),
+    makeItem({
+      id: 'tsla',
+      title: 'TSLA recalls vehicles over software defect',
+      relevanceScore: 55,
+      sentiment: 'negative',
+      symbols: ['TSLA']
+    }),
+    makeItem({
+      id: 'stale',
+      title: 'Yesterday midday market update',
+      timestamp: '2024-03-05T17:00:00.000Z', // Before the previous close
+      relevanceScore: 95
+    })
+  ];
+
+  let builder: MorningBriefBuilder;
+
+  beforeEach(() => {
+    builder = new MorningBriefBuilder();
+  });
+
+  it('covers only items published since the previous close', () => {
+    const brief = builder.build(items, window);
+
+    expect(brief.windowStart).toBe('2024-03-05T21:00:00.000Z');
+    expect(brief.nextMarketOpen).toBe('2024-03-06T14:30:00.000Z');
+    expect(brief.itemCount).toBe(5);
+    expect(brief.storyCount).toBe(4);
+    expect(brief.alerts.map(story => story.id)).not.toContain('stale');
+  });
+
+  it('splits stories into alerts and key events by relevance', () => {
+    const brief = builder.build(items, window);
+
+    expect(brief.alerts.map(story => story.id)).toEqual(['fed-reuters', 'nvda']);
+    expect(brief.keyEvents.map(story => story.id)).toEqual(['cpi']);
+  });
+
+  it('counts the sentiment split over every overnight item', () => {
+    const brief = builder.build(items, window);
+
+    expect(brief.sentiment).toEqual({ positive: 3, negative: 1, neutral: 1 });
+  });
+
+  it('reports activity for each priority symbol, including ones without coverage', () => {
+    const brief = builder.build(items, window, ['nvda', 'TSLA', 'AAPL']);
+
+    expect(brief.prioritySymbols).toEqual([
+      expect.objectContaining({ symbol: 'NVDA', storyCount: 1, sentiment: 'positive' }),
+      expect.objectContaining({ symbol: 'TSLA', storyCount: 1, sentiment: 'negative' }),
+      { symbol: 'AAPL', storyCount: 0, itemCount: 0 }
+    ]);
+  });
+
+  it('flags time-sensitive stories by category', () => {
+    const brief = builder.build(items, window);
+
+    expect(brief.timeSensitive.map(entry => [entry.story.id, entry.category])).toEqual([
+      ['fed-reuters', 'fed'],
+      ['nvda', 'earnings'],
+      ['cpi', 'economic-data']
+    ]);
+  });
+
+  it('renders every section in a fixed order', () => {
+    const text = builder.format(builder.build(items, window, ['NVDA']));
+    const headers = text.split('\n').filter(line => line.startsWith('## '));
+
+    expect(headers).toEqual([
+      '## 📝 Executive Summary',
+      '## 🚨 Top 5 Alerts (80+ relevance)',
+      '## 💭 Market Sentiment',
+      '## 📈 Key Events (70+ relevance)',
+      '## 📍 Priority Symbols Activity',
+      '## ⏰ Time-Sensitive Items'
+    ]);
+  });
+
+  it('produces identical output for identical input regardless of item order', () => {
+    const first = builder.format(builder.build(items, window, ['NVDA']));
+    const second = builder.format(builder.build([...items].reverse(), window, ['NVDA']));
+
+    expect(second).toBe(first);
+  });
+
+  it('still renders every section when nothing happened overnight', () => {
+    const text = builder.format(builder.build([], window));
+
+    expect(text).toContain('No market-moving coverage since the previous close.');
+    expect(text).toContain('No critical alerts overnight.');
+    expect(text).toContain('Nothing scheduled or moving before the open.');
+  });
+
+  it('reaches back to Friday close on a Monday morning', () => {
+    const monday = new Date('2024-03-11T12:00:00.000Z');
+
+    expect(TimeUtils.getPreviousMarketClose(monday).toISOString()).toBe('2024-03-08T21:00:00.000Z');
+  });
+});
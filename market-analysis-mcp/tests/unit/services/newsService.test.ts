@@ -0,0 +1,198 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import * as winston from 'winston';
+import { NewsService } from '../../../src/services/newsService';
+import { CacheManager } from '../../../src/utils/cache';
+import { RateLimiter } from '../../../src/utils/rateLimiter';
+import { FullTextConfig, NewsSource } from '../../../src/types/marketData';
+
+const logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+const rateLimiter = { withRetry: (_key: string, _limit: string, operation: () => Promise<unknown>) => operation() } as unknown as RateLimiter;
+
+const FEED_URL = 'https://example.com/rss';
+
+const feed = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Markets</title>
+<item><title>Nvidia stock jumps</title><link>https://example.com/nvidia</link><guid>nvidia</guid>
+<pubDate>Fri, 15 Mar 2024 13:00:00 GMT</pubDate><description>Shares rose in premarket trading.</description></item>
+<item><title>ECB signals June cut</title><link>https://example.com/ecb</link><guid>ecb</guid>
+<pubDate>Fri, 15 Mar 2024 12:00:00 GMT</pubDate><description>The ECB is ready to cut rates.</description></item>
+<item><title>Yields climb</title><link>https://example.com/yields</link><guid>yields</guid>
+<pubDate>Fri, 15 Mar 2024 11:00:00 GMT</pubDate><description>Treasury yields rose for a third day.</description></item>
+</channel></rss>`;
+
+const pages: Record<string, string> = {
+  'https://example.com/nvidia': 'marketwatch-story',
+  'https://example.com/ecb': 'ft-paywalled',
+  'https://example.com/yields': 'metered-paywall'
+};
+
+describe('NewsService full article text', () => {
+  let cache: CacheManager;
+  let get: jest.SpyInstance;
+
+  const collect = (fullText?: FullTextConfig) => {
+    const source: NewsSource = { name: 'Markets RSS', type: 'rss', endpoint: FEED_URL, rateLimit: '60/hour', enabled: true, fullText };
+    return new NewsService({ sources: [source] }, cache, rateLimiter, logger, {}).collectFromSource('Markets RSS').then(poll => poll.items);
+  };
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+    get = jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      if (url === FEED_URL) return { status: 200, headers: {}, data: feed };
+      const fixture = pages[url];
+      if (!fixture) throw new Error(`Request failed with status code 404`);
+      return { status: 200, headers: {}, data: fs.readFileSync(path.join(__dirname, '../../fixtures/articles', `${fixture}.html`), 'utf8') };
+    });
+  });
+
+  afterEach(async () => {
+    get.mockRestore();
+    await cache.close();
+  });
+
+  it('replaces snippets with the article text and keeps the snippet of paywalled pages', async () => {
+    const [nvidia, ecb, yields] = await collect({ enabled: true });
+
+    expect(nvidia.content).toMatch(/^Shares of Nvidia Corp\. rose 4%/);
+    expect(nvidia.content.split('\n\n')).toHaveLength(4);
+    expect(nvidia.summary).toMatch(/^Shares of Nvidia Corp/);
+    expect(nvidia.extraction).toMatchObject({ method: 'article', paywalled: false, wordCount: expect.any(Number) });
+    expect(nvidia.extraction!.wordCount).toBeGreaterThan(80);
+
+    expect(ecb.content).toBe('The ECB is ready to cut rates.');
+    expect(ecb.extraction).toMatchObject({ paywalled: true });
+    expect(yields.content).toBe('Treasury yields rose for a third day.');
+    expect(yields.extraction).toMatchObject({ paywalled: true, wordCount: 21 });
+  });
+
+  it('fetches no more pages per poll than maxArticles', async () => {
+    const items = await collect({ enabled: true, maxArticles: 1 });
+
+    expect(get.mock.calls.map(call => call[0])).toEqual([FEED_URL, 'https://example.com/nvidia']);
+    expect(items.map(item => Boolean(item.extraction))).toEqual([true, false, false]);
+  });
+
+  it('leaves sources without fullText, and feeds shipping enough text, alone', async () => {
+    expect((await collect()).every(item => !item.extraction)).toBe(true);
+    await cache.close();
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+    expect((await collect({ enabled: true, minWords: 6 })).filter(item => item.extraction).map(item => item.id)).toEqual(['nvidia']);
+    expect(get.mock.calls.filter(call => call[0] !== FEED_URL)).toHaveLength(1);
+  });
+
+  it('reads only public, bounded HTML pages', async () => {
+    get.mockImplementation(async (url: string) => {
+      if (url === FEED_URL) return { status: 200, headers: {}, data: feed.replace('https://example.com/ecb', 'http://169.254.169.254/latest/meta-data') };
+      if (url === 'https://example.com/nvidia') return { status: 200, headers: { 'content-type': 'application/pdf' }, data: '%PDF-1.7' };
+      return { status: 200, headers: { 'content-type': 'text/html; charset=utf-8' }, data: fs.readFileSync(path.join(__dirname, '../../fixtures/articles', `${pages[url]}.html`), 'utf8') };
+    });
+
+    const [nvidia, ecb, yields] = await collect({ enabled: true });
+
+    expect(get.mock.calls.map(call => call[0])).toEqual([FEED_URL, 'https://example.com/nvidia', 'https://example.com/yields']);
+    expect(get.mock.calls[1][1]).toMatchObject({ maxContentLength: 2 * 1024 * 1024 });
+    expect([nvidia.extraction, ecb.extraction]).toEqual([undefined, undefined]);
+    expect(yields.extraction).toMatchObject({ paywalled: true });
+  });
+
+  it('reads pages side by side and keeps the snippets of those not read within the budget', async () => {
+    get.mockImplementation(async (url: string, config: { signal: AbortSignal }) => {
+      if (url === FEED_URL) return { status: 200, headers: {}, data: feed };
+      if (url === 'https://example.com/nvidia') {
+        return { status: 200, headers: {}, data: fs.readFileSync(path.join(__dirname, '../../fixtures/articles', 'marketwatch-story.html'), 'utf8') };
+      }
+      // Slow sites answer only when the request is aborted
+      return new Promise((_, reject) => config.signal.addEventListener('abort', () => reject(new axios.CanceledError())));
+    });
+    const source: NewsSource = { name: 'Markets RSS', type: 'rss', endpoint: FEED_URL, rateLimit: '60/hour', enabled: true, fullText: { enabled: true } };
+    const service = new NewsService({ sources: [source] }, cache, rateLimiter, logger, {});
+    service.configureFetching({ concurrency: 4, sourceTimeoutMs: 200 });
+
+    const { items, fetchState } = await service.collectFromSource('Markets RSS');
+
+    expect(get).toHaveBeenCalledTimes(4);
+    expect(items.map(item => [item.id, item.extraction?.method])).toEqual([['nvidia', 'article'], ['ecb', undefined], ['yields', undefined]]);
+    expect(items[2].content).toBe('Treasury yields rose for a third day.');
+    expect(fetchState).toMatchObject({ lastGuid: 'nvidia' });
+  });
+
+  it('keeps the feed item when the page cannot be read', async () => {
+    get.mockImplementation(async (url: string) => {
+      if (url === FEED_URL) return { status: 200, headers: {}, data: feed };
+      throw new Error('timeout of 8000ms exceeded');
+    });
+
+    const items = await collect({ enabled: true });
+
+    expect(items.map(item => [item.id, item.content, item.extraction])).toEqual([
+      ['nvidia', 'Shares rose in premarket trading.', undefined],
+      ['ecb', 'The ECB is ready to cut rates.', undefined],
+      ['yields', 'Treasury yields rose for a third day.', undefined]
+    ]);
+  });
+});
+
+describe('NewsService symbol queries', () => {
+  const POLYGON_URL = 'https://api.polygon.io/v2/reference/news';
+  const source: NewsSource = { name: 'Polygon', type: 'api', endpoint: POLYGON_URL, rateLimit: '60/minute', enabled: true, adapter: { preset: 'polygon' } };
+  const article = (id: string) => ({ id, title: `Nvidia story ${id}`, article_url: `https://example.com/${id}`, published_utc: new Date().toISOString(), tickers: ['NVDA'] });
+
+  let cache: CacheManager;
+  let get: jest.SpyInstance;
+  let withRateLimit: jest.Mock;
+  let service: NewsService;
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+    // Ingested recently, so only the symbol query goes out live
+    await cache.saveIngestionState({
+      sourceKey: 'news-Polygon',
+      sourceType: 'news',
+      sourceName: 'Polygon',
+      lastAttemptAt: new Date().toISOString(),
+      freshUntil: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      status: 'ok',
+      itemCount: 0
+    });
+
+    get = jest.spyOn(axios, 'get').mockImplementation(async (url: string) => url === POLYGON_URL
+      ? { status: 200, headers: {}, data: { results: [article('p1')], next_url: `${POLYGON_URL}?cursor=2` } }
+      : { status: 200, headers: {}, data: { results: [article('p2')] } });
+    withRateLimit = jest.fn((_key: string, _limit: string, operation: () => Promise<unknown>) => operation());
+    service = new NewsService(
+      { sources: [source] },
+      cache,
+      { ...rateLimiter, withRateLimit } as unknown as RateLimiter,
+      logger,
+      { polygon: 'polygon-test-key-123' }
+    );
+  });
+
+  afterEach(async () => {
+    get.mockRestore();
+    await cache.close();
+  });
+
+  it('counts every page against the rate limit and caches the answer per symbol set', async () => {
+    const first = await service.getNews('24h', ['NVDA']);
+
+    expect(first).toMatchObject({ success: true, cached: false });
+    expect(first.data!.map(item => item.id).sort()).toEqual(['polygon-p1', 'polygon-p2']);
+    expect(get).toHaveBeenCalledTimes(2);
+    // The fetch attempt takes the token of the first page
+    expect(withRateLimit).toHaveBeenCalledTimes(1);
+
+    const second = await service.getNews('24h', ['NVDA']);
+    expect(second).toMatchObject({ success: true, cached: true });
+    expect(second.sourceOutcomes).toMatchObject([{ source: 'Polygon', status: 'stored', itemCount: 2 }]);
+    expect(get).toHaveBeenCalledTimes(2);
+
+    await service.getNews('24h', ['AMD']);
+    expect(get).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,81 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PromptLibrary } from '../../../src/services/promptLibrary';
+import { PromptManifest } from '../../../src/types/prompts';
+
+describe('PromptLibrary', () => {
+  const manifest: PromptManifest = {
+    version: 1,
+    prompts: [
+      {
+        name: 'brief',
+        description: 'Morning brief',
+        template: 'prompts/brief.md',
+        arguments: [
+          { name: 'watchlist', type: 'watchlist', description: 'Watchlist' },
+          { name: 'timeframe', type: 'timeframe', description: 'Window', enum: ['1h', '6h'], default: '6h' }
+        ]
+      },
+      {
+        name: 'dive',
+        description: 'Symbol deep dive',
+        template: 'prompts/dive.md',
+        arguments: [{ name: 'symbol', type: 'symbol', description: 'Ticker', required: true }]
+      }
+    ]
+  };
+  const templates = {
+    'prompts/brief.md': 'Snapshot for {{timeframe}}{{#watchlist}} using "{{watchlist}}"{{/watchlist}}{{^watchlist}} using the active watchlist{{/watchlist}}.\n',
+    'prompts/dive.md': 'Research {{symbol}}.'
+  };
+
+  const text = (library: PromptLibrary, name: string, args?: Record<string, string>) =>
+    library.render(name, args).messages[0].content.text;
+
+  it('fills in arguments, defaults and conditional sections', () => {
+    const library = new PromptLibrary(manifest, templates);
+
+    expect(text(library, 'brief')).toBe('Snapshot for 6h using the active watchlist.');
+    expect(text(library, 'brief', { watchlist: 'chips', timeframe: '1h' })).toBe('Snapshot for 1h using "chips".');
+  });
+
+  it('validates typed arguments', () => {
+    const library = new PromptLibrary(manifest, templates);
+
+    expect(text(library, 'dive', { symbol: '$nvda' })).toBe('Research NVDA.');
+    expect(() => library.render('dive')).toThrow('requires the "symbol" argument');
+    expect(() => library.render('dive', { symbol: 'not a ticker' })).toThrow('ticker symbol');
+    expect(() => library.render('brief', { timeframe: '30d' })).toThrow('one of: 1h, 6h');
+    expect(() => library.render('brief', { window: '1h' })).toThrow('does not accept window');
+    expect(() => library.render('missing')).toThrow('Unknown prompt');
+    // Clients see invalid params, not an internal error
+    expect(() => library.render('dive')).toThrow(expect.objectContaining({ code: ErrorCode.InvalidParams }));
+    expect(() => library.render('missing')).toThrow(McpError);
+  });
+
+  it('rejects templates that use undeclared arguments', () => {
+    expect(() => new PromptLibrary(manifest, { ...templates, 'prompts/dive.md': 'Research {{ticker}}.' }))
+      .toThrow('undeclared argument "ticker"');
+  });
+
+  it('rejects malformed manifests', () => {
+    expect(() => PromptLibrary.validate({ version: 1, prompts: [manifest.prompts[0], manifest.prompts[0]] }))
+      .toThrow('more than once');
+    expect(() => PromptLibrary.validate({
+      version: 1,
+      prompts: [{ ...manifest.prompts[1], template: '../secrets.md' }]
+    })).toThrow('inside the config directory');
+  });
+
+  it('loads the bundled workflow prompts', async () => {
+    const library = await PromptLibrary.load();
+
+    expect(library.list().map(prompt => prompt.name)).toEqual([
+      'morning_premarket_brief',
+      'midday_update',
+      'end_of_day_recap',
+      'symbol_deep_dive'
+    ]);
+    expect(text(library, 'morning_premarket_brief', { watchlist: 'core' })).toContain('watchlist "core"');
+    expect(text(library, 'symbol_deep_dive', { symbol: 'AAPL' })).toContain('query "AAPL" and timeframe "7d"');
+  });
+});
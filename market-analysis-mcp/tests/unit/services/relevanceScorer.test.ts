@@ -1,8 +1,15 @@
 import { RelevanceScorer, RelevanceConfig } from '../../../src/services/relevanceScorer';
+import { SymbolResolver } from '../../../src/services/symbolResolver';
+import { SentimentEngine } from '../../../src/services/sentiment/sentimentEngine';
 
 describe('RelevanceScorer', () => {
   let scorer: RelevanceScorer;
   let mockConfig: RelevanceConfig;
+  let symbolResolver: SymbolResolver;
+
+  beforeAll(async () => {
+    symbolResolver = await SymbolResolver.load();
+  });
 
   beforeEach(() => {
     mockConfig = {
@@ -18,7 +25,7 @@ describe('RelevanceScorer', () => {
         recency: 20
       }
     };
-    scorer = new RelevanceScorer(mockConfig);
+    scorer = new RelevanceScorer(mockConfig, symbolResolver, SentimentEngine.create(symbolResolver));
   });
 
   describe('constructor', () => {
@@ -114,6 +121,17 @@ describe('RelevanceScorer', () => {
       expect(result.symbols).not.toContain('ARE');
     });
 
+    it('should not treat acronyms as symbols and should resolve company names', () => {
+      const result = scorer.scoreContent(
+        'CEO says GDP and FED outlook in the USA lifts AI demand',
+        'Nvidia and Apple shares rose, with $TSLA lagging',
+        'Test Source',
+        new Date().toISOString()
+      );
+
+      expect(result.symbols).toEqual(['NVDA', 'AAPL', 'TSLA']);
+    });
+
     it('should give higher scores to recent content', () => {
       const recentTime = new Date().toISOString();
       const oldTime = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(); // 7 days ago
@@ -0,0 +1,128 @@
+import { SentimentEngine } from '../../../src/services/sentiment/sentimentEngine';
+import { LexiconSentimentAnalyzer } from '../../../src/services/sentiment/lexiconSentimentAnalyzer';
+import { ProviderSentimentAnalyzer } from '../../../src/services/sentiment/providerSentimentAnalyzer';
+import { SymbolResolver } from '../../../src/services/symbolResolver';
+import { ProviderSentiment } from '../../../src/types/marketData';
+
+describe('sentiment analysis', () => {
+  const resolver = new SymbolResolver({
+    version: 1,
+    symbols: [
+      { ticker: 'AAPL', name: 'Apple Inc.', aliases: ['Apple'] },
+      { ticker: 'INTC', name: 'Intel Corporation', aliases: ['Intel'] }
+    ]
+  });
+
+  describe('LexiconSentimentAnalyzer', () => {
+    const lexicon = new LexiconSentimentAnalyzer(resolver);
+    const score = (title: string, content = '') => lexicon.analyze({ title, content }).score;
+
+    it('matches whole words only', () => {
+      expect(lexicon.analyze({ title: 'Company posts quarterly update', content: 'Largest seller of widgets' }))
+        .toMatchObject({ score: 0, label: 'neutral' });
+    });
+
+    it('returns a score between -1 and 1 with the matching label', () => {
+      const bullish = lexicon.analyze({ title: 'Shares soar after earnings beat', content: '' });
+      const bearish = lexicon.analyze({ title: 'Shares plunge after guidance warning', content: '' });
+
+      expect(bullish.score).toBeGreaterThan(0.5);
+      expect(bullish.score).toBeLessThanOrEqual(1);
+      expect(bullish.label).toBe('positive');
+      expect(bearish.score).toBeLessThan(-0.5);
+      expect(bearish.label).toBe('negative');
+    });
+
+    it('flips negated sentiment words', () => {
+      expect(score('Results did not beat expectations')).toBeLessThan(0);
+      expect(score("Stock isn't falling")).toBeGreaterThan(0);
+    });
+
+    it('scales intensified and softened words', () => {
+      expect(score('Shares fell sharply')).toBeLessThan(score('Shares fell'));
+      expect(score('Shares rose slightly')).toBeLessThan(score('Shares rose'));
+      expect(score('Shares rose slightly')).toBeGreaterThan(0);
+    });
+
+    it('reads finance phrases as a unit', () => {
+      expect(score('Fed signals a rate cut')).toBeGreaterThan(0);
+      expect(score('Retailer cuts guidance')).toBeLessThan(0);
+    });
+
+    it('scores each symbol from the clauses that mention it', () => {
+      const result = lexicon.analyze({
+        title: 'Apple rallies while Intel plunges',
+        content: 'Apple beat estimates, sending shares sharply higher. Intel missed on revenue.'
+      });
+
+      const bySymbol = Object.fromEntries(result.symbols.map(entry => [entry.symbol, entry.label]));
+      expect(bySymbol).toEqual({ AAPL: 'positive', INTC: 'negative' });
+      expect(result.symbols.every(entry => entry.analyzer === 'lexicon')).toBe(true);
+    });
+  });
+
+  describe('ProviderSentimentAnalyzer', () => {
+    const analyzer = new ProviderSentimentAnalyzer();
+    const providerSentiment: ProviderSentiment = {
+      provider: 'alpha-vantage',
+      score: 0.32,
+      symbols: [
+        { symbol: 'AAPL', score: 0.41, relevance: 0.9 },
+        { symbol: 'INTC', score: -0.22, relevance: 0.4 }
+      ]
+    };
+
+    it('has no opinion without provider scores', () => {
+      expect(analyzer.analyze({ title: 'Apple rallies', content: '' })).toBeNull();
+    });
+
+    it('maps the overall and per-ticker scores', () => {
+      const result = analyzer.analyze({ title: '', content: '', providerSentiment });
+
+      expect(result).toMatchObject({ score: 0.32, label: 'positive', analyzer: 'alpha-vantage' });
+      expect(result!.symbols).toEqual([
+        { symbol: 'AAPL', score: 0.41, label: 'positive', analyzer: 'alpha-vantage' },
+        { symbol: 'INTC', score: -0.22, label: 'negative', analyzer: 'alpha-vantage' }
+      ]);
+    });
+
+    it('names results after whichever provider scored the article', () => {
+      const result = analyzer.analyze({
+        title: '',
+        content: '',
+        providerSentiment: { provider: 'marketaux', score: -1.4, symbols: [{ symbol: 'TSLA', score: -0.6, relevance: 12 }] }
+      });
+
+      expect(result).toMatchObject({ score: -1, label: 'negative', analyzer: 'marketaux' });
+      expect(result!.symbols).toEqual([{ symbol: 'TSLA', score: -0.6, label: 'negative', analyzer: 'marketaux' }]);
+    });
+  });
+
+  describe('SentimentEngine', () => {
+    it('prefers provider scores and fills other symbols from the lexicon', () => {
+      const engine = SentimentEngine.create(resolver);
+      const result = engine.analyze({
+        title: 'Apple rallies while Intel plunges',
+        content: '',
+        providerSentiment: { provider: 'alpha-vantage', score: 0.2, symbols: [{ symbol: 'AAPL', score: 0.5, relevance: 1 }] }
+      });
+
+      expect(result).toMatchObject({ score: 0.2, analyzer: 'alpha-vantage' });
+      expect(result!.symbols.map(entry => [entry.symbol, entry.analyzer])).toEqual([
+        ['AAPL', 'alpha-vantage'],
+        ['INTC', 'lexicon']
+      ]);
+    });
+
+    it('can ignore provider scores', () => {
+      const engine = SentimentEngine.create(resolver, { useProviderSentiment: false });
+      const result = engine.analyze({
+        title: 'Apple plunges',
+        content: '',
+        providerSentiment: { provider: 'alpha-vantage', score: 0.9, symbols: [] }
+      });
+
+      expect(result).toMatchObject({ label: 'negative', analyzer: 'lexicon' });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as winston from 'winston';
+import { SourceAdminService } from '../../../src/services/sourceAdminService';
+import { NewsService } from '../../../src/services/newsService';
+import { PodcastService } from '../../../src/services/podcastService';
+import { SourcesConfigWatcher } from '../../../src/config/sourcesConfig';
+import { NewsSource, PodcastSource, SourcesConfig } from '../../../src/types/marketData';
+
+const logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+
+function makeConfig(): SourcesConfig {
+  return {
+    news: {
+      sources: [
+        { name: 'MarketWatch RSS', type: 'rss', endpoint: 'https://example.com/rss', rateLimit: '60/hour', enabled: true }
+      ]
+    },
+    podcasts: [
+      { name: 'Chat with Traders', rssUrl: 'https://example.com/podcast', transcriptionService: 'openai-whisper', enabled: true }
+    ],
+    gmail: { targetSenders: ['crew@morningbrew.com'], enabled: false },
+    relevanceScoring: {
+      marketKeywords: { high: ['earnings'], medium: ['stock'], low: ['chart'] },
+      weights: { marketKeywords: 40, stockSymbols: 30, sourceAuthority: 20, recency: 10 }
+    }
+  };
+}
+
+const newFeed: NewsSource = {
+  name: 'Reuters Markets',
+  type: 'rss',
+  endpoint: 'https://example.com/reuters',
+  rateLimit: '60/hour',
+  enabled: true
+};
+
+describe('SourceAdminService', () => {
+  let dir: string;
+  let configPath: string;
+  let applied: SourcesConfig[];
+  let newsConnection: jest.Mock<Promise<boolean>, [NewsSource]>;
+  let podcastConnection: jest.Mock<Promise<boolean>, [PodcastSource]>;
+  let admin: SourceAdminService;
+
+  const readFile = (): SourcesConfig => JSON.parse(fs.readFileSync(configPath, 'utf8'));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-admin-'));
+    configPath = path.join(dir, 'sources.json');
+    fs.writeFileSync(configPath, JSON.stringify(makeConfig()));
+
+    applied = [];
+    const watcher = new SourcesConfigWatcher(configPath, makeConfig(), config => {
+      applied.push(config);
+    }, logger);
+
+    newsConnection = jest.fn(async (_source: NewsSource) => true);
+    podcastConnection = jest.fn(async (_source: PodcastSource) => true);
+    admin = new SourceAdminService(
+      watcher,
+      { testConnection: newsConnection } as unknown as NewsService,
+      { testConnection: podcastConnection } as unknown as PodcastService,
+      logger,
+      { validateTimeoutMs: 50, resolveHost: async hostname => hostname === 'intranet.example.com' ? ['10.0.0.8'] : ['93.184.216.34'] }
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists every source, with Gmail as one entry', () => {
+    expect(admin.listSources().map(source => `${source.sourceType}:${source.name}`))
+      .toEqual(['news:MarketWatch RSS', 'podcast:Chat with Traders', 'email:Gmail']);
+    expect(admin.listSources('email')[0]).toMatchObject({ enabled: false, senders: ['crew@morningbrew.com'] });
+  });
+
+  it('validates a new feed, writes it to the file and applies it', async () => {
+    const entry = await admin.addNewsSource(newFeed);
+
+    expect(newsConnection).toHaveBeenCalledWith(newFeed);
+    expect(entry).toMatchObject({ sourceType: 'news', name: 'Reuters Markets', url: 'https://example.com/reuters' });
+    expect(readFile().news.sources.map(source => source.name)).toEqual(['MarketWatch RSS', 'Reuters Markets']);
+    expect(applied).toHaveLength(1);
+    expect(admin.listSources('news')).toHaveLength(2);
+    expect(fs.readdirSync(dir)).toEqual(['sources.json']);
+  });
+
+  it('does not add a feed that fails to return a sample', async () => {
+    podcastConnection.mockResolvedValue(false);
+
+    await expect(admin.addPodcast({
+      name: 'Dead Feed',
+      rssUrl: 'https://example.com/dead',
+      transcriptionService: 'openai-whisper',
+      enabled: true
+    })).rejects.toThrow('Could not fetch a sample from https://example.com/dead');
+    expect(readFile()).toEqual(makeConfig());
+    expect(applied).toHaveLength(0);
+  });
+
+  it('times out a feed that never answers, unless validation is skipped', async () => {
+    newsConnection.mockReturnValue(new Promise(() => undefined));
+
+    await expect(admin.addNewsSource(newFeed)).rejects.toThrow('Could not fetch a sample');
+    await expect(admin.addNewsSource(newFeed, false)).resolves.toMatchObject({ name: 'Reuters Markets' });
+  });
+
+  it('refuses feeds on local or private hosts before fetching them', async () => {
+    await expect(admin.addNewsSource({ ...newFeed, endpoint: 'http://169.254.169.254/latest/meta-data' }, false))
+      .rejects.toThrow('points to a local or private address');
+    await expect(admin.addNewsSource({ ...newFeed, endpoint: 'https://intranet.example.com/rss' }))
+      .rejects.toThrow('intranet.example.com resolves to the private address 10.0.0.8');
+    await expect(admin.addNewsSource({ ...newFeed, endpoint: 'https://intranet.example.com/rss' }, false))
+      .rejects.toThrow('intranet.example.com resolves to the private address 10.0.0.8');
+    await expect(admin.addPodcast({
+      name: 'Local Feed',
+      rssUrl: 'http://localhost:8080/feed',
+      transcriptionService: 'openai-whisper',
+      enabled: true
+    })).rejects.toThrow('points to a local or private address');
+    expect(newsConnection).not.toHaveBeenCalled();
+    expect(podcastConnection).not.toHaveBeenCalled();
+    expect(readFile()).toEqual(makeConfig());
+  });
+
+  it('keeps API keys with their providers', async () => {
+    const api: NewsSource = { ...newFeed, type: 'api', endpoint: 'https://collector.example.com/news' };
+
+    await expect(admin.addNewsSource({ ...api, adapter: { preset: 'finnhub' } }))
+      .rejects.toThrow('may only send its API key to finnhub.io, not collector.example.com');
+    await expect(admin.addNewsSource({ ...api, name: 'Polygon', auth: 'bearer' }))
+      .rejects.toThrow('bearer authentication are added in config/sources.json');
+    expect(newsConnection).not.toHaveBeenCalled();
+
+    await expect(admin.addNewsSource({ ...api, endpoint: 'https://finnhub.io/api/v1/news', adapter: { preset: 'finnhub' } }))
+      .resolves.toMatchObject({ name: 'Reuters Markets', adapter: 'finnhub' });
+  });
+
+  it('rejects duplicate names and senders', async () => {
+    await expect(admin.addNewsSource({ ...newFeed, name: 'chat with traders' })).rejects.toThrow('already exists');
+    await expect(admin.addGmailSender('Crew@MorningBrew.com')).rejects.toThrow('already a Gmail target sender');
+    await expect(admin.addGmailSender('not an address')).rejects.toThrow('is not an email address or domain');
+    expect(newsConnection).not.toHaveBeenCalled();
+  });
+
+  it('adds Gmail senders and toggles Gmail by name', async () => {
+    await admin.addGmailSender('dailybrief@example.com');
+    const gmail = await admin.setEnabled('gmail', true);
+
+    expect(gmail).toMatchObject({ enabled: true, senders: ['crew@morningbrew.com', 'dailybrief@example.com'] });
+    expect(readFile().gmail).toEqual({ targetSenders: ['crew@morningbrew.com', 'dailybrief@example.com'], enabled: true });
+  });
+
+  it('disables and removes sources by name', async () => {
+    await admin.setEnabled('MarketWatch RSS', false);
+    const removed = await admin.remove('chat with traders');
+    await admin.remove('crew@morningbrew.com', 'email');
+
+    expect(removed).toMatchObject({ sourceType: 'podcast', name: 'Chat with Traders' });
+    expect(readFile().news.sources[0].enabled).toBe(false);
+    expect(readFile().podcasts).toEqual([]);
+    expect(readFile().gmail.targetSenders).toEqual([]);
+    await expect(admin.remove('Gmail')).rejects.toThrow('Gmail cannot be removed');
+    await expect(admin.remove('Missing')).rejects.toThrow('No source named "Missing"');
+  });
+
+  it('keeps hand edits made since the last reload', async () => {
+    const edited = makeConfig();
+    edited.news.sources[0].rateLimit = '30/hour';
+    fs.writeFileSync(configPath, JSON.stringify(edited));
+
+    await admin.addGmailSender('morningbrew.com');
+
+    expect(readFile().news.sources[0].rateLimit).toBe('30/hour');
+    expect(readFile().gmail.targetSenders).toContain('morningbrew.com');
+  });
+});
@@ -0,0 +1,171 @@
+import * as winston from 'winston';
+import { SourceHealthService } from '../../../src/services/sourceHealthService';
+import { BaseService } from '../../../src/services/BaseService';
+import { NewsService } from '../../../src/services/newsService';
+import { PodcastService } from '../../../src/services/podcastService';
+import { GmailService } from '../../../src/services/gmailService';
+import { CacheManager } from '../../../src/utils/cache';
+import { RateLimiter } from '../../../src/utils/rateLimiter';
+import { NewsSource, SourceFetchRecord } from '../../../src/types/marketData';
+
+const logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+
+const sources: NewsSource[] = [
+  { name: 'MarketWatch RSS', type: 'rss', endpoint: 'https://example.com/rss', rateLimit: '60/hour', enabled: true },
+  { name: 'Old Feed', type: 'rss', endpoint: 'https://example.com/old', rateLimit: '60/hour', enabled: false }
+];
+
+class FetchingService extends BaseService {
+  fetch<T>(operation: () => Promise<T>): Promise<T> {
+    return this.executeWithRateLimit(operation, 'news-Test', '60/hour', 0);
+  }
+}
+
+describe('SourceHealthService', () => {
+  let cache: CacheManager;
+  let records: Map<string, SourceFetchRecord>;
+  let testConnection: jest.Mock<Promise<boolean>, [string]>;
+  let remaining: number;
+  let health: SourceHealthService;
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+
+    records = new Map();
+    testConnection = jest.fn(async (_name: string) => true);
+    remaining = 42;
+
+    const newsService = {
+      getSources: () => sources,
+      getSourceKey: (source: NewsSource) => `news-${source.name}`,
+      getFetchRecord: (key: string) => records.get(key),
+      testConnection
+    } as unknown as NewsService;
+    const podcastService = { getSources: () => [] } as unknown as PodcastService;
+    const gmailService = {
+      isAvailable: () => false,
+      getFetchRecord: () => undefined,
+      testConnection: jest.fn()
+    } as unknown as GmailService;
+    const rateLimiter = {
+      getRemainingRequests: () => remaining,
+      getResetTime: () => 0
+    } as unknown as RateLimiter;
+
+    health = new SourceHealthService(newsService, podcastService, gmailService, rateLimiter, cache, logger, {
+      probeTimeoutMs: 50
+    });
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('reports every configured source, including disabled ones', async () => {
+    const entries = await health.getHealth();
+
+    expect(entries.map(entry => [entry.sourceName, entry.status])).toEqual([
+      ['MarketWatch RSS', 'unknown'],
+      ['Old Feed', 'disabled'],
+      ['Gmail', 'disabled']
+    ]);
+    expect(entries[0]).toMatchObject({ rateLimit: '60/hour', rateLimitRemaining: 42 });
+  });
+
+  it('reports the last fetch made since startup', async () => {
+    records.set('news-MarketWatch RSS', {
+      sourceKey: 'news-MarketWatch RSS',
+      lastAttemptAt: '2026-10-18T10:00:00.000Z',
+      lastSuccessAt: '2026-10-18T09:00:00.000Z',
+      lastErrorAt: '2026-10-18T10:00:00.000Z',
+      lastErrorCode: 'DNS_RESOLUTION_FAILED',
+      lastError: 'getaddrinfo ENOTFOUND example.com',
+      itemCount: 12,
+      latencyMs: 340
+    });
+
+    const [entry] = await health.getHealth({ sourceType: 'news' });
+
+    expect(entry).toMatchObject({
+      status: 'error',
+      lastSuccessAt: '2026-10-18T09:00:00.000Z',
+      lastErrorCode: 'DNS_RESOLUTION_FAILED',
+      itemsFetched: 12,
+      latencyMs: 340
+    });
+  });
+
+  it('falls back to the persisted ingestion state after a restart', async () => {
+    await cache.saveIngestionState({
+      sourceKey: 'news-MarketWatch RSS',
+      sourceType: 'news',
+      sourceName: 'MarketWatch RSS',
+      lastAttemptAt: '2026-10-18T10:00:00.000Z',
+      lastSuccessAt: '2026-10-18T10:00:00.000Z',
+      status: 'ok',
+      itemCount: 7,
+      durationMs: 120
+    });
+
+    const [entry] = await health.getHealth({ sourceType: 'news' });
+
+    expect(entry).toMatchObject({ status: 'ok', itemsFetched: 7, latencyMs: 120 });
+    expect(entry.lastErrorCode).toBeUndefined();
+  });
+
+  it('flags sources whose rate-limit budget is spent', async () => {
+    remaining = 0;
+
+    const [entry] = await health.getHealth({ sourceType: 'news' });
+
+    expect(entry.status).toBe('rate-limited');
+  });
+
+  it('probes enabled sources only when asked', async () => {
+    await health.getHealth();
+    expect(testConnection).not.toHaveBeenCalled();
+
+    testConnection.mockResolvedValueOnce(false);
+    const [entry, disabled] = await health.getHealth({ probe: true });
+
+    expect(testConnection).toHaveBeenCalledTimes(1);
+    expect(testConnection).toHaveBeenCalledWith('MarketWatch RSS');
+    expect(entry.status).toBe('error');
+    expect(entry.probe).toMatchObject({ ok: false, error: 'Connection test failed' });
+    expect(disabled.probe).toBeUndefined();
+  });
+
+  it('times out probes that hang', async () => {
+    testConnection.mockImplementationOnce(() => new Promise(resolve => setTimeout(() => resolve(true), 500)));
+
+    const [entry] = await health.getHealth({ sourceType: 'news', probe: true });
+
+    expect(entry.probe).toMatchObject({ ok: false, error: 'Connection test timed out after 50ms' });
+  });
+
+  describe('fetch records', () => {
+    const rateLimiter = {
+      withRetry: (_key: string, _limit: string, operation: () => Promise<unknown>) => operation()
+    } as unknown as RateLimiter;
+
+    it('records items and latency of successful fetches, and error codes of failures', async () => {
+      const service = new FetchingService({} as CacheManager, rateLimiter, logger);
+
+      await service.fetch(async () => ['a', 'b', 'c']);
+      expect(service.getFetchRecord('news-Test')).toMatchObject({ itemCount: 3 });
+      expect(service.getFetchRecord('news-Test')!.lastSuccessAt).toBeDefined();
+
+      await expect(service.fetch(async () => {
+        throw new Error('Request failed with status code 429');
+      })).rejects.toThrow('429');
+
+      expect(service.getFetchRecord('news-Test')).toMatchObject({
+        itemCount: 3,
+        lastErrorCode: 'RATE_LIMITED',
+        lastError: 'Request failed with status code 429'
+      });
+      expect(service.getFetchRecord('news-Other')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { StoryClusterer } from '../../../src/services/storyClusterer';
+import { MarketDataItem } from '../../../src/types/marketData';
+
+describe('StoryClusterer', () => {
+  let clusterer: StoryClusterer;
+
+  const createItem = (overrides: Partial<MarketDataItem> = {}): MarketDataItem => ({
+    id: 'reuters-fed',
+    source: 'news',
+    sourceDetails: { name: 'Reuters API' },
+    timestamp: new Date().toISOString(),
+    title: 'Federal Reserve holds interest rates steady, signals patience on cuts',
+    content: 'The Federal Reserve kept its benchmark rate unchanged on Wednesday as policymakers waited for more evidence that inflation is cooling.',
+    summary: '',
+    relevanceScore: 82,
+    marketTags: ['fed', 'interest rates'],
+    symbols: [],
+    ...overrides
+  });
+
+  const fedCoverage = (): MarketDataItem[] => [
+    createItem(),
+    createItem({
+      id: 'marketwatch-fed',
+      sourceDetails: { name: 'MarketWatch RSS' },
+      title: 'Fed holds interest rates steady and signals patience',
+      content: 'Federal Reserve officials left rates unchanged, saying inflation is cooling but not yet at target.',
+      relevanceScore: 74
+    }),
+    createItem({
+      id: 'morning-brew-email',
+      source: 'email',
+      sourceDetails: { name: 'Gmail', author: 'Morning Brew' },
+      title: 'Morning Brew: Federal Reserve holds interest rates steady',
+      content: 'The Fed kept rates unchanged yesterday. Here is what it means for your portfolio.',
+      relevanceScore: 65
+    })
+  ];
+
+  beforeEach(() => {
+    clusterer = new StoryClusterer();
+  });
+
+  it('should group coverage of the same event into one story', () => {
+    const stories = clusterer.cluster(fedCoverage());
+
+    expect(stories).toHaveLength(1);
+    expect(stories[0].items).toHaveLength(3);
+    expect(stories[0].sources).toEqual(['Reuters API', 'MarketWatch RSS', 'Gmail']);
+    expect(stories[0].sourceTypes).toEqual(['news', 'email']);
+  });
+
+  it('should lead each story with its most relevant item', () => {
+    const [story] = clusterer.cluster(fedCoverage().reverse());
+
+    expect(story.id).toBe('reuters-fed');
+    expect(story.leadItem.sourceDetails.name).toBe('Reuters API');
+  });
+
+  it('should boost story relevance for each corroborating source', () => {
+    const [story] = clusterer.cluster(fedCoverage());
+
+    expect(story.relevanceScore).toBe(92); // 82 + 2 extra sources * 5
+  });
+
+  it('should keep unrelated items as separate stories', () => {
+    const stories = clusterer.cluster([
+      ...fedCoverage(),
+      createItem({
+        id: 'nvda-earnings',
+        title: 'Nvidia revenue beats estimates on data center demand',
+        content: 'Nvidia reported record quarterly revenue driven by AI chips.',
+        symbols: ['NVDA'],
+        relevanceScore: 88
+      })
+    ]);
+
+    expect(stories).toHaveLength(2);
+    expect(stories[0].id).toBe('reuters-fed');
+    expect(stories[1].id).toBe('nvda-earnings');
+  });
+
+  it('should use shared symbols to corroborate weaker headline matches', () => {
+    const first = createItem({
+      id: 'a',
+      title: 'Apple shares slide after iPhone demand warning',
+      content: 'Apple cut its outlook.',
+      symbols: ['AAPL']
+    });
+    const second = createItem({
+      id: 'b',
+      title: 'iPhone demand warning hits Apple stock',
+      content: 'Shares fell premarket.',
+      symbols: ['AAPL']
+    });
+
+    expect(clusterer.similarity(first, second)).toBeGreaterThan(clusterer.similarity(
+      { ...first, symbols: [] },
+      { ...second, symbols: [] }
+    ));
+    expect(clusterer.cluster([first, second])).toHaveLength(1);
+  });
+
+  it('should not merge items published far apart', () => {
+    const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const stories = clusterer.cluster([
+      createItem(),
+      createItem({ id: 'old-fed', timestamp: lastWeek })
+    ]);
+
+    expect(stories).toHaveLength(2);
+  });
+
+  it('should collapse duplicate item ids', () => {
+    const stories = clusterer.cluster([createItem(), createItem()]);
+
+    expect(stories).toHaveLength(1);
+    expect(stories[0].items).toHaveLength(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { SymbolResolver } from '../../../src/services/symbolResolver';
+import { SymbolDictionary } from '../../../src/types/marketData';
+
+describe('SymbolResolver', () => {
+  const dictionary: SymbolDictionary = {
+    version: 1,
+    symbols: [
+      { ticker: 'AAPL', name: 'Apple Inc.', exchange: 'NASDAQ', aliases: ['Apple'], major: true },
+      { ticker: 'NVDA', name: 'NVIDIA Corporation', exchange: 'NASDAQ', aliases: ['Nvidia'], major: true },
+      { ticker: 'BAC', name: 'Bank of America Corporation', aliases: ['Bank of America'] },
+      { ticker: 'BRK.B', name: 'Berkshire Hathaway Inc. Class B', aliases: ['Berkshire'] },
+      { ticker: 'AI', name: 'C3.ai Inc.', requiresPrefix: true }
+    ]
+  };
+
+  let resolver: SymbolResolver;
+
+  beforeEach(() => {
+    resolver = new SymbolResolver(dictionary);
+  });
+
+  const symbols = (text: string) => resolver.resolve(text).map(candidate => candidate.symbol);
+
+  it('ignores upper-case words that are not known tickers', () => {
+    expect(symbols('CEO says GDP growth worries the FED and the USA')).toEqual([]);
+  });
+
+  it('resolves known bare tickers but not ones that double as common words', () => {
+    expect(symbols('AAPL and NVDA lead while AI spending grows')).toEqual(['AAPL', 'NVDA']);
+  });
+
+  it('resolves company names and aliases in prose', () => {
+    const resolved = resolver.resolve('Nvidia rallies as Bank of America lifts its target');
+
+    expect(resolved.map(candidate => candidate.symbol)).toEqual(['NVDA', 'BAC']);
+    expect(resolved[0]).toMatchObject({ matchedBy: 'name', text: 'Nvidia' });
+  });
+
+  it('does not treat lower-case common nouns as company names', () => {
+    expect(symbols('She ate an apple at the bank of the river')).toEqual([]);
+  });
+
+  it('resolves cashtags and exchange prefixes, including unknown tickers at lower confidence', () => {
+    const resolved = resolver.resolve('$ai jumps; (NASDAQ: NVDA) and NYSE:XYZ also moved, $zzz too');
+
+    expect(resolved).toEqual([
+      { symbol: 'AI', confidence: 0.95, matchedBy: 'cashtag', text: '$ai' },
+      { symbol: 'NVDA', confidence: 1, matchedBy: 'exchange', text: 'NASDAQ: NVDA' },
+      { symbol: 'XYZ', confidence: 0.85, matchedBy: 'exchange', text: 'NYSE:XYZ' },
+      { symbol: 'ZZZ', confidence: 0.7, matchedBy: 'cashtag', text: '$zzz' }
+    ]);
+  });
+
+  it('keeps the strongest mention of each symbol in order of first mention', () => {
+    const resolved = resolver.resolve('Apple shares rose. Later, NASDAQ:AAPL extended gains with Berkshire and BRK.B');
+
+    expect(resolved.map(candidate => [candidate.symbol, candidate.confidence])).toEqual([
+      ['AAPL', 1],
+      ['BRK.B', 0.8]
+    ]);
+  });
+
+  it('ignores dollar amounts', () => {
+    expect(symbols('Shares fell $5 to $120.50')).toEqual([]);
+  });
+
+  it('rejects malformed dictionaries', () => {
+    expect(() => new SymbolResolver({ version: 1, symbols: [{ ticker: 'bad ticker', name: 'Bad' }] }))
+      .toThrow('invalid ticker');
+    expect(() => new SymbolResolver({
+      version: 1,
+      symbols: [{ ticker: 'AAPL', name: 'Apple' }, { ticker: 'AAPL', name: 'Apple again' }]
+    })).toThrow('more than once');
+  });
+
+  it('loads the bundled dictionary', async () => {
+    const bundled = await SymbolResolver.load();
+
+    expect(bundled.size).toBeGreaterThan(50);
+    expect(bundled.isMajor('SPY')).toBe(true);
+  });
+});
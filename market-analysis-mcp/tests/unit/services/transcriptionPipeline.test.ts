@@ -0,0 +1,139 @@
+import axios from 'axios';
+import * as winston from 'winston';
+import { TranscriptionPipeline } from '../../../src/services/transcription/transcriptionPipeline';
+import { AudioChunk, ChunkTranscript, TranscriptionProvider } from '../../../src/services/transcription/transcriptionProvider';
+import { CacheManager } from '../../../src/utils/cache';
+
+class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai-whisper' as const;
+  chunks: AudioChunk[] = [];
+
+  constructor(readonly maxChunkBytes: number) {}
+
+  async transcribe(chunk: AudioChunk): Promise<ChunkTranscript> {
+    this.chunks.push(chunk);
+    return {
+      text: `Part ${chunk.index + 1}.`,
+      segments: [
+        { start: 0, end: 30, text: `Part ${chunk.index + 1} opening.` },
+        { start: 30, end: 60, text: `Part ${chunk.index + 1} closing.` }
+      ],
+      durationSeconds: 60,
+      language: 'en'
+    };
+  }
+}
+
+describe('TranscriptionPipeline', () => {
+  let cache: CacheManager;
+  let logger: winston.Logger;
+  let downloadAudio: jest.Mock<Promise<Buffer>, [string]>;
+
+  const request = {
+    episodeId: 'episode-guid-1',
+    audioUrl: 'https://podcasts.example.com/episode-1.mp3',
+    service: 'openai-whisper' as const
+  };
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+    logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+    downloadAudio = jest.fn(async (_url: string) => Buffer.alloc(2500, 1) as Buffer);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('should chunk long audio and offset segment timestamps', async () => {
+    const provider = new FakeTranscriptionProvider(1000);
+    const pipeline = new TranscriptionPipeline([provider], cache, logger, { downloadAudio });
+
+    const transcript = await pipeline.transcribe(request);
+
+    expect(provider.chunks.map(chunk => chunk.data.length)).toEqual([1000, 1000, 500]);
+    expect(transcript?.text).toBe('Part 1. Part 2. Part 3.');
+    expect(transcript?.segments.map(segment => segment.start)).toEqual([0, 30, 60, 90, 120, 150]);
+    expect(transcript?.segments[5]).toEqual({ start: 150, end: 180, text: 'Part 3 closing.' });
+    expect(transcript?.language).toBe('en');
+  });
+
+  it('should refuse to byte-split audio that is not MPEG', async () => {
+    const provider = new FakeTranscriptionProvider(1000);
+    const pipeline = new TranscriptionPipeline([provider], cache, logger, { downloadAudio });
+
+    await expect(pipeline.transcribe({ ...request, mimeType: 'audio/x-m4a' }))
+      .rejects.toThrow('only MPEG audio can be split into chunks');
+    expect(provider.chunks).toHaveLength(0);
+
+    downloadAudio.mockResolvedValueOnce(Buffer.alloc(800, 1));
+    expect(await pipeline.transcribe({ ...request, mimeType: 'audio/x-m4a' })).not.toBeNull();
+    expect(provider.chunks[0].fileName).toBe('episode-0.m4a');
+  });
+
+  it('should store transcripts by episode id and never transcribe twice', async () => {
+    const provider = new FakeTranscriptionProvider(10000);
+    const pipeline = new TranscriptionPipeline([provider], cache, logger, { downloadAudio });
+
+    await pipeline.transcribe(request);
+    const again = await pipeline.transcribe(request);
+
+    expect(downloadAudio).toHaveBeenCalledTimes(1);
+    expect(provider.chunks).toHaveLength(1);
+    expect(again?.segments).toHaveLength(2);
+    expect((await cache.getTranscript('episode-guid-1'))?.provider).toBe('openai-whisper');
+  });
+
+  it('should share one transcription between concurrent requests', async () => {
+    const provider = new FakeTranscriptionProvider(10000);
+    const pipeline = new TranscriptionPipeline([provider], cache, logger, { downloadAudio });
+
+    const [first, second] = await Promise.all([pipeline.transcribe(request), pipeline.transcribe(request)]);
+
+    expect(provider.chunks).toHaveLength(1);
+    expect(first).toEqual(second);
+  });
+
+  it('should refuse enclosures on loopback or private addresses', async () => {
+    const provider = new FakeTranscriptionProvider(1000);
+    const pipeline = new TranscriptionPipeline([provider], cache, logger, { downloadAudio });
+
+    await expect(pipeline.transcribe({ ...request, audioUrl: 'http://127.0.0.1:8080/episode.mp3' }))
+      .rejects.toThrow('The enclosure URL points to a local or private address (127.0.0.1)');
+    await expect(pipeline.transcribe({ ...request, audioUrl: 'http://192.168.1.20/episode.mp3' }))
+      .rejects.toThrow('points to a local or private address');
+    expect(downloadAudio).not.toHaveBeenCalled();
+    expect(provider.chunks).toHaveLength(0);
+  });
+
+  it('should guard the DNS answers and redirects of enclosure downloads', async () => {
+    const get = jest.spyOn(axios, 'get').mockResolvedValue({ data: Buffer.alloc(500, 1) });
+    try {
+      const provider = new FakeTranscriptionProvider(1000);
+      const pipeline = new TranscriptionPipeline([provider], cache, logger);
+
+      await pipeline.transcribe(request);
+
+      expect(get).toHaveBeenCalledWith(request.audioUrl, expect.objectContaining({
+        lookup: expect.any(Function),
+        beforeRedirect: expect.any(Function)
+      }));
+    } finally {
+      get.mockRestore();
+    }
+  });
+
+  it('should return null when no provider is configured for the service', async () => {
+    const pipeline = new TranscriptionPipeline([], cache, logger, { downloadAudio });
+
+    expect(await pipeline.transcribe({ ...request, service: 'assembly-ai' })).toBeNull();
+    expect(downloadAudio).not.toHaveBeenCalled();
+  });
+
+  it('should only build API providers whose keys are configured', () => {
+    const names = TranscriptionPipeline.createProviders({ assemblyAiApiKey: 'test-key', whisperModel: 'whisper-1' }).map(p => p.name);
+
+    expect(names).toEqual(['assembly-ai', 'local-whisper']);
+  });
+});
@@ -0,0 +1,99 @@
+import * as winston from 'winston';
+import { WatchlistService } from '../../../src/services/watchlistService';
+import { CacheManager } from '../../../src/utils/cache';
+import { MarketDataItem } from '../../../src/types/marketData';
+
+describe('WatchlistService', () => {
+  let cache: CacheManager;
+  let service: WatchlistService;
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+    const logger = winston.createLogger({ transports: [new winston.transports.Console({ silent: true })] });
+    service = new WatchlistService(cache, logger);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('creates a watchlist with normalized, de-duplicated symbols', async () => {
+    const watchlist = await service.create('client-a', 'Tech', ['aapl', '$NVDA', ' msft ', 'AAPL']);
+
+    expect(watchlist.symbols).toEqual(['AAPL', 'NVDA', 'MSFT']);
+    expect(await service.get('client-a', 'tech')).toMatchObject({ name: 'Tech', symbols: ['AAPL', 'NVDA', 'MSFT'] });
+  });
+
+  it('rejects invalid names, invalid symbols and duplicates', async () => {
+    await expect(service.create('client-a', '', ['AAPL'])).rejects.toThrow('Watchlist names');
+    await expect(service.create('client-a', 'Bad', ['AAPL; DROP'])).rejects.toThrow('Invalid symbol');
+
+    await service.create('client-a', 'Tech', ['AAPL']);
+    await expect(service.create('client-a', 'Tech', ['MSFT'])).rejects.toThrow('already exists');
+  });
+
+  it('keeps watchlists separate per client', async () => {
+    await service.create('client-a', 'Tech', ['AAPL']);
+
+    expect(await service.list('client-b')).toEqual([]);
+    await expect(service.get('client-b', 'Tech')).rejects.toThrow('not found');
+  });
+
+  it('makes the first watchlist active and keeps at most one active', async () => {
+    const first = await service.create('client-a', 'Tech', ['AAPL']);
+    const second = await service.create('client-a', 'Energy', ['XOM']);
+
+    expect(first.active).toBe(true);
+    expect(second.active).toBe(false);
+
+    await service.update('client-a', 'Energy', { active: true });
+
+    expect((await service.getActive('client-a'))?.name).toBe('Energy');
+    expect((await service.list('client-a')).filter(watchlist => watchlist.active)).toHaveLength(1);
+  });
+
+  it('adds and removes symbols on update', async () => {
+    await service.create('client-a', 'Tech', ['AAPL', 'MSFT']);
+
+    const updated = await service.update('client-a', 'Tech', { addSymbols: ['nvda'], removeSymbols: ['MSFT'] });
+
+    expect(updated.symbols).toEqual(['AAPL', 'NVDA']);
+  });
+
+  it('deletes watchlists', async () => {
+    await service.create('client-a', 'Tech', ['AAPL']);
+    await service.delete('client-a', 'Tech');
+
+    expect(await service.list('client-a')).toEqual([]);
+    await expect(service.delete('client-a', 'Tech')).rejects.toThrow('not found');
+  });
+
+  it('resolves a watchlist argument to its symbols, preferring explicit symbols', async () => {
+    await service.create('client-a', 'Tech', ['AAPL', 'NVDA']);
+
+    expect(await service.resolveSymbols('client-a', 'Tech')).toEqual(['AAPL', 'NVDA']);
+    expect(await service.resolveSymbols('client-a', 'Tech', ['TSLA'])).toEqual(['TSLA']);
+    expect(await service.resolveSymbols('client-a')).toBeUndefined();
+    await expect(service.resolveSymbols('client-a', 'Missing')).rejects.toThrow('not found');
+  });
+
+  it('boosts items that mention watchlist symbols', () => {
+    const item = (id: string, symbols: string[], relevanceScore: number): MarketDataItem => ({
+      id,
+      source: 'news',
+      sourceDetails: { name: 'Reuters API' },
+      timestamp: new Date().toISOString(),
+      title: id,
+      content: '',
+      summary: '',
+      relevanceScore,
+      marketTags: [],
+      symbols
+    });
+
+    const boosted = service.boostItems([item('nvda', ['NVDA'], 60), item('xom', ['XOM'], 60), item('top', ['NVDA'], 95)], ['NVDA']);
+
+    expect(boosted.map(entry => entry.relevanceScore)).toEqual([60 + WatchlistService.ACTIVE_BOOST, 60, 100]);
+  });
+});
@@ -0,0 +1,111 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ToolRegistry } from '../../../src/tools/toolRegistry';
+import { NewsTools } from '../../../src/tools/news';
+import { PodcastTools } from '../../../src/tools/podcasts';
+import { GmailTools } from '../../../src/tools/gmail';
+import { UnifiedTools } from '../../../src/tools/unified';
+import { SearchTools } from '../../../src/tools/search';
+import { WatchlistTools } from '../../../src/tools/watchlists';
+import { AlertTools } from '../../../src/tools/alerts';
+import { IngestionTools } from '../../../src/tools/ingestion';
+import { HealthTools } from '../../../src/tools/health';
+import { SourceTools } from '../../../src/tools/sources';
+import { ToolDefinition } from '../../../src/types/toolDefinition';
+
+describe('ToolRegistry', () => {
+  const calls: unknown[] = [];
+  const echo: ToolDefinition = {
+    name: 'echo',
+    description: 'Echo the arguments',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', minLength: 1 },
+        limit: { type: 'integer', minimum: 1, maximum: 10 }
+      },
+      required: ['text']
+    },
+    handler: async (args, context) => {
+      calls.push({ args, context });
+      return { content: [{ type: 'text', text: args.text }] };
+    }
+  };
+
+  const invalidParams = (fn: () => unknown): McpError => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+      return error as McpError;
+    }
+    throw new Error('Expected InvalidParams');
+  };
+
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  it('publishes each schema with output_format and no extra arguments', () => {
+    const [tool] = new ToolRegistry([echo]).list();
+
+    expect(tool.inputSchema.properties).toHaveProperty('output_format');
+    expect(tool.inputSchema.additionalProperties).toBe(false);
+    expect(tool).not.toHaveProperty('handler');
+  });
+
+  it('dispatches valid calls to the handler', async () => {
+    const registry = new ToolRegistry([echo]);
+    const args = registry.validate('echo', { text: 'hi', output_format: 'json' });
+
+    await expect(registry.call('echo', args, { clientId: 'alice' })).resolves.toEqual({ content: [{ type: 'text', text: 'hi' }] });
+    expect(calls).toEqual([{ args: { text: 'hi', output_format: 'json' }, context: { clientId: 'alice' } }]);
+  });
+
+  it('rejects unknown tools and invalid arguments with InvalidParams', () => {
+    const registry = new ToolRegistry([echo]);
+
+    expect(invalidParams(() => registry.validate('missing', {})).message).toContain('Unknown tool: missing');
+    expect(invalidParams(() => registry.validate('echo', { text: 'hi', limit: 5000 })).message)
+      .toContain('Invalid arguments for echo: limit must be at most 10 (got 5000)');
+    expect(invalidParams(() => registry.validate('echo', { text: 'hi', output_format: 'xml' })).message)
+      .toContain('output_format must be one of markdown, json, both');
+    expect(invalidParams(() => registry.validate('echo', undefined)).data).toEqual({
+      tool: 'echo',
+      errors: ['missing required argument text']
+    });
+  });
+
+  it('refuses duplicate tool names', () => {
+    expect(() => new ToolRegistry([echo, echo])).toThrow('registered more than once');
+  });
+
+  describe('server tools', () => {
+    const none = {} as any;
+    const registry = new ToolRegistry([
+      ...new NewsTools(none, none, none).definitions,
+      ...new PodcastTools(none, none).definitions,
+      ...new GmailTools(none, none).definitions,
+      ...new UnifiedTools(none, none, none, none, none).definitions,
+      ...new SearchTools(none, none, none, none, none).definitions,
+      ...new WatchlistTools(none).definitions,
+      ...new AlertTools(none).definitions,
+      ...new IngestionTools(none, none).definitions,
+      ...new HealthTools(none).definitions,
+      ...new SourceTools(none, () => true).definitions
+    ]);
+
+    it('registers every tool once', () => {
+      expect(registry.list()).toHaveLength(22);
+    });
+
+    it('rejects out-of-range limits and unknown timeframes', () => {
+      expect(invalidParams(() => registry.validate('get_market_news', { limit: 5000 })).message)
+        .toContain('limit must be at most 100 (got 5000)');
+      expect(invalidParams(() => registry.validate('get_market_snapshot', { timeframe: '3d' })).message)
+        .toContain('timeframe must be one of 1h, 6h, 24h (got "3d")');
+      expect(invalidParams(() => registry.validate('search_market_data', { timeframe: '7d' })).message)
+        .toContain('missing required argument query');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import winston from 'winston';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer } from '../../../src/transport/httpTransport';
+import { TokenAuthenticator } from '../../../src/transport/tokenAuth';
+
+describe('HttpTransportServer', () => {
+  const aliceToken = 'alice-token-0123456789';
+  const bobToken = 'bob-token-0123456789ab';
+  const logger = winston.createLogger({ silent: true });
+  const seenClients: Array<string | undefined> = [];
+
+  let transport: HttpTransportServer;
+  let baseUrl: string;
+
+  const createServer = () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+      seenClients.push(extra.authInfo?.clientId);
+      return { tools: [] };
+    });
+    return server;
+  };
+
+  const post = (body: unknown, token?: string, sessionId?: string) => fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {})
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+
+  const initialize = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+  };
+
+  const openSession = async (token: string): Promise<string> => {
+    const response = await post(initialize, token);
+    expect(response.status).toBe(200);
+    await response.text();
+    const sessionId = response.headers.get('mcp-session-id')!;
+    await (await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, token, sessionId)).text();
+    return sessionId;
+  };
+
+  beforeEach(async () => {
+    seenClients.length = 0;
+    transport = new HttpTransportServer(
+      createServer,
+      TokenAuthenticator.fromEnv(`alice:${aliceToken},bob:${bobToken}`),
+      logger,
+      { port: 0, host: '127.0.0.1' }
+    );
+    const address = await transport.start();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+  });
+
+  it('serves a health check without credentials', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('requires a valid bearer token', async () => {
+    const missing = await post(initialize);
+    const wrong = await post(initialize, 'not-a-configured-token');
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(transport.sessionCount).toBe(0);
+  });
+
+  it('passes the token identity to request handlers', async () => {
+    const sessionId = await openSession(aliceToken);
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, aliceToken, sessionId);
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(seenClients).toEqual(['alice']);
+    expect(transport.getServers('alice')).toHaveLength(1);
+    expect(transport.getServers('bob')).toHaveLength(0);
+  });
+
+  it('keeps sessions private to their client', async () => {
+    const sessionId = await openSession(aliceToken);
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, bobToken, sessionId);
+
+    expect(response.status).toBe(403);
+    expect(seenClients).toEqual([]);
+  });
+
+  it('keeps sessions that only hold a notification stream open', async () => {
+    const sessionId = await openSession(aliceToken);
+    const listener = new AbortController();
+    const stream = await fetch(`${baseUrl}/mcp`, {
+      headers: { Accept: 'text/event-stream', Authorization: `Bearer ${aliceToken}`, 'Mcp-Session-Id': sessionId },
+      signal: listener.signal
+    });
+    expect(stream.status).toBe(200);
+
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 2 * 60 * 60 * 1000);
+    try {
+      (transport as any).closeIdleSessions();
+      expect(transport.sessionCount).toBe(1);
+
+      listener.abort();
+      const session = (transport as any).sessions.get(sessionId);
+      while (session.openStreams > 0) await new Promise(resolve => setTimeout(resolve, 5));
+
+      // The idle clock restarts when the stream drops
+      (transport as any).closeIdleSessions();
+      expect(transport.sessionCount).toBe(1);
+
+      clock.mockReturnValue(now + 4 * 60 * 60 * 1000);
+      (transport as any).closeIdleSessions();
+      expect(transport.sessionCount).toBe(0);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  it('rejects unknown sessions and requests without a session', async () => {
+    const unknown = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, aliceToken, 'missing');
+    const noSession = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, aliceToken);
+    const malformed = await post('{not json', aliceToken);
+
+    expect(unknown.status).toBe(404);
+    expect(noSession.status).toBe(400);
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({ error: { code: -32700 } });
+  });
+});
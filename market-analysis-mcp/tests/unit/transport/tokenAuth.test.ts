@@ -0,0 +1,38 @@
+import { TokenAuthenticator } from '../../../src/transport/tokenAuth';
+
+describe('TokenAuthenticator', () => {
+  const alice = 'alice-token-0123456789';
+  const bob = 'bob-token-0123456789ab';
+
+  it('maps each bearer token to its client id', () => {
+    const auth = TokenAuthenticator.fromEnv(`alice:${alice}, bob:${bob}`);
+
+    expect(auth.authenticate(`Bearer ${alice}`)).toMatchObject({ clientId: 'alice', token: alice });
+    expect(auth.authenticate(`bearer ${bob}`)).toMatchObject({ clientId: 'bob' });
+    expect(auth.clientCount).toBe(2);
+  });
+
+  it('rejects missing, malformed and unknown credentials', () => {
+    const auth = TokenAuthenticator.fromEnv(`alice:${alice}`);
+
+    expect(auth.authenticate(undefined)).toBeNull();
+    expect(auth.authenticate(alice)).toBeNull();
+    expect(auth.authenticate(`Basic ${alice}`)).toBeNull();
+    expect(auth.authenticate(`Bearer ${alice}x`)).toBeNull();
+  });
+
+  it('lets one client hold several tokens', () => {
+    const auth = TokenAuthenticator.fromEnv(`alice:${alice},alice:${bob}`);
+
+    expect(auth.authenticate(`Bearer ${bob}`)).toMatchObject({ clientId: 'alice' });
+    expect(auth.clientCount).toBe(1);
+  });
+
+  it('refuses unsafe configuration', () => {
+    expect(() => TokenAuthenticator.fromEnv('')).toThrow('MCP_AUTH_TOKENS');
+    expect(() => TokenAuthenticator.fromEnv(alice)).toThrow('clientId:token');
+    expect(() => TokenAuthenticator.fromEnv('alice:short')).toThrow('at least 16');
+    expect(() => TokenAuthenticator.fromEnv(`alice:${alice},bob:${alice}`)).toThrow('already assigned');
+    expect(() => TokenAuthenticator.fromEnv(`bad id:${alice}`)).toThrow('Invalid client id');
+  });
+});
@@ -0,0 +1,110 @@
+import { Cancellation, CancelledError, TimeoutError } from '../../../src/utils/Cancellation';
+import { ProgressTracker } from '../../../src/utils/ProgressTracker';
+import { RateLimiter } from '../../../src/utils/rateLimiter';
+
+describe('Cancellation', () => {
+  beforeEach(() => {
+    // RateLimiter starts a cleanup interval that would otherwise keep jest alive
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('recognises cancellations, including errors wrapped by an aborted client', () => {
+    const controller = new AbortController();
+    const abortError = new Error('The operation was aborted');
+    abortError.name = 'AbortError';
+
+    expect(Cancellation.isCancelled(new CancelledError())).toBe(true);
+    expect(Cancellation.isCancelled(abortError)).toBe(true);
+    expect(Cancellation.isCancelled(new Error('socket hang up'))).toBe(false);
+
+    controller.abort();
+    expect(Cancellation.isCancelled(new Error('request failed'), controller.signal)).toBe(true);
+    expect(() => Cancellation.throwIfCancelled(controller.signal)).toThrow(CancelledError);
+  });
+
+  it('cuts a sleep short when the signal aborts', async () => {
+    const controller = new AbortController();
+    const sleep = Cancellation.sleep(60000, controller.signal);
+
+    controller.abort();
+
+    await expect(sleep).rejects.toThrow(CancelledError);
+  });
+
+  it('stops retrying once the signal aborts during backoff', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn(async () => {
+      throw new Error('503 Service Unavailable');
+    });
+
+    const result = new RateLimiter().withRetry('news-test', '100/hour', operation, 3, 1000, controller.signal);
+    // Let the first attempt fail so the retry is waiting on its backoff
+    await jest.advanceTimersByTimeAsync(10);
+    controller.abort();
+
+    await expect(result).rejects.toThrow(CancelledError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start an operation after the signal aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const operation = jest.fn(async () => 'items');
+
+    await expect(new RateLimiter().withRetry('news-test', '100/hour', operation, 3, 1000, controller.signal))
+      .rejects.toThrow(CancelledError);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('times out an operation and aborts its signal', async () => {
+    let operationSignal: AbortSignal | undefined;
+    const result = Cancellation.withTimeout(5000, signal => {
+      operationSignal = signal;
+      return new Promise<string>(() => undefined); // Never settles on its own
+    });
+    const rejected = expect(result).rejects.toThrow(TimeoutError);
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    await rejected;
+    expect(operationSignal!.aborted).toBe(true);
+  });
+
+  it('passes a parent abort on to the operation and leaves quick operations alone', async () => {
+    await expect(Cancellation.withTimeout(5000, async () => 'items')).resolves.toBe('items');
+
+    const controller = new AbortController();
+    const result = Cancellation.withTimeout(5000, signal => Cancellation.sleep(60000, signal), controller.signal);
+    controller.abort();
+
+    await expect(result).rejects.toThrow(CancelledError);
+  });
+});
+
+describe('ProgressTracker', () => {
+  it('reports each finished source and completes the total once', () => {
+    const reportProgress = jest.fn();
+    const tracker = new ProgressTracker({ clientId: 'client-a', reportProgress }, 3);
+
+    tracker.options.onSourceDone?.('MarketWatch RSS');
+    tracker.finish();
+    tracker.finish();
+
+    expect(reportProgress.mock.calls).toEqual([
+      [1, 3, 'Fetched MarketWatch RSS'],
+      [3, 3, 'Done']
+    ]);
+  });
+
+  it('passes the call signal through and is silent without a progress token', () => {
+    const controller = new AbortController();
+    const tracker = new ProgressTracker({ clientId: 'client-a', signal: controller.signal }, 2);
+
+    expect(tracker.options.signal).toBe(controller.signal);
+    expect(() => tracker.options.onSourceDone?.('Gmail')).not.toThrow();
+  });
+});
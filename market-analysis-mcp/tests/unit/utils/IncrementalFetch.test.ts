@@ -0,0 +1,52 @@
+import { IncrementalFetch } from '../../../src/utils/IncrementalFetch';
+import { SourceFetchState } from '../../../src/types/marketData';
+
+describe('IncrementalFetch', () => {
+  const state: SourceFetchState = {
+    sourceKey: 'news-CNBC',
+    url: 'https://example.com/rss',
+    etag: '"abc"',
+    lastModified: 'Fri, 15 Mar 2024 12:00:00 GMT',
+    lastGuid: 'story-2',
+    lastPublishedAt: '2024-03-15T12:00:00.000Z',
+    updatedAt: '2024-03-15T12:05:00.000Z'
+  };
+
+  it('makes requests conditional on the saved validators', () => {
+    expect(IncrementalFetch.conditionalHeaders(state)).toEqual({
+      'If-None-Match': '"abc"',
+      'If-Modified-Since': 'Fri, 15 Mar 2024 12:00:00 GMT'
+    });
+    expect(IncrementalFetch.conditionalHeaders(undefined)).toEqual({});
+  });
+
+  it('treats entries after the newest one seen as new', () => {
+    expect(IncrementalFetch.isNew({ guid: 'story-3', publishedAt: 'Fri, 15 Mar 2024 12:30:00 GMT' }, state)).toBe(true);
+    expect(IncrementalFetch.isNew({ guid: 'story-1', publishedAt: '2024-03-15T11:00:00Z' }, state)).toBe(false);
+    expect(IncrementalFetch.isNew({ guid: 'story-2', publishedAt: '2024-03-15T12:00:00Z' }, state)).toBe(false);
+    // Same second, different story
+    expect(IncrementalFetch.isNew({ guid: 'story-2b', publishedAt: '2024-03-15T12:00:00Z' }, state)).toBe(true);
+    expect(IncrementalFetch.isNew({ guid: 'story-1', publishedAt: '2024-03-15T11:00:00Z' }, undefined)).toBe(true);
+  });
+
+  it('remembers the newest entry and the latest validators', () => {
+    const next = IncrementalFetch.advance(state, 'news-CNBC', 'https://example.com/rss', [
+      { guid: 'story-4', publishedAt: '2024-03-15T12:40:00Z' },
+      { guid: 'story-3', publishedAt: '2024-03-15T12:30:00Z' },
+      { guid: 'undated' }
+    ], { etag: '"def"' }, new Date('2024-03-15T12:45:00Z'));
+
+    expect(next).toEqual({
+      sourceKey: 'news-CNBC',
+      url: 'https://example.com/rss',
+      etag: '"def"',
+      lastGuid: 'story-4',
+      lastPublishedAt: '2024-03-15T12:40:00.000Z',
+      updatedAt: '2024-03-15T12:45:00.000Z'
+    });
+
+    // A poll with nothing new keeps the previous newest entry
+    expect(IncrementalFetch.advance(state, 'news-CNBC', 'https://example.com/rss', []))
+      .toMatchObject({ lastGuid: 'story-2', lastPublishedAt: '2024-03-15T12:00:00.000Z' });
+  });
+});
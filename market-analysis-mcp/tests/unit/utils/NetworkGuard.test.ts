@@ -0,0 +1,38 @@
+import { NetworkGuard } from '../../../src/utils/NetworkGuard';
+
+describe('NetworkGuard', () => {
+  it('recognises loopback, private, link-local and reserved addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.31.255.1', '192.168.0.10', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']) {
+      expect([address, NetworkGuard.isInternalAddress(address)]).toEqual([address, true]);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '151.101.1.69', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect([address, NetworkGuard.isInternalAddress(address)]).toEqual([address, false]);
+    }
+  });
+
+  it('accepts public http(s) URLs and refuses internal hosts and other schemes', () => {
+    expect(NetworkGuard.checkUrl('https://feeds.example.com/rss').hostname).toBe('feeds.example.com');
+
+    expect(() => NetworkGuard.checkUrl('http://localhost:3000/admin', 'feed URL')).toThrow('The feed URL points to a local or private address (localhost)');
+    expect(() => NetworkGuard.checkUrl('http://[::1]/')).toThrow('local or private address');
+    expect(() => NetworkGuard.checkUrl('http://metadata.google.internal/')).toThrow('local or private address');
+    expect(() => NetworkGuard.checkUrl('file:///etc/passwd')).toThrow('The URL must use http or https');
+    expect(() => NetworkGuard.checkUrl('not a url', 'feed URL')).toThrow('Invalid feed URL: not a url');
+  });
+
+  it('refuses to connect to names that resolve to internal addresses', async () => {
+    const { lookup, beforeRedirect } = NetworkGuard.requestOptions();
+    const resolve = lookup as (hostname: string, options: object) => Promise<unknown>;
+
+    await expect(resolve('localhost', {})).rejects.toThrow('localhost resolves to the private address');
+    expect(() => beforeRedirect!({ protocol: 'http:', hostname: '10.0.0.5' }, { headers: {}, statusCode: 302 })).toThrow('redirect URL');
+  });
+
+  it('checks every address a URL resolves to when asked to', async () => {
+    const resolve = async (hostname: string) => hostname === 'feeds.example.com' ? ['93.184.216.34'] : ['93.184.216.34', '192.168.1.4'];
+
+    await expect(NetworkGuard.checkPublicUrl('https://feeds.example.com/rss', 'feed URL', resolve)).resolves.toBeInstanceOf(URL);
+    await expect(NetworkGuard.checkPublicUrl('https://rebind.example.com/rss', 'feed URL', resolve))
+      .rejects.toThrow('rebind.example.com resolves to the private address 192.168.1.4');
+  });
+});
@@ -0,0 +1,49 @@
+import { SchemaValidator } from '../../../src/utils/SchemaValidator';
+import { JsonSchema } from '../../../src/types/toolDefinition';
+
+describe('SchemaValidator', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      query: { type: 'string', minLength: 1, maxLength: 10 },
+      timeframe: { type: 'string', enum: ['1h', '24h'] },
+      limit: { type: 'integer', minimum: 1, maximum: 100 },
+      symbols: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      active: { type: 'boolean' }
+    },
+    required: ['query'],
+    additionalProperties: false
+  };
+
+  it('accepts valid values and ignores null optional arguments', () => {
+    expect(SchemaValidator.validate(schema, { query: 'fed', timeframe: '1h', limit: 5, symbols: ['SPY'], active: null }))
+      .toEqual([]);
+  });
+
+  it('names the argument and the violated constraint', () => {
+    expect(SchemaValidator.validate(schema, { query: 'fed', limit: 5000 })).toEqual(['limit must be at most 100 (got 5000)']);
+    expect(SchemaValidator.validate(schema, { query: 'fed', timeframe: '3d' }))
+      .toEqual(['timeframe must be one of 1h, 24h (got "3d")']);
+    expect(SchemaValidator.validate(schema, { query: 'fed', limit: 2.5 })).toEqual(['limit must be an integer (got 2.5)']);
+    expect(SchemaValidator.validate(schema, { query: '' })).toEqual(['query must not be empty']);
+    expect(SchemaValidator.validate(schema, { query: 'fed', active: 'yes' })).toEqual(['active must be a boolean (got "yes")']);
+  });
+
+  it('checks array items and sizes', () => {
+    expect(SchemaValidator.validate(schema, { query: 'fed', symbols: ['SPY', 7] })).toEqual(['symbols[1] must be a string (got 7)']);
+    expect(SchemaValidator.validate(schema, { query: 'fed', symbols: 'SPY' })).toEqual(['symbols must be an array (got "SPY")']);
+    expect(SchemaValidator.validate(schema, { query: 'fed', symbols: ['A', 'B', 'C'] }))
+      .toEqual(['symbols must have at most 2 items (got 3)']);
+  });
+
+  it('reports missing and unknown arguments together', () => {
+    expect(SchemaValidator.validate(schema, { limt: 5 })).toEqual([
+      'missing required argument query',
+      'unknown argument limt (accepted: query, timeframe, limit, symbols, active)'
+    ]);
+  });
+
+  it('rejects non-object arguments', () => {
+    expect(SchemaValidator.validate(schema, ['query'])).toEqual(['arguments must be an object (got an array)']);
+  });
+});
@@ -0,0 +1,59 @@
+import { SecurityValidator } from '../../../src/utils/SecurityValidator';
+import { JsonSchema } from '../../../src/types/toolDefinition';
+
+describe('SecurityValidator sanitization', () => {
+  const field = (policy: Parameters<typeof SecurityValidator.sanitizeField>[0], value: string) =>
+    SecurityValidator.sanitizeField(policy, value);
+
+  it('keeps financial notation in search text', () => {
+    expect(field('search', 'S&P 500')).toBe('S&P 500');
+    expect(field('search', 'Q3 (guidance)')).toBe('Q3 (guidance)');
+    expect(field('search', "Berkshire's \"annual letter\" -crypto AT&T*")).toBe("Berkshire's \"annual letter\" -crypto AT&T*");
+    expect(field('search', '$NVDA up 5% ; margin 60.2%')).toBe('$NVDA up 5% ; margin 60.2%');
+  });
+
+  it('strips markup, script URLs and control characters', () => {
+    expect(field('search', '<script>alert(1)</script>fed minutes')).toBe('alert(1)fed minutes');
+    expect(field('text', '<img src=x onerror=alert(1)>earnings')).toBe('earnings');
+    expect(field('text', 'javascript:alert(1)')).toBe('alert(1)');
+    expect(field('search', 'fed\u0000\u0007 minutes')).toBe('fed minutes');
+    expect(field('search', 'rates {injected} `cmd`')).toBe('rates injected cmd');
+  });
+
+  it('normalizes symbols, emails, keywords, identifiers and urls', () => {
+    expect(field('symbol', ' $brk.b ')).toBe('BRK.B');
+    expect(field('symbol', 'NASDAQ:AAPL')).toBe('NASDAQ:AAPL');
+    expect(field('symbol', 'AAPL<script>')).toBe('AAPLSCRIPT');
+    expect(field('email', 'Morning Brew <Crew@MorningBrew.com>')).toBe('crew@morningbrew.com');
+    expect(field('email', 'a"b@example.com')).toBe('ab@example.com');
+    expect(field('keyword', 'M&A "deal"')).toBe('M&A deal');
+    expect(field('identifier', 'rule-123; DROP')).toBe('rule-123DROP');
+    expect(field('url', ' https://hooks.example.com/a?x=1&y=(2) ')).toBe('https://hooks.example.com/a?x=1&y=(2)');
+  });
+
+  it('sanitizes arguments by their schema policy and reports each change', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        query: { type: 'string', sanitize: 'search' },
+        symbols: { type: 'array', items: { type: 'string', sanitize: 'symbol' } },
+        timeframe: { type: 'string', enum: ['1h', '24h'] },
+        note: { type: 'string' }
+      }
+    };
+
+    const { value, changes } = SecurityValidator.sanitizeArguments(schema, {
+      query: 'S&P 500 <b>futures</b>',
+      symbols: ['SPY', '$qqq'],
+      timeframe: '24h',
+      note: 'fine',
+      limit: 5
+    });
+
+    expect(value).toEqual({ query: 'S&P 500 futures', symbols: ['SPY', 'QQQ'], timeframe: '24h', note: 'fine', limit: 5 });
+    expect(changes).toEqual([
+      { path: 'query', policy: 'search', original: 'S&P 500 <b>futures</b>', sanitized: 'S&P 500 futures' },
+      { path: 'symbols[1]', policy: 'symbol', original: '$qqq', sanitized: 'QQQ' }
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { ToolOutput } from '../../../src/utils/ToolOutput';
+import { OUTPUT_SCHEMA_NAMES, getOutputSchema } from '../../../src/types/outputSchemas';
+import { MarketDataItem } from '../../../src/types/marketData';
+
+describe('ToolOutput', () => {
+  const items: MarketDataItem[] = [
+    {
+      id: 'item-1',
+      source: 'news',
+      sourceDetails: { name: 'Reuters API' },
+      timestamp: '2024-03-06T02:00:00.000Z',
+      title: 'AAPL beats earnings',
+      content: 'Apple beat estimates.',
+      summary: 'Apple beat estimates.',
+      relevanceScore: 82,
+      marketTags: ['earnings'],
+      symbols: ['AAPL'],
+      sentiment: 'positive'
+    }
+  ];
+
+  const options = {
+    tool: 'get_market_news',
+    schema: 'market-items' as const,
+    data: items,
+    cached: true,
+    errors: [{ source: 'email', message: 'Gmail service disabled' }],
+    metadata: { timeframe: '24h' }
+  };
+
+  describe('parseFormat', () => {
+    it('accepts every supported format', () => {
+      expect(ToolOutput.parseFormat('markdown')).toBe('markdown');
+      expect(ToolOutput.parseFormat('json')).toBe('json');
+      expect(ToolOutput.parseFormat('both')).toBe('both');
+    });
+
+    it('falls back to markdown for missing or unknown values', () => {
+      expect(ToolOutput.parseFormat(undefined)).toBe('markdown');
+      expect(ToolOutput.parseFormat('xml')).toBe('markdown');
+    });
+  });
+
+  describe('build', () => {
+    it('returns only the markdown text block by default', () => {
+      const markdown = jest.fn(() => '# Market News Summary');
+      const result = ToolOutput.build('markdown', { ...options, markdown });
+
+      expect(result.content).toEqual([{ type: 'text', text: '# Market News Summary' }]);
+      expect(markdown).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns a JSON resource without rendering markdown in json mode', () => {
+      const markdown = jest.fn(() => '# Market News Summary');
+      const result = ToolOutput.build('json', { ...options, markdown });
+
+      expect(markdown).not.toHaveBeenCalled();
+      expect(result.content).toHaveLength(1);
+      expect(result.content[0]).toMatchObject({
+        type: 'resource',
+        resource: { uri: 'market-analysis://output/get_market_news', mimeType: 'application/json' }
+      });
+
+      const envelope = JSON.parse(result.content[0].resource.text);
+      expect(envelope).toMatchObject({
+        $schema: 'market-analysis://schemas/market-items',
+        tool: 'get_market_news',
+        data: items,
+        metadata: {
+          cached: true,
+          errors: [{ source: 'email', message: 'Gmail service disabled' }],
+          timeframe: '24h'
+        }
+      });
+    });
+
+    it('returns markdown followed by JSON in both mode', () => {
+      const result = ToolOutput.build('both', { ...options, markdown: () => 'text' });
+
+      expect(result.content.map((block: any) => block.type)).toEqual(['text', 'resource']);
+    });
+
+    it('defaults the cache flag and errors when a tool does not report them', () => {
+      const result = ToolOutput.build('json', { tool: 'x', schema: 'market-items', data: [], markdown: () => '' });
+      const envelope = JSON.parse(result.content[0].resource.text);
+
+      expect(envelope.metadata).toEqual({ cached: false, errors: [], sources: [] });
+    });
+
+    it('appends a data completeness footer and lists the source outcomes in the metadata', () => {
+      const sourceOutcomes = [
+        { source: 'Reuters API', sourceType: 'news' as const, status: 'ok' as const, itemCount: 12, latencyMs: 340 },
+        {
+          source: 'CNBC RSS',
+          sourceType: 'news' as const,
+          status: 'timeout' as const,
+          itemCount: 0,
+          latencyMs: 20000,
+          error: 'No response within the 20000 ms source timeout'
+        }
+      ];
+      const result = ToolOutput.build('both', { ...options, sourceOutcomes, markdown: () => '# Market News Summary' });
+
+      expect(result.content[0].text).toBe([
+        '# Market News Summary',
+        '',
+        '---',
+        '',
+        '**Data completeness**: 1 of 2 sources answered',
+        '',
+        '- ✅ **Reuters API**: ok, 12 items (340 ms)',
+        '- ⏱️ **CNBC RSS**: timed out, 0 items (20000 ms) - No response within the 20000 ms source timeout'
+      ].join('\n'));
+      expect(JSON.parse(result.content[1].resource.text).metadata.sources).toEqual(sourceOutcomes);
+    });
+  });
+
+  describe('published schemas', () => {
+    it('describes the envelope and payload for every schema name', () => {
+      OUTPUT_SCHEMA_NAMES.forEach(name => {
+        const schema = getOutputSchema(name) as any;
+
+        expect(schema.$id).toBe(`market-analysis://schemas/${name}`);
+        expect(schema.required).toEqual(['$schema', 'tool', 'generatedAt', 'data', 'metadata']);
+        expect(schema.properties.data).toBeDefined();
+        expect(schema.definitions.marketDataItem.required).toContain('relevanceScore');
+      });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { CacheManager } from '../../../src/utils/cache';
+import { MarketDataItem } from '../../../src/types/marketData';
+
+describe('CacheManager item store', () => {
+  let cache: CacheManager;
+
+  const createItem = (overrides: Partial<MarketDataItem> = {}): MarketDataItem => ({
+    id: 'item-1',
+    source: 'news',
+    sourceDetails: { name: 'Reuters API', url: 'https://example.com/fed' },
+    timestamp: new Date().toISOString(),
+    title: 'Fed Holds Interest Rates Steady',
+    content: 'The Federal Reserve left interest rates unchanged and signalled patience.',
+    summary: 'Fed holds rates',
+    relevanceScore: 0,
+    marketTags: ['fed'],
+    symbols: [],
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('should store items and find them by keyword', async () => {
+    await cache.storeItems([
+      createItem(),
+      createItem({ id: 'item-2', title: 'Nvidia Earnings Beat', content: 'Record data center revenue.', marketTags: ['earnings'], symbols: ['NVDA'] })
+    ]);
+
+    const results = await cache.searchMarketData('earnings');
+
+    expect(results.map(item => item.id)).toEqual(['item-2']);
+    expect(results[0].symbols).toEqual(['NVDA']);
+  });
+
+  it('should update an item in place when it is collected again', async () => {
+    await cache.storeItems([createItem()]);
+    await cache.storeItems([createItem({ title: 'Fed Cuts Interest Rates' })]);
+
+    expect(await cache.countItems()).toBe(1);
+    expect(await cache.searchMarketData('holds')).toHaveLength(0);
+    expect((await cache.searchMarketData('cuts'))[0].title).toBe('Fed Cuts Interest Rates');
+  });
+
+  it('should support phrases, boolean operators and exclusions', async () => {
+    await cache.storeItems([
+      createItem(),
+      createItem({ id: 'item-2', title: 'Oil Prices Slide', content: 'Crude fell as interest in OPEC cuts faded.', marketTags: [] })
+    ]);
+
+    expect((await cache.searchMarketData('"interest rates"')).map(item => item.id)).toEqual(['item-1']);
+    expect(await cache.searchMarketData('fed OR crude')).toHaveLength(2);
+    expect((await cache.searchMarketData('interest -fed')).map(item => item.id)).toEqual(['item-2']);
+  });
+
+  it('should rank title matches above body matches', async () => {
+    await cache.storeItems([
+      createItem({ id: 'body', title: 'Markets Wrap', content: 'Investors also watched inflation data closely.' }),
+      createItem({ id: 'title', title: 'Inflation Cools in September', content: 'Consumer prices rose less than expected.' })
+    ]);
+
+    const results = await cache.searchMarketData('inflation');
+
+    expect(results.map(item => item.id)).toEqual(['title', 'body']);
+  });
+
+  it('should filter by source and time window', async () => {
+    const lastMonth = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    await cache.storeItems([
+      createItem(),
+      createItem({ id: 'old', timestamp: lastMonth }),
+      createItem({ id: 'email', source: 'email', sourceDetails: { name: 'Gmail' } })
+    ]);
+
+    const recentNews = await cache.searchMarketData('fed', {
+      sources: ['news'],
+      since: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+    });
+
+    expect(recentNews.map(item => item.id)).toEqual(['item-1']);
+  });
+
+  it('should keep the original error when the rollback also fails', async () => {
+    const run = (cache as any).run.bind(cache);
+    jest.spyOn(cache as any, 'run').mockImplementation((...args: unknown[]) => {
+      const sql = args[0] as string;
+      if (sql === 'ROLLBACK') return Promise.reject(new Error('cannot rollback - no transaction is active'));
+      return run(...args);
+    });
+
+    await expect(cache.storeItems([createItem({ marketTags: undefined as unknown as string[] })]))
+      .rejects.toThrow(TypeError);
+  });
+
+  it('should not let other writes join a failing item transaction', async () => {
+    const run = (cache as any).run.bind(cache);
+    let saved: Promise<void> | undefined;
+    jest.spyOn(cache as any, 'run').mockImplementation((...args: unknown[]) => {
+      const result = run(...args);
+      // Save poll state while the item transaction is open
+      if (args[0] === 'BEGIN') {
+        saved = cache.saveFetchState({ sourceKey: 'news-CNBC', url: 'https://example.com/rss', updatedAt: '2024-03-15T12:00:00.000Z' });
+      }
+      return result;
+    });
+
+    await expect(cache.storeItems([
+      createItem(),
+      createItem({ id: 'item-2', marketTags: undefined as unknown as string[] })
+    ])).rejects.toThrow(TypeError);
+    await saved;
+
+    expect(await cache.countItems()).toBe(0);
+    expect(await cache.getFetchState('news-CNBC')).toMatchObject({ url: 'https://example.com/rss' });
+  });
+
+  it('should return no results for queries without searchable terms', async () => {
+    await cache.storeItems([createItem()]);
+
+    expect(await cache.searchMarketData('NOT fed')).toEqual([]);
+  });
+});
+
+describe('CacheManager fetch state', () => {
+  it('keeps one poll state per source', async () => {
+    const cache = new CacheManager(':memory:');
+    await cache.initializeDatabase();
+
+    await cache.saveFetchState({ sourceKey: 'news-CNBC', url: 'https://example.com/rss', etag: '"v1"', updatedAt: '2024-03-15T12:00:00.000Z' });
+    await cache.saveFetchState({ sourceKey: 'news-CNBC', url: 'https://example.com/rss', etag: '"v2"', updatedAt: '2024-03-15T13:00:00.000Z' });
+
+    expect(await cache.getFetchState('news-CNBC')).toMatchObject({ etag: '"v2"' });
+    expect(await cache.getFetchState('news-Other')).toBeUndefined();
+    await cache.close();
+  });
+});
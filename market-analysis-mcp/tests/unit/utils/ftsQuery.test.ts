@@ -0,0 +1,30 @@
+import { FtsQuery } from '../../../src/utils/ftsQuery';
+
+describe('FtsQuery', () => {
+  it('should join bare terms with AND', () => {
+    expect(FtsQuery.parse('fed rates')).toEqual({ match: '("fed" AND "rates")', terms: ['fed', 'rates'] });
+  });
+
+  it('should keep quoted phrases together', () => {
+    expect(FtsQuery.parse('"rate cut" powell')?.match).toBe('("rate cut" AND "powell")');
+  });
+
+  it('should honour OR, NOT and -exclusions', () => {
+    expect(FtsQuery.parse('fed OR ecb NOT crypto -bitcoin')?.match)
+      .toBe('("fed" OR "ecb") NOT "crypto" NOT "bitcoin"');
+  });
+
+  it('should support prefix matching', () => {
+    expect(FtsQuery.parse('earn*')?.match).toBe('"earn"*');
+  });
+
+  it('should quote terms so FTS5 syntax cannot be injected', () => {
+    expect(FtsQuery.parse('title:secret NEAR(a b)')?.match).toBe('("title secret" AND "NEAR a" AND "b")');
+  });
+
+  it('should return null when nothing positive remains', () => {
+    expect(FtsQuery.parse('')).toBeNull();
+    expect(FtsQuery.parse('-fed')).toBeNull();
+    expect(FtsQuery.parse('AND OR')).toBeNull();
+  });
+});